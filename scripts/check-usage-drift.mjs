@@ -0,0 +1,267 @@
+// Concurrency harness for usage accounting against a local Supabase stack.
+//
+// Fires parallel requests for one throwaway user and verifies that the
+// counters on users / usage_tracking match exactly what was sent:
+//   1. parallel reserve_usage + commit_usage calls -> no lost increments
+//   2. parallel reservations against a small daily limit -> exactly `limit` allowed
+//   3. parallel reservations against a small token budget -> never more reserved than remains
+//   4. (optional, --edge) parallel chat-completion requests -> counters match
+//      the usage reported in each `done` event
+//
+// Usage:
+//   supabase start && supabase db reset
+//   SUPABASE_SERVICE_ROLE_KEY=... SUPABASE_ANON_KEY=... node scripts/check-usage-drift.mjs [--edge]
+//
+// Optional env: SUPABASE_URL (default http://127.0.0.1:54321), DRIFT_CONCURRENCY (default 25),
+// DRIFT_EDGE_MODEL (default gpt-4o-mini, needs the provider key set for the local functions)
+
+import { createClient } from '@supabase/supabase-js'
+
+const SUPABASE_URL = process.env.SUPABASE_URL || 'http://127.0.0.1:54321'
+const SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
+const ANON_KEY = process.env.SUPABASE_ANON_KEY
+const CONCURRENCY = Number(process.env.DRIFT_CONCURRENCY || 25)
+const EDGE_MODEL = process.env.DRIFT_EDGE_MODEL || 'gpt-4o-mini'
+const RUN_EDGE = process.argv.includes('--edge')
+
+if (!SERVICE_ROLE_KEY || !ANON_KEY) {
+  console.error('❌ SUPABASE_SERVICE_ROLE_KEY and SUPABASE_ANON_KEY are required (see `supabase status`)')
+  process.exit(1)
+}
+
+const admin = createClient(SUPABASE_URL, SERVICE_ROLE_KEY, {
+  auth: { persistSession: false, autoRefreshToken: false }
+})
+
+let failures = 0
+
+function check(label, actual, expected) {
+  if (actual === expected) {
+    console.log(`✅ ${label}: ${actual}`)
+  } else {
+    failures++
+    console.error(`❌ ${label}: expected ${expected}, got ${actual}`)
+  }
+}
+
+async function readCounters(userId) {
+  const today = new Date().toISOString().split('T')[0]
+
+  const { data: user, error: userError } = await admin
+    .from('users')
+    .select('monthly_tokens_used, daily_messages_sent, monthly_tokens_reserved')
+    .eq('id', userId)
+    .single()
+  if (userError) throw new Error(`Failed to read user counters: ${userError.message}`)
+
+  const { data: tracking, error: trackingError } = await admin
+    .from('usage_tracking')
+    .select('tokens_used, messages_sent')
+    .eq('user_id', userId)
+    .eq('date', today)
+  if (trackingError) throw new Error(`Failed to read usage_tracking: ${trackingError.message}`)
+
+  return {
+    tokens: user.monthly_tokens_used || 0,
+    messages: user.daily_messages_sent || 0,
+    reserved: user.monthly_tokens_reserved || 0,
+    trackingRows: tracking.length,
+    trackingTokens: tracking.reduce((sum, row) => sum + (row.tokens_used || 0), 0),
+    trackingMessages: tracking.reduce((sum, row) => sum + (row.messages_sent || 0), 0)
+  }
+}
+
+async function rpc(name, params) {
+  const { data, error } = await admin.rpc(name, params)
+  if (error) throw new Error(`${name} failed: ${error.message}`)
+  return data
+}
+
+async function checkParallelCommits(userId) {
+  console.log(`\n🧪 ${CONCURRENCY} parallel reserve + commit calls`)
+  const before = await readCounters(userId)
+  const tokensPerRequest = 137
+
+  await Promise.all(Array.from({ length: CONCURRENCY }, async () => {
+    const reservation = await rpc('reserve_usage', {
+      p_user_id: userId,
+      p_prompt_tokens: 50,
+      p_requested_output_tokens: 0,
+      p_min_output_tokens: 0,
+      p_daily_limit: -1,
+      p_monthly_limit: 1_000_000_000
+    })
+    if (!reservation.allowed) throw new Error(`Unexpected rejection: ${reservation.reason}`)
+
+    await rpc('commit_usage', {
+      p_user_id: userId,
+      p_reserved_tokens: 50,
+      p_tokens_used: tokensPerRequest,
+      p_model: 'drift-check',
+      p_cost: 0
+    })
+  }))
+
+  const after = await readCounters(userId)
+  check('monthly_tokens_used delta', after.tokens - before.tokens, CONCURRENCY * tokensPerRequest)
+  check('daily_messages_sent delta', after.messages - before.messages, CONCURRENCY)
+  check('reserved tokens left over', after.reserved, 0)
+  check('usage_tracking rows for today', after.trackingRows, 1)
+  check('usage_tracking tokens delta', after.trackingTokens - before.trackingTokens, CONCURRENCY * tokensPerRequest)
+  check('usage_tracking messages delta', after.trackingMessages - before.trackingMessages, CONCURRENCY)
+}
+
+async function checkDailyLimit(userId) {
+  const limit = 5
+  console.log(`\n🧪 ${CONCURRENCY} parallel reservations against a daily limit of ${limit}`)
+
+  await admin.from('users').update({ daily_messages_sent: 0 }).eq('id', userId)
+
+  const results = await Promise.all(Array.from({ length: CONCURRENCY }, () => rpc('reserve_usage', {
+    p_user_id: userId,
+    p_prompt_tokens: 10,
+    p_requested_output_tokens: 0,
+    p_min_output_tokens: 0,
+    p_daily_limit: limit,
+    p_monthly_limit: 1_000_000_000
+  })))
+
+  const allowed = results.filter(result => result.allowed).length
+  check('reservations allowed', allowed, limit)
+
+  await Promise.all(Array.from({ length: allowed }, () => rpc('release_usage', {
+    p_user_id: userId,
+    p_reserved_tokens: 10
+  })))
+
+  const after = await readCounters(userId)
+  check('daily_messages_sent after release', after.messages, 0)
+  check('reserved tokens after release', after.reserved, 0)
+}
+
+async function checkTokenBudget(userId) {
+  const budget = 1000
+  console.log(`\n🧪 ${CONCURRENCY} parallel reservations against ${budget} remaining tokens`)
+
+  const before = await readCounters(userId)
+  const results = await Promise.all(Array.from({ length: CONCURRENCY }, () => rpc('reserve_usage', {
+    p_user_id: userId,
+    p_prompt_tokens: 100,
+    p_requested_output_tokens: 400,
+    p_min_output_tokens: 100,
+    p_daily_limit: -1,
+    p_monthly_limit: before.tokens + budget
+  })))
+
+  const granted = results.filter(result => result.allowed)
+  const reservedTotal = granted.reduce((sum, result) => sum + result.reservation, 0)
+  check('tokens reserved across parallel requests', reservedTotal, budget)
+  check('requests granted', granted.length, 2)
+
+  await Promise.all(granted.map(result => rpc('release_usage', {
+    p_user_id: userId,
+    p_reserved_tokens: result.reservation
+  })))
+
+  const after = await readCounters(userId)
+  check('reserved tokens after release', after.reserved, 0)
+}
+
+async function sendChat(accessToken, conversationId) {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/chat-completion`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'apikey': ANON_KEY,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: EDGE_MODEL,
+      conversation_id: conversationId,
+      messages: [{ role: 'user', content: 'Reply with the single word: ok' }],
+      stream: true,
+      max_tokens: 16
+    })
+  })
+
+  if (!response.ok) {
+    return { status: response.status, tokens: 0 }
+  }
+
+  const body = await response.text()
+  for (const line of body.split('\n')) {
+    if (!line.startsWith('data: ')) continue
+    const event = JSON.parse(line.slice(6))
+    if (event.type === 'done') return { status: 200, tokens: event.usage?.total_tokens || 0 }
+    if (event.type === 'error') return { status: 500, tokens: 0 }
+  }
+  return { status: 500, tokens: 0 }
+}
+
+async function checkEdgeFunction(userId, accessToken) {
+  console.log(`\n🧪 ${CONCURRENCY} parallel chat-completion requests (${EDGE_MODEL})`)
+  const before = await readCounters(userId)
+
+  const results = await Promise.all(
+    Array.from({ length: CONCURRENCY }, () => sendChat(accessToken, crypto.randomUUID()))
+  )
+
+  const completed = results.filter(result => result.status === 200)
+  const after = await readCounters(userId)
+
+  console.log('📊 Responses:', results.reduce((counts, result) => {
+    counts[result.status] = (counts[result.status] || 0) + 1
+    return counts
+  }, {}))
+
+  check('daily_messages_sent delta', after.messages - before.messages, completed.length)
+  check('monthly_tokens_used delta', after.tokens - before.tokens, completed.reduce((sum, result) => sum + result.tokens, 0))
+  check('usage_tracking messages delta', after.trackingMessages - before.trackingMessages, completed.length)
+  check('reserved tokens left over', after.reserved, 0)
+}
+
+async function main() {
+  const email = `drift-${Date.now()}@example.com`
+  const password = `drift-${crypto.randomUUID()}`
+
+  console.log('👤 Creating throwaway user:', email)
+  const { data: created, error: createError } = await admin.auth.admin.createUser({
+    email,
+    password,
+    email_confirm: true
+  })
+  if (createError) throw new Error(`Failed to create user: ${createError.message}`)
+  const userId = created.user.id
+
+  try {
+    await checkParallelCommits(userId)
+    await checkDailyLimit(userId)
+    await checkTokenBudget(userId)
+
+    if (RUN_EDGE) {
+      // Pro tier so the request count is not capped by the free daily limit
+      const { data: proTier } = await admin.from('subscription_tiers').select('id').eq('tier_name', 'pro').single()
+      await admin.from('users').update({ tier_id: proTier.id }).eq('id', userId)
+
+      const client = createClient(SUPABASE_URL, ANON_KEY, { auth: { persistSession: false } })
+      const { data: session, error: signInError } = await client.auth.signInWithPassword({ email, password })
+      if (signInError) throw new Error(`Failed to sign in: ${signInError.message}`)
+
+      await checkEdgeFunction(userId, session.session.access_token)
+    }
+  } finally {
+    await admin.auth.admin.deleteUser(userId)
+    console.log('\n🧹 Removed throwaway user')
+  }
+
+  if (failures > 0) {
+    console.error(`\n💥 ${failures} check(s) failed`)
+    process.exit(1)
+  }
+  console.log('\n🎉 No drift detected')
+}
+
+main().catch(error => {
+  console.error('💥 Drift check crashed:', error)
+  process.exit(1)
+})
@@ -4,15 +4,24 @@ import { MessageBubble } from './MessageBubble'
 import { MessageInput } from './MessageInput'
 import { StreamingMessage } from './StreamingMessage'
 import { ErrorBanner } from './ErrorBanner'
+import { RateLimitBanner } from './RateLimitBanner'
+import { SystemPromptModal } from './SystemPromptModal'
+import { GenerationParametersModal } from './GenerationParametersModal'
 import { ModelSelector } from './ModelSelector'
+import { ContextIndicator } from './ContextIndicator'
+import { CompareModelPicker } from './CompareModelPicker'
+import { CompareView } from './CompareView'
 import { PromptHelper } from '../prompt-helper/PromptHelper'
-import { AIModel, StreamingState, getProviderIcon, AI_MODELS } from '../../types/chat'
-import { Sparkles, MessageSquare, Crown, ArrowRight, Clock, Wand2, ToggleLeft, ToggleRight, AlertTriangle } from 'lucide-react'
+import { AIModel, CompareColumn, CompareState, ConversationMetadata, ContextStrategy, AttachmentContentPart, GenerationParameters, MessageContentPart, MessageSource, StreamingState, ToolRound, canContinueReply, getProviderIcon } from '../../types/chat'
+import { Sparkles, MessageSquare, Crown, ArrowRight, Clock, Wand2, ToggleLeft, ToggleRight, AlertTriangle, ScrollText, SlidersHorizontal } from 'lucide-react'
 import { Logo } from '../common/Logo'
 
 import { useUsageStats } from '../../hooks/useUsageStats'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
 import { useUserProfile } from '../../hooks/useUserProfile'
 import { UsageWarningBanner } from '../usage/UsageWarningBanner'
+import { RateLimitError } from '../../lib/streamingService'
+import { getActiveBranch, getSiblings } from '../../lib/messageTree'
 
 interface SimpleConversation {
   id: string
@@ -22,25 +31,55 @@ interface SimpleConversation {
     role: 'user' | 'assistant'
     content: string
     model_used?: string | null
+    total_tokens?: number
+    cost_incurred?: number
+    response_time?: number
+    parent_message_id?: string | null
+    finish_reason?: 'stop' | 'cancelled' | 'length' | null
+    content_parts?: MessageContentPart[] | null
+    sources?: MessageSource[]
+    reasoning?: string | null
+    reasoning_tokens?: number
+    tool_rounds?: ToolRound[] | null
     created_at: string
   }>
+  active_leaf_id?: string | null
+  metadata?: ConversationMetadata
   created_at: string
   updated_at: string
 }
 
+// Stable fallback so the parameters panel does not reset its draft on every render
+const NO_PARAMETERS: GenerationParameters = {}
+
 interface ChatAreaProps {
   conversation: SimpleConversation | null
   selectedModel: AIModel
   onModelChange: (model: AIModel) => void
   onUpgradePrompt?: (requiredTier: string) => void
-  onSendMessage: (content: string) => void
+  onSendMessage: (content: string, attachments?: AttachmentContentPart[]) => void
+  onEditMessage?: (messageId: string, content: string) => void
+  onRegenerate?: (messageId: string) => void
+  onContinue?: (messageId: string) => void
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void
   streamingState: StreamingState
+  compareModels?: AIModel[] | null
+  onCompareModelsChange?: (models: AIModel[] | null) => void
+  compareState?: CompareState | null
+  onPickCompareReply?: (messageId: string) => void
   onCancelGeneration: () => void
   error: string | null
   onClearError?: () => void
+  rateLimit?: RateLimitError | null
+  onClearRateLimit?: () => void
   onRenameConversation?: (id: string, newTitle: string) => void
   onDeleteConversation?: (id: string) => void
   onExportConversation?: (id: string) => void
+  onUpdateSystemPrompt?: (id: string, systemPrompt: string) => Promise<void> | void
+  onUpdateParameters?: (id: string, parameters: GenerationParameters) => Promise<void> | void
+  onUpdateContextStrategy?: (id: string, strategy: ContextStrategy) => Promise<void> | void
+  focusMessageId?: string | null // NEW: Message to scroll to and highlight (opened from search)
+  onFocusHandled?: () => void
 }
 
 export function ChatArea({
@@ -49,26 +88,100 @@ export function ChatArea({
   onModelChange,
   onUpgradePrompt,
   onSendMessage,
+  onEditMessage,
+  onRegenerate,
+  onContinue,
+  onSwitchBranch,
   streamingState,
+  compareModels = null,
+  onCompareModelsChange,
+  compareState = null,
+  onPickCompareReply,
   onCancelGeneration,
   error,
   onClearError,
+  rateLimit,
+  onClearRateLimit,
+  onUpdateSystemPrompt,
+  onUpdateParameters,
+  onUpdateContextStrategy,
+  focusMessageId = null,
+  onFocusHandled,
 }: ChatAreaProps) {
   const { usageStats } = useUsageStats()
+  const { models: catalogModels } = useModelCatalog()
   const { profile, displayName } = useUserProfile()
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const chatContainerRef = useRef<HTMLDivElement>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   
   // FIXED: Check Pro status first, then manage mode
   const isProUser = usageStats?.tier?.tier === 'pro'
   const [isPromptHelperMode, setIsPromptHelperMode] = useState(false)
+  const [showSystemPrompt, setShowSystemPrompt] = useState(false)
+  const systemPrompt = conversation?.metadata?.system_prompt || ''
+  const [showParameters, setShowParameters] = useState(false)
+  const parameters = conversation?.metadata?.parameters
+  const hasCustomParameters = !!parameters && Object.keys(parameters).length > 0
+  const contextStrategy = conversation?.metadata?.context_strategy || 'truncate'
+  const handleContextStrategyChange = conversation && onUpdateContextStrategy
+    ? (strategy: ContextStrategy) => onUpdateContextStrategy(conversation.id, strategy)
+    : undefined
+
+  // NEW: Only the branch the user is viewing is rendered
+  const visibleMessages = conversation ? getActiveBranch(conversation.messages, conversation.active_leaf_id) : []
+  const lastMessage = visibleMessages[visibleMessages.length - 1]
+
+  // NEW: Compared replies - streaming now, or saved and waiting for one to be picked (the
+  // branch ends on a user message that already has replies, and is not being regenerated)
+  const compareColumns: CompareColumn[] = compareState?.columns || (
+    conversation && lastMessage?.role === 'user' && !streamingState.isStreaming
+      ? conversation.messages
+          .filter(message => message.role === 'assistant' && message.parent_message_id === lastMessage.id)
+          .map(message => ({
+            model: catalogModels.find(model => model.id === message.model_used) || { ...selectedModel, id: message.model_used || '', displayName: message.model_used || 'AI' },
+            content: message.content,
+            isStreaming: false,
+            messageId: message.id,
+            usage: message.total_tokens ? { prompt_tokens: 0, completion_tokens: 0, total_tokens: message.total_tokens } : undefined,
+            cost: message.cost_incurred,
+            response_time: message.response_time
+          }))
+      : []
+  )
+  const isComparing = compareColumns.some(column => column.isStreaming)
 
   // Enhanced auto-scroll for real-time streaming
   useEffect(() => {
-    if (messagesEndRef.current) {
+    if (messagesEndRef.current && !focusMessageId) {
       messagesEndRef.current.scrollIntoView({ behavior: 'smooth' })
     }
-  }, [conversation?.messages, streamingState.currentMessage])
+  }, [conversation?.messages, conversation?.active_leaf_id, streamingState.currentMessage, focusMessageId])
+
+  // NEW: Scroll to a search match once its branch is shown, and highlight it briefly
+  useEffect(() => {
+    if (!focusMessageId) {
+      return
+    }
+
+    const element = document.getElementById(`message-${focusMessageId}`)
+    if (!element) {
+      return
+    }
+
+    element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    setHighlightedMessageId(focusMessageId)
+    onFocusHandled?.()
+  }, [focusMessageId, conversation?.messages, conversation?.active_leaf_id, onFocusHandled])
+
+  useEffect(() => {
+    if (!highlightedMessageId) {
+      return
+    }
+
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500)
+    return () => clearTimeout(timer)
+  }, [highlightedMessageId])
 
   const isLatest2025Model = selectedModel.id.includes('4.1') || selectedModel.id.includes('o3') || selectedModel.id.includes('o4')
 
@@ -77,8 +190,8 @@ export function ChatArea({
 
   // Get available models for Pro users
   const getAvailableModels = () => {
-    if (!usageStats) return AI_MODELS
-    return AI_MODELS.filter(model => 
+    if (!usageStats) return catalogModels
+    return catalogModels.filter(model => 
       usageStats.tier.allowed_models.includes(model.id)
     )
   }
@@ -189,8 +302,8 @@ export function ChatArea({
     </div>
   )
 
-  const hasMessages = conversation?.messages && conversation.messages.length > 0
-  const hasStreamingMessage = streamingState.isStreaming && streamingState.currentMessage.length > 0
+  const hasMessages = visibleMessages.length > 0
+  const hasStreamingMessage = streamingState.isStreaming && (streamingState.currentMessage.length > 0 || !!streamingState.currentThinking || !!streamingState.currentToolCalls?.length)
 
   return (
     <div className="flex-1 flex flex-col h-full bg-white overflow-hidden">
@@ -220,8 +333,53 @@ export function ChatArea({
             </div>
             
             <div className="flex items-center space-x-4 text-xs text-gray-500 font-medium">
+              {/* NEW: Per-conversation system prompt */}
+              {conversation && onUpdateSystemPrompt && (
+                <button
+                  onClick={() => setShowSystemPrompt(true)}
+                  className={`flex items-center space-x-1 transition-colors ${
+                    systemPrompt ? 'text-purple-600 hover:text-purple-700' : 'hover:text-gray-700'
+                  }`}
+                  title={systemPrompt || 'Set a system prompt for this conversation'}
+                >
+                  <ScrollText className="w-3.5 h-3.5" />
+                  <span>{systemPrompt ? 'System prompt' : 'Add system prompt'}</span>
+                </button>
+              )}
+              {/* NEW: Compare mode */}
+              {onCompareModelsChange && (
+                <CompareModelPicker
+                  selectedModel={selectedModel}
+                  availableModels={getAvailableModels()}
+                  compareModels={compareModels}
+                  onChange={onCompareModelsChange}
+                />
+              )}
+              {/* NEW: Per-conversation generation parameters */}
+              {conversation && onUpdateParameters && (
+                <button
+                  onClick={() => setShowParameters(true)}
+                  className={`flex items-center space-x-1 transition-colors ${
+                    hasCustomParameters ? 'text-purple-600 hover:text-purple-700' : 'hover:text-gray-700'
+                  }`}
+                  title="Temperature, max output tokens, reasoning effort..."
+                >
+                  <SlidersHorizontal className="w-3.5 h-3.5" />
+                  <span>Parameters</span>
+                </button>
+              )}
+              {/* NEW: Context window fill and overflow strategy */}
+              {conversation && (
+                <ContextIndicator
+                  messages={visibleMessages}
+                  model={selectedModel}
+                  systemPrompt={systemPrompt}
+                  strategy={contextStrategy}
+                  onStrategyChange={handleContextStrategyChange}
+                />
+              )}
               {conversation && (
-                <span>{conversation.messages?.length || 0} messages</span>
+                <span>{visibleMessages.length} messages</span>
               )}
               {usageStats && (
                 <span className="capitalize">{usageStats.tier.tier.replace('_', ' ')} Plan</span>
@@ -235,6 +393,49 @@ export function ChatArea({
             <div className="w-12"></div>
             
             <div className="flex items-center space-x-2">
+              {conversation && onUpdateSystemPrompt && (
+                <button
+                  onClick={() => setShowSystemPrompt(true)}
+                  className={`p-2 rounded-xl border ${
+                    systemPrompt ? 'bg-purple-50 text-purple-700 border-purple-200' : 'text-gray-500 border-gray-200'
+                  }`}
+                >
+                  <ScrollText className="w-4 h-4" />
+                </button>
+              )}
+
+              {conversation && onUpdateParameters && (
+                <button
+                  onClick={() => setShowParameters(true)}
+                  className={`p-2 rounded-xl border ${
+                    hasCustomParameters ? 'bg-purple-50 text-purple-700 border-purple-200' : 'text-gray-500 border-gray-200'
+                  }`}
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+              )}
+
+              {conversation && (
+                <ContextIndicator
+                  messages={visibleMessages}
+                  model={selectedModel}
+                  systemPrompt={systemPrompt}
+                  strategy={contextStrategy}
+                  onStrategyChange={handleContextStrategyChange}
+                  compact={true}
+                />
+              )}
+
+              {onCompareModelsChange && (
+                <CompareModelPicker
+                  selectedModel={selectedModel}
+                  availableModels={getAvailableModels()}
+                  compareModels={compareModels}
+                  onChange={onCompareModelsChange}
+                  compact={true}
+                />
+              )}
+
               {/* MINIMAL: Mobile prompt helper toggle */}
               {isProUser && (
                 <button
@@ -258,7 +459,15 @@ export function ChatArea({
       
       {/* Notifications without extra spacing */}
       <div className="relative z-30 flex-shrink-0">
-        {error && (
+        {rateLimit ? (
+          <div className="px-4 pb-2">
+            <RateLimitBanner
+              rateLimit={rateLimit}
+              onExpire={onClearRateLimit || (() => {})}
+              onDismiss={onClearRateLimit || (() => {})}
+            />
+          </div>
+        ) : error && (
           <div className="px-4 pb-2">
             <ErrorBanner
               message={error}
@@ -346,16 +555,54 @@ export function ChatArea({
         {!hasMessages && !hasStreamingMessage ? renderEmptyState() : (
           <div className="flex-1 overflow-y-auto px-4 py-4 pb-32">
             <div className="max-w-4xl mx-auto space-y-6">
-              {conversation?.messages?.map((message, index) => (
-                <MessageBubble 
-                  key={message.id} 
-                  message={message} 
-                />
-              )) || []}
+              {visibleMessages.map((message) => {
+                const siblings = getSiblings(conversation?.messages || [], message)
+                const isActionableReply = !streamingState.isStreaming &&
+                  message.role === 'assistant' &&
+                  message.id === lastMessage?.id &&
+                  !!message.parent_message_id
+
+                return (
+                  <div
+                    key={message.id}
+                    id={`message-${message.id}`}
+                    className={`rounded-2xl transition-shadow duration-500 ${
+                      highlightedMessageId === message.id ? 'ring-2 ring-purple-300 ring-offset-4' : ''
+                    }`}
+                  >
+                    <MessageBubble 
+                      message={message} 
+                      branch={siblings.length > 1
+                        ? { index: siblings.findIndex(sibling => sibling.id === message.id), total: siblings.length }
+                        : undefined}
+                      onSwitchBranch={onSwitchBranch && !streamingState.isStreaming
+                        ? (direction) => onSwitchBranch(message.id, direction)
+                        : undefined}
+                      onRegenerate={onRegenerate && isActionableReply ? () => onRegenerate(message.id) : undefined}
+                      onContinue={onContinue && isActionableReply && canContinueReply(message)
+                        ? () => onContinue(message.id)
+                        : undefined}
+                      onEdit={onEditMessage && message.role === 'user' && !streamingState.isStreaming
+                        ? (content) => onEditMessage(message.id, content)
+                        : undefined}
+                    />
+                  </div>
+                )
+              })}
               
-              {streamingState.isStreaming && streamingState.currentMessage && (
+              {compareColumns.length > 0 && (
+                <CompareView
+                  columns={compareColumns}
+                  onPick={onPickCompareReply}
+                  onCancel={onCancelGeneration}
+                />
+              )}
+
+              {hasStreamingMessage && (
                 <StreamingMessage
                   content={streamingState.currentMessage}
+                  thinking={streamingState.currentThinking}
+                  toolCalls={streamingState.currentToolCalls}
                   model={selectedModel}
                   onCancel={onCancelGeneration}
                   error={error}
@@ -373,13 +620,33 @@ export function ChatArea({
             <MessageInput 
               onSendMessage={onSendMessage}
               selectedModel={selectedModel}
-              disabled={false}
-              isStreaming={streamingState.isStreaming}
+              disabled={compareColumns.length > 0 && !isComparing}
+              disabledReason="Pick a reply above to continue"
+              isStreaming={streamingState.isStreaming || isComparing}
               usageStats={usageStats}
             />
           </div>
         </div>
       </div>
+
+      {conversation && onUpdateSystemPrompt && (
+        <SystemPromptModal
+          isOpen={showSystemPrompt}
+          systemPrompt={systemPrompt}
+          onClose={() => setShowSystemPrompt(false)}
+          onSave={(prompt) => onUpdateSystemPrompt(conversation.id, prompt)}
+        />
+      )}
+
+      {conversation && onUpdateParameters && (
+        <GenerationParametersModal
+          isOpen={showParameters}
+          model={selectedModel}
+          parameters={parameters || NO_PARAMETERS}
+          onClose={() => setShowParameters(false)}
+          onSave={(updated) => onUpdateParameters(conversation.id, updated)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
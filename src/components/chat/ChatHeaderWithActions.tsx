@@ -1,8 +1,9 @@
 // Enhanced chat header with conversation management actions
 import React, { useState } from 'react'
-import { MoreHorizontal, Zap, Edit3, Trash2, Download } from 'lucide-react'
+import { MoreHorizontal, Zap, Edit3, Trash2, Download, ScrollText } from 'lucide-react'
 import { Conversation, AIModel } from '../../types/chat'
 import { ModelSelector } from './ModelSelector'
+import { SystemPromptModal } from './SystemPromptModal'
 
 interface ChatHeaderWithActionsProps {
   conversation: Conversation | null
@@ -11,6 +12,7 @@ interface ChatHeaderWithActionsProps {
   onRenameConversation?: (id: string, newTitle: string) => void
   onDeleteConversation?: (id: string) => void
   onExportConversation?: (id: string) => void
+  onUpdateSystemPrompt?: (id: string, systemPrompt: string) => Promise<void> | void
 }
 
 export function ChatHeaderWithActions({ 
@@ -19,9 +21,12 @@ export function ChatHeaderWithActions({
   onModelChange,
   onRenameConversation,
   onDeleteConversation,
-  onExportConversation
+  onExportConversation,
+  onUpdateSystemPrompt
 }: ChatHeaderWithActionsProps) {
   const [showActions, setShowActions] = useState(false)
+  const [showSystemPrompt, setShowSystemPrompt] = useState(false)
+  const systemPrompt = conversation?.metadata?.system_prompt || ''
   const [isRenaming, setIsRenaming] = useState(false)
   const [newTitle, setNewTitle] = useState(conversation?.title || '')
 
@@ -92,6 +97,17 @@ export function ChatHeaderWithActions({
                 </div>
               )}
 
+              {systemPrompt && onUpdateSystemPrompt && (
+                <button
+                  onClick={() => setShowSystemPrompt(true)}
+                  className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700"
+                  title={systemPrompt}
+                >
+                  <ScrollText className="w-3 h-3" />
+                  <span>System prompt</span>
+                </button>
+              )}
+
               {conversation.model_history && conversation.model_history.length > 1 && (
                 <div className="text-sm text-gray-500">
                   {conversation.model_history.length} models used
@@ -137,6 +153,19 @@ export function ChatHeaderWithActions({
                       </button>
                     )}
 
+                    {onUpdateSystemPrompt && (
+                      <button
+                        onClick={() => {
+                          setShowSystemPrompt(true)
+                          setShowActions(false)
+                        }}
+                        className="w-full flex items-center space-x-2 px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        <ScrollText className="w-3 h-3" />
+                        <span>System prompt</span>
+                      </button>
+                    )}
+
                     {onExportConversation && (
                       <button
                         onClick={() => {
@@ -173,6 +202,15 @@ export function ChatHeaderWithActions({
           )}
         </div>
       </div>
+
+      {conversation && onUpdateSystemPrompt && (
+        <SystemPromptModal
+          isOpen={showSystemPrompt}
+          systemPrompt={systemPrompt}
+          onClose={() => setShowSystemPrompt(false)}
+          onSave={(prompt) => onUpdateSystemPrompt(conversation.id, prompt)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
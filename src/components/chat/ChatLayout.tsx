@@ -3,22 +3,38 @@ import { Sidebar } from './Sidebar'
 import { ChatArea } from './ChatArea'
 import { ProfileSettingsPage } from './ProfileSettingsPage'
 import { PricingPlansPage } from './PricingPlansPage'
+import { UsageAnalyticsPage } from './UsageAnalyticsPage'
+import { ProjectDraft, ProjectSettingsModal } from './ProjectSettingsModal'
 import { LimitExceededModal, UsageLimitError } from '../usage/LimitExceededModal'
 import { useAuth } from '../../hooks/useAuth'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
 import { databaseService } from '../../lib/databaseService'
-import { AI_MODELS, AIModel, Message, StreamingState, TokenUsage, getDefaultModel } from '../../types/chat'
-import { streamingService } from '../../lib/streamingService'
+import { AIModel, CompareColumn, CompareState, CompletionDetails, AttachmentContentPart, ConversationMetadata, MIN_COMPARE_MODELS, Message, MessageContentPart, Project, StreamingCallbacks, StreamingState, Tag, TagColor, TokenUsage, ToolCallStep, canContinueReply, getDefaultModel } from '../../types/chat'
+import { BranchOptions, RateLimitError, StreamingService, streamingService } from '../../lib/streamingService'
+import { getActiveBranch, getBranchLeaf, getSiblings } from '../../lib/messageTree'
 
 interface ConversationState {
   id: string
   title: string
   messages: Message[]
+  active_leaf_id?: string | null
+  metadata?: ConversationMetadata
+  project_id?: string | null
+  is_archived?: boolean
+  is_pinned?: boolean
+  tag_ids?: string[]
   created_at: string
   updated_at: string
 }
 
+// A tool step arrives when the call starts and again with its result
+const upsertToolStep = (steps: ToolCallStep[] = [], step: ToolCallStep): ToolCallStep[] =>
+  steps.some(existing => existing.id === step.id)
+    ? steps.map(existing => (existing.id === step.id ? step : existing))
+    : [...steps, step]
+
 // CLEAR ROUTING: Define all possible page types for the application
-type CurrentPage = 'chat' | 'profile' | 'pricing'
+type CurrentPage = 'chat' | 'profile' | 'pricing' | 'analytics'
 
 /**
  * ROUTING DOCUMENTATION:
@@ -40,10 +56,14 @@ type CurrentPage = 'chat' | 'profile' | 'pricing'
 
 export function ChatLayout() {
   const { user, clearInvalidSession } = useAuth()
+  const { models: catalogModels } = useModelCatalog()
   
   // PRIMARY REACT STATE
   const [conversations, setConversations] = useState<ConversationState[]>([])
   const [activeConversationId, setActiveConversationId] = useState<string | null>(null)
+  const [projects, setProjects] = useState<Project[]>([])
+  const [projectModal, setProjectModal] = useState<{ isOpen: boolean; project: Project | null }>({ isOpen: false, project: null })
+  const [tags, setTags] = useState<Tag[]>([])
   const [selectedModel, setSelectedModel] = useState<AIModel>(getDefaultModel())
   const [sidebarOpen, setSidebarOpen] = useState(false)
   const [streamingState, setStreamingState] = useState<StreamingState>({
@@ -63,6 +83,19 @@ export function ChatLayout() {
     error: UsageLimitError | null
   }>({ isOpen: false, error: null })
 
+  // NEW: Active rate limit, shown as a countdown instead of the plain error banner
+  const [rateLimit, setRateLimit] = useState<RateLimitError | null>(null)
+
+  // NEW: Compare mode - the models each prompt goes to (null when off) and the comparison in progress
+  const [compareModels, setCompareModels] = useState<AIModel[] | null>(null)
+  const [compareState, setCompareState] = useState<CompareState | null>(null)
+  const compareServicesRef = useRef<StreamingService[]>([])
+  const compareStoppedRef = useRef(false)
+  const isComparing = !!compareState?.columns.some(column => column.isStreaming)
+
+  // NEW: Message opened from sidebar search, scrolled to once its branch is shown
+  const [focusMessageId, setFocusMessageId] = useState<string | null>(null)
+
   const abortControllerRef = useRef<AbortController | null>(null)
 
   // Listen for usage limit exceeded events
@@ -81,12 +114,32 @@ export function ChatLayout() {
     }
   }, [])
 
+  // Listen for rate limit events
+  useEffect(() => {
+    const handleRateLimited = (event: CustomEvent<RateLimitError>) => {
+      console.log('🚦 Rate limited event received:', event.detail)
+      setRateLimit(event.detail)
+    }
+
+    window.addEventListener('rateLimited', handleRateLimited as EventListener)
+    return () => {
+      window.removeEventListener('rateLimited', handleRateLimited as EventListener)
+    }
+  }, [])
+
+  const clearRateLimit = useCallback(() => {
+    setRateLimit(null)
+    setError(null)
+  }, [])
+
   // CRITICAL: Load conversations from database when user authenticates
   useEffect(() => {
     const loadConversationsFromDB = async () => {
       if (!user) {
         setConversations([])
         setActiveConversationId(null)
+        setProjects([])
+        setTags([])
         return
       }
 
@@ -118,15 +171,34 @@ export function ChatLayout() {
             id: conv.id,
             title: conv.title,
             messages: conv.messages || [],
+            active_leaf_id: conv.active_leaf_id ?? null,
+            metadata: conv.metadata || {},
+            project_id: conv.project_id ?? null,
+            is_archived: conv.is_archived,
+            is_pinned: conv.is_pinned,
+            tag_ids: conv.tag_ids || [],
             created_at: conv.created_at,
             updated_at: conv.updated_at
           }))
           
           setConversations(stateConversations)
         } else {
-          console.log('📭 No conversations found (or all archived)')
+          console.log('📭 No conversations found')
           setConversations([])
         }
+
+        // NEW: Projects are secondary; the chat still works if they fail to load
+        try {
+          setProjects(await databaseService.loadProjects())
+        } catch (projectError) {
+          console.error('❌ Failed to load projects:', projectError)
+        }
+
+        try {
+          setTags(await databaseService.loadTags())
+        } catch (tagError) {
+          console.error('❌ Failed to load tags:', tagError)
+        }
       } catch (error) {
         console.error('❌ Failed to load conversations:', {
           error: error.message,
@@ -154,12 +226,17 @@ export function ChatLayout() {
   // Get active conversation from React state
   const activeConversation = conversations.find(c => c.id === activeConversationId) || null
 
+  // Latest conversations for async callbacks that outlive a render
+  const conversationsRef = useRef(conversations)
+  conversationsRef.current = conversations
+
   // Helper function to create new conversation
-  const createNewConversation = useCallback((title: string): ConversationState => {
+  const createNewConversation = useCallback((title: string, projectId: string | null = null): ConversationState => {
     const newConversation: ConversationState = {
       id: crypto.randomUUID(),
       title,
       messages: [],
+      project_id: projectId,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString()
     }
@@ -195,12 +272,44 @@ export function ChatLayout() {
     })
   }, [user, createNewConversation])
 
+  // NEW: Start a chat inside a project with the project's default model. It is saved right
+  // away so the Edge Function finds the project (and its instructions) on the first turn.
+  const handleNewProjectChat = useCallback(async (projectId: string) => {
+    if (!user) return
+
+    const project = projects.find(p => p.id === projectId)
+    const defaultModel = catalogModels.find(model => model.id === project?.settings.default_model)
+    if (defaultModel) {
+      setSelectedModel(defaultModel)
+    }
+
+    const newConversation = createNewConversation('New Chat', projectId)
+    setActiveConversationId(newConversation.id)
+    setCurrentPage('chat')
+    setSidebarOpen(false)
+    setError(null)
+    setStreamingState({
+      isStreaming: false,
+      currentMessage: '',
+      messageId: null
+    })
+
+    try {
+      await databaseService.saveConversationMetadata(newConversation)
+    } catch (error) {
+      console.error('Failed to save new project conversation:', error)
+      setError('Failed to create the conversation in this project. Please try again.')
+    }
+  }, [user, projects, catalogModels, createNewConversation])
+
   // ROUTING: Conversation selection navigation
   const handleSelectConversation = useCallback(async (id: string) => {
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
+      abortControllerRef.current = null
     }
-    streamingService.cancelStreaming()
+    // Leave the generation running server-side; it resumes when this conversation is reopened
+    streamingService.detachStreaming()
     
     console.log('🔄 Selecting conversation:', id)
     
@@ -229,6 +338,12 @@ export function ChatLayout() {
               id: dbConversation.id,
               title: dbConversation.title,
               messages: dbConversation.messages,
+              active_leaf_id: dbConversation.active_leaf_id ?? null,
+              metadata: dbConversation.metadata || {},
+              project_id: dbConversation.project_id ?? null,
+              is_archived: dbConversation.is_archived,
+              is_pinned: dbConversation.is_pinned,
+              tag_ids: dbConversation.tag_ids || [],
               created_at: dbConversation.created_at,
               updated_at: dbConversation.updated_at
             }
@@ -279,72 +394,72 @@ export function ChatLayout() {
     setSidebarOpen(false)
   }, [])
 
+  const handleUsageAnalytics = useCallback(() => {
+    setCurrentPage('analytics')
+    setSidebarOpen(false)
+  }, [])
+
   const handleBackToChat = useCallback(() => {
     setCurrentPage('chat')
   }, [])
 
-  // CRITICAL: Updated handleSendMessage to send FULL conversation history
-  const handleSendMessage = useCallback(async (content: string) => {
-    if (!user || streamingState.isStreaming) {
-      return
-    }
-
-    if (!content.trim()) {
-      return
-    }
-
-    // Create conversation if it doesn't exist
-    let targetConversation = activeConversation
-    if (!targetConversation) {
-      targetConversation = createNewConversation('New Chat')
-      setActiveConversationId(targetConversation.id)
-      
-      try {
-        await databaseService.saveConversationMetadata(targetConversation)
-      } catch (error) {
-        console.error('Failed to save new conversation:', error)
-        setError('Failed to create new conversation. Please try again.')
-        return
-      }
-    }
+  // CRITICAL: Stream one turn along a branch of the conversation.
+  // Only the turn is sent - the Edge Function rebuilds history from the branch and saves the
+  // messages; here we keep the optimistic UI in step with it. When regenerating, turn is the
+  // existing user message being answered again.
+  const runTurn = useCallback(async (
+    targetConversation: ConversationState,
+    turn: Message,
+    branch: BranchOptions
+  ) => {
+    const newUserMessage = branch.regenerate || branch.continue ? null : turn
+    const previousLeafId = targetConversation.active_leaf_id ?? null
+    const pendingLeafId = newUserMessage ? newUserMessage.id : branch.parentMessageId
 
     setError(null)
 
-    // Create user message
-    const userMessage: Message = {
-      id: crypto.randomUUID(),
-      conversation_id: targetConversation.id,
-      role: 'user',
-      content: content.trim(),
-      model_used: null,
-      created_at: new Date().toISOString()
-    }
-
-    // Add user message to UI immediately (optimistic update)
+    // Show the new user turn immediately, or hide the reply being regenerated
     setConversations(prev => 
       prev.map(conv => 
         conv.id === targetConversation.id
           ? {
               ...conv,
-              messages: [...conv.messages, userMessage],
+              messages: newUserMessage ? [...conv.messages, newUserMessage] : conv.messages,
+              active_leaf_id: pendingLeafId,
               updated_at: new Date().toISOString()
             }
           : conv
       )
     )
 
-    // Update conversation title if first message
-    if (targetConversation.messages.length === 0) {
-      const title = content.length > 50 ? content.substring(0, 50) + '...' : content
-      updateConversation(targetConversation.id, { title })
-    }
+    // Put the conversation back the way it was if the turn fails
+    const rollback = () => {
+      setConversations(prev => 
+        prev.map(conv => 
+          conv.id === targetConversation.id
+            ? {
+                ...conv,
+                messages: newUserMessage
+                  ? conv.messages.filter(message => message.id !== newUserMessage.id)
+                  : conv.messages,
+                active_leaf_id: previousLeafId,
+                updated_at: new Date().toISOString()
+              }
+            : conv
+        )
+      )
 
-    // CRITICAL: Prepare FULL conversation history for Edge Function
-    const fullConversationHistory = [...targetConversation.messages, userMessage]
+      setStreamingState({
+        isStreaming: false,
+        currentMessage: '',
+        messageId: null
+      })
+    }
 
-    console.log('📤 Sending full conversation history to Edge Function:', {
+    console.log('📤 Sending turn to Edge Function:', {
       conversationId: targetConversation.id,
-      messageCount: fullConversationHistory.length,
+      parentMessageId: branch.parentMessageId,
+      regenerate: !!branch.regenerate,
       model: selectedModel.id
     })
 
@@ -358,10 +473,9 @@ export function ChatLayout() {
     abortControllerRef.current = new AbortController()
 
     try {
-      // CRITICAL: Send FULL conversation history to Edge Function
-      // The Edge Function now handles ALL message persistence and usage tracking
+      // The Edge Function handles ALL message persistence and usage tracking
       await streamingService.sendStreamingMessage(
-        fullConversationHistory,
+        turn,
         selectedModel,
         {
           onToken: (token: string) => {
@@ -370,11 +484,23 @@ export function ChatLayout() {
               currentMessage: prev.currentMessage + token
             }))
           },
-          onComplete: (fullContent: string, usage?: TokenUsage) => {
-            // The Edge Function has already saved both messages to database
-            // We just need to update the UI state
+          onThinking: (token: string) => {
+            setStreamingState(prev => ({
+              ...prev,
+              currentThinking: (prev.currentThinking || '') + token
+            }))
+          },
+          onToolStep: (step: ToolCallStep) => {
+            setStreamingState(prev => ({
+              ...prev,
+              currentToolCalls: upsertToolStep(prev.currentToolCalls, step)
+            }))
+          },
+          onComplete: (fullContent: string, usage?: TokenUsage, details?: CompletionDetails) => {
+            // The Edge Function has already saved the turn; use its ids so later turns can branch from it
+            const userMessageId = details?.messageIds?.userMessage || pendingLeafId
             const assistantMessage: Message = {
-              id: crypto.randomUUID(),
+              id: details?.messageIds?.aiMessage || crypto.randomUUID(),
               conversation_id: targetConversation.id,
               role: 'assistant',
               content: fullContent,
@@ -382,16 +508,51 @@ export function ChatLayout() {
               input_tokens: usage?.prompt_tokens || 0,
               output_tokens: usage?.completion_tokens || 0,
               total_tokens: usage?.total_tokens || 0,
+              cost_incurred: details?.cost,
+              response_time: details?.response_time,
+              parent_message_id: userMessageId,
+              finish_reason: details?.finish_reason ?? null,
+              model_parameters: details?.parameters,
+              sources: details?.sources,
+              reasoning: details?.reasoning ?? null,
+              reasoning_tokens: usage?.reasoning_tokens || 0,
+              tool_rounds: details?.toolRounds ?? null,
               created_at: new Date().toISOString()
             }
 
-            // Add assistant message to UI
+            // A continuation replaces the stopped reply; the done event carries its full text
+            const mergeContinuation = (message: Message): Message => ({
+              ...message,
+              content: fullContent,
+              input_tokens: (message.input_tokens || 0) + (assistantMessage.input_tokens || 0),
+              output_tokens: (message.output_tokens || 0) + (assistantMessage.output_tokens || 0),
+              total_tokens: (message.total_tokens || 0) + (assistantMessage.total_tokens || 0),
+              cost_incurred: (message.cost_incurred || 0) + (assistantMessage.cost_incurred || 0),
+              response_time: (message.response_time || 0) + (assistantMessage.response_time || 0),
+              reasoning: [message.reasoning, assistantMessage.reasoning].filter(Boolean).join('\n\n') || null,
+              reasoning_tokens: (message.reasoning_tokens || 0) + (assistantMessage.reasoning_tokens || 0),
+              finish_reason: assistantMessage.finish_reason
+            })
+
+            // Add assistant message to UI and make it the tip of the branch
             setConversations(prev => 
               prev.map(conv => 
                 conv.id === targetConversation.id
                   ? {
                       ...conv,
-                      messages: [...conv.messages, assistantMessage],
+                      messages: branch.continue
+                        ? conv.messages.map(message =>
+                            message.id === turn.id ? mergeContinuation(message) : message
+                          )
+                        : [
+                            ...conv.messages.map(message =>
+                              newUserMessage && message.id === newUserMessage.id && userMessageId
+                                ? { ...message, id: userMessageId }
+                                : message
+                            ),
+                            assistantMessage
+                          ],
+                      active_leaf_id: branch.continue ? turn.id : assistantMessage.id,
                       updated_at: new Date().toISOString()
                     }
                   : conv
@@ -422,28 +583,12 @@ export function ChatLayout() {
             }
             
             setError(errorMsg)
-            
-            // Remove user message from UI if failed
-            setConversations(prev => 
-              prev.map(conv => 
-                conv.id === targetConversation.id
-                  ? {
-                      ...conv,
-                      messages: conv.messages.slice(0, -1),
-                      updated_at: new Date().toISOString()
-                    }
-                  : conv
-              )
-            )
-
-            setStreamingState({
-              isStreaming: false,
-              currentMessage: '',
-              messageId: null
-            })
+            rollback()
           }
         },
-        abortControllerRef.current.signal
+        abortControllerRef.current.signal,
+        branch,
+        targetConversation.metadata?.parameters
       )
 
     } catch (error) {
@@ -471,30 +616,587 @@ export function ChatLayout() {
       
       const errorMessage = error instanceof Error ? error.message : 'Failed to send message'
       setError(errorMessage)
+      rollback()
+    } finally {
+      abortControllerRef.current = null
+    }
+  }, [selectedModel, clearInvalidSession])
+
+  // NEW: Compare mode - one user turn answered by several models at once. The first request
+  // saves the turn; the others answer it as siblings (regenerate) once its id is known. Each
+  // request is metered on its own, and no reply becomes the branch tip until one is picked.
+  const runCompare = useCallback(async (
+    targetConversation: ConversationState,
+    turn: Message,
+    models: AIModel[]
+  ) => {
+    const conversationId = targetConversation.id
+    const previousLeafId = targetConversation.active_leaf_id ?? null
+    const parameters = targetConversation.metadata?.parameters
+    const services = models.map(() => new StreamingService())
+    const controller = new AbortController()
+    const completed = new Set<number>()
+    const errors: string[] = []
+    let userMessageId: string | null = null
+
+    compareServicesRef.current = services
+    compareStoppedRef.current = false
+    abortControllerRef.current = controller
+    setError(null)
 
-      // Remove user message from UI if failed
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === conversationId
+          ? { ...conv, messages: [...conv.messages, turn], active_leaf_id: turn.id, updated_at: new Date().toISOString() }
+          : conv
+      )
+    )
+    setCompareState({
+      conversationId,
+      userMessageId: null,
+      columns: models.map(model => ({ model, content: '', isStreaming: true }))
+    })
+
+    const updateColumn = (index: number, update: (column: CompareColumn) => Partial<CompareColumn>) => {
+      setCompareState(prev => prev && prev.conversationId === conversationId
+        ? { ...prev, columns: prev.columns.map((column, i) => (i === index ? { ...column, ...update(column) } : column)) }
+        : prev)
+    }
+
+    const callbacksFor = (index: number): StreamingCallbacks => ({
+      onToken: (token: string) => updateColumn(index, column => ({ content: column.content + token })),
+      onThinking: (token: string) => updateColumn(index, column => ({ thinking: (column.thinking || '') + token })),
+      onToolStep: (step: ToolCallStep) => updateColumn(index, column => ({ toolCalls: upsertToolStep(column.toolCalls, step) })),
+      onComplete: (fullContent: string, usage?: TokenUsage, details?: CompletionDetails) => {
+        const assistantMessage: Message = {
+          id: details?.messageIds?.aiMessage || crypto.randomUUID(),
+          conversation_id: conversationId,
+          role: 'assistant',
+          content: fullContent,
+          model_used: models[index].id,
+          input_tokens: usage?.prompt_tokens || 0,
+          output_tokens: usage?.completion_tokens || 0,
+          total_tokens: usage?.total_tokens || 0,
+          cost_incurred: details?.cost,
+          response_time: details?.response_time,
+          parent_message_id: details?.messageIds?.userMessage || userMessageId,
+          finish_reason: details?.finish_reason ?? null,
+          model_parameters: details?.parameters,
+          sources: details?.sources,
+          reasoning: details?.reasoning ?? null,
+          reasoning_tokens: usage?.reasoning_tokens || 0,
+          tool_rounds: details?.toolRounds ?? null,
+          created_at: new Date().toISOString()
+        }
+        completed.add(index)
+
+        // Replies join the tree as siblings; the branch tip stays on the user turn until one is picked
+        setConversations(prev => 
+          prev.map(conv => 
+            conv.id === conversationId
+              ? { ...conv, messages: [...conv.messages, assistantMessage], updated_at: new Date().toISOString() }
+              : conv
+          )
+        )
+        updateColumn(index, () => ({
+          content: fullContent,
+          thinking: assistantMessage.reasoning ?? undefined,
+          isStreaming: false,
+          messageId: assistantMessage.id,
+          usage,
+          cost: details?.cost,
+          response_time: details?.response_time
+        }))
+      },
+      onError: (errorMsg: string) => {
+        errors.push(errorMsg)
+        updateColumn(index, () => ({ isStreaming: false, error: errorMsg }))
+      }
+    })
+
+    console.log('⚖️ Comparing models:', { conversationId, models: models.map(model => model.id) })
+
+    try {
+      // The first model's request saves the user turn
+      let resolveSaved: (id: string | null) => void = () => {}
+      const turnSaved = new Promise<string | null>(resolve => { resolveSaved = resolve })
+      const firstCallbacks = callbacksFor(0)
+      const first = services[0].sendStreamingMessage(
+        turn,
+        models[0],
+        {
+          ...firstCallbacks,
+          onGeneration: (_generationId, savedId) => {
+            if (savedId) resolveSaved(savedId)
+          },
+          onError: (errorMsg: string) => {
+            firstCallbacks.onError(errorMsg)
+            resolveSaved(null)
+          }
+        },
+        controller.signal,
+        { parentMessageId: turn.parent_message_id ?? null, compare: true, compareModels: models.map(model => model.id) },
+        parameters
+      ).finally(() => resolveSaved(null))
+
+      userMessageId = await turnSaved
+      if (!userMessageId) {
+        await first
+        throw new Error(errors[0] || 'Failed to send message')
+      }
+
+      const savedTurn: Message = { ...turn, id: userMessageId }
       setConversations(prev => 
         prev.map(conv => 
-          conv.id === targetConversation.id
+          conv.id === conversationId
             ? {
                 ...conv,
-                messages: conv.messages.slice(0, -1),
+                messages: conv.messages.map(message => (message.id === turn.id ? savedTurn : message)),
+                active_leaf_id: userMessageId
+              }
+            : conv
+        )
+      )
+      setCompareState(prev => prev && prev.conversationId === conversationId ? { ...prev, userMessageId } : prev)
+
+      // Stopped before the others started: they are not sent at all
+      const others = models.slice(1).map((model, offset) => {
+        const index = offset + 1
+        if (compareStoppedRef.current) {
+          updateColumn(index, () => ({ isStreaming: false, error: 'Stopped before it started' }))
+          return Promise.resolve()
+        }
+        return services[index].sendStreamingMessage(
+          savedTurn,
+          model,
+          callbacksFor(index),
+          controller.signal,
+          { parentMessageId: userMessageId, regenerate: true, compare: true },
+          parameters
+        )
+      })
+
+      await Promise.all([first, ...others])
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to send message'
+      if (errorMsg.includes('refresh_token_not_found') ||
+          errorMsg.includes('Invalid Refresh Token') ||
+          errorMsg.includes('Authentication required')) {
+        clearInvalidSession()
+        setError('Authentication expired. Please sign in again.')
+      } else if (!controller.signal.aborted && !compareStoppedRef.current) {
+        setError(errorMsg)
+      }
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+      compareServicesRef.current = []
+    }
+
+    // Left for another conversation: the replies finish server-side and load with it
+    if (controller.signal.aborted) {
+      setCompareState(prev => (prev?.conversationId === conversationId ? null : prev))
+      return
+    }
+
+    // Nothing came back: put the conversation back the way it was, as a failed turn would
+    if (completed.size === 0) {
+      setConversations(prev => 
+        prev.map(conv => 
+          conv.id === conversationId
+            ? {
+                ...conv,
+                messages: conv.messages.filter(message => message.id !== turn.id && message.id !== userMessageId),
+                active_leaf_id: previousLeafId,
                 updated_at: new Date().toISOString()
               }
             : conv
         )
       )
+      setCompareState(prev => (prev?.conversationId === conversationId ? null : prev))
+      if (userMessageId && errors.length > 0) {
+        setError(errors[0])
+      }
+    }
+  }, [clearInvalidSession])
+
+  // NEW: Make one compared reply the tip of the branch; the others stay as its siblings
+  const handlePickCompareReply = useCallback((messageId: string) => {
+    if (!activeConversation || isComparing) {
+      return
+    }
+
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversation.id ? { ...conv, active_leaf_id: messageId } : conv
+      )
+    )
+    setCompareState(null)
+    console.log('🏆 Compared reply picked:', messageId)
+
+    databaseService.setActiveLeaf(activeConversation.id, messageId).catch(error => {
+      console.error('❌ Failed to save active branch:', error)
+    })
+  }, [activeConversation, isComparing])
+
+  // CRITICAL: Send a new message at the end of the branch being viewed
+  const handleSendMessage = useCallback(async (content: string, attachments?: AttachmentContentPart[]) => {
+    if (!user || streamingState.isStreaming || isComparing) {
+      return
+    }
+
+    if (!content.trim() && !attachments?.length) {
+      return
+    }
+
+    // Create conversation if it doesn't exist
+    let targetConversation = activeConversation
+    if (!targetConversation) {
+      targetConversation = createNewConversation('New Chat')
+      setActiveConversationId(targetConversation.id)
+      
+      try {
+        await databaseService.saveConversationMetadata(targetConversation)
+      } catch (error) {
+        console.error('Failed to save new conversation:', error)
+        setError('Failed to create new conversation. Please try again.')
+        return
+      }
+    }
+
+    const branchMessages = getActiveBranch(targetConversation.messages, targetConversation.active_leaf_id)
+    const parentId = branchMessages.length > 0 ? branchMessages[branchMessages.length - 1].id : null
+
+    // Create user message
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      conversation_id: targetConversation.id,
+      role: 'user',
+      content: content.trim(),
+      model_used: null,
+      parent_message_id: parentId,
+      // NEW: Images and documents travel as content parts next to the text
+      content_parts: attachments?.length ? [{ type: 'text', text: content.trim() }, ...attachments] : null,
+      created_at: new Date().toISOString()
+    }
+
+    // Update conversation title if first message
+    if (targetConversation.messages.length === 0 && content.trim()) {
+      const title = content.length > 50 ? content.substring(0, 50) + '...' : content
+      updateConversation(targetConversation.id, { title })
+    }
+
+    if (compareModels && compareModels.length >= MIN_COMPARE_MODELS) {
+      await runCompare(targetConversation, userMessage, compareModels)
+      return
+    }
+
+    await runTurn(targetConversation, userMessage, { parentMessageId: parentId })
+  }, [activeConversation, user, streamingState.isStreaming, isComparing, compareModels, updateConversation, createNewConversation, runTurn, runCompare])
+
+  // NEW: Edit an earlier user message and resend it as a new branch beside the original
+  const handleEditMessage = useCallback(async (messageId: string, content: string) => {
+    if (!user || !activeConversation || streamingState.isStreaming || !content.trim()) {
+      return
+    }
+
+    const original = activeConversation.messages.find(message => message.id === messageId)
+    if (!original || original.role !== 'user') {
+      return
+    }
+
+    const parentId = original.parent_message_id ?? null
+
+    // The edited version keeps the original's attachments
+    const attachments = (original.content_parts || []).filter(
+      (part: MessageContentPart): part is AttachmentContentPart => part.type !== 'text'
+    )
+
+    const userMessage: Message = {
+      id: crypto.randomUUID(),
+      conversation_id: activeConversation.id,
+      role: 'user',
+      content: content.trim(),
+      model_used: null,
+      parent_message_id: parentId,
+      content_parts: attachments.length ? [{ type: 'text', text: content.trim() }, ...attachments] : null,
+      created_at: new Date().toISOString()
+    }
+
+    await runTurn(activeConversation, userMessage, { parentMessageId: parentId })
+  }, [activeConversation, user, streamingState.isStreaming, runTurn])
+
+  // NEW: Regenerate a reply with the selected model; the original stays as a sibling
+  const handleRegenerate = useCallback(async (messageId: string) => {
+    if (!user || !activeConversation || streamingState.isStreaming) {
+      return
+    }
+
+    const original = activeConversation.messages.find(message => message.id === messageId)
+    const parentId = original?.parent_message_id
+    if (!original || original.role !== 'assistant' || !parentId) {
+      return
+    }
+
+    const userMessage = activeConversation.messages.find(message => message.id === parentId)
+    if (!userMessage) {
+      return
+    }
+
+    await runTurn(activeConversation, userMessage, { parentMessageId: parentId, regenerate: true })
+  }, [activeConversation, user, streamingState.isStreaming, runTurn])
+
+  // NEW: Continue a reply that was stopped or cut off; the new text is appended to the same message
+  const handleContinue = useCallback(async (messageId: string) => {
+    if (!user || !activeConversation || streamingState.isStreaming) {
+      return
+    }
+
+    const stoppedMessage = activeConversation.messages.find(message => message.id === messageId)
+    if (!stoppedMessage || !canContinueReply(stoppedMessage)) {
+      return
+    }
+
+    await runTurn(activeConversation, stoppedMessage, { parentMessageId: messageId, continue: true })
+  }, [activeConversation, user, streamingState.isStreaming, runTurn])
+
+  // NEW: Show another version of a message, continuing down its newest branch
+  const handleSwitchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    if (!activeConversation || streamingState.isStreaming) {
+      return
+    }
+
+    const message = activeConversation.messages.find(candidate => candidate.id === messageId)
+    if (!message) {
+      return
+    }
+
+    const siblings = getSiblings(activeConversation.messages, message)
+    const target = siblings[siblings.findIndex(sibling => sibling.id === messageId) + direction]
+    if (!target) {
+      return
+    }
+
+    const leafId = getBranchLeaf(activeConversation.messages, target.id)
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversation.id ? { ...conv, active_leaf_id: leafId } : conv
+      )
+    )
+
+    databaseService.setActiveLeaf(activeConversation.id, leafId).catch(error => {
+      console.error('❌ Failed to save active branch:', error)
+    })
+  }, [activeConversation, streamingState.isStreaming])
+
+  // NEW: Open a search result; a matching message on another branch becomes the branch viewed
+  const handleOpenSearchResult = useCallback(async (conversationId: string, messageId: string | null) => {
+    console.log('🔎 Opening search result:', { conversationId, messageId })
+    setFocusMessageId(null)
+    await handleSelectConversation(conversationId)
+    setFocusMessageId(messageId)
+  }, [handleSelectConversation])
+
+  useEffect(() => {
+    if (!focusMessageId || !activeConversation) {
+      return
+    }
+
+    // Messages may still be loading
+    if (!activeConversation.messages.some(message => message.id === focusMessageId)) {
+      return
+    }
+
+    const branch = getActiveBranch(activeConversation.messages, activeConversation.active_leaf_id)
+    if (branch.some(message => message.id === focusMessageId)) {
+      return
+    }
+
+    const leafId = getBranchLeaf(activeConversation.messages, focusMessageId)
+    setConversations(prev => 
+      prev.map(conv => 
+        conv.id === activeConversation.id ? { ...conv, active_leaf_id: leafId } : conv
+      )
+    )
+
+    databaseService.setActiveLeaf(activeConversation.id, leafId).catch(error => {
+      console.error('❌ Failed to save active branch:', error)
+    })
+  }, [focusMessageId, activeConversation])
+
+  const handleFocusHandled = useCallback(() => setFocusMessageId(null), [])
+
+  // NEW: Pick up a reply still being generated for the open conversation - after a reload,
+  // a dropped connection, switching back, or when it was started on another device
+  useEffect(() => {
+    if (!user || !activeConversationId || streamingService.isStreaming()) {
+      return
+    }
+
+    const conversationId = activeConversationId
+    const controller = new AbortController()
+
+    const resetStreaming = () => {
       setStreamingState({
         isStreaming: false,
         currentMessage: '',
         messageId: null
       })
-    } finally {
-      abortControllerRef.current = null
     }
-  }, [activeConversation, user, selectedModel, streamingState.isStreaming, updateConversation, clearInvalidSession, createNewConversation])
 
-  const handleCancelGeneration = useCallback(() => {
+    const resume = async () => {
+      const active = await databaseService.hasActiveGeneration(conversationId)
+      // A turn started from this tab in the meantime owns the stream
+      if (!active || controller.signal.aborted || abortControllerRef.current) {
+        return
+      }
+
+      abortControllerRef.current = controller
+      setStreamingState({
+        isStreaming: true,
+        currentMessage: '',
+        messageId: crypto.randomUUID()
+      })
+
+      const resumed = await streamingService.resumeStreamingMessage(
+        conversationId,
+        {
+          onToken: (token: string) => {
+            setStreamingState(prev => ({
+              ...prev,
+              currentMessage: prev.currentMessage + token
+            }))
+          },
+          onThinking: (token: string) => {
+            setStreamingState(prev => ({
+              ...prev,
+              currentThinking: (prev.currentThinking || '') + token
+            }))
+          },
+          onToolStep: (step: ToolCallStep) => {
+            setStreamingState(prev => ({
+              ...prev,
+              currentToolCalls: upsertToolStep(prev.currentToolCalls, step)
+            }))
+          },
+          onComplete: async (fullContent: string, usage?: TokenUsage, details?: CompletionDetails) => {
+            resetStreaming()
+
+            const conversation = conversationsRef.current.find(conv => conv.id === conversationId)
+            const parentId = details?.messageIds?.userMessage
+            const aiMessageId = details?.messageIds?.aiMessage
+
+            // The user turn was sent elsewhere and is not loaded here yet: reload the conversation
+            if (!conversation || !aiMessageId || !conversation.messages.some(message => message.id === parentId)) {
+              const dbConversation = (await databaseService.loadConversations()).find(conv => conv.id === conversationId)
+              if (dbConversation) {
+                setConversations(prev => 
+                  prev.map(conv => 
+                    conv.id === conversationId
+                      ? {
+                          ...conv,
+                          messages: dbConversation.messages,
+                          active_leaf_id: dbConversation.active_leaf_id ?? null
+                        }
+                      : conv
+                  )
+                )
+              }
+              return
+            }
+
+            const assistantMessage: Message = {
+              id: aiMessageId,
+              conversation_id: conversationId,
+              role: 'assistant',
+              content: fullContent,
+              model_used: details?.model || null,
+              input_tokens: usage?.prompt_tokens || 0,
+              output_tokens: usage?.completion_tokens || 0,
+              total_tokens: usage?.total_tokens || 0,
+              cost_incurred: details?.cost,
+              response_time: details?.response_time,
+              parent_message_id: parentId,
+              finish_reason: details?.finish_reason ?? null,
+              model_parameters: details?.parameters,
+              sources: details?.sources,
+              reasoning: details?.reasoning ?? null,
+              reasoning_tokens: usage?.reasoning_tokens || 0,
+              tool_rounds: details?.toolRounds ?? null,
+              created_at: new Date().toISOString()
+            }
+
+            // A resumed continuation updates the stopped reply it extends
+            setConversations(prev => 
+              prev.map(conv => 
+                conv.id === conversationId
+                  ? {
+                      ...conv,
+                      messages: conv.messages.some(message => message.id === aiMessageId)
+                        ? conv.messages.map(message =>
+                            message.id === aiMessageId
+                              ? { ...message, content: fullContent, finish_reason: assistantMessage.finish_reason }
+                              : message
+                          )
+                        : [...conv.messages, assistantMessage],
+                      active_leaf_id: assistantMessage.id,
+                      updated_at: new Date().toISOString()
+                    }
+                  : conv
+              )
+            )
+            console.log('✅ Resumed generation completed:', aiMessageId)
+          },
+          onError: (errorMsg: string) => {
+            setError(errorMsg)
+            resetStreaming()
+          }
+        },
+        controller.signal
+      )
+
+      if (!resumed) {
+        resetStreaming()
+      }
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null
+      }
+    }
+
+    resume().catch(error => {
+      console.error('❌ Failed to resume generation:', error)
+    })
+
+    return () => controller.abort()
+  }, [activeConversationId, user])
+
+  // NEW: Stopping keeps the partial reply - the Edge Function saves it as 'cancelled' and the
+  // stream ends with its done event. Only drop the stream if the stop request cannot be sent.
+  const handleCancelGeneration = useCallback(async () => {
+    // NEW: Stop every compared reply; partial replies are kept like a single stopped reply
+    const compareServices = compareServicesRef.current
+    if (compareServices.length > 0) {
+      compareStoppedRef.current = true
+      await Promise.all(compareServices.map(async (service, index) => {
+        if (!service.isStreaming() || await service.stopGeneration()) {
+          return
+        }
+        service.cancelStreaming()
+        setCompareState(prev => prev && {
+          ...prev,
+          columns: prev.columns.map((column, i) => (
+            i === index && column.isStreaming ? { ...column, isStreaming: false, error: 'Stopped' } : column
+          ))
+        })
+      }))
+      return
+    }
+
+    if (await streamingService.stopGeneration()) {
+      return
+    }
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort()
     }
@@ -540,6 +1242,157 @@ export function ChatLayout() {
     databaseService.saveConversationMetadata(conversations.find(c => c.id === id)!)
   }
   
+  /**
+   * NEW: Save per-conversation settings (system prompt, generation parameters, context strategy)
+   */
+  const handleUpdateConversationSettings = async (id: string, updates: Partial<ConversationMetadata>) => {
+    const conversation = conversations.find(c => c.id === id)
+    if (!conversation) return
+
+    const metadata = await databaseService.updateConversationMetadata(conversation, updates)
+    updateConversation(id, { metadata })
+    console.log('📝 Conversation settings updated:', { id, settings: Object.keys(updates) })
+  }
+
+  /**
+   * NEW: Move a conversation into a project, or out of any project with null
+   */
+  const handleMoveConversation = async (id: string, projectId: string | null) => {
+    const conversation = conversations.find(c => c.id === id)
+    if (!conversation) return
+
+    try {
+      await databaseService.moveConversationToProject(conversation, projectId)
+      updateConversation(id, { project_id: projectId })
+      console.log('📁 Conversation moved:', { id, projectId })
+    } catch (error) {
+      console.error('❌ Failed to move conversation:', error)
+      setError(`Failed to move conversation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * NEW: Archive a conversation (it moves to the sidebar's Archived view) or restore it
+   */
+  const handleArchiveConversation = async (id: string, isArchived: boolean) => {
+    const conversation = conversations.find(c => c.id === id)
+    if (!conversation) return
+
+    try {
+      await databaseService.setConversationArchived(conversation, isArchived)
+      setConversations(prev => prev.map(c => c.id === id ? { ...c, is_archived: isArchived } : c))
+      console.log(isArchived ? '🗄️ Conversation archived:' : '📤 Conversation unarchived:', id)
+    } catch (error) {
+      console.error('❌ Failed to archive conversation:', error)
+      setError(`Failed to ${isArchived ? 'archive' : 'unarchive'} conversation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * NEW: Pin a conversation to the top of the sidebar, or unpin it
+   */
+  const handlePinConversation = async (id: string, isPinned: boolean) => {
+    const conversation = conversations.find(c => c.id === id)
+    if (!conversation) return
+
+    try {
+      await databaseService.setConversationPinned(conversation, isPinned)
+      setConversations(prev => prev.map(c => c.id === id ? { ...c, is_pinned: isPinned } : c))
+      console.log(isPinned ? '📌 Conversation pinned:' : '📍 Conversation unpinned:', id)
+    } catch (error) {
+      console.error('❌ Failed to pin conversation:', error)
+      setError(`Failed to ${isPinned ? 'pin' : 'unpin'} conversation: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * NEW: Replace the tags of a conversation
+   */
+  const handleSetConversationTags = async (id: string, tagIds: string[]) => {
+    const conversation = conversations.find(c => c.id === id)
+    if (!conversation) return
+
+    try {
+      await databaseService.setConversationTags(conversation, tagIds)
+      setConversations(prev => prev.map(c => c.id === id ? { ...c, tag_ids: tagIds } : c))
+      console.log('🏷️ Conversation tags updated:', { id, tagIds })
+    } catch (error) {
+      console.error('❌ Failed to update conversation tags:', error)
+      setError(`Failed to update tags: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * NEW: Create, rename / recolour and delete tags; a deleted tag leaves every conversation
+   */
+  const handleCreateTag = async (name: string, color: TagColor): Promise<Tag | null> => {
+    try {
+      const tag = await databaseService.createTag(name, color)
+      setTags(prev => [...prev, tag].sort((a, b) => a.name.localeCompare(b.name)))
+      return tag
+    } catch (error) {
+      console.error('❌ Failed to create tag:', error)
+      setError(`Failed to create tag: ${error instanceof Error ? error.message : 'Unknown error'}`)
+      return null
+    }
+  }
+
+  const handleUpdateTag = async (tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>) => {
+    try {
+      await databaseService.updateTag(tagId, updates)
+      setTags(prev => prev
+        .map(tag => tag.id === tagId ? { ...tag, ...updates } : tag)
+        .sort((a, b) => a.name.localeCompare(b.name)))
+    } catch (error) {
+      console.error('❌ Failed to update tag:', error)
+      setError(`Failed to update tag: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleDeleteTag = async (tagId: string) => {
+    try {
+      await databaseService.deleteTag(tagId)
+      setTags(prev => prev.filter(tag => tag.id !== tagId))
+      setConversations(prev => prev.map(c => c.tag_ids?.includes(tagId)
+        ? { ...c, tag_ids: c.tag_ids.filter(id => id !== tagId) }
+        : c))
+      console.log('🗑️ Tag deleted:', tagId)
+    } catch (error) {
+      console.error('❌ Failed to delete tag:', error)
+      setError(`Failed to delete tag: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * NEW: Create a project, or save the one open in the project settings
+   */
+  const handleSaveProject = async (draft: ProjectDraft) => {
+    const existing = projectModal.project
+    if (existing) {
+      await databaseService.updateProject(existing.id, draft)
+      setProjects(prev => prev.map(p => p.id === existing.id ? { ...p, ...draft } : p))
+      console.log('📁 Project updated:', existing.id)
+    } else {
+      const project = await databaseService.createProject(draft.name, draft.description, draft.settings)
+      setProjects(prev => [project, ...prev])
+    }
+  }
+
+  /**
+   * NEW: Delete a project; its conversations stay, outside any project
+   */
+  const handleDeleteProject = async (projectId: string) => {
+    try {
+      await databaseService.deleteProject(projectId)
+      setProjects(prev => prev.filter(p => p.id !== projectId))
+      setConversations(prev => prev.map(c => c.project_id === projectId ? { ...c, project_id: null } : c))
+      console.log('🗑️ Project deleted:', projectId)
+    } catch (error) {
+      console.error('❌ Failed to delete project:', error)
+      setError(`Failed to delete project: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
   /**
    * Delete conversation from database and local state
    */
@@ -555,7 +1408,7 @@ export function ChatLayout() {
       
       // Handle active conversation
       if (id === activeConversationId) {
-        const remaining = conversations.filter(c => c.id !== id)
+        const remaining = conversations.filter(c => c.id !== id && !c.is_archived)
         if (remaining.length > 0) {
           setActiveConversationId(remaining[0].id)
         } else {
@@ -652,6 +1505,8 @@ export function ChatLayout() {
         return <ProfileSettingsPage onBack={handleBackToChat} />
       case 'pricing':
         return <PricingPlansPage onBack={handleBackToChat} onSelectPlan={handleSelectPlan} />
+      case 'analytics':
+        return <UsageAnalyticsPage onBack={handleBackToChat} onOpenConversation={handleSelectConversation} />
       case 'chat':
       default:
         return (
@@ -661,13 +1516,28 @@ export function ChatLayout() {
             onModelChange={handleModelChange}
             onUpgradePrompt={handleUpgradePrompt}
             onSendMessage={handleSendMessage}
+            onEditMessage={handleEditMessage}
+            onRegenerate={handleRegenerate}
+            onContinue={handleContinue}
+            onSwitchBranch={handleSwitchBranch}
             streamingState={streamingState}
+            compareModels={compareModels}
+            onCompareModelsChange={setCompareModels}
+            compareState={compareState?.conversationId === activeConversationId ? compareState : null}
+            onPickCompareReply={handlePickCompareReply}
             onCancelGeneration={handleCancelGeneration}
             error={error}
             onClearError={() => setError(null)}
+            rateLimit={rateLimit}
+            onClearRateLimit={clearRateLimit}
             onRenameConversation={handleRenameConversation}
             onDeleteConversation={handleDeleteConversation}
             onExportConversation={() => {}}
+            onUpdateSystemPrompt={(id, systemPrompt) => handleUpdateConversationSettings(id, { system_prompt: systemPrompt })}
+            onUpdateParameters={(id, parameters) => handleUpdateConversationSettings(id, { parameters })}
+            onUpdateContextStrategy={(id, strategy) => handleUpdateConversationSettings(id, { context_strategy: strategy })}
+            focusMessageId={focusMessageId}
+            onFocusHandled={handleFocusHandled}
           />
         )
     }
@@ -683,6 +1553,7 @@ export function ChatLayout() {
         onSelectConversation={handleSelectConversation}
         onProfileSettings={handleProfileSettings} // Profile handler
         onPricingPlans={handlePricingPlans} // Pricing handler
+        onUsageAnalytics={handleUsageAnalytics}
         isOpen={sidebarOpen}
         onToggle={() => setSidebarOpen(!sidebarOpen)}
         usageStats={null}
@@ -690,12 +1561,34 @@ export function ChatLayout() {
         onRenameConversation={handleRenameConversation}
         onDeleteConversation={handleDeleteConversation}
         onClearAllConversations={handleClearAllConversations}
+        projects={projects}
+        onNewProjectChat={handleNewProjectChat}
+        onCreateProject={() => setProjectModal({ isOpen: true, project: null })}
+        onEditProject={(project) => setProjectModal({ isOpen: true, project })}
+        onMoveConversation={handleMoveConversation}
+        onOpenSearchResult={handleOpenSearchResult}
+        onArchiveConversation={handleArchiveConversation}
+        onPinConversation={handlePinConversation}
+        tags={tags}
+        onSetConversationTags={handleSetConversationTags}
+        onCreateTag={handleCreateTag}
+        onUpdateTag={handleUpdateTag}
+        onDeleteTag={handleDeleteTag}
       />
       
       <div className="flex-1 flex flex-col min-w-0 h-full">
         {renderMainContent()}
       </div>
 
+      {/* NEW: Project create / settings modal */}
+      <ProjectSettingsModal
+        isOpen={projectModal.isOpen}
+        project={projectModal.project}
+        onClose={() => setProjectModal({ isOpen: false, project: null })}
+        onSave={handleSaveProject}
+        onDelete={handleDeleteProject}
+      />
+
       {/* Usage Limit Exceeded Modal */}
       {limitExceededModal.isOpen && limitExceededModal.error && (
         <LimitExceededModal
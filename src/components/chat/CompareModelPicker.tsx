@@ -0,0 +1,103 @@
+// Header control for compare mode: choose the models each prompt is sent to
+import { useState } from 'react'
+import { Columns, Check } from 'lucide-react'
+import { AIModel, MAX_COMPARE_MODELS, MIN_COMPARE_MODELS, getProviderIcon } from '../../types/chat'
+
+interface CompareModelPickerProps {
+  selectedModel: AIModel
+  availableModels: AIModel[]
+  compareModels: AIModel[] | null // null while compare mode is off
+  onChange: (models: AIModel[] | null) => void
+  compact?: boolean
+}
+
+export function CompareModelPicker({ selectedModel, availableModels, compareModels, onChange, compact = false }: CompareModelPickerProps) {
+  const [showMenu, setShowMenu] = useState(false)
+  const [draft, setDraft] = useState<AIModel[]>([])
+  const isActive = !!compareModels
+
+  const openMenu = () => {
+    setDraft(compareModels || [selectedModel])
+    setShowMenu(true)
+  }
+
+  const toggleModel = (model: AIModel) => {
+    setDraft(prev => prev.some(candidate => candidate.id === model.id)
+      ? prev.filter(candidate => candidate.id !== model.id)
+      : prev.length < MAX_COMPARE_MODELS ? [...prev, model] : prev)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (showMenu ? setShowMenu(false) : openMenu())}
+        className={compact
+          ? `p-2 rounded-xl border ${isActive ? 'bg-purple-50 text-purple-700 border-purple-200' : 'text-gray-500 border-gray-200'}`
+          : `flex items-center space-x-1 transition-colors ${isActive ? 'text-purple-600 hover:text-purple-700' : 'hover:text-gray-700'}`}
+        title="Send each prompt to several models side by side"
+      >
+        <Columns className={compact ? 'w-4 h-4' : 'w-3.5 h-3.5'} />
+        {!compact && <span>{isActive ? `Comparing ${compareModels.length}` : 'Compare'}</span>}
+      </button>
+
+      {showMenu && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
+          <div className="absolute top-full right-0 mt-2 z-20 w-72 bg-white/95 backdrop-blur-sm border border-gray-200 rounded-xl shadow-xl p-3 text-xs text-gray-600">
+            <div className="font-medium text-gray-800">Compare models</div>
+            <p className="mt-0.5 mb-2 text-gray-500">
+              Choose {MIN_COMPARE_MODELS} to {MAX_COMPARE_MODELS} models. Each reply is billed separately.
+            </p>
+
+            <div className="max-h-64 overflow-y-auto -mx-1">
+              {availableModels.map(model => {
+                const checked = draft.some(candidate => candidate.id === model.id)
+                const disabled = !checked && draft.length >= MAX_COMPARE_MODELS
+                return (
+                  <button
+                    key={model.id}
+                    onClick={() => toggleModel(model)}
+                    disabled={disabled}
+                    className="flex items-center w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50 disabled:opacity-40 disabled:hover:bg-transparent transition-colors"
+                  >
+                    <span className={`w-3.5 h-3.5 mr-2 flex items-center justify-center rounded border flex-shrink-0 ${
+                      checked ? 'bg-purple-600 border-purple-600 text-white' : 'border-gray-300'
+                    }`}>
+                      {checked && <Check className="w-2.5 h-2.5" />}
+                    </span>
+                    <span className="mr-1.5">{getProviderIcon(model.provider)}</span>
+                    <span className="text-gray-800 truncate">{model.displayName}</span>
+                  </button>
+                )
+              })}
+            </div>
+
+            <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
+              {isActive ? (
+                <button
+                  onClick={() => {
+                    onChange(null)
+                    setShowMenu(false)
+                  }}
+                  className="px-2 py-1 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+                >
+                  Turn off
+                </button>
+              ) : <span />}
+              <button
+                onClick={() => {
+                  onChange(draft)
+                  setShowMenu(false)
+                }}
+                disabled={draft.length < MIN_COMPARE_MODELS}
+                className="px-3 py-1 rounded-lg bg-purple-600 text-white hover:bg-purple-700 disabled:opacity-40 transition-colors"
+              >
+                {isActive ? 'Update' : 'Start comparing'}
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,112 @@
+// Compare mode: one prompt answered by several models, in columns, until one reply is picked
+import { Trophy, Square, AlertCircle, Clock } from 'lucide-react'
+import { CompareColumn, getProviderIcon } from '../../types/chat'
+import { marked } from 'marked'
+import { ThinkingPanel } from './ThinkingPanel'
+import { ToolCallSteps } from './ToolCallSteps'
+
+interface CompareViewProps {
+  columns: CompareColumn[]
+  onPick?: (messageId: string) => void
+  onCancel?: () => void
+}
+
+const GRID_COLUMNS: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-2 xl:grid-cols-3',
+  4: 'md:grid-cols-2 xl:grid-cols-4'
+}
+
+const formatCost = (cost: number) => {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+export function CompareView({ columns, onPick, onCancel }: CompareViewProps) {
+  const isStreaming = columns.some(column => column.isStreaming)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span className="font-medium">
+          {isStreaming
+            ? `Comparing ${columns.length} models…`
+            : 'Pick the reply to continue the conversation with; the others stay as alternatives'}
+        </span>
+        {isStreaming && onCancel && (
+          <button
+            onClick={onCancel}
+            className="flex items-center space-x-1 px-2 py-1 rounded-lg border border-gray-200 hover:bg-gray-50 transition-colors"
+          >
+            <Square className="w-3 h-3" />
+            <span>Stop all</span>
+          </button>
+        )}
+      </div>
+
+      <div className={`grid grid-cols-1 gap-3 ${GRID_COLUMNS[columns.length] || GRID_COLUMNS[4]}`}>
+        {columns.map((column, index) => (
+          <div key={`${column.model.id}-${index}`} className="flex flex-col min-w-0 bg-white border border-gray-200 rounded-2xl shadow-sm">
+            <div className="flex items-center px-3 py-2 border-b border-gray-100 text-sm">
+              <span className="mr-1.5">{getProviderIcon(column.model.provider)}</span>
+              <span className="font-medium text-gray-800 truncate">{column.model.displayName}</span>
+              {column.isStreaming && (
+                <span className="ml-auto w-2 h-2 rounded-full bg-purple-500 animate-pulse flex-shrink-0" />
+              )}
+            </div>
+
+            <div className="flex-1 px-3 py-2 text-sm text-gray-800 max-h-[32rem] overflow-y-auto">
+              {column.error ? (
+                <div className="flex items-start text-red-600">
+                  <AlertCircle className="w-4 h-4 mr-1.5 mt-0.5 flex-shrink-0" />
+                  <span>{column.error}</span>
+                </div>
+              ) : column.content || column.thinking || column.toolCalls?.length ? (
+                <>
+                  {/* Reasoning and tool steps stream into the column as they do for a single reply */}
+                  {column.thinking && (
+                    <ThinkingPanel
+                      reasoning={column.thinking}
+                      reasoningTokens={column.usage?.reasoning_tokens}
+                      isThinking={column.isStreaming && !column.content && !column.toolCalls?.length}
+                    />
+                  )}
+                  {!!column.toolCalls?.length && <ToolCallSteps steps={column.toolCalls} />}
+                  {column.content && (
+                    <div
+                      className="prose prose-sm max-w-none"
+                      dangerouslySetInnerHTML={{ __html: marked(column.content) as string }}
+                    />
+                  )}
+                </>
+              ) : (
+                <span className="text-gray-400">Waiting for the first tokens…</span>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between px-3 py-2 border-t border-gray-100 text-xs text-gray-500">
+              <span className="flex items-center space-x-1.5 min-w-0">
+                {!!column.usage?.total_tokens && <span>{column.usage.total_tokens.toLocaleString()} tokens</span>}
+                {column.cost !== undefined && <span>• {formatCost(column.cost)}</span>}
+                {!!column.response_time && (
+                  <span className="flex items-center">
+                    • <Clock className="w-3 h-3 mx-0.5" />{(column.response_time / 1000).toFixed(1)}s
+                  </span>
+                )}
+              </span>
+              {onPick && column.messageId && !isStreaming && (
+                <button
+                  onClick={() => onPick(column.messageId!)}
+                  className="flex items-center space-x-1 px-2 py-1 rounded-lg bg-purple-50 text-purple-700 border border-purple-200 hover:bg-purple-100 transition-colors flex-shrink-0"
+                >
+                  <Trophy className="w-3 h-3" />
+                  <span>Pick</span>
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+// How full the selected model's context window is with this branch, and how the
+// conversation is shortened once it no longer fits
+import { useState } from 'react'
+import { Gauge, Check } from 'lucide-react'
+import { AIModel, ContextStrategy, MessageContentPart, estimateTokens } from '../../types/chat'
+import { estimateImageTokens } from '../../lib/attachmentService'
+
+interface ContextIndicatorProps {
+  messages: Array<{ content: string; content_parts?: MessageContentPart[] | null }>
+  model: AIModel
+  systemPrompt: string
+  strategy: ContextStrategy
+  onStrategyChange?: (strategy: ContextStrategy) => void
+  compact?: boolean
+}
+
+const STRATEGIES: Array<{ id: ContextStrategy; label: string; description: string }> = [
+  { id: 'truncate', label: 'Drop oldest messages', description: 'The earliest turns are left out of the request' },
+  { id: 'summarize', label: 'Summarize older messages', description: 'The earliest turns are replaced by a running summary' }
+]
+
+// Approximates the Edge Function's count in context.ts: text / 4, documents inline, images by size
+function estimateContextTokens(messages: ContextIndicatorProps['messages'], model: AIModel, systemPrompt: string) {
+  return messages.reduce((sum, message) => {
+    const parts = message.content_parts || []
+    const documentTokens = parts.reduce((total, part) => total + (part.type === 'document' ? estimateTokens(part.text) : 0), 0)
+    const imageTokens = model.supportsVision
+      ? parts.reduce((total, part) => total + (part.type === 'image' ? estimateImageTokens(part, model) : 0), 0)
+      : 0
+    return sum + estimateTokens(message.content) + documentTokens + imageTokens + 4
+  }, estimateTokens(systemPrompt))
+}
+
+export function ContextIndicator({ messages, model, systemPrompt, strategy, onStrategyChange, compact = false }: ContextIndicatorProps) {
+  const [showMenu, setShowMenu] = useState(false)
+  const tokens = estimateContextTokens(messages, model, systemPrompt)
+  const percent = Math.round((tokens / model.maxTokens) * 100)
+  const barColor = percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-amber-500' : 'bg-purple-500'
+  const activeStrategy = STRATEGIES.find(option => option.id === strategy) || STRATEGIES[0]
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowMenu(!showMenu)}
+        className={compact
+          ? `p-2 rounded-xl border ${percent >= 90 ? 'bg-red-50 text-red-600 border-red-200' : 'text-gray-500 border-gray-200'}`
+          : 'flex items-center space-x-1.5 hover:text-gray-700 transition-colors'}
+        title={`~${tokens.toLocaleString()} of ${model.maxTokens.toLocaleString()} tokens in ${model.displayName}'s context window`}
+      >
+        <Gauge className={compact ? 'w-4 h-4' : 'w-3.5 h-3.5'} />
+        {!compact && (
+          <>
+            <span className="w-12 h-1.5 rounded-full bg-gray-200 overflow-hidden">
+              <span className={`block h-full ${barColor}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+            </span>
+            <span>{percent}%</span>
+          </>
+        )}
+      </button>
+
+      {showMenu && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setShowMenu(false)} />
+          <div className="absolute top-full right-0 mt-2 z-20 w-72 bg-white/95 backdrop-blur-sm border border-gray-200 rounded-xl shadow-xl p-3 text-xs text-gray-600">
+            <div className="flex items-center justify-between font-medium text-gray-800 mb-1.5">
+              <span>Context window</span>
+              <span>{percent}%</span>
+            </div>
+            <div className="w-full h-1.5 rounded-full bg-gray-200 overflow-hidden">
+              <div className={`h-full ${barColor}`} style={{ width: `${Math.min(percent, 100)}%` }} />
+            </div>
+            <p className="mt-1.5 text-gray-500">
+              ~{tokens.toLocaleString()} of {model.maxTokens.toLocaleString()} tokens for {model.displayName}
+            </p>
+            {percent >= 100 && (
+              <p className="mt-1.5 text-amber-700">
+                This conversation no longer fits; {activeStrategy.description.toLowerCase()}.
+              </p>
+            )}
+
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <div className="font-medium text-gray-800 mb-1.5">When the conversation is too long</div>
+              {STRATEGIES.map(option => (
+                <button
+                  key={option.id}
+                  disabled={!onStrategyChange}
+                  onClick={() => {
+                    onStrategyChange?.(option.id)
+                    setShowMenu(false)
+                  }}
+                  className="flex items-start w-full text-left px-2 py-1.5 rounded-lg hover:bg-gray-50 disabled:hover:bg-transparent transition-colors"
+                >
+                  <Check className={`w-3.5 h-3.5 mr-2 mt-0.5 flex-shrink-0 text-purple-600 ${option.id === strategy ? '' : 'invisible'}`} />
+                  <span>
+                    <span className="block text-gray-800">{option.label}</span>
+                    <span className="block text-gray-500">{option.description}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,22 +1,39 @@
 // Conversation context menu with light theme for the purple sidebar
 import React, { useState } from 'react'
-import { MoreHorizontal, Edit3, Trash2, AlertTriangle } from 'lucide-react'
-import { Conversation } from '../../types/chat'
+import { MoreHorizontal, Edit3, Trash2, AlertTriangle, FolderInput, Check, Pin, PinOff, Archive, ArchiveRestore, Tags } from 'lucide-react'
+import { Conversation, MAX_TAG_NAME_LENGTH, Project, TAG_COLOR_CLASSES, Tag, TagColor, nextTagColor } from '../../types/chat'
 
 interface ConversationMenuProps {
   conversation: Conversation
   onRename: (id: string, newTitle: string) => void
   onDelete: (id: string) => void
   isActive: boolean
+  projects?: Project[] // NEW: Targets for "Move to project"
+  onMoveToProject?: (id: string, projectId: string | null) => void
+  onArchive?: (id: string, isArchived: boolean) => void // NEW: Archive / unarchive
+  onPin?: (id: string, isPinned: boolean) => void // NEW: Pin to the top of the sidebar
+  tags?: Tag[] // NEW: The user's tags, toggled per conversation
+  onSetTags?: (id: string, tagIds: string[]) => void
+  onCreateTag?: (name: string, color: TagColor) => Promise<Tag | null>
 }
 
 export function ConversationMenu({ 
   conversation, 
   onRename, 
   onDelete, 
-  isActive 
+  isActive,
+  projects = [],
+  onMoveToProject,
+  onArchive,
+  onPin,
+  tags = [],
+  onSetTags,
+  onCreateTag
 }: ConversationMenuProps) {
   const [showMenu, setShowMenu] = useState(false)
+  const [showProjects, setShowProjects] = useState(false)
+  const [showTags, setShowTags] = useState(false)
+  const [newTagName, setNewTagName] = useState('')
   const [isRenaming, setIsRenaming] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
   const [newTitle, setNewTitle] = useState(conversation.title)
@@ -35,6 +52,27 @@ export function ConversationMenu({
     setShowMenu(false)
   }
 
+  const conversationTagIds = conversation.tag_ids || []
+
+  const toggleTag = (tagId: string) => {
+    onSetTags?.(conversation.id, conversationTagIds.includes(tagId)
+      ? conversationTagIds.filter(id => id !== tagId)
+      : [...conversationTagIds, tagId])
+  }
+
+  // Creates the tag and puts it on this conversation
+  const handleCreateTag = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newTagName.trim()
+    if (!name || !onCreateTag) return
+
+    const tag = await onCreateTag(name, nextTagColor(tags))
+    if (tag) {
+      onSetTags?.(conversation.id, [...conversationTagIds, tag.id])
+      setNewTagName('')
+    }
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault()
@@ -85,7 +123,12 @@ export function ConversationMenu({
         <>
           <div 
             className="fixed inset-0 z-10" 
-            onClick={() => setShowMenu(false)}
+            onClick={(e) => {
+              e.stopPropagation()
+              setShowMenu(false)
+              setShowProjects(false)
+              setShowTags(false)
+            }}
           />
           <div className="absolute top-0 right-0 z-20 bg-white/95 backdrop-blur-sm border border-gray-200 rounded-xl shadow-xl overflow-hidden min-w-[150px]">
             <button
@@ -100,7 +143,118 @@ export function ConversationMenu({
               <span>Rename</span>
             </button>
 
+            {/* NEW: Pin to the top of the sidebar */}
+            {onPin && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  onPin(conversation.id, !conversation.is_pinned)
+                  setShowMenu(false)
+                }}
+                className="w-full flex items-center space-x-2 px-3 py-2.5 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors"
+              >
+                {conversation.is_pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                <span>{conversation.is_pinned ? 'Unpin' : 'Pin'}</span>
+              </button>
+            )}
+
+            {/* NEW: Toggle the user's tags, or create one for this conversation */}
+            {onSetTags && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setShowTags(!showTags)
+                    setShowProjects(false)
+                  }}
+                  className="w-full flex items-center space-x-2 px-3 py-2.5 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors"
+                >
+                  <Tags className="w-3 h-3" />
+                  <span>Tags</span>
+                </button>
+                {showTags && (
+                  <div className="max-h-56 overflow-y-auto border-t border-gray-100 bg-gray-50/60" onClick={(e) => e.stopPropagation()}>
+                    {tags.map(tag => (
+                      <button
+                        key={tag.id}
+                        onClick={() => toggleTag(tag.id)}
+                        className="w-full flex items-center pl-8 pr-3 py-2 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors"
+                      >
+                        <span className={`w-2 h-2 mr-2 rounded-full flex-shrink-0 ${TAG_COLOR_CLASSES[tag.color].dot}`} />
+                        <span className="truncate">{tag.name}</span>
+                        {conversationTagIds.includes(tag.id) && <Check className="w-3 h-3 ml-auto pl-1 flex-shrink-0" />}
+                      </button>
+                    ))}
+                    {onCreateTag && (
+                      <form onSubmit={handleCreateTag} className="pl-8 pr-3 py-2">
+                        <input
+                          type="text"
+                          value={newTagName}
+                          onChange={(e) => setNewTagName(e.target.value)}
+                          maxLength={MAX_TAG_NAME_LENGTH}
+                          placeholder="New tag"
+                          className="w-full text-sm bg-white border border-gray-200 rounded-lg px-2 py-1 text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                        />
+                      </form>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {/* NEW: Move the conversation into a project or out of it */}
+            {onMoveToProject && (projects.length > 0 || conversation.project_id) && (
+              <>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    setShowProjects(!showProjects)
+                    setShowTags(false)
+                  }}
+                  className="w-full flex items-center space-x-2 px-3 py-2.5 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors"
+                >
+                  <FolderInput className="w-3 h-3" />
+                  <span>Move to project</span>
+                </button>
+                {showProjects && (
+                  <div className="max-h-48 overflow-y-auto border-t border-gray-100 bg-gray-50/60">
+                    {[{ id: null, name: 'No project' }, ...projects].map(project => (
+                      <button
+                        key={project.id ?? 'none'}
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          if (project.id !== (conversation.project_id ?? null)) {
+                            onMoveToProject(conversation.id, project.id)
+                          }
+                          setShowProjects(false)
+                          setShowMenu(false)
+                        }}
+                        className="w-full flex items-center justify-between pl-8 pr-3 py-2 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors"
+                      >
+                        <span className="truncate">{project.name}</span>
+                        {project.id === (conversation.project_id ?? null) && <Check className="w-3 h-3 ml-2 flex-shrink-0" />}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </>
+            )}
+
             <div className="border-t border-gray-100">
+              {/* NEW: Archived conversations move to the sidebar's Archived view */}
+              {onArchive && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onArchive(conversation.id, !conversation.is_archived)
+                    setShowMenu(false)
+                  }}
+                  className="w-full flex items-center space-x-2 px-3 py-2.5 text-sm text-gray-700 hover:bg-purple-50 hover:text-purple-700 transition-colors"
+                >
+                  {conversation.is_archived ? <ArchiveRestore className="w-3 h-3" /> : <Archive className="w-3 h-3" />}
+                  <span>{conversation.is_archived ? 'Unarchive' : 'Archive'}</span>
+                </button>
+              )}
               <button
                 onClick={(e) => {
                   e.stopPropagation()
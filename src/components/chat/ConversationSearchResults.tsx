@@ -0,0 +1,161 @@
+// Sidebar search results: matching messages and titles with highlighted snippets,
+// filtered by model and date range
+import { useState, useEffect } from 'react'
+import { MessageSquare, Loader2, SlidersHorizontal } from 'lucide-react'
+import { ConversationSearchFilters, ConversationSearchResult } from '../../types/chat'
+import { databaseService } from '../../lib/databaseService'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
+
+interface ConversationSearchResultsProps {
+  query: string
+  onOpenResult: (conversationId: string, messageId: string | null) => void
+}
+
+// Splits a ts_headline snippet on its <mark> tags, so it renders as text rather than HTML
+function renderSnippet(snippet: string) {
+  return snippet.split(/<mark>(.*?)<\/mark>/g).map((part, index) => (
+    index % 2 === 1
+      ? <mark key={index} className="bg-purple-100 text-purple-800 rounded px-0.5">{part}</mark>
+      : <span key={index}>{part}</span>
+  ))
+}
+
+export function ConversationSearchResults({ query, onOpenResult }: ConversationSearchResultsProps) {
+  const { models } = useModelCatalog()
+  const [filters, setFilters] = useState<ConversationSearchFilters>({})
+  const [showFilters, setShowFilters] = useState(false)
+  const [results, setResults] = useState<ConversationSearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const hasFilters = !!(filters.model || filters.from || filters.to)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const search = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const found = await databaseService.searchConversations(query.trim(), filters)
+        if (!cancelled) {
+          setResults(found)
+        }
+      } catch (err) {
+        console.error('❌ Conversation search failed:', err)
+        if (!cancelled) {
+          setError('Search failed. Please try again.')
+          setResults([])
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false)
+        }
+      }
+    }
+
+    // Debounce while typing
+    const timer = setTimeout(search, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, filters])
+
+  const modelName = (modelId: string) => models.find(model => model.id === modelId)?.displayName || modelId
+
+  return (
+    <div>
+      <div className="flex items-center justify-between px-1 py-1">
+        <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Results</span>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`p-1 rounded-lg transition-colors ${hasFilters ? 'text-purple-600' : 'text-gray-400 hover:text-purple-600'} hover:bg-white/50`}
+          title="Filter by model and date"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mb-2 p-2 space-y-2 rounded-xl bg-white/50 border border-gray-200/50 text-xs text-gray-600">
+          <select
+            value={filters.model || ''}
+            onChange={(e) => setFilters(prev => ({ ...prev, model: e.target.value || undefined }))}
+            className="w-full px-2 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          >
+            <option value="">All models</option>
+            {models.map(model => (
+              <option key={model.id} value={model.id}>{model.displayName}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-1">
+            <input
+              type="date"
+              value={filters.from || ''}
+              max={filters.to}
+              onChange={(e) => setFilters(prev => ({ ...prev, from: e.target.value || undefined }))}
+              className="min-w-0 flex-1 px-1.5 py-1 rounded-lg border border-gray-200 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              aria-label="From date"
+            />
+            <span>–</span>
+            <input
+              type="date"
+              value={filters.to || ''}
+              min={filters.from}
+              onChange={(e) => setFilters(prev => ({ ...prev, to: e.target.value || undefined }))}
+              className="min-w-0 flex-1 px-1.5 py-1 rounded-lg border border-gray-200 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              aria-label="To date"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={() => setFilters({})}
+              className="text-purple-600 hover:text-purple-700"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
+      {loading && results.length === 0 ? (
+        <div className="flex items-center justify-center py-8 text-gray-400">
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </div>
+      ) : error ? (
+        <p className="px-3 py-4 text-xs text-red-600">{error}</p>
+      ) : results.length === 0 ? (
+        <div className="text-center py-8 text-gray-500">
+          <p className="text-sm">No matches</p>
+        </div>
+      ) : (
+        <div className={`space-y-1 ${loading ? 'opacity-60' : ''}`}>
+          {results.map(result => (
+            <button
+              key={`${result.conversation_id}-${result.message_id || 'title'}`}
+              onClick={() => onOpenResult(result.conversation_id, result.message_id)}
+              className="w-full text-left p-3 rounded-xl border border-transparent hover:bg-white/40 hover:border-gray-200/30 transition-colors"
+            >
+              <div className="flex items-center">
+                <MessageSquare className="w-3.5 h-3.5 mr-2 flex-shrink-0 text-gray-400" />
+                <span className="text-sm text-gray-800 font-medium truncate">
+                  {result.message_id ? result.conversation_title : renderSnippet(result.snippet)}
+                </span>
+              </div>
+              {result.message_id && (
+                <p className="mt-1 text-xs text-gray-600 line-clamp-3 break-words">
+                  {renderSnippet(result.snippet)}
+                </p>
+              )}
+              <div className="mt-1 text-[11px] text-gray-400 truncate">
+                {result.role === 'user' ? 'You' : result.model_used ? modelName(result.model_used) : 'Title'}
+                {' · '}
+                {new Date(result.created_at).toLocaleDateString()}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,225 @@
+// Per-conversation generation parameters, limited to what the selected model accepts
+import { useEffect, useState } from 'react'
+import { X, SlidersHorizontal, RotateCcw } from 'lucide-react'
+import { AIModel, GenerationParameters, ReasoningEffort } from '../../types/chat'
+import {
+  MIN_THINKING_BUDGET,
+  REASONING_EFFORTS,
+  getParameterSupport,
+  validateGenerationParameters
+} from '../../lib/generationParameters'
+
+interface GenerationParametersModalProps {
+  isOpen: boolean
+  model: AIModel
+  parameters: GenerationParameters
+  onClose: () => void
+  onSave: (parameters: GenerationParameters) => Promise<void> | void
+}
+
+// Number inputs hold text while editing; empty means "use the default"
+const toNumber = (value: string) => (value.trim() === '' ? undefined : Number(value))
+
+export function GenerationParametersModal({ isOpen, model, parameters, onClose, onSave }: GenerationParametersModalProps) {
+  const [draft, setDraft] = useState<GenerationParameters>(parameters)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(parameters)
+    }
+  }, [isOpen, parameters])
+
+  if (!isOpen) return null
+
+  const support = getParameterSupport(model)
+  const supports = (key: keyof GenerationParameters) => support.parameters.includes(key)
+  const thinkingEnabled = draft.thinking_budget !== undefined
+  const validationError = validateGenerationParameters(draft, model)
+
+  const update = (changes: GenerationParameters) => {
+    setDraft(prev => {
+      const next = { ...prev, ...changes }
+      for (const key of Object.keys(next) as (keyof GenerationParameters)[]) {
+        if (next[key] === undefined) delete next[key]
+      }
+      return next
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(draft)
+      onClose()
+    } catch (error) {
+      console.error('Failed to save generation parameters:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const unsupportedNote = (
+    <span className="text-xs text-gray-400">Not supported by {model.displayName}</span>
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="relative p-6">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+
+          <div className="flex items-center space-x-2 mb-2">
+            <SlidersHorizontal className="w-5 h-5 text-purple-600" />
+            <h2 className="text-lg font-semibold text-gray-800">Generation Parameters</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-5">
+            Applies to this conversation. Leave a value unset to use the default; settings {model.displayName} does not support are skipped when sending.
+          </p>
+
+          <div className="space-y-5">
+            {/* Temperature */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-sm font-medium text-gray-700">Temperature</label>
+                {supports('temperature') ? (
+                  <span className="text-xs text-gray-500">{draft.temperature ?? 'Default (0.7)'}</span>
+                ) : unsupportedNote}
+              </div>
+              <input
+                type="range"
+                min={0}
+                max={support.maxTemperature}
+                step={0.1}
+                value={draft.temperature ?? 0.7}
+                onChange={(e) => update({ temperature: Number(e.target.value) })}
+                disabled={!supports('temperature') || thinkingEnabled}
+                className="w-full accent-purple-600 disabled:opacity-40"
+              />
+            </div>
+
+            {/* Top P */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-sm font-medium text-gray-700">Top P</label>
+                {supports('top_p') ? (
+                  <span className="text-xs text-gray-500">{draft.top_p ?? 'Default'}</span>
+                ) : unsupportedNote}
+              </div>
+              <input
+                type="range"
+                min={0.05}
+                max={1}
+                step={0.05}
+                value={draft.top_p ?? 1}
+                onChange={(e) => update({ top_p: Number(e.target.value) })}
+                disabled={!supports('top_p') || thinkingEnabled}
+                className="w-full accent-purple-600 disabled:opacity-40"
+              />
+              {thinkingEnabled && (
+                <p className="mt-1 text-xs text-gray-400">Temperature and Top P are fixed while extended thinking is on.</p>
+              )}
+            </div>
+
+            {/* Max output tokens */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-sm font-medium text-gray-700">Max output tokens</label>
+                <span className="text-xs text-gray-500">Up to {support.maxOutputTokens.toLocaleString()}</span>
+              </div>
+              <input
+                type="number"
+                min={1}
+                max={support.maxOutputTokens}
+                value={draft.max_tokens ?? ''}
+                onChange={(e) => update({ max_tokens: toNumber(e.target.value) })}
+                placeholder="Default"
+                className="block w-full px-3 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+              />
+            </div>
+
+            {/* Reasoning effort (OpenAI o-series) */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="text-sm font-medium text-gray-700">Reasoning effort</label>
+                {!supports('reasoning_effort') && unsupportedNote}
+              </div>
+              <select
+                value={draft.reasoning_effort ?? ''}
+                onChange={(e) => update({ reasoning_effort: (e.target.value || undefined) as ReasoningEffort | undefined })}
+                disabled={!supports('reasoning_effort')}
+                className="block w-full px-3 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm disabled:opacity-40"
+              >
+                <option value="">Default (medium)</option>
+                {REASONING_EFFORTS.map(effort => (
+                  <option key={effort} value={effort}>{effort.charAt(0).toUpperCase() + effort.slice(1)}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Thinking budget (Claude extended thinking) */}
+            <div>
+              <div className="flex items-center justify-between mb-1">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={thinkingEnabled}
+                    onChange={(e) => update({ thinking_budget: e.target.checked ? Math.max(MIN_THINKING_BUDGET, 4096) : undefined })}
+                    disabled={!supports('thinking_budget')}
+                    className="accent-purple-600"
+                  />
+                  <span>Extended thinking budget</span>
+                </label>
+                {!supports('thinking_budget') && unsupportedNote}
+              </div>
+              {thinkingEnabled && (
+                <input
+                  type="number"
+                  min={MIN_THINKING_BUDGET}
+                  step={1024}
+                  value={draft.thinking_budget ?? ''}
+                  onChange={(e) => update({ thinking_budget: toNumber(e.target.value) ?? MIN_THINKING_BUDGET })}
+                  className="block w-full px-3 py-2 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent text-sm"
+                />
+              )}
+            </div>
+          </div>
+
+          {validationError && (
+            <p className="mt-4 text-sm text-red-600">{validationError}</p>
+          )}
+
+          <div className="flex items-center justify-between mt-6">
+            <button
+              onClick={() => setDraft({})}
+              className="flex items-center space-x-1 text-sm text-gray-500 hover:text-gray-700 transition-colors"
+            >
+              <RotateCcw className="w-3.5 h-3.5" />
+              <span>Reset to defaults</span>
+            </button>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !!validationError}
+                className="px-4 py-2 text-sm font-medium bg-purple-600 hover:bg-purple-700 text-white rounded-xl transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
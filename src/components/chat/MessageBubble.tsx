@@ -1,7 +1,12 @@
 // Enhanced message bubble component with provider indicators and 2025 model support
-import React from 'react'
-import { User, Bot, Clock, Sparkles } from 'lucide-react'
-import { getProviderIcon, getProviderColor } from '../../types/chat'
+import React, { useState } from 'react'
+import { User, Bot, Clock, Sparkles, ChevronLeft, ChevronRight, RotateCcw, Pencil, Square, Play, Scissors } from 'lucide-react'
+import { MessageContentPart, MessageSource, ToolRound, getProviderIcon, getProviderColor } from '../../types/chat'
+import { MessageImages } from './MessageImages'
+import { MessageDocuments } from './MessageDocuments'
+import { MessageSources } from './MessageSources'
+import { ThinkingPanel } from './ThinkingPanel'
+import { ToolCallSteps } from './ToolCallSteps'
 import { marked } from 'marked'
 
 // Configure marked for safe rendering
@@ -17,16 +22,50 @@ interface SimpleMessage {
   role: 'user' | 'assistant'
   content: string
   model_used?: string | null
+  total_tokens?: number
+  cost_incurred?: number
+  response_time?: number
+  parent_message_id?: string | null
+  finish_reason?: 'stop' | 'cancelled' | 'length' | null
+  content_parts?: MessageContentPart[] | null
+  sources?: MessageSource[]
+  reasoning?: string | null
+  reasoning_tokens?: number
+  tool_rounds?: ToolRound[] | null
   created_at: string
 }
 
 interface MessageBubbleProps {
   message: SimpleMessage
+  // NEW: Position among alternative versions of this message (regenerations or edits)
+  branch?: { index: number; total: number }
+  onSwitchBranch?: (direction: -1 | 1) => void
+  onRegenerate?: () => void
+  onContinue?: () => void
+  onEdit?: (content: string) => void
 }
 
-export function MessageBubble({ message }: MessageBubbleProps) {
+export function MessageBubble({ message, branch, onSwitchBranch, onRegenerate, onContinue, onEdit }: MessageBubbleProps) {
   const isUser = message.role === 'user'
   const isErrorMessage = message.content.startsWith('❌')
+  const isStopped = !isUser && message.finish_reason === 'cancelled'
+  const isCutOff = !isUser && message.finish_reason === 'length'
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState(message.content)
+
+  const startEditing = () => {
+    setDraft(message.content)
+    setIsEditing(true)
+  }
+
+  const submitEdit = () => {
+    if (!draft.trim() || draft.trim() === message.content.trim()) {
+      setIsEditing(false)
+      return
+    }
+    onEdit?.(draft)
+    setIsEditing(false)
+  }
 
   const formatTime = (timestamp: string) => {
     try {
@@ -39,6 +78,15 @@ export function MessageBubble({ message }: MessageBubbleProps) {
     }
   }
 
+  const formatResponseTime = (milliseconds: number) => {
+    return milliseconds < 1000 ? `${milliseconds}ms` : `${(milliseconds / 1000).toFixed(1)}s`
+  }
+
+  // Sub-cent costs need more precision to be useful for reconciliation
+  const formatCost = (cost: number) => {
+    return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+  }
+
   const getModelDisplayName = (modelId?: string | null) => {
     if (!modelId) return 'AI Assistant'
     
@@ -124,16 +172,137 @@ export function MessageBubble({ message }: MessageBubbleProps) {
             </div>
           )}
 
+          {/* NEW: Image and document attachments */}
+          {message.content_parts && <MessageImages parts={message.content_parts} />}
+          {message.content_parts && <MessageDocuments parts={message.content_parts} />}
+
+          {/* NEW: The model's reasoning, collapsed */}
+          {!isUser && message.reasoning && (
+            <ThinkingPanel reasoning={message.reasoning} reasoningTokens={message.reasoning_tokens} />
+          )}
+
+          {/* NEW: Tools the reply called */}
+          {!isUser && !!message.tool_rounds?.length && (
+            <ToolCallSteps steps={message.tool_rounds.flatMap(round => round.calls)} />
+          )}
+
           {/* Message content */}
-          <div 
-            className={`
-            text-gray-800 leading-relaxed
-            ${isErrorMessage ? 'text-red-800' : ''}
-          `}
-            dangerouslySetInnerHTML={{ 
-              __html: marked.parse(message.content) 
-            }}
-          />
+          {isEditing ? (
+            <div className="space-y-2">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault()
+                    submitEdit()
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false)
+                  }
+                }}
+                rows={Math.min(Math.max(draft.split('\n').length, 2), 10)}
+                className="w-full p-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent resize-none text-gray-800"
+                autoFocus
+              />
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={submitEdit}
+                  className="px-3 py-1.5 bg-purple-600 hover:bg-purple-700 text-white text-xs font-medium rounded-lg transition-colors"
+                >
+                  Save & Send
+                </button>
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1.5 text-gray-600 hover:bg-gray-100 text-xs font-medium rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div 
+              className={`
+              text-gray-800 leading-relaxed
+              ${isErrorMessage ? 'text-red-800' : ''}
+            `}
+              dangerouslySetInnerHTML={{ 
+                __html: marked.parse(message.content) 
+              }}
+            />
+          )}
+
+          {/* NEW: Replies the user stopped keep their partial text */}
+          {isStopped && (
+            <div className="mt-2 inline-flex items-center space-x-1 text-xs text-gray-500 bg-gray-100 px-2 py-0.5 rounded-full">
+              <Square className="w-3 h-3" />
+              <span>Stopped</span>
+            </div>
+          )}
+          {isCutOff && (
+            <div className="mt-2 inline-flex items-center space-x-1 text-xs text-amber-700 bg-amber-50 px-2 py-0.5 rounded-full">
+              <Scissors className="w-3 h-3" />
+              <span>Cut off at the length limit</span>
+            </div>
+          )}
+
+          {/* NEW: Project file chunks cited by the reply */}
+          {!isUser && message.sources && <MessageSources sources={message.sources} />}
+
+          {/* NEW: Branch switcher and message actions */}
+          {!isEditing && (branch || onRegenerate || onContinue || onEdit) && (
+            <div className="mt-2 flex items-center space-x-1 text-xs text-gray-500">
+              {branch && (
+                <div className="flex items-center">
+                  <button
+                    onClick={() => onSwitchBranch?.(-1)}
+                    disabled={!onSwitchBranch || branch.index === 0}
+                    className="p-1 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                    title="Previous version"
+                  >
+                    <ChevronLeft className="w-3.5 h-3.5" />
+                  </button>
+                  <span className="font-medium tabular-nums">{branch.index + 1}/{branch.total}</span>
+                  <button
+                    onClick={() => onSwitchBranch?.(1)}
+                    disabled={!onSwitchBranch || branch.index === branch.total - 1}
+                    className="p-1 rounded-lg hover:bg-gray-100 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+                    title="Next version"
+                  >
+                    <ChevronRight className="w-3.5 h-3.5" />
+                  </button>
+                </div>
+              )}
+              {onEdit && (
+                <button
+                  onClick={startEditing}
+                  className="p-1 rounded-lg hover:bg-gray-100 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Edit and resend"
+                >
+                  <Pencil className="w-3.5 h-3.5" />
+                </button>
+              )}
+              {onContinue && (
+                <button
+                  onClick={onContinue}
+                  className="flex items-center space-x-1 p-1 rounded-lg hover:bg-gray-100 transition-colors"
+                  title="Continue generating from where it stopped"
+                >
+                  <Play className="w-3.5 h-3.5" />
+                  <span>Continue</span>
+                </button>
+              )}
+              {onRegenerate && (
+                <button
+                  onClick={onRegenerate}
+                  className="flex items-center space-x-1 p-1 rounded-lg hover:bg-gray-100 transition-colors"
+                  title="Regenerate with the selected model"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  <span>Regenerate</span>
+                </button>
+              )}
+            </div>
+          )}
 
           {/* Enhanced timestamp - only show on hover */}
           <div className="mt-2 opacity-0 group-hover:opacity-100 transition-opacity">
@@ -147,6 +316,21 @@ export function MessageBubble({ message }: MessageBubbleProps) {
                   • {provider === 'anthropic' ? 'Claude API' : 'OpenAI API'}
                 </span>
               )}
+              {!isUser && message.response_time !== undefined && (
+                <span className="text-xs text-gray-400" title="Response time">
+                  • {formatResponseTime(message.response_time)}
+                </span>
+              )}
+              {!isUser && !!message.total_tokens && (
+                <span className="text-xs text-gray-400">
+                  • {message.total_tokens.toLocaleString()} tokens
+                </span>
+              )}
+              {!isUser && message.cost_incurred !== undefined && (
+                <span className="text-xs text-gray-400" title="Cost based on model pricing">
+                  • {formatCost(message.cost_incurred)}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,48 @@
+// Document attachments of a message, collapsed to a card that expands to the extracted text
+import { useState } from 'react'
+import { ChevronDown, FileText } from 'lucide-react'
+import { DocumentContentPart, MessageContentPart, estimateTokens } from '../../types/chat'
+
+interface MessageDocumentsProps {
+  parts: MessageContentPart[]
+}
+
+function MessageDocument({ document }: { document: DocumentContentPart }) {
+  const [expanded, setExpanded] = useState(false)
+
+  return (
+    <div className="rounded-xl border border-gray-200 bg-gray-50 overflow-hidden">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center px-3 py-2 text-left hover:bg-gray-100 transition-colors"
+        aria-expanded={expanded}
+      >
+        <FileText className="w-4 h-4 text-purple-600 flex-shrink-0" />
+        <span className="ml-2 text-sm font-medium text-gray-800 truncate">{document.name}</span>
+        <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+          ~{estimateTokens(document.text).toLocaleString()} tokens{document.truncated && ' (truncated)'}
+        </span>
+        <ChevronDown className={`w-4 h-4 ml-auto text-gray-400 flex-shrink-0 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+      </button>
+      {expanded && (
+        <pre className="max-h-64 overflow-auto px-3 py-2 border-t border-gray-200 bg-white text-xs text-gray-700 whitespace-pre-wrap break-words font-mono">
+          {document.text}
+        </pre>
+      )}
+    </div>
+  )
+}
+
+export function MessageDocuments({ parts }: MessageDocumentsProps) {
+  const documents = parts.filter((part): part is DocumentContentPart => part.type === 'document')
+  if (documents.length === 0) return null
+
+  return (
+    <div className="flex flex-col gap-2 mb-2 max-w-md">
+      {documents.map((document, index) => (
+        <MessageDocument key={`${document.name}-${index}`} document={document} />
+      ))}
+    </div>
+  )
+}
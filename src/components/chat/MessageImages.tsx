@@ -0,0 +1,63 @@
+// Image attachments of a message, loaded from private Storage through signed URLs
+import { useEffect, useState } from 'react'
+import { ImageOff } from 'lucide-react'
+import { ImageContentPart, MessageContentPart } from '../../types/chat'
+import { attachmentService } from '../../lib/attachmentService'
+
+interface MessageImagesProps {
+  parts: MessageContentPart[]
+}
+
+function MessageImage({ image }: { image: ImageContentPart }) {
+  const [url, setUrl] = useState<string | null>(null)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    let cancelled = false
+    attachmentService.getImageUrl(image.path)
+      .then(signedUrl => {
+        if (!cancelled) setUrl(signedUrl)
+      })
+      .catch(error => {
+        console.error('❌ Failed to load attachment:', error)
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [image.path])
+
+  if (failed) {
+    return (
+      <div className="w-40 h-28 rounded-xl border border-gray-200 bg-gray-50 flex flex-col items-center justify-center text-xs text-gray-400">
+        <ImageOff className="w-5 h-5 mb-1" />
+        <span>Image unavailable</span>
+      </div>
+    )
+  }
+
+  // Reserve the image's aspect ratio so the conversation does not jump while it loads
+  return (
+    <a href={url || undefined} target="_blank" rel="noopener noreferrer" className="block">
+      <div
+        className="max-w-[240px] max-h-[240px] rounded-xl border border-gray-200 bg-gray-100 overflow-hidden"
+        style={{ aspectRatio: `${image.width} / ${image.height}`, width: Math.min(240, image.width) }}
+      >
+        {url && <img src={url} alt={image.name || 'Attached image'} className="w-full h-full object-cover" />}
+      </div>
+    </a>
+  )
+}
+
+export function MessageImages({ parts }: MessageImagesProps) {
+  const images = parts.filter((part): part is ImageContentPart => part.type === 'image')
+  if (images.length === 0) return null
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-2">
+      {images.map(image => (
+        <MessageImage key={image.path} image={image} />
+      ))}
+    </div>
+  )
+}
@@ -1,12 +1,40 @@
 // UPDATED: Mobile-first message input with enhanced usage validation
 import React, { useState, useRef, useEffect } from 'react'
-import { Send, Square, AlertTriangle, Crown } from 'lucide-react'
-import { AIModel, UsageStats } from '../../types/chat'
+import { Send, Square, AlertTriangle, Crown, Paperclip, X, Loader2, FileText } from 'lucide-react'
+import {
+  AIModel,
+  AttachmentContentPart,
+  DocumentContentPart,
+  ImageContentPart,
+  UsageStats,
+  calculateCost,
+  estimateTokens
+} from '../../types/chat'
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_DOCUMENTS_PER_MESSAGE,
+  MAX_IMAGES_PER_MESSAGE,
+  attachmentService,
+  estimateImagesCost,
+  isDocumentFile,
+  isImageFile
+} from '../../lib/attachmentService'
+
+// NEW: An image or document picked or pasted into the input; uploaded or extracted straight away
+interface PendingAttachment {
+  id: string
+  kind: 'image' | 'document'
+  name: string
+  previewUrl?: string // Images only
+  part?: AttachmentContentPart // Set once the upload or extraction finished
+  error?: string
+}
 
 interface MessageInputProps {
-  onSendMessage: (content: string) => void
+  onSendMessage: (content: string, attachments?: AttachmentContentPart[]) => void
   selectedModel?: AIModel
   disabled?: boolean
+  disabledReason?: string // Placeholder while disabled
   isStreaming?: boolean
   usageStats?: UsageStats | null
 }
@@ -15,12 +43,16 @@ export function MessageInput({
   onSendMessage, 
   selectedModel,
   disabled = false, 
+  disabledReason,
   isStreaming = false,
   usageStats 
 }: MessageInputProps) {
   const [message, setMessage] = useState('')
   const [warningShown, setWarningShown] = useState(false)
+  const [attachments, setAttachments] = useState<PendingAttachment[]>([])
+  const [attachmentError, setAttachmentError] = useState<string | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Auto-resize textarea with mobile-optimized max height
   useEffect(() => {
@@ -100,11 +132,107 @@ export function MessageInput({
     return usageStats.tier.allowed_models.includes(selectedModel.id)
   }
 
+  // NEW: Upload picked or pasted images and extract documents' text; each shows a
+  // preview until it is sent or removed
+  const addFiles = (files: File[]) => {
+    setAttachmentError(null)
+    let imageRoom = MAX_IMAGES_PER_MESSAGE - attachments.filter(a => a.kind === 'image').length
+    let documentRoom = MAX_DOCUMENTS_PER_MESSAGE - attachments.filter(a => a.kind === 'document').length
+
+    for (const file of files) {
+      const kind = isImageFile(file) ? 'image' : isDocumentFile(file) ? 'document' : null
+      if (!kind) {
+        setAttachmentError(`${file.name} can't be attached. Use an image, PDF, DOCX, CSV, Markdown, text or code file.`)
+        continue
+      }
+
+      if (kind === 'image' && imageRoom <= 0) {
+        setAttachmentError(`You can attach up to ${MAX_IMAGES_PER_MESSAGE} images per message`)
+        continue
+      }
+      if (kind === 'document' && documentRoom <= 0) {
+        setAttachmentError(`You can attach up to ${MAX_DOCUMENTS_PER_MESSAGE} documents per message`)
+        continue
+      }
+
+      const validationError = kind === 'image'
+        ? attachmentService.validateImage(file)
+        : attachmentService.validateDocument(file)
+      if (validationError) {
+        setAttachmentError(validationError)
+        continue
+      }
+
+      if (kind === 'image') imageRoom--
+      else documentRoom--
+
+      const pending: PendingAttachment = {
+        id: crypto.randomUUID(),
+        kind,
+        name: file.name,
+        ...(kind === 'image' && { previewUrl: URL.createObjectURL(file) })
+      }
+      setAttachments(prev => [...prev, pending])
+
+      const upload: Promise<AttachmentContentPart> = kind === 'image'
+        ? attachmentService.uploadImage(file)
+        : attachmentService.extractDocument(file)
+
+      upload
+        .then(part => {
+          setAttachments(prev => prev.map(a => a.id === pending.id ? { ...a, part } : a))
+        })
+        .catch(error => {
+          setAttachments(prev => prev.map(a => a.id === pending.id ? { ...a, error: error.message } : a))
+        })
+    }
+  }
+
+  const removeAttachment = (attachment: PendingAttachment) => {
+    if (attachment.previewUrl) {
+      URL.revokeObjectURL(attachment.previewUrl)
+    }
+    setAttachments(prev => prev.filter(a => a.id !== attachment.id))
+    setAttachmentError(null)
+    if (attachment.part?.path) {
+      attachmentService.removeAttachment(attachment.part.path)
+    }
+  }
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files)
+    if (files.length > 0) {
+      e.preventDefault()
+      addFiles(files)
+    }
+  }
+
+  const readyAttachments = attachments.flatMap(a => (a.part ? [a.part] : []))
+  const uploadedImages = readyAttachments.filter((part): part is ImageContentPart => part.type === 'image')
+  const extractedDocuments = readyAttachments.filter((part): part is DocumentContentPart => part.type === 'document')
+  const isUploading = attachments.some(a => !a.part && !a.error)
+  const hasFailedUpload = attachments.some(a => a.error)
+  const visionBlocked = attachments.some(a => a.kind === 'image') && !!selectedModel && !selectedModel.supportsVision
+  const imageEstimate = selectedModel && uploadedImages.length > 0
+    ? estimateImagesCost(uploadedImages, selectedModel)
+    : null
+  const documentTokens = extractedDocuments.reduce((sum, document) => sum + estimateTokens(document.text), 0)
+  const attachmentTokens = (imageEstimate?.tokens || 0) + documentTokens
+  const attachmentCost = selectedModel ? calculateCost(selectedModel, attachmentTokens, 0) : 0
+  const attachmentSummary = [
+    uploadedImages.length > 0 && `${uploadedImages.length} image${uploadedImages.length === 1 ? '' : 's'}`,
+    extractedDocuments.length > 0 && `${extractedDocuments.length} document${extractedDocuments.length === 1 ? '' : 's'}`
+  ].filter(Boolean).join(' + ')
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
     const trimmedMessage = message.trim()
     
-    if (!trimmedMessage || disabled || isStreaming) {
+    if ((!trimmedMessage && readyAttachments.length === 0) || disabled || isStreaming) {
+      return
+    }
+
+    if (isUploading || hasFailedUpload || visionBlocked) {
       return
     }
 
@@ -125,9 +253,12 @@ export function MessageInput({
       return
     }
 
-    onSendMessage(trimmedMessage)
+    onSendMessage(trimmedMessage, readyAttachments.length > 0 ? readyAttachments : undefined)
     setMessage('')
     setWarningShown(false)
+    attachments.forEach(a => a.previewUrl && URL.revokeObjectURL(a.previewUrl))
+    setAttachments([])
+    setAttachmentError(null)
     
     // Reset textarea height
     if (textareaRef.current) {
@@ -144,7 +275,7 @@ export function MessageInput({
 
   const getPlaceholder = () => {
     if (isStreaming) return 'AI is responding...'
-    if (disabled) return 'Loading...'
+    if (disabled) return disabledReason || 'Loading...'
     
     const warning = getUsageWarning()
     if (warning && !warning.canSend) {
@@ -162,7 +293,8 @@ export function MessageInput({
 
   const warning = getUsageWarning()
   const modelAllowed = isModelAllowed()
-  const canSend = message.trim() && !disabled && !isStreaming && modelAllowed && 
+  const canSend = (message.trim() || readyAttachments.length > 0) && !disabled && !isStreaming && modelAllowed &&
+                  !isUploading && !hasFailedUpload && !visionBlocked &&
                   (!warning || warning.canSend || warningShown)
 
   // Determine input state styling
@@ -232,15 +364,94 @@ export function MessageInput({
         </div>
       )}
 
+      {/* NEW: Images can only go to vision-capable models */}
+      {visionBlocked && selectedModel && (
+        <div className="mb-3 p-3 rounded-xl bg-amber-50 border border-amber-200 shadow-sm flex items-start space-x-2">
+          <AlertTriangle className="w-4 h-4 text-amber-600 mt-0.5 flex-shrink-0" />
+          <p className="text-sm text-amber-800 font-medium">
+            {selectedModel.displayName} can't view images. Choose a vision-capable model or remove the attachments.
+          </p>
+        </div>
+      )}
+
       {/* Mobile-optimized message input container */}
       <div className={`relative bg-white rounded-xl shadow-lg hover:shadow-xl transition-shadow focus-within:shadow-xl focus-within:ring-2 focus-within:ring-purple-500/20 border-2 ${getInputStateClasses()}`}>
+        {/* NEW: Attachment previews with the token estimate for the selected model */}
+        {(attachments.length > 0 || attachmentError) && (
+          <div className="px-4 pt-3">
+            <div className="flex flex-wrap gap-2">
+              {attachments.map(attachment => attachment.kind === 'document' ? (
+                <DocumentChip key={attachment.id} attachment={attachment} onRemove={() => removeAttachment(attachment)} />
+              ) : (
+                <div key={attachment.id} className="relative w-16 h-16 rounded-lg overflow-hidden border border-gray-200 bg-gray-50">
+                  <img src={attachment.previewUrl} alt="" className={`w-full h-full object-cover ${attachment.part ? '' : 'opacity-50'}`} />
+                  {!attachment.part && !attachment.error && (
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <Loader2 className="w-4 h-4 text-purple-600 animate-spin" />
+                    </div>
+                  )}
+                  {attachment.error && (
+                    <div className="absolute inset-0 flex items-center justify-center bg-red-50/80" title={attachment.error}>
+                      <AlertTriangle className="w-4 h-4 text-red-600" />
+                    </div>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => removeAttachment(attachment)}
+                    className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 hover:bg-black/80 rounded-full text-white"
+                    title="Remove image"
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {selectedModel && attachmentTokens > 0 && !visionBlocked && (
+              <p className="mt-1.5 text-xs text-gray-500">
+                {attachmentSummary} · ~{attachmentTokens.toLocaleString()} input tokens
+                {attachmentCost > 0 && ` · ~$${attachmentCost.toFixed(4)}`} with {selectedModel.displayName}
+              </p>
+            )}
+            {(attachmentError || hasFailedUpload) && (
+              <p className="mt-1.5 text-xs text-red-600">
+                {attachmentError || attachments.find(a => a.error)?.error}
+              </p>
+            )}
+          </div>
+        )}
+
         <form onSubmit={handleSubmit} className="flex items-end">
+          {/* NEW: Attach images and documents (also accepts paste) */}
+          <div className="pl-3 pb-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                addFiles(Array.from(e.target.files || []))
+                e.target.value = ''
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled || isStreaming || attachments.length >= MAX_IMAGES_PER_MESSAGE + MAX_DOCUMENTS_PER_MESSAGE}
+              className="w-10 h-10 rounded-xl flex items-center justify-center text-gray-500 hover:text-purple-600 hover:bg-purple-50 transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+              title={selectedModel && !selectedModel.supportsVision ? `Attach documents (${selectedModel.displayName} can't view images)` : 'Attach images or documents'}
+            >
+              <Paperclip className="w-5 h-5" />
+            </button>
+          </div>
+
           <div className="flex-1 p-4">
             <textarea
               ref={textareaRef}
               value={message}
               onChange={(e) => setMessage(e.target.value)}
               onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
               placeholder={getPlaceholder()}
               disabled={disabled || (warning && !warning.canSend) || !modelAllowed}
               className="w-full resize-none border-none outline-none text-gray-900 placeholder-gray-500 bg-transparent min-h-[24px] max-h-[120px] leading-relaxed text-base disabled:opacity-75"
@@ -296,6 +507,46 @@ export function MessageInput({
   )
 }
 
+/**
+ * NEW: Pending document with its extracted size in tokens
+ */
+function DocumentChip({ attachment, onRemove }: { attachment: PendingAttachment; onRemove: () => void }) {
+  const document = attachment.part?.type === 'document' ? attachment.part : null
+
+  return (
+    <div
+      className={`relative flex items-center h-16 max-w-[220px] pl-3 pr-7 rounded-lg border ${attachment.error ? 'border-red-200 bg-red-50' : 'border-gray-200 bg-gray-50'}`}
+      title={attachment.error || attachment.name}
+    >
+      {attachment.error ? (
+        <AlertTriangle className="w-5 h-5 text-red-600 flex-shrink-0" />
+      ) : document ? (
+        <FileText className="w-5 h-5 text-purple-600 flex-shrink-0" />
+      ) : (
+        <Loader2 className="w-5 h-5 text-purple-600 animate-spin flex-shrink-0" />
+      )}
+      <div className="ml-2 min-w-0">
+        <p className="text-xs font-medium text-gray-800 truncate">{attachment.name}</p>
+        <p className="text-xs text-gray-500">
+          {attachment.error
+            ? 'Could not read file'
+            : document
+              ? `~${estimateTokens(document.text).toLocaleString()} tokens${document.truncated ? ' (truncated)' : ''}`
+              : 'Extracting text...'}
+        </p>
+      </div>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-0.5 right-0.5 p-0.5 bg-black/60 hover:bg-black/80 rounded-full text-white"
+        title="Remove document"
+      >
+        <X className="w-3 h-3" />
+      </button>
+    </div>
+  )
+}
+
 /**
  * UPDATED: Format reset time helper function
  */
@@ -0,0 +1,44 @@
+// Project file chunks a reply was generated with, listed under it as numbered citations
+import { useState } from 'react'
+import { BookOpen, ChevronDown } from 'lucide-react'
+import { MessageSource } from '../../types/chat'
+
+interface MessageSourcesProps {
+  sources: MessageSource[]
+}
+
+export function MessageSources({ sources }: MessageSourcesProps) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  if (sources.length === 0) return null
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-100">
+      <div className="flex items-center text-xs font-medium text-gray-500 mb-1.5">
+        <BookOpen className="w-3 h-3 mr-1" />
+        Sources
+      </div>
+      <ol className="space-y-1">
+        {sources.map(source => (
+          <li key={source.index} className="text-xs">
+            <button
+              type="button"
+              onClick={() => setExpanded(expanded === source.index ? null : source.index)}
+              className="flex items-center w-full text-left text-gray-600 hover:text-purple-700 transition-colors"
+              aria-expanded={expanded === source.index}
+            >
+              <span className="font-mono text-purple-600 mr-1.5">[{source.index}]</span>
+              <span className="truncate">{source.filename}</span>
+              <span className="ml-1.5 text-gray-400 whitespace-nowrap">part {source.chunk_index + 1}</span>
+              <ChevronDown className={`w-3 h-3 ml-auto flex-shrink-0 text-gray-400 transition-transform ${expanded === source.index ? 'rotate-180' : ''}`} />
+            </button>
+            {expanded === source.index && (
+              <p className="mt-1 ml-6 p-2 rounded-lg bg-gray-50 border border-gray-100 text-gray-600 whitespace-pre-wrap">
+                {source.excerpt}
+              </p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  )
+}
@@ -1,8 +1,9 @@
 // UPDATED: Mobile-first model selector with Gemini performance warning
 import React, { useState } from 'react'
 import { ChevronDown, Check, Lock, Crown, Sparkles, Clock, AlertTriangle } from 'lucide-react'
-import { AIModel, getModelsByCategory, MODEL_CATEGORIES, PRICING_TIERS } from '../../types/chat'
+import { AIModel, getModelsByCategory, MODEL_CATEGORIES } from '../../types/chat'
 import { useUsageStats } from '../../hooks/useUsageStats'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
 
 interface ModelSelectorProps {
   selectedModel: AIModel
@@ -14,9 +15,12 @@ interface ModelSelectorProps {
 export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, compact = false }: ModelSelectorProps) {
   const [isOpen, setIsOpen] = useState(false)
   const { usageStats } = useUsageStats()
+  // Re-render with server catalog data once it has loaded
+  const { models: catalogModels, tiers } = useModelCatalog()
+  const hasSelfHostedModels = catalogModels.some(model => model.provider === 'openai-compatible')
 
   const currentTier = usageStats?.tier?.tier || 'free'
-  const allowedModels = usageStats?.tier?.allowed_models || PRICING_TIERS.free.allowed_models
+  const allowedModels = usageStats?.tier?.allowed_models || tiers.free?.allowed_models || []
 
   // UPDATED: Enhanced model allowance check
   const isModelAllowed = (model: AIModel): boolean => {
@@ -31,7 +35,7 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
   // UPDATED: Get required tier for model access
   const getRequiredTier = (model: AIModel): string => {
     // Check which tier includes this model
-    for (const [tierName, tierData] of Object.entries(PRICING_TIERS)) {
+    for (const [tierName, tierData] of Object.entries(tiers)) {
       if (tierData.allowed_models.includes(model.id)) {
         return tierName
       }
@@ -102,7 +106,7 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
            model.id.includes('3-7') || model.id.includes('4-20250514') || model.id.includes('2.5')
   }
 
-  const renderCategoryGroup = (categoryKey: string, categoryInfo: any, models: AIModel[], provider: 'openai' | 'anthropic' | 'google') => {
+  const renderCategoryGroup = (categoryKey: string, categoryInfo: any, models: AIModel[], provider: AIModel['provider']) => {
     if (models.length === 0) return null
 
     const getProviderColors = (provider: string) => {
@@ -110,6 +114,7 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
         case 'openai': return { color: 'text-blue-600', bg: 'bg-blue-50' }
         case 'anthropic': return { color: 'text-orange-600', bg: 'bg-orange-50' }
         case 'google': return { color: 'text-green-600', bg: 'bg-green-50' }
+        case 'openai-compatible': return { color: 'text-slate-600', bg: 'bg-slate-50' }
         default: return { color: 'text-gray-600', bg: 'bg-gray-50' }
       }
     }
@@ -248,7 +253,7 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
                 <div className="px-3 py-2 bg-blue-50 border-b border-gray-200">
                   <span className="text-xs font-semibold text-blue-800">OpenAI Models</span>
                 </div>
-                {getModelsByCategory('openai').map(({ category, categoryInfo, models }) =>
+                {getModelsByCategory('openai', catalogModels).map(({ category, categoryInfo, models }) =>
                   renderCategoryGroup(category, categoryInfo, models, 'openai')
                 )}
               </div>
@@ -258,7 +263,7 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
                 <div className="px-3 py-2 bg-orange-50 border-b border-gray-200">
                   <span className="text-xs font-semibold text-orange-800">Anthropic Claude</span>
                 </div>
-                {getModelsByCategory('anthropic').map(({ category, categoryInfo, models }) =>
+                {getModelsByCategory('anthropic', catalogModels).map(({ category, categoryInfo, models }) =>
                   renderCategoryGroup(category, categoryInfo, models, 'anthropic')
                 )}
               </div>
@@ -288,11 +293,23 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
                   </div>
                 </div>
 
-                {getModelsByCategory('google').map(({ category, categoryInfo, models }) =>
+                {getModelsByCategory('google', catalogModels).map(({ category, categoryInfo, models }) =>
                   renderCategoryGroup(category, categoryInfo, models, 'google')
                 )}
               </div>
 
+              {/* Self-hosted models behind an OpenAI-compatible endpoint */}
+              {hasSelfHostedModels && (
+                <div className="border-b border-gray-200">
+                  <div className="px-3 py-2 bg-slate-50 border-b border-gray-200">
+                    <span className="text-xs font-semibold text-slate-800">Self-Hosted</span>
+                  </div>
+                  {getModelsByCategory('openai-compatible', catalogModels).map(({ category, categoryInfo, models }) =>
+                    renderCategoryGroup(category, categoryInfo, models, 'openai-compatible')
+                  )}
+                </div>
+              )}
+
               {/* UPDATED: Enhanced upgrade prompt for restricted access */}
               {(currentTier === 'free' || currentTier === 'basic') && (
                 <div className="border-t border-gray-200 p-4 bg-gradient-to-r from-purple-50 to-purple-100">
@@ -350,7 +367,8 @@ export function ModelSelector({ selectedModel, onModelChange, onUpgradePrompt, c
           <div className="flex items-center space-x-2 mt-1">
             <span className="text-xs text-gray-500 truncate">
               {selectedModel.provider === 'anthropic' ? 'Anthropic' : 
-               selectedModel.provider === 'google' ? 'Google' : 'OpenAI'} • {MODEL_CATEGORIES[selectedModel.category]?.name || selectedModel.category}
+               selectedModel.provider === 'google' ? 'Google' :
+               selectedModel.provider === 'openai-compatible' ? 'Self-Hosted' : 'OpenAI'} • {MODEL_CATEGORIES[selectedModel.category]?.name || selectedModel.category}
             </span>
             {getTierBadge(selectedModel)}
           </div>
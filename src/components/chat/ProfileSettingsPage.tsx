@@ -2,6 +2,7 @@
 import React from 'react'
 import { ArrowLeft, User } from 'lucide-react'
 import { ProfileSettings } from '../settings/ProfileSettings'
+import { CustomInstructions } from '../settings/CustomInstructions'
 import { Logo } from '../common/Logo'
 
 interface ProfileSettingsPageProps {
@@ -38,8 +39,9 @@ export function ProfileSettingsPage({ onBack }: ProfileSettingsPageProps) {
 
       {/* Page content */}
       <div className="flex-1 overflow-y-auto">
-        <div className="max-w-4xl mx-auto p-4 lg:p-8">
+        <div className="max-w-4xl mx-auto p-4 lg:p-8 space-y-6">
           <ProfileSettings />
+          <CustomInstructions />
         </div>
       </div>
     </div>
@@ -0,0 +1,301 @@
+// Create or edit a project: name, shared instructions, default model and files
+import { useEffect, useRef, useState } from 'react'
+import { X, FolderOpen, FileText, Trash2, Upload, Loader2, AlertTriangle } from 'lucide-react'
+import { MAX_SYSTEM_PROMPT_LENGTH, Project, ProjectDocument, ProjectSettings, estimateTokens } from '../../types/chat'
+import { DOCUMENT_ACCEPT, attachmentService } from '../../lib/attachmentService'
+import { databaseService } from '../../lib/databaseService'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
+
+export interface ProjectDraft {
+  name: string
+  description: string
+  settings: ProjectSettings
+}
+
+interface ProjectSettingsModalProps {
+  isOpen: boolean
+  project: Project | null // null creates a new project
+  onClose: () => void
+  onSave: (draft: ProjectDraft) => Promise<void> | void
+  onDelete?: (projectId: string) => Promise<void> | void
+}
+
+export function ProjectSettingsModal({ isOpen, project, onClose, onSave, onDelete }: ProjectSettingsModalProps) {
+  const { models } = useModelCatalog()
+  const [name, setName] = useState('')
+  const [description, setDescription] = useState('')
+  const [instructions, setInstructions] = useState('')
+  const [defaultModel, setDefaultModel] = useState('')
+  const [documents, setDocuments] = useState<ProjectDocument[]>([])
+  const [uploading, setUploading] = useState<string[]>([])
+  const [fileError, setFileError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [confirmDelete, setConfirmDelete] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!isOpen) return
+
+    setName(project?.name || '')
+    setDescription(project?.description || '')
+    setInstructions(project?.settings.instructions || '')
+    setDefaultModel(project?.settings.default_model || '')
+    setDocuments([])
+    setFileError(null)
+    setConfirmDelete(false)
+
+    if (project) {
+      databaseService.loadProjectDocuments(project.id)
+        .then(setDocuments)
+        .catch(error => {
+          console.error('❌ Failed to load project files:', error)
+          setFileError('Failed to load project files')
+        })
+    }
+  }, [isOpen, project])
+
+  if (!isOpen) return null
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+
+    setSaving(true)
+    try {
+      await onSave({
+        name: name.trim(),
+        description: description.trim(),
+        settings: {
+          ...(instructions.trim() && { instructions: instructions.trim() }),
+          ...(defaultModel && { default_model: defaultModel })
+        }
+      })
+      onClose()
+    } catch (error) {
+      console.error('Failed to save project:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Files go through the same extraction as message documents and are stored with their text
+  const addFiles = async (files: File[]) => {
+    if (!project) return
+    setFileError(null)
+
+    for (const file of files) {
+      setUploading(prev => [...prev, file.name])
+      try {
+        const part = await attachmentService.extractDocument(file)
+        const document = await databaseService.addProjectDocument(project.id, part)
+        setDocuments(prev => [...prev, document])
+        attachmentService.indexProjectDocument(document.id)
+      } catch (error) {
+        setFileError(error instanceof Error ? error.message : `Could not add ${file.name}`)
+      } finally {
+        setUploading(prev => prev.filter(name => name !== file.name))
+      }
+    }
+  }
+
+  const removeDocument = async (document: ProjectDocument) => {
+    try {
+      await databaseService.deleteProjectDocument(document)
+      setDocuments(prev => prev.filter(d => d.id !== document.id))
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : `Could not remove ${document.filename}`)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto">
+        <div className="relative p-6">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+
+          <div className="flex items-center space-x-2 mb-2">
+            <FolderOpen className="w-5 h-5 text-purple-600" />
+            <h2 className="text-lg font-semibold text-gray-800">{project ? 'Project Settings' : 'New Project'}</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            Conversations in a project share its instructions, default model and files.
+          </p>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                className="block w-full px-3 py-2.5 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all text-sm"
+                placeholder="e.g., Thesis research"
+                autoFocus
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+                className="block w-full px-3 py-2.5 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all text-sm"
+                placeholder="Optional"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Instructions</label>
+              <textarea
+                value={instructions}
+                onChange={(e) => setInstructions(e.target.value)}
+                rows={5}
+                maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+                className="block w-full px-3 py-2.5 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all resize-y text-sm"
+                placeholder="Sent with every message in this project, after your custom instructions"
+              />
+              <p className="mt-1 text-xs text-gray-400 text-right">
+                {instructions.length.toLocaleString()} / {MAX_SYSTEM_PROMPT_LENGTH.toLocaleString()}
+              </p>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Default model</label>
+              <select
+                value={defaultModel}
+                onChange={(e) => setDefaultModel(e.target.value)}
+                className="block w-full px-3 py-2.5 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all text-sm bg-white"
+              >
+                <option value="">Keep the current model</option>
+                {models.map(model => (
+                  <option key={model.id} value={model.id}>{model.displayName}</option>
+                ))}
+              </select>
+            </div>
+
+            {/* Files can be added once the project exists */}
+            {project && (
+              <div>
+                <div className="flex items-center justify-between mb-1">
+                  <label className="block text-sm font-medium text-gray-700">Files</label>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={DOCUMENT_ACCEPT}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      addFiles(Array.from(e.target.files || []))
+                      e.target.value = ''
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    className="flex items-center text-xs font-medium text-purple-600 hover:text-purple-700 px-2 py-1 rounded-lg hover:bg-purple-50 transition-colors"
+                  >
+                    <Upload className="w-3 h-3 mr-1" />
+                    Add files
+                  </button>
+                </div>
+
+                {documents.length === 0 && uploading.length === 0 ? (
+                  <p className="text-xs text-gray-400 py-2">No files yet. PDF, DOCX, CSV, Markdown, text and code files are supported.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100 border border-gray-200 rounded-xl">
+                    {documents.map(document => (
+                      <li key={document.id} className="flex items-center px-3 py-2">
+                        <FileText className="w-4 h-4 text-purple-600 flex-shrink-0" />
+                        <span className="ml-2 text-sm text-gray-800 truncate">{document.filename}</span>
+                        <span className="ml-2 text-xs text-gray-500 whitespace-nowrap">
+                          ~{estimateTokens(document.content).toLocaleString()} tokens
+                        </span>
+                        <button
+                          type="button"
+                          onClick={() => removeDocument(document)}
+                          className="ml-auto p-1 text-gray-400 hover:text-red-600 rounded-lg hover:bg-red-50 transition-colors"
+                          title="Remove file"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </li>
+                    ))}
+                    {uploading.map(fileName => (
+                      <li key={fileName} className="flex items-center px-3 py-2 text-sm text-gray-500">
+                        <Loader2 className="w-4 h-4 text-purple-600 animate-spin flex-shrink-0" />
+                        <span className="ml-2 truncate">{fileName}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                {fileError && (
+                  <p className="mt-1.5 text-xs text-red-600 flex items-center">
+                    <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+                    {fileError}
+                  </p>
+                )}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mt-6">
+            <div>
+              {project && onDelete && (
+                confirmDelete ? (
+                  <div className="flex items-center space-x-2">
+                    <span className="text-xs text-red-600">Delete project? Conversations are kept.</span>
+                    <button
+                      onClick={async () => {
+                        await onDelete(project.id)
+                        onClose()
+                      }}
+                      className="px-3 py-1.5 text-xs font-medium bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
+                    >
+                      Delete
+                    </button>
+                    <button
+                      onClick={() => setConfirmDelete(false)}
+                      className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <button
+                    onClick={() => setConfirmDelete(true)}
+                    className="flex items-center px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-xl transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    Delete
+                  </button>
+                )
+              )}
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={saving || !name.trim()}
+                className="px-4 py-2 text-sm font-medium bg-purple-600 hover:bg-purple-700 text-white rounded-xl transition-colors disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : project ? 'Save' : 'Create project'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
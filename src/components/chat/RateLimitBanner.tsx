@@ -0,0 +1,57 @@
+// Rate limit banner with a live countdown until the next request is accepted
+import { useEffect, useState } from 'react'
+import { Clock, X } from 'lucide-react'
+import { RateLimitError } from '../../lib/streamingService'
+
+interface RateLimitBannerProps {
+  rateLimit: RateLimitError
+  onExpire: () => void
+  onDismiss: () => void
+}
+
+const getSecondsLeft = (retryAt: string) => {
+  return Math.max(Math.ceil((new Date(retryAt).getTime() - Date.now()) / 1000), 0)
+}
+
+export function RateLimitBanner({ rateLimit, onExpire, onDismiss }: RateLimitBannerProps) {
+  const [secondsLeft, setSecondsLeft] = useState(() => getSecondsLeft(rateLimit.retryAt))
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft(rateLimit.retryAt))
+
+    const interval = setInterval(() => {
+      const remaining = getSecondsLeft(rateLimit.retryAt)
+      setSecondsLeft(remaining)
+      if (remaining === 0) {
+        clearInterval(interval)
+        onExpire()
+      }
+    }, 1000)
+
+    return () => clearInterval(interval)
+  }, [rateLimit.retryAt, onExpire])
+
+  return (
+    <div className="bg-amber-50 border-l-4 border-amber-400 p-4 rounded-r-xl shadow-lg backdrop-blur-sm relative z-40">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <Clock className="w-5 h-5 text-amber-500" />
+          <div>
+            <p className="text-sm text-amber-800 font-medium">
+              {rateLimit.message}
+            </p>
+            <p className="text-xs text-amber-700">
+              You can send again in {secondsLeft}s
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={onDismiss}
+          className="text-amber-400 hover:text-amber-600 transition-colors p-1 rounded-xl hover:bg-amber-100 flex-shrink-0"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  )
+}
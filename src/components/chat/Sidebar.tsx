@@ -1,9 +1,11 @@
 // Mobile-first sidebar component with Chat Models branding and page navigation
 import React from 'react'
-import { Plus, MessageSquare, ChevronLeft, Menu, User, Settings, CreditCard, ChevronDown, LogOut, Trash2, X } from 'lucide-react'
-import { Conversation } from '../../types/chat'
+import { Plus, MessageSquare, ChevronLeft, Menu, User, Settings, CreditCard, ChevronDown, ChevronRight, LogOut, Trash2, X, BarChart3, Folder, FolderOpen, FolderPlus, Search, Pin, Archive, ArrowLeft, Tags } from 'lucide-react'
+import { Conversation, Project, TAG_COLOR_CLASSES, Tag, TagColor } from '../../types/chat'
 import { useAuth } from '../../hooks/useAuth'
 import { ConversationMenu } from './ConversationMenu'
+import { ConversationSearchResults } from './ConversationSearchResults'
+import { TagManager } from './TagManager'
 import { UsageDisplay } from '../usage/UsageDisplay'
 import { useUserProfile } from '../../hooks/useUserProfile'
 import { Logo } from '../common/Logo'
@@ -13,11 +15,12 @@ import { useUsageStats } from '../../hooks/useUsageStats'
 interface SidebarProps {
   conversations: Conversation[]
   activeConversationId: string | null
-  currentPage: 'chat' | 'profile' | 'pricing' // NEW: Current page state
+  currentPage: 'chat' | 'profile' | 'pricing' | 'analytics' // NEW: Current page state
   onNewChat: () => void
   onSelectConversation: (id: string) => void
   onProfileSettings: () => void // NEW: Profile settings handler
   onPricingPlans: () => void // NEW: Pricing plans handler
+  onUsageAnalytics: () => void
   isOpen: boolean
   onToggle: () => void
   usageStats?: any
@@ -25,6 +28,19 @@ interface SidebarProps {
   onRenameConversation: (id: string, newTitle: string) => void
   onDeleteConversation: (id: string) => void
   onClearAllConversations: () => void
+  projects: Project[] // NEW: Projects with their conversations nested below them
+  onNewProjectChat: (projectId: string) => void
+  onCreateProject: () => void
+  onEditProject: (project: Project) => void
+  onMoveConversation: (id: string, projectId: string | null) => void
+  onOpenSearchResult: (conversationId: string, messageId: string | null) => void // NEW: Open a search match scrolled to its message
+  onArchiveConversation: (id: string, isArchived: boolean) => void
+  onPinConversation: (id: string, isPinned: boolean) => void
+  tags: Tag[] // NEW: User-defined tags, used as list filters
+  onSetConversationTags: (id: string, tagIds: string[]) => void
+  onCreateTag: (name: string, color: TagColor) => Promise<Tag | null>
+  onUpdateTag: (tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>) => void
+  onDeleteTag: (tagId: string) => void
 }
 
 export function Sidebar({ 
@@ -35,18 +51,132 @@ export function Sidebar({
   onSelectConversation,
   onProfileSettings, // NEW: Profile settings handler
   onPricingPlans, // NEW: Pricing plans handler
+  onUsageAnalytics,
   isOpen,
   onToggle,
   onUpgrade,
   onRenameConversation,
   onDeleteConversation,
-  onClearAllConversations
+  onClearAllConversations,
+  projects,
+  onNewProjectChat,
+  onCreateProject,
+  onEditProject,
+  onMoveConversation,
+  onOpenSearchResult,
+  onArchiveConversation,
+  onPinConversation,
+  tags,
+  onSetConversationTags,
+  onCreateTag,
+  onUpdateTag,
+  onDeleteTag
 }: SidebarProps) {
   const { signOut } = useAuth()
   const { usageStats } = useUsageStats()
   const { profile, displayName, initials } = useUserProfile()
   const [profileMenuOpen, setProfileMenuOpen] = React.useState(false)
   const [showClearConfirm, setShowClearConfirm] = React.useState(false)
+  const [expandedProjects, setExpandedProjects] = React.useState<Set<string>>(new Set())
+  const [searchQuery, setSearchQuery] = React.useState('')
+  const [showArchived, setShowArchived] = React.useState(false)
+  const [tagFilter, setTagFilter] = React.useState<Set<string>>(new Set())
+  const [showTagManager, setShowTagManager] = React.useState(false)
+
+  // NEW: Archived conversations are only listed in the Archived view; the tag filter keeps
+  // conversations with any of the selected tags
+  const selectedTagIds = tags.filter(tag => tagFilter.has(tag.id)).map(tag => tag.id)
+  const listedConversations = conversations.filter(c => !c.is_archived &&
+    (selectedTagIds.length === 0 || !!c.tag_ids?.some(id => selectedTagIds.includes(id))))
+  const archivedConversations = conversations.filter(c => c.is_archived)
+  const pinnedConversations = listedConversations.filter(c => c.is_pinned)
+
+  // NEW: The active conversation's project is always expanded
+  const activeProjectId = conversations.find(c => c.id === activeConversationId)?.project_id ?? null
+  const projectIds = new Set(projects.map(project => project.id))
+  const ungroupedConversations = listedConversations.filter(c => !c.is_pinned && (!c.project_id || !projectIds.has(c.project_id)))
+
+  const toggleTagFilter = (tagId: string) => {
+    setTagFilter(prev => {
+      const next = new Set(prev)
+      if (next.has(tagId)) {
+        next.delete(tagId)
+      } else {
+        next.add(tagId)
+      }
+      return next
+    })
+  }
+
+  const toggleProject = (projectId: string) => {
+    setExpandedProjects(prev => {
+      const next = new Set(prev)
+      if (next.has(projectId)) {
+        next.delete(projectId)
+      } else {
+        next.add(projectId)
+      }
+      return next
+    })
+  }
+
+  const renderConversation = (conversation: Conversation) => {
+    const ConversationIcon = conversation.is_archived ? Archive : conversation.is_pinned ? Pin : MessageSquare
+    const conversationTags = tags.filter(tag => conversation.tag_ids?.includes(tag.id))
+
+    return (
+      <div
+        key={conversation.id}
+        className={`
+          group relative rounded-xl transition-all duration-200 cursor-pointer
+          ${activeConversationId === conversation.id
+            ? 'bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm'
+            : 'hover:bg-white/40 hover:backdrop-blur-sm border border-transparent hover:border-gray-200/30'
+          }
+        `}
+        onClick={() => onSelectConversation(conversation.id)}
+      >
+        <div className="flex items-center p-3 pr-10">
+          <ConversationIcon className={`w-4 h-4 mr-3 flex-shrink-0 ${
+            activeConversationId === conversation.id 
+              ? 'text-purple-600' 
+              : 'text-gray-400'
+          }`} />
+          <span className={`text-sm truncate ${
+            activeConversationId === conversation.id 
+              ? 'text-purple-800 font-medium' 
+              : 'text-gray-700'
+          }`}>
+            {conversation.title}
+          </span>
+          {conversationTags.length > 0 && (
+            <span className="ml-2 flex items-center space-x-0.5 flex-shrink-0" title={conversationTags.map(tag => tag.name).join(', ')}>
+              {conversationTags.map(tag => (
+                <span key={tag.id} className={`w-1.5 h-1.5 rounded-full ${TAG_COLOR_CLASSES[tag.color].dot}`} />
+              ))}
+            </span>
+          )}
+        </div>
+
+        {/* Conversation menu */}
+        <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity z-10">
+          <ConversationMenu
+            conversation={conversation}
+            onRename={onRenameConversation}
+            onDelete={onDeleteConversation}
+            isActive={activeConversationId === conversation.id}
+            projects={projects}
+            onMoveToProject={onMoveConversation}
+            onArchive={onArchiveConversation}
+            onPin={onPinConversation}
+            tags={tags}
+            onSetTags={onSetConversationTags}
+            onCreateTag={onCreateTag}
+          />
+        </div>
+      </div>
+    )
+  }
 
   return (
     <>
@@ -110,54 +240,202 @@ export function Sidebar({
         {/* Clean conversations list - only show on chat page */}
         {currentPage === 'chat' && (
           <div className="flex-1 overflow-y-auto px-3 lg:px-6">
-            <div className="space-y-1 sm:space-y-1">
-              {conversations.length === 0 ? (
-                <div className="text-center py-8 text-gray-500">
-                  <p className="text-sm">No conversations yet</p>
+            {/* NEW: Full-text search across conversations */}
+            <div className="relative mb-3">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+              <input
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+                placeholder="Search conversations"
+                className="w-full pl-9 pr-3 py-2 text-sm rounded-xl bg-white/60 border border-gray-200/50 text-gray-700 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:bg-white"
+              />
+            </div>
+
+            {searchQuery.trim() ? (
+              <ConversationSearchResults
+                query={searchQuery}
+                onOpenResult={onOpenSearchResult}
+              />
+            ) : showArchived ? (
+              <>
+                {/* NEW: Archived view */}
+                <div className="flex items-center px-1 py-1">
+                  <button
+                    onClick={() => setShowArchived(false)}
+                    className="p-1 mr-1 rounded-lg text-gray-400 hover:text-purple-600 hover:bg-white/50 transition-colors"
+                    title="Back to chats"
+                  >
+                    <ArrowLeft className="w-4 h-4" />
+                  </button>
+                  <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Archived</span>
                 </div>
-              ) : (
-                <>
-                  {conversations.map((conversation) => (
-                    <div
-                      key={conversation.id}
-                      className={`
-                        group relative rounded-xl transition-all duration-200 cursor-pointer
-                        ${activeConversationId === conversation.id
-                          ? 'bg-white/70 backdrop-blur-sm border border-gray-200/50 shadow-sm'
-                          : 'hover:bg-white/40 hover:backdrop-blur-sm border border-transparent hover:border-gray-200/30'
-                        }
-                      `}
-                      onClick={() => onSelectConversation(conversation.id)}
+                <div className="space-y-1">
+                  {archivedConversations.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <p className="text-sm">No archived conversations</p>
+                    </div>
+                  ) : (
+                    archivedConversations.map(renderConversation)
+                  )}
+                </div>
+              </>
+            ) : (
+              <>
+                {/* NEW: Tags, used as filters */}
+                <div className="mb-3">
+                  <div className="flex items-center justify-between px-1 py-1">
+                    <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Tags</span>
+                    <button
+                      onClick={() => setShowTagManager(!showTagManager)}
+                      className={`p-1 rounded-lg transition-colors hover:bg-white/50 ${showTagManager ? 'text-purple-600' : 'text-gray-400 hover:text-purple-600'}`}
+                      title="Manage tags"
                     >
-                      <div className="flex items-center p-3 pr-10">
-                        <MessageSquare className={`w-4 h-4 mr-3 flex-shrink-0 ${
-                          activeConversationId === conversation.id 
-                            ? 'text-purple-600' 
-                            : 'text-gray-400'
-                        }`} />
-                        <span className={`text-sm truncate ${
-                          activeConversationId === conversation.id 
-                            ? 'text-purple-800 font-medium' 
-                            : 'text-gray-700'
-                        }`}>
-                          {conversation.title}
-                        </span>
-                      </div>
+                      <Tags className="w-4 h-4" />
+                    </button>
+                  </div>
+                  {showTagManager ? (
+                    <TagManager
+                      tags={tags}
+                      onCreate={onCreateTag}
+                      onUpdate={onUpdateTag}
+                      onDelete={onDeleteTag}
+                    />
+                  ) : tags.length > 0 && (
+                    <div className="flex flex-wrap gap-1 px-1">
+                      {tags.map(tag => (
+                        <button
+                          key={tag.id}
+                          onClick={() => toggleTagFilter(tag.id)}
+                          className={`flex items-center px-2 py-0.5 rounded-full border text-xs transition-colors ${
+                            tagFilter.has(tag.id) ? TAG_COLOR_CLASSES[tag.color].chip : 'border-gray-200/70 text-gray-600 hover:bg-white/50'
+                          }`}
+                          aria-pressed={tagFilter.has(tag.id)}
+                        >
+                          <span className={`w-1.5 h-1.5 mr-1 rounded-full ${TAG_COLOR_CLASSES[tag.color].dot}`} />
+                          {tag.name}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
 
-                      {/* Conversation menu */}
-                      <div className="absolute top-3 right-3 opacity-0 group-hover:opacity-100 transition-opacity z-10">
-                        <ConversationMenu
-                          conversation={conversation}
-                          onRename={onRenameConversation}
-                          onDelete={onDeleteConversation}
-                          isActive={activeConversationId === conversation.id}
-                        />
-                      </div>
+                {/* NEW: Pinned conversations, from any project */}
+                {pinnedConversations.length > 0 && (
+                  <div className="mb-3">
+                    <div className="px-1 py-1">
+                      <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Pinned</span>
                     </div>
-                  ))}
-                </>
-              )}
-            </div>
+                    <div className="space-y-1">
+                      {pinnedConversations.map(renderConversation)}
+                    </div>
+                  </div>
+                )}
+
+                {/* NEW: Projects, each with its own conversations */}
+                <div className="mb-3">
+                  <div className="flex items-center justify-between px-1 py-1">
+                    <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Projects</span>
+                    <button
+                      onClick={onCreateProject}
+                      className="p-1 rounded-lg text-gray-400 hover:text-purple-600 hover:bg-white/50 transition-colors"
+                      title="New project"
+                    >
+                      <FolderPlus className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <div className="space-y-1">
+                    {projects.map(project => {
+                      const projectConversations = listedConversations.filter(c => c.project_id === project.id)
+                      const expanded = expandedProjects.has(project.id) || project.id === activeProjectId
+
+                      return (
+                        <div key={project.id}>
+                          <div
+                            className="group relative flex items-center p-3 pr-16 rounded-xl cursor-pointer hover:bg-white/40 transition-colors"
+                            onClick={() => toggleProject(project.id)}
+                            title={project.description || project.name}
+                          >
+                            {expanded ? (
+                              <ChevronDown className="w-3 h-3 mr-1 text-gray-400 flex-shrink-0" />
+                            ) : (
+                              <ChevronRight className="w-3 h-3 mr-1 text-gray-400 flex-shrink-0" />
+                            )}
+                            {expanded ? (
+                              <FolderOpen className="w-4 h-4 mr-2 text-purple-600 flex-shrink-0" />
+                            ) : (
+                              <Folder className="w-4 h-4 mr-2 text-gray-400 flex-shrink-0" />
+                            )}
+                            <span className="text-sm text-gray-700 truncate">{project.name}</span>
+                            <span className="ml-1.5 text-xs text-gray-400">{projectConversations.length}</span>
+
+                            <div className="absolute top-2.5 right-2 flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  onNewProjectChat(project.id)
+                                }}
+                                className="p-1 rounded-lg text-gray-500 hover:text-purple-600 hover:bg-white/70"
+                                title="New chat in project"
+                              >
+                                <Plus className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  onEditProject(project)
+                                }}
+                                className="p-1 rounded-lg text-gray-500 hover:text-purple-600 hover:bg-white/70"
+                                title="Project settings"
+                              >
+                                <Settings className="w-4 h-4" />
+                              </button>
+                            </div>
+                          </div>
+
+                          {expanded && (
+                            <div className="ml-4 pl-2 border-l border-gray-200/60 space-y-1">
+                              {projectConversations.length === 0 ? (
+                                <p className="px-3 py-2 text-xs text-gray-400">No conversations yet</p>
+                              ) : (
+                                projectConversations.map(renderConversation)
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      )
+                    })}
+                  </div>
+                </div>
+
+                <div className="px-1 py-1">
+                  <span className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Chats</span>
+                </div>
+                <div className="space-y-1 sm:space-y-1">
+                  {ungroupedConversations.length === 0 ? (
+                    <div className="text-center py-8 text-gray-500">
+                      <p className="text-sm">{selectedTagIds.length > 0 ? 'No conversations with these tags' : 'No conversations yet'}</p>
+                    </div>
+                  ) : (
+                    <>
+                      {ungroupedConversations.map(renderConversation)}
+                    </>
+                  )}
+                </div>
+
+                {archivedConversations.length > 0 && (
+                  <button
+                    onClick={() => setShowArchived(true)}
+                    className="w-full flex items-center mt-3 mb-2 p-3 rounded-xl text-sm text-gray-500 hover:text-purple-700 hover:bg-white/40 transition-colors"
+                  >
+                    <Archive className="w-4 h-4 mr-3 flex-shrink-0" />
+                    <span>Archived</span>
+                    <span className="ml-1.5 text-xs text-gray-400">{archivedConversations.length}</span>
+                  </button>
+                )}
+              </>
+            )}
           </div>
         )}
 
@@ -168,15 +446,17 @@ export function Sidebar({
               <div className="w-16 h-16 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-4">
                 {currentPage === 'profile' ? (
                   <User className="w-8 h-8 text-purple-600" />
+                ) : currentPage === 'analytics' ? (
+                  <BarChart3 className="w-8 h-8 text-purple-600" />
                 ) : (
                   <CreditCard className="w-8 h-8 text-purple-600" />
                 )}
               </div>
               <p className="text-sm font-medium text-gray-700">
-                {currentPage === 'profile' ? 'Profile Settings' : 'Pricing Plans'}
+                {currentPage === 'profile' ? 'Profile Settings' : currentPage === 'analytics' ? 'Usage Analytics' : 'Pricing Plans'}
               </p>
               <p className="text-xs text-gray-500 mt-1">
-                {currentPage === 'profile' ? 'Manage your account' : 'Choose your plan'}
+                {currentPage === 'profile' ? 'Manage your account' : currentPage === 'analytics' ? 'Track your usage' : 'Choose your plan'}
               </p>
             </div>
           </div>
@@ -269,6 +549,22 @@ export function Sidebar({
                   <span className="text-sm">Profile Settings</span>
                 </button>
                 
+                {/* Usage Analytics navigation */}
+                <button
+                  onClick={() => {
+                    setProfileMenuOpen(false)
+                    onUsageAnalytics()
+                  }}
+                  className={`w-full flex items-center space-x-3 p-3 transition-colors ${
+                    currentPage === 'analytics' 
+                      ? 'bg-purple-50/50 text-purple-700' 
+                      : 'hover:bg-gray-50/50 text-gray-700'
+                  }`}
+                >
+                  <BarChart3 className="w-4 h-4 flex-shrink-0" />
+                  <span className="text-sm">Usage Analytics</span>
+                </button>
+                
                 {/* NEW: Pricing Plans navigation */}
                 <button
                   onClick={() => {
@@ -1,8 +1,10 @@
 // Simple streaming message component - CLEAN VERSION
 import React, { useEffect, useState } from 'react'
 import { Square, AlertCircle, Sparkles } from 'lucide-react'
-import { AIModel, getProviderIcon } from '../../types/chat'
+import { AIModel, ToolCallStep, getProviderIcon } from '../../types/chat'
 import { marked } from 'marked'
+import { ThinkingPanel } from './ThinkingPanel'
+import { ToolCallSteps } from './ToolCallSteps'
 
 // Configure marked for safe rendering
 marked.setOptions({
@@ -14,12 +16,14 @@ marked.setOptions({
 
 interface StreamingMessageProps {
   content: string
+  thinking?: string
+  toolCalls?: ToolCallStep[]
   model: AIModel
   onCancel: () => void
   error?: string | null
 }
 
-export function StreamingMessage({ content, model, onCancel, error }: StreamingMessageProps) {
+export function StreamingMessage({ content, thinking, toolCalls, model, onCancel, error }: StreamingMessageProps) {
   const [showCursor, setShowCursor] = useState(true)
 
   // Cursor blinking animation
@@ -99,6 +103,10 @@ export function StreamingMessage({ content, model, onCancel, error }: StreamingM
               </div>
             ) : (
               <div className="relative">
+                {/* NEW: Reasoning streams first; the panel closes once the reply starts */}
+                {thinking && <ThinkingPanel reasoning={thinking} isThinking={!content && !toolCalls?.length} />}
+                {/* NEW: Tool calls as expandable steps; a spinner until each result arrives */}
+                {!!toolCalls?.length && <ToolCallSteps steps={toolCalls} />}
                 <div 
                   className="inline"
                   dangerouslySetInnerHTML={{ 
@@ -108,7 +116,7 @@ export function StreamingMessage({ content, model, onCancel, error }: StreamingM
                 {showCursor && content && (
                   <span className="inline-block w-0.5 h-5 bg-purple-500 ml-1 animate-pulse" />
                 )}
-                {!content && (
+                {!content && !thinking && !toolCalls?.length && (
                   <div className="flex items-center space-x-2 text-gray-500">
                     <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" />
                     <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0.1s' }} />
@@ -0,0 +1,88 @@
+// Per-conversation system prompt editor
+import { useEffect, useState } from 'react'
+import { X, ScrollText } from 'lucide-react'
+import { MAX_SYSTEM_PROMPT_LENGTH } from '../../types/chat'
+
+interface SystemPromptModalProps {
+  isOpen: boolean
+  systemPrompt: string
+  onClose: () => void
+  onSave: (systemPrompt: string) => Promise<void> | void
+}
+
+export function SystemPromptModal({ isOpen, systemPrompt, onClose, onSave }: SystemPromptModalProps) {
+  const [draft, setDraft] = useState(systemPrompt)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setDraft(systemPrompt)
+    }
+  }, [isOpen, systemPrompt])
+
+  if (!isOpen) return null
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await onSave(draft.trim())
+      onClose()
+    } catch (error) {
+      console.error('Failed to save system prompt:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-xl max-h-[90vh] overflow-y-auto">
+        <div className="relative p-6">
+          <button
+            onClick={onClose}
+            className="absolute top-4 right-4 p-2 hover:bg-gray-100 rounded-xl transition-colors"
+          >
+            <X className="w-5 h-5 text-gray-500" />
+          </button>
+
+          <div className="flex items-center space-x-2 mb-2">
+            <ScrollText className="w-5 h-5 text-purple-600" />
+            <h2 className="text-lg font-semibold text-gray-800">System Prompt</h2>
+          </div>
+          <p className="text-sm text-gray-500 mb-4">
+            Applies to this conversation only, after your custom instructions from Profile Settings.
+          </p>
+
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={8}
+            maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+            className="block w-full px-3 py-2.5 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all resize-y text-sm"
+            placeholder="e.g., You are a patient Spanish tutor. Reply in Spanish and correct my mistakes."
+            autoFocus
+          />
+          <p className="mt-1 text-xs text-gray-400 text-right">
+            {draft.length.toLocaleString()} / {MAX_SYSTEM_PROMPT_LENGTH.toLocaleString()}
+          </p>
+
+          <div className="flex items-center justify-end space-x-2 mt-4">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-100 rounded-xl transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || draft.trim() === systemPrompt}
+              className="px-4 py-2 text-sm font-medium bg-purple-600 hover:bg-purple-700 text-white rounded-xl transition-colors disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
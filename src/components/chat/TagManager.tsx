@@ -0,0 +1,91 @@
+// Sidebar editor for user-defined conversation tags: rename, recolour, delete, add
+import React, { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { MAX_TAG_NAME_LENGTH, TAG_COLORS, TAG_COLOR_CLASSES, Tag, TagColor, nextTagColor } from '../../types/chat'
+
+interface TagManagerProps {
+  tags: Tag[]
+  onCreate: (name: string, color: TagColor) => Promise<Tag | null>
+  onUpdate: (tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>) => void
+  onDelete: (tagId: string) => void
+}
+
+function TagRow({ tag, onUpdate, onDelete }: { tag: Tag } & Pick<TagManagerProps, 'onUpdate' | 'onDelete'>) {
+  const [name, setName] = useState(tag.name)
+
+  const saveName = () => {
+    const trimmed = name.trim()
+    if (trimmed && trimmed !== tag.name) {
+      onUpdate(tag.id, { name: trimmed })
+    } else {
+      setName(tag.name)
+    }
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={() => onUpdate(tag.id, { color: TAG_COLORS[(TAG_COLORS.indexOf(tag.color) + 1) % TAG_COLORS.length] })}
+        className={`w-3.5 h-3.5 rounded-full flex-shrink-0 ${TAG_COLOR_CLASSES[tag.color].dot}`}
+        title="Change colour"
+      />
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        onBlur={saveName}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        maxLength={MAX_TAG_NAME_LENGTH}
+        className="min-w-0 flex-1 px-1.5 py-1 rounded-lg border border-transparent bg-transparent text-gray-700 hover:border-gray-200 focus:bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+        aria-label="Tag name"
+      />
+      <button
+        onClick={() => onDelete(tag.id)}
+        className="p-1 rounded-lg text-gray-400 hover:text-red-600 hover:bg-red-50 transition-colors"
+        title="Delete tag"
+      >
+        <Trash2 className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  )
+}
+
+export function TagManager({ tags, onCreate, onUpdate, onDelete }: TagManagerProps) {
+  const [newName, setNewName] = useState('')
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!name) return
+
+    if (await onCreate(name, nextTagColor(tags))) {
+      setNewName('')
+    }
+  }
+
+  return (
+    <div className="mb-2 p-2 space-y-1.5 rounded-xl bg-white/50 border border-gray-200/50 text-xs">
+      {tags.map(tag => (
+        <TagRow key={tag.id} tag={tag} onUpdate={onUpdate} onDelete={onDelete} />
+      ))}
+      <form onSubmit={handleCreate} className="flex items-center space-x-2 pt-1">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          maxLength={MAX_TAG_NAME_LENGTH}
+          placeholder="New tag"
+          className="min-w-0 flex-1 px-2 py-1 rounded-lg border border-gray-200 bg-white text-gray-700 focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="p-1 rounded-lg text-gray-500 hover:text-purple-600 hover:bg-white/70 disabled:opacity-40 transition-colors"
+          title="Add tag"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+    </div>
+  )
+}
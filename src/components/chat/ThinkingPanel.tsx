@@ -0,0 +1,38 @@
+// Collapsible reasoning ("thinking") text of a reply, open while the model is still thinking
+import { useState } from 'react'
+import { Brain, ChevronDown } from 'lucide-react'
+
+interface ThinkingPanelProps {
+  reasoning: string
+  reasoningTokens?: number
+  isThinking?: boolean // Streaming and no reply text yet
+}
+
+export function ThinkingPanel({ reasoning, reasoningTokens, isThinking = false }: ThinkingPanelProps) {
+  const [expanded, setExpanded] = useState<boolean | null>(null)
+  // Follows the stream until the user opens or closes it
+  const isOpen = expanded ?? isThinking
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-100 bg-gray-50">
+      <button
+        type="button"
+        onClick={() => setExpanded(!isOpen)}
+        className="flex items-center w-full px-3 py-2 text-xs font-medium text-gray-500 hover:text-purple-700 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <Brain className={`w-3.5 h-3.5 mr-1.5 ${isThinking ? 'text-purple-500 animate-pulse' : ''}`} />
+        <span>{isThinking ? 'Thinking…' : 'Thoughts'}</span>
+        {!!reasoningTokens && (
+          <span className="ml-1.5 text-gray-400 font-normal">{reasoningTokens.toLocaleString()} reasoning tokens</span>
+        )}
+        <ChevronDown className={`w-3 h-3 ml-auto text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <p className="px-3 pb-3 max-h-80 overflow-y-auto text-xs text-gray-600 whitespace-pre-wrap">
+          {reasoning}
+        </p>
+      )}
+    </div>
+  )
+}
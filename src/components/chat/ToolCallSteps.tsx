@@ -0,0 +1,76 @@
+// Tool calls a reply made, one expandable step each: arguments and result
+import { useState } from 'react'
+import { Wrench, ChevronDown, Loader2, AlertCircle } from 'lucide-react'
+import { ToolCallStep } from '../../types/chat'
+
+interface ToolCallStepsProps {
+  steps: ToolCallStep[]
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  calculator: 'Calculator',
+  current_datetime: 'Date & time',
+  convert_units: 'Unit converter',
+  search_conversations: 'Searched your conversations'
+}
+
+// One-line preview of the arguments, e.g. expression: "2 ^ 10"
+function summarizeArguments(args: ToolCallStep['arguments']) {
+  if (!args) return 'invalid arguments'
+  return Object.entries(args)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`)
+    .join(', ')
+}
+
+function ToolStep({ step }: { step: ToolCallStep }) {
+  const [expanded, setExpanded] = useState(false)
+  const isRunning = step.result === undefined
+
+  return (
+    <div className="rounded-lg border border-gray-100 bg-gray-50">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center w-full px-3 py-2 text-xs text-gray-500 hover:text-purple-700 transition-colors"
+        aria-expanded={expanded}
+      >
+        {isRunning ? (
+          <Loader2 className="w-3.5 h-3.5 mr-1.5 flex-shrink-0 text-purple-500 animate-spin" />
+        ) : step.is_error ? (
+          <AlertCircle className="w-3.5 h-3.5 mr-1.5 flex-shrink-0 text-red-500" />
+        ) : (
+          <Wrench className="w-3.5 h-3.5 mr-1.5 flex-shrink-0" />
+        )}
+        <span className="font-medium flex-shrink-0">{TOOL_LABELS[step.name] || step.name}</span>
+        <span className="ml-1.5 text-gray-400 truncate">{summarizeArguments(step.arguments)}</span>
+        <ChevronDown className={`w-3 h-3 ml-auto pl-1 flex-shrink-0 text-gray-400 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+      </button>
+      {expanded && (
+        <div className="px-3 pb-3 space-y-2 text-xs">
+          <div>
+            <div className="text-gray-500 mb-1">Arguments</div>
+            <pre className="max-h-40 overflow-auto p-2 rounded bg-white border border-gray-100 text-gray-700 whitespace-pre-wrap">
+              {JSON.stringify(step.arguments, null, 2)}
+            </pre>
+          </div>
+          <div>
+            <div className="text-gray-500 mb-1">Result</div>
+            <pre className={`max-h-60 overflow-auto p-2 rounded bg-white border border-gray-100 whitespace-pre-wrap ${step.is_error ? 'text-red-600' : 'text-gray-700'}`}>
+              {isRunning ? 'Running…' : JSON.stringify(step.result, null, 2)}
+            </pre>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function ToolCallSteps({ steps }: ToolCallStepsProps) {
+  return (
+    <div className="mb-3 space-y-1.5">
+      {steps.map(step => (
+        <ToolStep key={step.id} step={step} />
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,312 @@
+// NEW: Full-page usage analytics for the current billing period
+import { ArrowLeft, BarChart3, Zap, MessageSquare, DollarSign, TrendingUp, RefreshCw, AlertTriangle, Wand2 } from 'lucide-react'
+import { Logo } from '../common/Logo'
+import { useUsageAnalytics } from '../../hooks/useUsageAnalytics'
+import { useModelCatalog } from '../../hooks/useModelCatalog'
+import { DailyUsage } from '../../types/chat'
+
+interface UsageAnalyticsPageProps {
+  onBack: () => void
+  onOpenConversation: (id: string) => void
+}
+
+const formatDay = (date: string) => {
+  return new Date(`${date}T00:00:00`).toLocaleDateString([], { month: 'short', day: 'numeric' })
+}
+
+const formatCost = (cost: number) => {
+  return cost < 0.01 && cost > 0 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+// Labels for usage_tracking categories
+const CATEGORY_LABELS: Record<string, string> = {
+  chat: 'Chat',
+  compare: 'Compare',
+  prompt_helper: 'Prompt Helper',
+  summary: 'Context summaries'
+}
+
+interface DailyChartProps {
+  title: string
+  days: DailyUsage[]
+  valueOf: (day: DailyUsage) => number
+  barClassName: string
+  unit: string
+}
+
+function DailyChart({ title, days, valueOf, barClassName, unit }: DailyChartProps) {
+  const max = Math.max(...days.map(valueOf), 1)
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-4">{title}</h3>
+      <div className="flex items-end space-x-1 h-32">
+        {days.map(day => (
+          <div key={day.date} className="flex-1 h-full flex items-end group relative">
+            <div
+              className={`w-full rounded-t ${barClassName}`}
+              style={{ height: `${Math.max((valueOf(day) / max) * 100, valueOf(day) > 0 ? 2 : 0)}%` }}
+            />
+            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 hidden group-hover:block whitespace-nowrap bg-gray-800 text-white text-xs rounded px-2 py-1 z-10">
+              {formatDay(day.date)}: {valueOf(day).toLocaleString()} {unit}
+            </div>
+          </div>
+        ))}
+      </div>
+      {days.length > 0 && (
+        <div className="flex justify-between mt-2 text-xs text-gray-400">
+          <span>{formatDay(days[0].date)}</span>
+          <span>{formatDay(days[days.length - 1].date)}</span>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function UsageAnalyticsPage({ onBack, onOpenConversation }: UsageAnalyticsPageProps) {
+  const { analytics, usageStats, loading, error, refresh } = useUsageAnalytics()
+  const { models } = useModelCatalog()
+
+  const getModelName = (modelId: string) => {
+    return models.find(model => model.id === modelId)?.displayName || modelId
+  }
+
+  const monthlyLimit = usageStats?.tier.monthly_tokens || 0
+  const usagePercentage = analytics && monthlyLimit > 0
+    ? Math.min(Math.round((analytics.totalTokens / monthlyLimit) * 100), 100)
+    : 0
+
+  const renderProjection = () => {
+    if (!analytics) return null
+    const { projection } = analytics
+
+    if (projection.limitReachedAt) {
+      const reachedAt = new Date(projection.limitReachedAt)
+      const isReached = reachedAt.getTime() <= Date.now()
+      return (
+        <div className="flex items-start space-x-2 text-amber-700">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span className="text-sm">
+            {isReached
+              ? 'You have reached your monthly token limit.'
+              : `At ${projection.tokensPerDay.toLocaleString()} tokens/day you will hit your limit on ${reachedAt.toLocaleDateString([], { month: 'long', day: 'numeric' })}.`}
+          </span>
+        </div>
+      )
+    }
+
+    return (
+      <p className="text-sm text-gray-600">
+        At {projection.tokensPerDay.toLocaleString()} tokens/day you will use about{' '}
+        {projection.projectedPeriodTokens.toLocaleString()} tokens this period - within your limit.
+      </p>
+    )
+  }
+
+  return (
+    <div className="flex-1 flex flex-col h-full bg-white overflow-hidden">
+      {/* Clean page header */}
+      <div className="relative z-20 flex-shrink-0 border-b border-gray-200">
+        <div className="flex items-center justify-between py-6 px-4 lg:px-6">
+          {/* Back button */}
+          <button
+            onClick={onBack}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-800 transition-colors group"
+          >
+            <ArrowLeft className="w-5 h-5 group-hover:-translate-x-1 transition-transform" />
+            <span className="font-medium">Back to Chat</span>
+          </button>
+
+          {/* Page title */}
+          <div className="flex items-center space-x-3">
+            <BarChart3 className="w-5 h-5 text-purple-600" />
+            <h1 className="text-xl font-semibold text-gray-800">Usage Analytics</h1>
+          </div>
+
+          {/* Logo for desktop */}
+          <div className="hidden lg:block">
+            <Logo size="md" compact />
+          </div>
+        </div>
+      </div>
+
+      {/* Page content */}
+      <div className="flex-1 overflow-y-auto bg-gray-50">
+        <div className="max-w-5xl mx-auto p-4 lg:p-8 space-y-6">
+          {/* Period + refresh */}
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {analytics
+                ? `Billing period ${new Date(analytics.periodStart).toLocaleDateString()} – ${new Date(analytics.periodEnd).toLocaleDateString()}`
+                : 'Current billing period'}
+            </p>
+            <button
+              onClick={refresh}
+              disabled={loading}
+              className="flex items-center space-x-1 text-sm text-purple-600 hover:text-purple-700 disabled:opacity-50"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-xl p-4 text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {!analytics && loading && (
+            <div className="flex justify-center py-16">
+              <div className="w-10 h-10 border-4 border-purple-200 border-t-purple-600 rounded-full animate-spin" />
+            </div>
+          )}
+
+          {analytics && (
+            <>
+              {/* Summary cards */}
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="bg-white rounded-xl border border-gray-200 p-4">
+                  <div className="flex items-center space-x-2 text-gray-600 mb-2">
+                    <Zap className="w-4 h-4 text-purple-500" />
+                    <span className="text-sm">Tokens</span>
+                  </div>
+                  <p className="text-2xl font-bold text-gray-800">{analytics.totalTokens.toLocaleString()}</p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    of {monthlyLimit.toLocaleString()} ({usagePercentage}%)
+                  </p>
+                  <div className="w-full bg-gray-200 rounded-full h-1.5 mt-2">
+                    <div
+                      className={`h-1.5 rounded-full ${usagePercentage >= 90 ? 'bg-red-500' : usagePercentage >= 70 ? 'bg-amber-500' : 'bg-purple-500'}`}
+                      style={{ width: `${usagePercentage}%` }}
+                    />
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-xl border border-gray-200 p-4">
+                  <div className="flex items-center space-x-2 text-gray-600 mb-2">
+                    <MessageSquare className="w-4 h-4 text-blue-500" />
+                    <span className="text-sm">Messages</span>
+                  </div>
+                  <p className="text-2xl font-bold text-gray-800">{analytics.totalMessages.toLocaleString()}</p>
+                  <p className="text-xs text-gray-500 mt-1">this billing period</p>
+                </div>
+
+                <div className="bg-white rounded-xl border border-gray-200 p-4">
+                  <div className="flex items-center space-x-2 text-gray-600 mb-2">
+                    <DollarSign className="w-4 h-4 text-green-500" />
+                    <span className="text-sm">Cost</span>
+                  </div>
+                  <p className="text-2xl font-bold text-gray-800">{formatCost(analytics.totalCost)}</p>
+                  <p className="text-xs text-gray-500 mt-1">at provider list prices</p>
+                </div>
+              </div>
+
+              {/* Projection */}
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <div className="flex items-center space-x-2 mb-2">
+                  <TrendingUp className="w-4 h-4 text-purple-500" />
+                  <h3 className="text-sm font-semibold text-gray-700">Projection</h3>
+                </div>
+                {renderProjection()}
+              </div>
+
+              {/* Daily charts */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <DailyChart
+                  title="Daily tokens"
+                  days={analytics.daily}
+                  valueOf={day => day.tokens}
+                  barClassName="bg-purple-400 group-hover:bg-purple-600"
+                  unit="tokens"
+                />
+                <DailyChart
+                  title="Daily messages"
+                  days={analytics.daily}
+                  valueOf={day => day.messages}
+                  barClassName="bg-blue-400 group-hover:bg-blue-600"
+                  unit="messages"
+                />
+              </div>
+
+              {/* Per-model breakdown */}
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <h3 className="text-sm font-semibold text-gray-700 mb-4">Usage by model</h3>
+                {analytics.models.length === 0 ? (
+                  <p className="text-sm text-gray-500">No AI responses this period yet.</p>
+                ) : (
+                  <div className="space-y-3">
+                    {analytics.models.map(entry => {
+                      const share = analytics.totalTokens > 0 ? (entry.tokens / analytics.totalTokens) * 100 : 0
+                      return (
+                        <div key={entry.model}>
+                          <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="font-medium text-gray-800 truncate">{getModelName(entry.model)}</span>
+                            <span className="text-gray-600 flex-shrink-0 ml-2">
+                              {entry.tokens.toLocaleString()} tokens • {entry.messages} msgs • {formatCost(entry.cost)}
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-100 rounded-full h-1.5">
+                            <div className="bg-purple-500 h-1.5 rounded-full" style={{ width: `${Math.min(share, 100)}%` }} />
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Per-feature breakdown */}
+              {Object.keys(analytics.categories).length > 0 && (
+                <div className="bg-white rounded-xl border border-gray-200 p-4">
+                  <h3 className="text-sm font-semibold text-gray-700 mb-4">Usage by feature</h3>
+                  <div className="space-y-2">
+                    {Object.entries(analytics.categories)
+                      .sort(([, a], [, b]) => b.tokens - a.tokens)
+                      .map(([category, usage]) => (
+                        <div key={category} className="flex items-center justify-between text-sm">
+                          <span className="flex items-center space-x-2 font-medium text-gray-800">
+                            {category === 'prompt_helper'
+                              ? <Wand2 className="w-4 h-4 text-purple-500" />
+                              : <MessageSquare className="w-4 h-4 text-blue-500" />}
+                            <span>{CATEGORY_LABELS[category] || category}</span>
+                          </span>
+                          <span className="text-gray-600 flex-shrink-0 ml-2">
+                            {usage.tokens.toLocaleString()} tokens • {usage.requests} requests • {formatCost(usage.cost)}
+                          </span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Top conversations */}
+              <div className="bg-white rounded-xl border border-gray-200 p-4">
+                <h3 className="text-sm font-semibold text-gray-700 mb-4">Top conversations by tokens</h3>
+                {analytics.topConversations.length === 0 ? (
+                  <p className="text-sm text-gray-500">No conversations this period yet.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {analytics.topConversations.map(conversation => (
+                      <li key={conversation.id}>
+                        <button
+                          onClick={() => onOpenConversation(conversation.id)}
+                          className="w-full flex items-center justify-between py-2 text-left hover:bg-gray-50 rounded-lg px-2 transition-colors"
+                        >
+                          <span className="text-sm text-gray-800 truncate">{conversation.title}</span>
+                          <span className="text-sm text-gray-600 flex-shrink-0 ml-2">
+                            {conversation.tokens.toLocaleString()} tokens
+                          </span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
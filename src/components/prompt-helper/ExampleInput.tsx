@@ -96,6 +96,8 @@ export function ExampleInput({
       
       if (data.example) {
         setExample(data.example)
+        // Prompt Helper calls count toward the monthly token quota
+        window.dispatchEvent(new CustomEvent('refreshUsageStats'))
         console.log(`✅ Example ${exampleNumber} generated successfully:`, {
           contentLength: data.example.length,
           model: data.model,
@@ -158,6 +158,8 @@ export function FinalPreview({
       
       if (data.enhancedPrompt) {
         setPrompt(data.enhancedPrompt)
+        // Prompt Helper calls count toward the monthly token quota
+        window.dispatchEvent(new CustomEvent('refreshUsageStats'))
         console.log('✅ Prompt enhanced with advanced engineering:', {
           originalLength: buildBasicPrompt().length,
           enhancedLength: data.enhancedPrompt.length,
@@ -0,0 +1,86 @@
+// Custom instructions sent as the system prompt in every conversation
+import { useEffect, useState } from 'react'
+import { MessageSquareText, Check } from 'lucide-react'
+import { useUserProfile } from '../../hooks/useUserProfile'
+import { MAX_SYSTEM_PROMPT_LENGTH } from '../../types/chat'
+
+export function CustomInstructions() {
+  const { profile, updatePreferences, loading } = useUserProfile()
+  const savedInstructions = profile?.preferences?.custom_instructions || ''
+  const [instructions, setInstructions] = useState(savedInstructions)
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  // Pick up the stored value once the profile loads
+  useEffect(() => {
+    setInstructions(savedInstructions)
+  }, [savedInstructions])
+
+  const hasChanges = instructions.trim() !== savedInstructions
+
+  const handleSave = async () => {
+    setSaving(true)
+    try {
+      await updatePreferences({ custom_instructions: instructions.trim() })
+      setSaved(true)
+      setTimeout(() => setSaved(false), 2000)
+    } catch (error) {
+      console.error('Failed to save custom instructions:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loading && !profile) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-4 bg-gray-200 rounded w-1/4"></div>
+        <div className="h-24 bg-gray-200 rounded"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center space-x-2">
+          <MessageSquareText className="w-5 h-5 text-purple-600" />
+          <h3 className="text-lg font-semibold text-gray-800">Custom Instructions</h3>
+        </div>
+
+        <button
+          onClick={handleSave}
+          disabled={saving || !hasChanges}
+          className="flex items-center space-x-1 text-purple-600 hover:text-purple-700 font-medium text-sm transition-colors disabled:opacity-50"
+        >
+          {saving ? (
+            <div className="w-4 h-4 border-2 border-purple-600 border-t-transparent rounded-full animate-spin" />
+          ) : saved ? (
+            <>
+              <Check className="w-4 h-4" />
+              <span>Saved</span>
+            </>
+          ) : (
+            <span>Save</span>
+          )}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-500 mb-4">
+        Applied to every conversation, with any conversation's own system prompt added after them.
+      </p>
+
+      <textarea
+        value={instructions}
+        onChange={(e) => setInstructions(e.target.value)}
+        rows={6}
+        maxLength={MAX_SYSTEM_PROMPT_LENGTH}
+        className="block w-full px-3 py-2.5 border border-gray-200 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-all resize-y text-sm"
+        placeholder="e.g., I'm a backend developer. Prefer concise answers with code examples in Go."
+      />
+      <p className="mt-1 text-xs text-gray-400 text-right">
+        {instructions.length.toLocaleString()} / {MAX_SYSTEM_PROMPT_LENGTH.toLocaleString()}
+      </p>
+    </div>
+  )
+}
@@ -42,7 +42,7 @@ function getOrdinalSuffix(day: number): string {
 
 export interface UsageLimitError {
   error: string
-  errorType: 'DAILY_MESSAGE_LIMIT_EXCEEDED' | 'MONTHLY_LIMIT_EXCEEDED' | 'MODEL_NOT_ALLOWED' | 'AUTHENTICATION_FAILED'
+  errorType: 'DAILY_MESSAGE_LIMIT_EXCEEDED' | 'MONTHLY_LIMIT_EXCEEDED' | 'INSUFFICIENT_TOKEN_BUDGET' | 'MODEL_NOT_ALLOWED' | 'AUTHENTICATION_FAILED'
   message: string
   usage?: {
     current: number
@@ -50,6 +50,13 @@ export interface UsageLimitError {
     percentage?: number
     resetTime?: string  // ISO timestamp of exact reset time
   }
+  // Pre-flight budget numbers for INSUFFICIENT_TOKEN_BUDGET
+  budget?: {
+    remainingTokens: number
+    estimatedPromptTokens: number
+    minimumOutputTokens: number
+    requestedOutputTokens: number
+  }
   userTier?: string
   allowedModels?: string[]
 }
@@ -114,6 +121,34 @@ export function LimitExceededModal({ error, onClose, onUpgrade, onTryTomorrow }:
           urgency: 'high'
         }
 
+      case 'INSUFFICIENT_TOKEN_BUDGET': {
+        const budgetNextTier = userTier === 'free' ? 'basic' : 'pro'
+        const needed = (error.budget?.estimatedPromptTokens || 0) + (error.budget?.minimumOutputTokens || 0)
+
+        return {
+          icon: <Zap className="w-6 h-6 sm:w-8 sm:h-8 text-amber-500" />,
+          title: 'Not Enough Tokens Left',
+          description: `This request needs about ${needed.toLocaleString()} tokens (${error.budget?.estimatedPromptTokens?.toLocaleString() || 0} for the conversation so far plus room for a reply), but only ${error.budget?.remainingTokens?.toLocaleString() || 0} tokens remain this month. Start a new conversation or upgrade for more tokens!`,
+          currentPlan: userTier,
+          recommendedPlan: budgetNextTier,
+          benefits: budgetNextTier === 'basic' ? [
+            '1M tokens per month (28x more)',
+            'Unlimited daily messages',
+            'GPT-4o and advanced models',
+            'Multi-device sync'
+          ] : [
+            '1.5M tokens per month (1.5x more)',
+            'All models including latest AI',
+            'Priority access',
+            'Premium support'
+          ],
+          price: budgetNextTier === 'basic' ? '$6/month' : '$9/month',
+          resetInfo: formatResetTime(error.usage?.resetTime || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000).toISOString()),
+          showTryTomorrow: false,
+          urgency: 'medium'
+        }
+      }
+
       case 'MODEL_NOT_ALLOWED':
         return {
           icon: <Crown className="w-6 h-6 sm:w-8 sm:h-8 text-purple-500" />,
@@ -220,8 +255,26 @@ export function LimitExceededModal({ error, onClose, onUpgrade, onTryTomorrow }:
                   </div>
                 </div>
                 
+                {/* Pre-flight budget breakdown */}
+                {error.errorType === 'INSUFFICIENT_TOKEN_BUDGET' && error.budget && (
+                  <div className="mt-2 pt-2 border-t border-gray-200 space-y-1 text-xs text-gray-600">
+                    <div className="flex items-center justify-between">
+                      <span>Remaining this month</span>
+                      <span className="font-medium text-gray-800">{error.budget.remainingTokens.toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Conversation (estimated)</span>
+                      <span className="font-medium text-gray-800">{error.budget.estimatedPromptTokens.toLocaleString()}</span>
+                    </div>
+                    <div className="flex items-center justify-between">
+                      <span>Minimum reply</span>
+                      <span className="font-medium text-gray-800">{error.budget.minimumOutputTokens.toLocaleString()}</span>
+                    </div>
+                  </div>
+                )}
+
                 {/* UPDATED: Anniversary billing information */}
-                {error.errorType === 'MONTHLY_LIMIT_EXCEEDED' && (
+                {(error.errorType === 'MONTHLY_LIMIT_EXCEEDED' || error.errorType === 'INSUFFICIENT_TOKEN_BUDGET') && (
                   <div className="mt-2 pt-2 border-t border-gray-200">
                     <div className="flex items-center space-x-1 text-xs text-gray-500">
                       <Calendar className="w-3 h-3 flex-shrink-0" />
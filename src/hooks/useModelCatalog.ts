@@ -0,0 +1,33 @@
+// Hook exposing the server-driven model catalog, re-rendering once it loads.
+// Until then (or if it cannot be loaded) the bundled tables stand in.
+import { useState, useEffect } from 'react'
+import { catalogService } from '../lib/catalogService'
+import { BUNDLED_CATALOG, ModelCatalog } from '../types/chat'
+
+export function useModelCatalog() {
+  const [catalog, setCatalog] = useState<ModelCatalog | null>(catalogService.getLoadedCatalog())
+
+  useEffect(() => {
+    let cancelled = false
+
+    catalogService.getCatalog().then(loaded => {
+      if (loaded && !cancelled) setCatalog(loaded)
+    })
+
+    const handleCatalogUpdated = (event: CustomEvent<ModelCatalog>) => {
+      setCatalog(event.detail)
+    }
+
+    window.addEventListener('modelCatalogUpdated', handleCatalogUpdated as EventListener)
+    return () => {
+      cancelled = true
+      window.removeEventListener('modelCatalogUpdated', handleCatalogUpdated as EventListener)
+    }
+  }, [])
+
+  return {
+    models: (catalog || BUNDLED_CATALOG).models,
+    tiers: (catalog || BUNDLED_CATALOG).tiers,
+    isLoaded: catalog !== null
+  }
+}
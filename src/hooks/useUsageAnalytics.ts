@@ -0,0 +1,124 @@
+// Hook for the usage analytics page - billing period charts, model breakdown and burn-rate projection
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from './useAuth'
+import { useUsageStats } from './useUsageStats'
+import { databaseService } from '../lib/databaseService'
+import { DailyUsage, UsageAnalytics } from '../types/chat'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Current anniversary-based billing period for a billing anchor date
+ */
+function getBillingPeriod(anchor: Date, now: Date): { start: Date; end: Date } {
+  const anchorDay = anchor.getDate()
+  const start = new Date(now.getFullYear(), now.getMonth(), anchorDay)
+  if (start > now) {
+    start.setMonth(start.getMonth() - 1)
+  }
+  const end = new Date(start)
+  end.setMonth(end.getMonth() + 1)
+  return { start, end }
+}
+
+function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+/**
+ * One entry per day of the period so charts show gaps as zero days
+ */
+function fillDailySeries(rows: DailyUsage[], start: Date, now: Date): DailyUsage[] {
+  const byDate = new Map(rows.map(row => [row.date, row]))
+  const series: DailyUsage[] = []
+
+  for (let day = new Date(start); day <= now; day = new Date(day.getTime() + DAY_MS)) {
+    const key = toDateKey(day)
+    series.push(byDate.get(key) || { date: key, tokens: 0, messages: 0, cost: 0 })
+  }
+
+  return series
+}
+
+export function useUsageAnalytics() {
+  const { user } = useAuth()
+  const { usageStats } = useUsageStats()
+  const [analytics, setAnalytics] = useState<UsageAnalytics | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const billingAnchor = usageStats?.billing_period_start
+  const monthlyLimit = usageStats?.tier.monthly_tokens
+  const tokensUsedMonth = usageStats?.tokens_used_month
+
+  const loadAnalytics = useCallback(async () => {
+    if (!user || monthlyLimit === undefined) return
+
+    setLoading(true)
+    setError(null)
+
+    try {
+      const now = new Date()
+      const { start, end } = getBillingPeriod(billingAnchor ? new Date(billingAnchor) : now, now)
+      const data = await databaseService.getUsageAnalytics(start, end)
+
+      const daily = fillDailySeries(data.daily, start, now)
+      const trackedTokens = daily.reduce((sum, day) => sum + day.tokens, 0)
+      const totalMessages = daily.reduce((sum, day) => sum + day.messages, 0)
+      const totalCost = daily.reduce((sum, day) => sum + day.cost, 0)
+
+      // The users counter is authoritative for limits; usage_tracking may lag behind it
+      const totalTokens = Math.max(tokensUsedMonth || 0, trackedTokens)
+
+      // Burn rate over the elapsed part of the period (at least one day)
+      const elapsedDays = Math.max((now.getTime() - start.getTime()) / DAY_MS, 1)
+      const periodDays = (end.getTime() - start.getTime()) / DAY_MS
+      const tokensPerDay = totalTokens / elapsedDays
+      const remainingTokens = Math.max(monthlyLimit - totalTokens, 0)
+
+      let limitReachedAt: string | null = null
+      if (remainingTokens === 0) {
+        limitReachedAt = now.toISOString()
+      } else if (tokensPerDay > 0) {
+        const reachedAt = new Date(now.getTime() + (remainingTokens / tokensPerDay) * DAY_MS)
+        if (reachedAt < end) {
+          limitReachedAt = reachedAt.toISOString()
+        }
+      }
+
+      setAnalytics({
+        periodStart: start.toISOString(),
+        periodEnd: end.toISOString(),
+        daily,
+        models: data.models,
+        categories: data.categories,
+        topConversations: data.topConversations,
+        totalTokens,
+        totalMessages,
+        totalCost,
+        projection: {
+          tokensPerDay: Math.round(tokensPerDay),
+          projectedPeriodTokens: Math.round(tokensPerDay * periodDays),
+          limitReachedAt
+        }
+      })
+    } catch (err) {
+      console.error('❌ Failed to load usage analytics:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load usage analytics')
+    } finally {
+      setLoading(false)
+    }
+  }, [user, billingAnchor, monthlyLimit, tokensUsedMonth])
+
+  useEffect(() => {
+    loadAnalytics()
+  }, [loadAnalytics])
+
+  return {
+    analytics,
+    usageStats,
+    loading,
+    error,
+    refresh: loadAnalytics
+  }
+}
@@ -2,7 +2,8 @@
 import { useState, useEffect, useRef } from 'react'
 import { useAuth } from './useAuth'
 import { databaseService } from '../lib/databaseService'
-import { PRICING_TIERS, UserTier, UsageStats } from '../types/chat'
+import { catalogService } from '../lib/catalogService'
+import { BUNDLED_CATALOG, UserTier, UsageStats } from '../types/chat'
 import { supabase } from '../lib/supabase'
 
 export function useUsageStats() {
@@ -17,11 +18,14 @@ export function useUsageStats() {
   // UPDATED: Get current user tier from database (matches Edge Function logic)
   const getCurrentTier = async (): Promise<UserTier> => {
     if (!user) {
-      return PRICING_TIERS.free
+      return BUNDLED_CATALOG.tiers.free
     }
 
     try {
       console.log('📊 Fetching user tier from database...')
+
+      // Tier limits come from the server catalog (same data the Edge Function enforces)
+      const { tiers } = await catalogService.getCatalog() || BUNDLED_CATALOG
       
       // Get user data with subscription tier (same query as Edge Function)
       const { data: userData, error: userError } = await supabase
@@ -40,32 +44,32 @@ export function useUsageStats() {
 
       if (userError) {
         console.error('❌ Error loading user tier:', userError)
-        return PRICING_TIERS.free
+        return tiers.free || BUNDLED_CATALOG.tiers.free
       }
 
       // Determine tier (same logic as Edge Function)
       let tierName = 'free'
-      if (userData?.subscription_tiers?.tier_name && PRICING_TIERS[userData.subscription_tiers.tier_name]) {
+      if (userData?.subscription_tiers?.tier_name && tiers[userData.subscription_tiers.tier_name]) {
         tierName = userData.subscription_tiers.tier_name
       }
 
       console.log('✅ User tier determined:', {
         tierName,
-        monthlyLimit: PRICING_TIERS[tierName].monthly_tokens,
-        dailyLimit: PRICING_TIERS[tierName].daily_messages,
-        allowedModels: PRICING_TIERS[tierName].allowed_models.length
+        monthlyLimit: tiers[tierName].monthly_tokens,
+        dailyLimit: tiers[tierName].daily_messages,
+        allowedModels: tiers[tierName].allowed_models.length
       })
 
       return {
         tier: tierName as any,
-        monthly_tokens: PRICING_TIERS[tierName].monthly_tokens,
-        daily_messages: PRICING_TIERS[tierName].daily_messages,
-        allowed_models: PRICING_TIERS[tierName].allowed_models
+        monthly_tokens: tiers[tierName].monthly_tokens,
+        daily_messages: tiers[tierName].daily_messages,
+        allowed_models: tiers[tierName].allowed_models
       }
       
     } catch (error) {
       console.error('❌ Failed to get user tier:', error)
-      return PRICING_TIERS.free
+      return BUNDLED_CATALOG.tiers.free
     }
   }
 
@@ -121,22 +125,13 @@ export function useUsageStats() {
           messagesUsedToday = fallbackUsage.messagesUsedToday
         }
         
-        // Calculate warning levels based on usage
+        // Calculate warning levels based on the tier's configured thresholds
         const monthlyPercentage = (tokensUsedMonth / tier.monthly_tokens) * 100
-        let warnings: number[] = []
-        
-        if (tier.tier === 'free') {
-          warnings = [70, 90]
-          if (monthlyPercentage >= 90) warnings = [90]
-          else if (monthlyPercentage >= 70) warnings = [70]
-          else warnings = []
-        } else {
-          warnings = [50, 80, 95]
-          if (monthlyPercentage >= 95) warnings = [95]
-          else if (monthlyPercentage >= 80) warnings = [80]
-          else if (monthlyPercentage >= 50) warnings = [50]
-          else warnings = []
-        }
+        const thresholds = (catalogService.getLoadedCatalog() || BUNDLED_CATALOG).tiers[tier.tier]?.warnings || [50, 80, 95]
+        const reachedThreshold = [...thresholds]
+          .sort((a, b) => b - a)
+          .find(threshold => monthlyPercentage >= threshold)
+        const warnings: number[] = reachedThreshold !== undefined ? [reachedThreshold] : []
 
         console.log('📈 Final usage stats calculated:', {
           tier: tier.tier,
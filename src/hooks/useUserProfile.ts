@@ -2,6 +2,7 @@
 import { useState, useEffect } from 'react'
 import { useAuth } from './useAuth'
 import { databaseService } from '../lib/databaseService'
+import { UserPreferences } from '../types/chat'
 
 interface UserProfile {
   id: string
@@ -11,6 +12,7 @@ interface UserProfile {
   profession: string | null
   avatar_url: string | null
   onboarding_completed: boolean
+  preferences: UserPreferences | null
   created_at: string
   updated_at: string
 }
@@ -53,6 +55,17 @@ export function useUserProfile() {
     }
   }
 
+  const updatePreferences = async (updates: Partial<UserPreferences>) => {
+    try {
+      await databaseService.updateUserPreferences(updates)
+      await fetchProfile()
+      return true
+    } catch (error) {
+      console.error('Failed to update preferences:', error)
+      throw error
+    }
+  }
+
   const completeOnboarding = async (profileData: {
     full_name: string
     location?: string
@@ -81,6 +94,7 @@ export function useUserProfile() {
     profile,
     loading,
     updateProfile,
+    updatePreferences,
     completeOnboarding,
     refetchProfile: fetchProfile,
     
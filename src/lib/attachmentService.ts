@@ -0,0 +1,314 @@
+// Attachment service - uploads message images and documents to Supabase Storage,
+// extracts document text, indexes project documents and serves attachments back
+import { supabase } from './supabase'
+import { AIModel, DocumentContentPart, ImageContentPart, calculateCost } from '../types/chat'
+
+// Must match the attachments bucket and the Edge Function's checks
+export const ATTACHMENTS_BUCKET = 'attachments'
+export const MAX_IMAGES_PER_MESSAGE = 4
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+
+export const MAX_DOCUMENTS_PER_MESSAGE = 5
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024
+export const MAX_DOCUMENT_CHARS = 100000
+
+// Extracted by the Edge Function; everything else is read as text in the browser
+const PDF_MIME_TYPE = 'application/pdf'
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+
+// Plain text, Markdown, CSV and source files
+const TEXT_DOCUMENT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'yaml', 'yml', 'xml', 'html', 'css', 'log', 'toml', 'ini',
+  'js', 'jsx', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'c', 'h', 'cpp', 'hpp', 'cs', 'php',
+  'swift', 'sh', 'sql', 'vue', 'svelte'
+]
+
+// For file pickers' accept attribute
+export const DOCUMENT_ACCEPT = [
+  '.pdf',
+  '.docx',
+  ...TEXT_DOCUMENT_EXTENSIONS.map(extension => `.${extension}`)
+].join(',')
+export const ATTACHMENT_ACCEPT = [...IMAGE_MIME_TYPES, DOCUMENT_ACCEPT].join(',')
+
+function getExtension(name: string): string {
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : ''
+}
+
+function isExtractedServerSide(file: File): boolean {
+  const extension = getExtension(file.name)
+  return file.type === PDF_MIME_TYPE || file.type === DOCX_MIME_TYPE || extension === 'pdf' || extension === 'docx'
+}
+
+export function isImageFile(file: File): boolean {
+  return IMAGE_MIME_TYPES.includes(file.type)
+}
+
+export function isDocumentFile(file: File): boolean {
+  return isExtractedServerSide(file) || TEXT_DOCUMENT_EXTENSIONS.includes(getExtension(file.name)) || file.type.startsWith('text/')
+}
+
+// Signed URLs are cached a little less long than they are valid
+const SIGNED_URL_TTL_SECONDS = 60 * 60
+const SIGNED_URL_REUSE_MS = 50 * 60 * 1000
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+}
+
+/**
+ * Input tokens a provider charges for an image (OpenAI 512px tiles,
+ * Anthropic pixels / 750, Gemini 768px tiles). Mirrors estimateImageTokens
+ * in the Edge Function, which budgets the request with it.
+ */
+export function estimateImageTokens(image: Pick<ImageContentPart, 'width' | 'height'>, model: AIModel): number {
+  let { width, height } = image
+
+  if (model.provider === 'anthropic') {
+    const scale = Math.min(1, 1568 / Math.max(width, height))
+    return Math.ceil((width * scale) * (height * scale) / 750)
+  }
+
+  if (model.provider === 'google') {
+    if (width <= 384 && height <= 384) return 258
+    return 258 * Math.ceil(width / 768) * Math.ceil(height / 768)
+  }
+
+  const fit = Math.min(1, 2048 / Math.max(width, height))
+  width *= fit
+  height *= fit
+  const shrink = Math.min(1, 768 / Math.min(width, height))
+  width *= shrink
+  height *= shrink
+  return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512)
+}
+
+/**
+ * Token and USD estimate for sending images to a model (input side only)
+ */
+export function estimateImagesCost(images: ImageContentPart[], model: AIModel): { tokens: number; cost: number } {
+  const tokens = images.reduce((sum, image) => sum + estimateImageTokens(image, model), 0)
+  return { tokens, cost: calculateCost(model, tokens, 0) }
+}
+
+function readImageSize(file: File): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      resolve({ width: image.naturalWidth, height: image.naturalHeight })
+      URL.revokeObjectURL(url)
+    }
+    image.onerror = () => {
+      reject(new Error(`${file.name || 'This file'} could not be read as an image`))
+      URL.revokeObjectURL(url)
+    }
+    image.src = url
+  })
+}
+
+class AttachmentService {
+  private signedUrls = new Map<string, { url: string; createdAt: number }>()
+
+  /**
+   * Problem with a file as an image attachment, or null when it can be uploaded
+   */
+  validateImage(file: File): string | null {
+    if (!IMAGE_MIME_TYPES.includes(file.type)) {
+      return 'Only PNG, JPEG, WebP and GIF images can be attached'
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      return `Images must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`
+    }
+    return null
+  }
+
+  /**
+   * Upload an image to the user's folder; the returned part is sent with the message
+   */
+  async uploadImage(file: File): Promise<ImageContentPart> {
+    const validationError = this.validateImage(file)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      throw new Error('Authentication required. Please sign in.')
+    }
+
+    const { width, height } = await readImageSize(file)
+    const path = `${user.id}/${crypto.randomUUID()}.${EXTENSIONS[file.type]}`
+
+    const { error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: file.type })
+
+    if (error) {
+      console.error('❌ Image upload failed:', error)
+      throw new Error(`Upload failed: ${error.message}`)
+    }
+
+    console.log('🖼️ Image uploaded:', { path, width, height, size: file.size })
+    return {
+      type: 'image',
+      path,
+      mime_type: file.type,
+      width,
+      height,
+      size: file.size,
+      ...(file.name && { name: file.name })
+    }
+  }
+
+  /**
+   * Problem with a file as a document attachment, or null when its text can be extracted
+   */
+  validateDocument(file: File): string | null {
+    if (!isDocumentFile(file)) {
+      return `${file.name} is not a supported document (PDF, DOCX, CSV, Markdown, text or code)`
+    }
+    if (file.size > MAX_DOCUMENT_BYTES) {
+      return `Documents must be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`
+    }
+    return null
+  }
+
+  /**
+   * Extract a document's text: text formats are read here, PDF and DOCX are uploaded
+   * and extracted by the Edge Function. Text beyond MAX_DOCUMENT_CHARS is cut off.
+   */
+  async extractDocument(file: File): Promise<DocumentContentPart> {
+    const validationError = this.validateDocument(file)
+    if (validationError) {
+      throw new Error(validationError)
+    }
+
+    if (!isExtractedServerSide(file)) {
+      const text = (await file.text()).replace(/\r\n?/g, '\n')
+      const truncated = text.length > MAX_DOCUMENT_CHARS
+      console.log('📄 Document read in browser:', { name: file.name, characters: text.length, truncated })
+      return {
+        type: 'document',
+        name: file.name,
+        mime_type: file.type || 'text/plain',
+        size: file.size,
+        text: truncated ? text.slice(0, MAX_DOCUMENT_CHARS) : text,
+        ...(truncated && { truncated: true })
+      }
+    }
+
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('Authentication required. Please sign in.')
+    }
+
+    const isPdf = file.type === PDF_MIME_TYPE || getExtension(file.name) === 'pdf'
+    const mimeType = isPdf ? PDF_MIME_TYPE : DOCX_MIME_TYPE
+    const path = `${session.user.id}/${crypto.randomUUID()}.${isPdf ? 'pdf' : 'docx'}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .upload(path, file, { contentType: mimeType })
+
+    if (uploadError) {
+      console.error('❌ Document upload failed:', uploadError)
+      throw new Error(`Upload failed: ${uploadError.message}`)
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-completion/extract`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ path, mime_type: mimeType })
+    })
+
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      await this.removeAttachment(path)
+      throw new Error(result.message || `Could not read ${file.name}`)
+    }
+
+    console.log('📄 Document extracted by Edge Function:', { name: file.name, characters: result.characters, truncated: result.truncated })
+    return {
+      type: 'document',
+      name: file.name,
+      mime_type: mimeType,
+      size: file.size,
+      text: result.text,
+      path,
+      ...(result.truncated && { truncated: true })
+    }
+  }
+
+  /**
+   * Chunk and embed a project document for retrieval. Best effort: documents that
+   * were not indexed here are embedded by the Edge Function on first use.
+   */
+  async indexProjectDocument(documentId: string): Promise<void> {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) return
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-completion/embed`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ document_id: documentId })
+      })
+
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        console.warn('⚠️ Project document not indexed yet:', result.message || response.status)
+        return
+      }
+      console.log('🧮 Project document indexed:', { documentId, chunks: result.chunks })
+    } catch (error) {
+      console.warn('⚠️ Project document not indexed yet:', error)
+    }
+  }
+
+  /**
+   * Remove an uploaded attachment that was never sent
+   */
+  async removeAttachment(path: string): Promise<void> {
+    const { error } = await supabase.storage.from(ATTACHMENTS_BUCKET).remove([path])
+    if (error) {
+      console.error('⚠️ Failed to remove unsent attachment:', error)
+    }
+    this.signedUrls.delete(path)
+  }
+
+  /**
+   * Short-lived URL for showing a private attachment
+   */
+  async getImageUrl(path: string): Promise<string> {
+    const cached = this.signedUrls.get(path)
+    if (cached && Date.now() - cached.createdAt < SIGNED_URL_REUSE_MS) {
+      return cached.url
+    }
+
+    const { data, error } = await supabase.storage
+      .from(ATTACHMENTS_BUCKET)
+      .createSignedUrl(path, SIGNED_URL_TTL_SECONDS)
+
+    if (error || !data) {
+      throw new Error(`Failed to load image: ${error?.message || 'not found'}`)
+    }
+
+    this.signedUrls.set(path, { url: data.signedUrl, createdAt: Date.now() })
+    return data.signedUrl
+  }
+}
+
+export const attachmentService = new AttachmentService()
@@ -0,0 +1,64 @@
+// Model catalog service - loads models and tier entitlements from the Edge Function
+import { ModelCatalog } from '../types/chat'
+
+class CatalogService {
+  private catalog: ModelCatalog | null = null
+  private pending: Promise<ModelCatalog | null> | null = null
+
+  /**
+   * Get the server catalog, fetching it once per page load.
+   * Resolves to null when the catalog is unavailable; callers then keep
+   * using BUNDLED_CATALOG. Components read it through useModelCatalog.
+   */
+  async getCatalog(): Promise<ModelCatalog | null> {
+    if (this.catalog) return this.catalog
+    if (!this.pending) {
+      this.pending = this.fetchCatalog().finally(() => {
+        this.pending = null
+      })
+    }
+    return this.pending
+  }
+
+  /**
+   * Synchronous access to the last loaded catalog
+   */
+  getLoadedCatalog(): ModelCatalog | null {
+    return this.catalog
+  }
+
+  private async fetchCatalog(): Promise<ModelCatalog | null> {
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-completion/models`, {
+        headers: {
+          'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`Catalog request failed: ${response.status}`)
+      }
+
+      const catalog: ModelCatalog = await response.json()
+      if (!catalog.models?.length || !catalog.tiers) {
+        throw new Error('Catalog response is empty')
+      }
+
+      this.catalog = catalog
+
+      console.log('📚 Model catalog loaded:', {
+        models: catalog.models.length,
+        tiers: Object.keys(catalog.tiers)
+      })
+
+      window.dispatchEvent(new CustomEvent('modelCatalogUpdated', { detail: catalog }))
+      return catalog
+    } catch (error) {
+      console.error('❌ Failed to load model catalog, using bundled fallback:', error)
+      return null
+    }
+  }
+}
+
+export const catalogService = new CatalogService()
@@ -1,6 +1,7 @@
 // UPDATED: Database service with enhanced error handling for connection issues
 import { supabase } from './supabase'
-import { Conversation, Message } from '../types/chat'
+import { ATTACHMENTS_BUCKET } from './attachmentService'
+import { CategoryUsage, Conversation, ConversationMetadata, ConversationSearchFilters, ConversationSearchResult, ConversationUsage, DailyUsage, DocumentContentPart, Message, MessageSource, ModelUsageBreakdown, Project, ProjectDocument, ProjectSettings, Tag, TagColor, UserPreferences } from '../types/chat'
 
 // Add retry configuration for network requests
 const RETRY_CONFIG = {
@@ -45,6 +46,8 @@ interface DatabaseMessage {
   input_tokens: number
   output_tokens: number
   total_tokens: number
+  cost_incurred?: number
+  response_time?: number | null
   sequence_number?: number
   created_at: string
 }
@@ -193,6 +196,41 @@ class DatabaseService {
     }, 'updateUserProfile')
   }
 
+  /**
+   * NEW: Merge updates into users.preferences
+   */
+  async updateUserPreferences(updates: Partial<UserPreferences>): Promise<void> {
+    await this.withAuth(async () => {
+      const user = await this.getCurrentUser()
+      if (!user) {
+        throw new Error('No authenticated user found')
+      }
+
+      const { data, error: fetchError } = await supabase
+        .from('users')
+        .select('preferences')
+        .eq('id', user.id)
+        .single()
+
+      if (fetchError) {
+        throw this.handleDatabaseError(fetchError, 'updateUserPreferences')
+      }
+
+      const { error } = await supabase
+        .from('users')
+        .update({
+          preferences: { ...(data?.preferences || {}), ...updates },
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', user.id)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'updateUserPreferences')
+      }
+
+    }, 'updateUserPreferences')
+  }
+
   /**
    * Get user profile information
    */
@@ -204,6 +242,7 @@ class DatabaseService {
     profession: string | null
     avatar_url: string | null
     onboarding_completed: boolean
+    preferences: UserPreferences | null
     created_at: string
     updated_at: string
   } | null> {
@@ -215,7 +254,7 @@ class DatabaseService {
 
       const { data, error } = await supabase
         .from('users')
-        .select('id, email, full_name, location, profession, avatar_url, onboarding_completed, created_at, updated_at')
+        .select('id, email, full_name, location, profession, avatar_url, onboarding_completed, preferences, created_at, updated_at')
         .eq('id', user.id)
         .maybeSingle()
 
@@ -323,10 +362,10 @@ class DatabaseService {
 
       console.log('📥 Loading conversations for user:', user.id.substring(0, 8))
 
-      // Get conversations - let RLS policy handle all filtering automatically
+      // Get conversations, archived ones included, with their tag ids
       const { data: conversations, error: convError } = await supabase
         .from('conversations')
-        .select('*')
+        .select('*, conversation_tags(tag_id)')
         .eq('user_id', user.id)
         .order('updated_at', { ascending: false })
 
@@ -346,6 +385,7 @@ class DatabaseService {
       // Then, get all messages for these conversations
       const conversationIds = conversations?.map(c => c.id) || []
       let allMessages: any[] = []
+      const sourcesByMessage = new Map<string, MessageSource[]>()
 
       if (conversationIds.length > 0) {
         const { data: messages, error: msgError } = await supabase
@@ -362,6 +402,21 @@ class DatabaseService {
           allMessages = messages || []
           console.log('💬 Found messages:', allMessages.length)
         }
+
+        // NEW: Sources of replies generated with project context, keyed by message
+        const { data: contexts, error: contextError } = await supabase
+          .from('conversation_context')
+          .select('message_id, search_results')
+          .in('conversation_id', conversationIds)
+          .not('message_id', 'is', null)
+
+        if (contextError) {
+          console.error('⚠️ Failed to load reply sources:', contextError)
+        } else {
+          for (const context of contexts || []) {
+            sourcesByMessage.set(context.message_id, context.search_results || [])
+          }
+        }
       }
 
       // Combine conversations with their messages
@@ -379,8 +434,24 @@ class DatabaseService {
             input_tokens: msg.input_tokens || 0,
             output_tokens: msg.output_tokens || 0,
             total_tokens: msg.total_tokens || 0,
+            cost_incurred: Number(msg.cost_incurred) || 0,
+            response_time: msg.response_time ?? undefined,
+            parent_message_id: msg.parent_message_id ?? null,
+            finish_reason: msg.finish_reason ?? null,
+            model_parameters: msg.model_parameters || undefined,
+            content_parts: msg.content_parts ?? null,
+            sources: sourcesByMessage.get(msg.id),
+            reasoning: msg.reasoning ?? null,
+            reasoning_tokens: msg.reasoning_tokens || 0,
+            tool_rounds: msg.tool_rounds ?? null,
             created_at: msg.created_at
           })),
+        active_leaf_id: conv.active_leaf_message_id ?? null,
+        metadata: conv.metadata || {},
+        project_id: conv.project_id ?? null,
+        is_archived: !!conv.is_archived,
+        is_pinned: !!conv.is_pinned,
+        tag_ids: (conv.conversation_tags || []).map((link: { tag_id: string }) => link.tag_id),
         total_tokens: conv.total_tokens || 0,
         created_at: conv.created_at,
         updated_at: conv.updated_at
@@ -421,6 +492,8 @@ class DatabaseService {
           user_id: user.id,
           title: conversation.title,
           model_history: [], // Can implement model tracking later
+          ...(conversation.metadata && { metadata: conversation.metadata }),
+          ...(conversation.project_id !== undefined && { project_id: conversation.project_id }),
           created_at: conversation.created_at,
           updated_at: conversation.updated_at
         }, { onConflict: 'id' })
@@ -482,6 +555,473 @@ class DatabaseService {
     }, 'deleteConversation')
   }
 
+  /**
+   * NEW: Remember which branch of a conversation is being viewed
+   */
+  async setActiveLeaf(conversationId: string, leafId: string): Promise<void> {
+    await this.withAuth(async () => {
+      const { error } = await supabase
+        .from('conversations')
+        .update({ active_leaf_message_id: leafId })
+        .eq('id', conversationId)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'setActiveLeaf')
+      }
+
+    }, 'setActiveLeaf')
+  }
+
+  /**
+   * NEW: Merge settings into a conversation's metadata; empty values clear a key.
+   * Conversations not saved yet (no messages sent) are created with it.
+   */
+  async updateConversationMetadata(conversation: Conversation, updates: Partial<ConversationMetadata>): Promise<ConversationMetadata> {
+    return await this.withAuth(async () => {
+      const { data: existing, error: fetchError } = await supabase
+        .from('conversations')
+        .select('metadata')
+        .eq('id', conversation.id)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw this.handleDatabaseError(fetchError, 'updateConversationMetadata')
+      }
+
+      const metadata: ConversationMetadata = { ...(existing?.metadata || conversation.metadata || {}), ...updates }
+      for (const key of Object.keys(updates) as (keyof ConversationMetadata)[]) {
+        const value = metadata[key]
+        if (value === undefined || value === '' || (typeof value === 'object' && Object.keys(value).length === 0)) {
+          delete metadata[key]
+        }
+      }
+
+      if (!existing) {
+        await this.saveConversationMetadata({ ...conversation, metadata })
+        return metadata
+      }
+
+      const { error } = await supabase
+        .from('conversations')
+        .update({ metadata })
+        .eq('id', conversation.id)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'updateConversationMetadata')
+      }
+
+      return metadata
+    }, 'updateConversationMetadata')
+  }
+
+  /**
+   * NEW: Load the current user's projects, newest first
+   */
+  async loadProjects(): Promise<Project[]> {
+    return await this.withAuth(async () => {
+      const user = await this.getCurrentUser()
+      if (!user) {
+        throw new Error('No authenticated user found')
+      }
+
+      const { data, error } = await supabase
+        .from('projects')
+        .select('id, name, description, settings, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'loadProjects')
+      }
+
+      console.log('📁 Found projects:', data?.length || 0)
+      return (data || []).map(project => ({ ...project, settings: project.settings || {} }))
+    }, 'loadProjects')
+  }
+
+  /**
+   * NEW: Create a project
+   */
+  async createProject(name: string, description?: string, settings: ProjectSettings = {}): Promise<Project> {
+    return await this.withAuth(async () => {
+      const user = await this.getCurrentUser()
+      if (!user) {
+        throw new Error('No authenticated user found')
+      }
+
+      const { data, error } = await supabase
+        .from('projects')
+        .insert({ user_id: user.id, name, description: description || null, settings })
+        .select('id, name, description, settings, created_at')
+        .single()
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'createProject')
+      }
+
+      console.log('📁 Project created:', data.id)
+      return { ...data, settings: data.settings || {} }
+    }, 'createProject')
+  }
+
+  /**
+   * NEW: Update a project's name, description or settings; settings replace the stored ones
+   */
+  async updateProject(projectId: string, updates: Partial<Pick<Project, 'name' | 'description' | 'settings'>>): Promise<void> {
+    await this.withAuth(async () => {
+      const { error } = await supabase
+        .from('projects')
+        .update(updates)
+        .eq('id', projectId)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'updateProject')
+      }
+    }, 'updateProject')
+  }
+
+  /**
+   * NEW: Delete a project and its files; its conversations are kept outside any project
+   */
+  async deleteProject(projectId: string): Promise<void> {
+    await this.withAuth(async () => {
+      const { data: documents } = await supabase
+        .from('project_documents')
+        .select('storage_path')
+        .eq('project_id', projectId)
+
+      const { error } = await supabase
+        .from('projects')
+        .delete()
+        .eq('id', projectId)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'deleteProject')
+      }
+
+      const paths = (documents || []).flatMap(document => (document.storage_path ? [document.storage_path] : []))
+      if (paths.length > 0) {
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove(paths)
+      }
+    }, 'deleteProject')
+  }
+
+  /**
+   * NEW: Move a conversation into a project, or out of any project with null
+   */
+  async moveConversationToProject(conversation: Conversation, projectId: string | null): Promise<void> {
+    await this.withAuth(async () => {
+      const { data: existing, error: fetchError } = await supabase
+        .from('conversations')
+        .select('id')
+        .eq('id', conversation.id)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw this.handleDatabaseError(fetchError, 'moveConversationToProject')
+      }
+
+      if (!existing) {
+        await this.saveConversationMetadata({ ...conversation, project_id: projectId })
+        return
+      }
+
+      const { error } = await supabase
+        .from('conversations')
+        .update({ project_id: projectId })
+        .eq('id', conversation.id)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'moveConversationToProject')
+      }
+    }, 'moveConversationToProject')
+  }
+
+  /**
+   * NEW: Archive or unarchive a conversation
+   */
+  async setConversationArchived(conversation: Conversation, isArchived: boolean): Promise<void> {
+    await this.withAuth(async () => {
+      await this.ensureConversationSaved(conversation)
+
+      const { error } = await supabase
+        .from('conversations')
+        .update({ is_archived: isArchived })
+        .eq('id', conversation.id)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'setConversationArchived')
+      }
+    }, 'setConversationArchived')
+  }
+
+  /**
+   * NEW: Pin a conversation to the top of the sidebar, or unpin it
+   */
+  async setConversationPinned(conversation: Conversation, isPinned: boolean): Promise<void> {
+    await this.withAuth(async () => {
+      await this.ensureConversationSaved(conversation)
+
+      const { error } = await supabase
+        .from('conversations')
+        .update({ is_pinned: isPinned })
+        .eq('id', conversation.id)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'setConversationPinned')
+      }
+    }, 'setConversationPinned')
+  }
+
+  /**
+   * NEW: Replace the tags of a conversation
+   */
+  async setConversationTags(conversation: Conversation, tagIds: string[]): Promise<void> {
+    await this.withAuth(async () => {
+      await this.ensureConversationSaved(conversation)
+
+      const { error: deleteError } = await supabase
+        .from('conversation_tags')
+        .delete()
+        .eq('conversation_id', conversation.id)
+
+      if (deleteError) {
+        throw this.handleDatabaseError(deleteError, 'setConversationTags')
+      }
+
+      if (tagIds.length === 0) {
+        return
+      }
+
+      const { error } = await supabase
+        .from('conversation_tags')
+        .insert(tagIds.map(tagId => ({ conversation_id: conversation.id, tag_id: tagId })))
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'setConversationTags')
+      }
+    }, 'setConversationTags')
+  }
+
+  /**
+   * New chats are only saved with their first message; save the row before changing it
+   */
+  private async ensureConversationSaved(conversation: Conversation): Promise<void> {
+    const { data: existing, error } = await supabase
+      .from('conversations')
+      .select('id')
+      .eq('id', conversation.id)
+      .maybeSingle()
+
+    if (error) {
+      throw this.handleDatabaseError(error, 'ensureConversationSaved')
+    }
+
+    if (!existing) {
+      await this.saveConversationMetadata(conversation)
+    }
+  }
+
+  /**
+   * NEW: Load the current user's tags, by name
+   */
+  async loadTags(): Promise<Tag[]> {
+    return await this.withAuth(async () => {
+      const user = await this.getCurrentUser()
+      if (!user) {
+        throw new Error('No authenticated user found')
+      }
+
+      const { data, error } = await supabase
+        .from('tags')
+        .select('id, name, color, created_at')
+        .eq('user_id', user.id)
+        .order('name', { ascending: true })
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'loadTags')
+      }
+
+      console.log('🏷️ Found tags:', data?.length || 0)
+      return data || []
+    }, 'loadTags')
+  }
+
+  /**
+   * NEW: Create a tag
+   */
+  async createTag(name: string, color: TagColor): Promise<Tag> {
+    return await this.withAuth(async () => {
+      const user = await this.getCurrentUser()
+      if (!user) {
+        throw new Error('No authenticated user found')
+      }
+
+      const { data, error } = await supabase
+        .from('tags')
+        .insert({ user_id: user.id, name, color })
+        .select('id, name, color, created_at')
+        .single()
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'createTag')
+      }
+
+      console.log('🏷️ Tag created:', data.id)
+      return data
+    }, 'createTag')
+  }
+
+  /**
+   * NEW: Rename or recolour a tag
+   */
+  async updateTag(tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>): Promise<void> {
+    await this.withAuth(async () => {
+      const { error } = await supabase
+        .from('tags')
+        .update(updates)
+        .eq('id', tagId)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'updateTag')
+      }
+    }, 'updateTag')
+  }
+
+  /**
+   * NEW: Delete a tag; it is removed from every conversation that had it
+   */
+  async deleteTag(tagId: string): Promise<void> {
+    await this.withAuth(async () => {
+      const { error } = await supabase
+        .from('tags')
+        .delete()
+        .eq('id', tagId)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'deleteTag')
+      }
+    }, 'deleteTag')
+  }
+
+  /**
+   * NEW: Files of a project with their extracted text
+   */
+  async loadProjectDocuments(projectId: string): Promise<ProjectDocument[]> {
+    return await this.withAuth(async () => {
+      const { data, error } = await supabase
+        .from('project_documents')
+        .select('id, project_id, filename, mime_type, size_bytes, storage_path, content, created_at')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true })
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'loadProjectDocuments')
+      }
+
+      return (data || []).map(document => ({
+        ...document,
+        mime_type: document.mime_type || 'text/plain',
+        size_bytes: document.size_bytes || 0,
+        content: document.content || ''
+      }))
+    }, 'loadProjectDocuments')
+  }
+
+  /**
+   * NEW: Add an extracted document (see attachmentService.extractDocument) to a project
+   */
+  async addProjectDocument(projectId: string, document: DocumentContentPart): Promise<ProjectDocument> {
+    return await this.withAuth(async () => {
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(document.text))
+      const contentHash = Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+
+      const { data, error } = await supabase
+        .from('project_documents')
+        .insert({
+          project_id: projectId,
+          filename: document.name,
+          mime_type: document.mime_type,
+          size_bytes: document.size,
+          storage_path: document.path || null,
+          content: document.text,
+          content_hash: contentHash
+        })
+        .select('id, project_id, filename, mime_type, size_bytes, storage_path, content, created_at')
+        .single()
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'addProjectDocument')
+      }
+
+      console.log('📎 Project document added:', { projectId, filename: document.name, characters: document.text.length })
+      return data
+    }, 'addProjectDocument')
+  }
+
+  /**
+   * NEW: Remove a file from a project, with its uploaded original
+   */
+  async deleteProjectDocument(document: ProjectDocument): Promise<void> {
+    await this.withAuth(async () => {
+      const { error } = await supabase
+        .from('project_documents')
+        .delete()
+        .eq('id', document.id)
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'deleteProjectDocument')
+      }
+
+      if (document.storage_path) {
+        await supabase.storage.from(ATTACHMENTS_BUCKET).remove([document.storage_path])
+      }
+    }, 'deleteProjectDocument')
+  }
+
+  /**
+   * NEW: Whether a reply is still being generated server-side for a conversation
+   */
+  async hasActiveGeneration(conversationId: string): Promise<boolean> {
+    return await this.withAuth(async () => {
+      const { count, error } = await supabase
+        .from('generations')
+        .select('id', { count: 'exact', head: true })
+        .eq('conversation_id', conversationId)
+        .eq('status', 'streaming')
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'hasActiveGeneration')
+      }
+
+      return (count || 0) > 0
+    }, 'hasActiveGeneration')
+  }
+
+  /**
+   * NEW: Full-text search over message content and titles of the user's conversations
+   */
+  async searchConversations(query: string, filters: ConversationSearchFilters = {}): Promise<ConversationSearchResult[]> {
+    return await this.withAuth(async () => {
+      // Dates are whole local days; the end date is inclusive
+      const toDate = filters.to ? new Date(`${filters.to}T00:00:00`) : null
+      toDate?.setDate(toDate.getDate() + 1)
+
+      const { data, error } = await supabase.rpc('search_conversations', {
+        p_query: query,
+        p_model: filters.model || null,
+        p_from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : null,
+        p_to: toDate ? toDate.toISOString() : null
+      })
+
+      if (error) {
+        throw this.handleDatabaseError(error, 'searchConversations')
+      }
+
+      return (data || []) as ConversationSearchResult[]
+    }, 'searchConversations')
+  }
+
   /**
    * Delete all conversations for the current user from database
    */
@@ -663,6 +1203,102 @@ class DatabaseService {
     return result
   }
 
+  /**
+   * Load raw analytics for a billing period: daily usage_tracking rows,
+   * per-model totals from assistant messages and the heaviest conversations
+   */
+  async getUsageAnalytics(periodStart: Date, periodEnd: Date): Promise<{
+    daily: DailyUsage[]
+    models: ModelUsageBreakdown[]
+    categories: Record<string, CategoryUsage>
+    topConversations: ConversationUsage[]
+  }> {
+    return this.withAuth(async () => {
+      const user = await this.getCurrentUser()
+      if (!user) {
+        throw new Error('No authenticated user found')
+      }
+
+      const startDate = periodStart.toISOString().split('T')[0]
+      const endDate = periodEnd.toISOString().split('T')[0]
+
+      console.log('📈 Loading usage analytics:', { startDate, endDate })
+
+      const [trackingResult, modelsResult, conversationsResult] = await Promise.all([
+        supabase
+          .from('usage_tracking')
+          .select('date, tokens_used, messages_sent, cost_incurred, category_usage')
+          .eq('user_id', user.id)
+          .gte('date', startDate)
+          .lt('date', endDate)
+          .order('date', { ascending: true }),
+        // Per-model and per-conversation totals are aggregated in SQL, so no row limit applies
+        supabase.rpc('get_model_usage', {
+          p_from: periodStart.toISOString(),
+          p_to: periodEnd.toISOString()
+        }),
+        supabase.rpc('get_conversation_usage', {
+          p_from: periodStart.toISOString(),
+          p_to: periodEnd.toISOString(),
+          p_limit: 5
+        })
+      ])
+
+      if (trackingResult.error) {
+        throw this.handleDatabaseError(trackingResult.error, 'getUsageAnalytics')
+      }
+      if (modelsResult.error) {
+        throw this.handleDatabaseError(modelsResult.error, 'getUsageAnalytics')
+      }
+      if (conversationsResult.error) {
+        throw this.handleDatabaseError(conversationsResult.error, 'getUsageAnalytics')
+      }
+
+      const daily: DailyUsage[] = (trackingResult.data || []).map(row => ({
+        date: row.date,
+        tokens: row.tokens_used || 0,
+        messages: row.messages_sent || 0,
+        cost: Number(row.cost_incurred) || 0
+      }))
+
+      // Per-model totals from the stored per-message costs
+      const models: ModelUsageBreakdown[] = (modelsResult.data || []).map((row: ModelUsageBreakdown) => ({
+        model: row.model,
+        messages: Number(row.messages) || 0,
+        tokens: Number(row.tokens) || 0,
+        cost: Number(row.cost) || 0
+      }))
+
+      // Per-category totals (chat vs Prompt Helper) from the daily breakdowns
+      const categories: Record<string, CategoryUsage> = {}
+      for (const row of trackingResult.data || []) {
+        for (const [category, usage] of Object.entries(row.category_usage || {}) as [string, Partial<CategoryUsage>][]) {
+          const entry = categories[category] || { tokens: 0, requests: 0, cost: 0 }
+          entry.tokens += Number(usage.tokens) || 0
+          entry.requests += Number(usage.requests) || 0
+          entry.cost += Number(usage.cost) || 0
+          categories[category] = entry
+        }
+      }
+
+      const topConversations: ConversationUsage[] = (conversationsResult.data || []).map((conv: ConversationUsage) => ({
+        id: conv.id,
+        title: conv.title,
+        tokens: Number(conv.tokens) || 0,
+        updated_at: conv.updated_at
+      }))
+
+      console.log('✅ Usage analytics loaded:', {
+        days: daily.length,
+        models: models.length,
+        categories: Object.keys(categories),
+        topConversations: topConversations.length
+      })
+
+      return { daily, models, categories, topConversations }
+    }, 'getUsageAnalytics')
+  }
+
   /**
    * UPDATED: Get current user usage with enhanced error handling
    */
@@ -0,0 +1,91 @@
+// Generation parameters: which ones a model accepts and in what ranges.
+// Mirrors supabase/functions/chat-completion/parameters.ts, which has the final say.
+import { AIModel, GenerationParameterKey, GenerationParameters, ReasoningEffort } from '../types/chat'
+
+export const REASONING_EFFORTS: ReasoningEffort[] = ['low', 'medium', 'high']
+
+// Anthropic requires at least this much thinking budget when extended thinking is on
+export const MIN_THINKING_BUDGET = 1024
+
+// Used when the catalog did not say (bundled fallback models)
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096
+
+export interface ParameterSupport {
+  parameters: GenerationParameterKey[]
+  maxOutputTokens: number
+  maxTemperature: number
+}
+
+/**
+ * What a model accepts, from its catalog entry
+ */
+export function getParameterSupport(model: AIModel): ParameterSupport {
+  const isReasoning = model.provider === 'openai' && /^o\d/.test(model.id)
+  return {
+    parameters: model.parameters || (isReasoning
+      ? ['max_tokens', 'reasoning_effort']
+      : ['temperature', 'top_p', 'max_tokens']),
+    maxOutputTokens: model.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS,
+    maxTemperature: model.provider === 'anthropic' ? 1 : 2
+  }
+}
+
+/**
+ * First problem with the parameters for this model, or null when they are valid
+ */
+export function validateGenerationParameters(parameters: GenerationParameters, model: AIModel): string | null {
+  const support = getParameterSupport(model)
+  const { temperature, top_p, max_tokens, thinking_budget } = parameters
+
+  if (max_tokens !== undefined && (!Number.isInteger(max_tokens) || max_tokens < 1 || max_tokens > support.maxOutputTokens)) {
+    return `Max output tokens must be between 1 and ${support.maxOutputTokens.toLocaleString()} for ${model.displayName}`
+  }
+  if (temperature !== undefined && (temperature < 0 || temperature > support.maxTemperature)) {
+    return `Temperature must be between 0 and ${support.maxTemperature} for ${model.displayName}`
+  }
+  if (top_p !== undefined && (top_p <= 0 || top_p > 1)) {
+    return 'Top P must be greater than 0 and at most 1'
+  }
+  if (thinking_budget !== undefined) {
+    const ceiling = (max_tokens || support.maxOutputTokens) - 1
+    if (!Number.isInteger(thinking_budget) || thinking_budget < MIN_THINKING_BUDGET || thinking_budget > ceiling) {
+      return `Thinking budget must be between ${MIN_THINKING_BUDGET.toLocaleString()} and ${ceiling.toLocaleString()} (below max output tokens)`
+    }
+  }
+  return null
+}
+
+/**
+ * The conversation's parameters as sent for a model: unsupported ones are dropped and
+ * values are clamped to its ranges, so switching models never produces a rejected request
+ */
+export function getEffectiveParameters(parameters: GenerationParameters | undefined, model: AIModel): GenerationParameters {
+  if (!parameters) return {}
+
+  const support = getParameterSupport(model)
+  const supports = (key: GenerationParameterKey) => support.parameters.includes(key) && parameters[key] !== undefined
+  const effective: GenerationParameters = {}
+
+  if (supports('max_tokens')) {
+    effective.max_tokens = Math.min(parameters.max_tokens!, support.maxOutputTokens)
+  }
+  if (supports('reasoning_effort')) {
+    effective.reasoning_effort = parameters.reasoning_effort
+  }
+  if (supports('thinking_budget')) {
+    const ceiling = (effective.max_tokens || support.maxOutputTokens) - 1
+    if (ceiling >= MIN_THINKING_BUDGET) {
+      effective.thinking_budget = Math.min(parameters.thinking_budget!, ceiling)
+    }
+  }
+  // Extended thinking fixes the sampling parameters
+  if (effective.thinking_budget === undefined) {
+    if (supports('temperature')) {
+      effective.temperature = Math.min(parameters.temperature!, support.maxTemperature)
+    }
+    if (supports('top_p')) {
+      effective.top_p = parameters.top_p
+    }
+  }
+  return effective
+}
@@ -0,0 +1,62 @@
+// Conversation branches: messages form a tree through parent_message_id, and the
+// conversation's active leaf selects which path is shown and sent to the model.
+
+interface TreeMessage {
+  id: string
+  parent_message_id?: string | null
+  created_at: string
+}
+
+const byCreatedAt = (a: TreeMessage, b: TreeMessage) => {
+  return new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+}
+
+/**
+ * Messages from the root to the given leaf (defaults to the most recent message)
+ */
+export function getActiveBranch<T extends TreeMessage>(messages: T[], leafId?: string | null): T[] {
+  if (messages.length === 0) return []
+
+  const byId = new Map(messages.map(message => [message.id, message]))
+  const leaf = (leafId && byId.get(leafId)) || messages[messages.length - 1]
+
+  const branch: T[] = []
+  const seen = new Set<string>()
+  let current: T | undefined = leaf
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id)
+    branch.unshift(current)
+    current = current.parent_message_id ? byId.get(current.parent_message_id) : undefined
+  }
+
+  return branch
+}
+
+/**
+ * Alternative versions of a message (same parent), oldest first
+ */
+export function getSiblings<T extends TreeMessage>(messages: T[], message: T): T[] {
+  const parentId = message.parent_message_id ?? null
+  return messages
+    .filter(candidate => (candidate.parent_message_id ?? null) === parentId)
+    .sort(byCreatedAt)
+}
+
+/**
+ * Deepest message under the given one, following the newest child at each step
+ */
+export function getBranchLeaf<T extends TreeMessage>(messages: T[], messageId: string): string {
+  let leafId = messageId
+  const seen = new Set<string>()
+
+  while (!seen.has(leafId)) {
+    seen.add(leafId)
+    const children = messages
+      .filter(message => message.parent_message_id === leafId)
+      .sort(byCreatedAt)
+    if (children.length === 0) break
+    leafId = children[children.length - 1].id
+  }
+
+  return leafId
+}
@@ -1,11 +1,12 @@
 // UPDATED: Enhanced streaming service with better error type handling
 import { supabase } from './supabase'
-import { AIModel, Message, StreamingCallbacks, TokenUsage } from '../types/chat'
+import { AIModel, GenerationParameters, Message, MessageSource, StreamingCallbacks, TokenUsage } from '../types/chat'
+import { getEffectiveParameters } from './generationParameters'
 
 // Enhanced error types with anniversary-based reset times
 export interface UsageLimitError {
   error: string
-  errorType: 'DAILY_MESSAGE_LIMIT_EXCEEDED' | 'MONTHLY_LIMIT_EXCEEDED' | 'MODEL_NOT_ALLOWED' | 'AUTHENTICATION_FAILED'
+  errorType: 'DAILY_MESSAGE_LIMIT_EXCEEDED' | 'MONTHLY_LIMIT_EXCEEDED' | 'INSUFFICIENT_TOKEN_BUDGET' | 'MODEL_NOT_ALLOWED' | 'AUTHENTICATION_FAILED'
   message: string
   usage?: {
     current: number
@@ -13,22 +14,71 @@ export interface UsageLimitError {
     percentage?: number
     resetTime?: string
   }
+  // Pre-flight budget numbers for INSUFFICIENT_TOKEN_BUDGET
+  budget?: {
+    remainingTokens: number
+    estimatedPromptTokens: number
+    minimumOutputTokens: number
+    requestedOutputTokens: number
+  }
   userTier?: string
   allowedModels?: string[]
 }
 
-class StreamingService {
+// Per-user rate limit rejection (requests per minute or concurrent streams)
+export interface RateLimitError {
+  reason: 'REQUESTS_PER_MINUTE' | 'CONCURRENT_STREAMS'
+  message: string
+  retryAfter: number  // seconds
+  retryAt: string     // ISO timestamp when the next request should be accepted
+  limit?: number
+  userTier?: string
+}
+
+// Where a turn attaches in the conversation tree
+export interface BranchOptions {
+  parentMessageId: string | null  // Message the new user turn follows, or the user message being answered when regenerating
+  regenerate?: boolean            // Answer parentMessageId again instead of saving a new user message
+  continue?: boolean              // Extend parentMessageId, a stopped assistant reply, in place
+  compare?: boolean               // Part of a comparison: the reply does not become the branch tip
+  compareModels?: string[]        // Every model of the comparison; sent by the request that opens it
+}
+
+// Matches the Edge Function's MAX_MESSAGE_CHARS; longer turns are rejected there
+export const MAX_MESSAGE_LENGTH = 32000
+
+// Where a stream has got to; a dropped connection resumes from content.length
+interface StreamProgress {
+  generationId: string | null
+  content: string
+  thinking: string
+  sources?: MessageSource[]
+}
+
+// Reconnect attempts after the response stream drops mid-generation
+const MAX_RESUME_ATTEMPTS = 3
+const RESUME_RETRY_DELAY_MS = 1000
+
+// Used when a 429 carries neither a Retry-After header nor a retryAfter field
+const DEFAULT_RETRY_AFTER_SECONDS = 30
+
+// One stream at a time per instance; compare mode runs an instance per model
+export class StreamingService {
   private currentController: AbortController | null = null
+  private currentGenerationId: string | null = null
 
   /**
-   * UPDATED: Send streaming message with FULL conversation history to Edge Function
-   * The Edge Function now handles ALL message persistence and usage tracking
+   * UPDATED: Send only the new user turn to the Edge Function
+   * The Edge Function rebuilds history from the database and handles ALL message persistence and usage tracking
+   * `parameters` are the conversation's generation settings, adjusted here to what the model accepts
    */
   async sendStreamingMessage(
-    conversationHistory: Message[],
+    turn: Message,
     model: AIModel,
     callbacks: StreamingCallbacks,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    branch?: BranchOptions,
+    parameters?: GenerationParameters
   ): Promise<void> {
     const { data: { session } } = await supabase.auth.getSession()
     
@@ -47,44 +97,63 @@ class StreamingService {
       })
     }
 
-    // Validate conversation history
-    if (!conversationHistory || conversationHistory.length === 0) {
-      callbacks.onError('No conversation history provided')
+    // Validate the turn; when regenerating it is the user message being answered again,
+    // when continuing it is the stopped reply
+    const sendsNewMessage = !branch?.regenerate && !branch?.continue
+    if (!turn || turn.role !== (branch?.continue ? 'assistant' : 'user')) {
+      callbacks.onError(branch?.continue ? 'Only an assistant reply can be continued' : 'Last message must be from user')
       return
     }
 
-    const lastMessage = conversationHistory[conversationHistory.length - 1]
-    if (lastMessage.role !== 'user') {
-      callbacks.onError('Last message must be from user')
+    if (sendsNewMessage && turn.content.length > MAX_MESSAGE_LENGTH) {
+      callbacks.onError(`Message is too long. Please keep it under ${MAX_MESSAGE_LENGTH.toLocaleString()} characters.`)
       return
     }
 
     console.log('🚀 Starting streaming via Edge Function:', {
       model: model.id,
-      messageCount: conversationHistory.length,
       provider: model.provider,
-      conversationId: lastMessage.conversation_id
+      conversationId: turn.conversation_id,
+      regenerate: !!branch?.regenerate,
+      continue: !!branch?.continue
     })
 
+    // NEW: Chosen here rather than taken from the generation event, so a stop pressed
+    // before the Edge Function answers still reaches the generation
+    const generationId = crypto.randomUUID()
+    this.currentGenerationId = generationId
+
     try {
-      // CRITICAL: Send FULL conversation history to Edge Function
+      // CRITICAL: Only the new turn is sent; history comes from the messages table
       const payload = {
         model: model.id,
-        messages: conversationHistory.map(msg => ({
-          role: msg.role,
-          content: msg.content
-        })),
-        conversation_id: lastMessage.conversation_id, // Include conversation ID
+        generation_id: generationId,
+        conversation_id: turn.conversation_id,
+        ...(sendsNewMessage && {
+          message: {
+            role: 'user',
+            content: turn.content,
+            // NEW: Image attachments, already uploaded to Storage
+            ...(turn.content_parts && { parts: turn.content_parts })
+          }
+        }),
+        // NEW: Branch placement; without it the Edge Function continues the active branch
+        ...(branch && {
+          parent_message_id: branch.parentMessageId,
+          regenerate: !!branch.regenerate,
+          continue: !!branch.continue,
+          ...(branch.compare && { compare: true }),
+          ...(branch.compareModels && { compare_models: branch.compareModels })
+        }),
         stream: true,
-        max_tokens: Math.min(model.maxTokens, 4000),
-        temperature: 0.7
+        // NEW: Validated against the model's capabilities by the Edge Function
+        parameters: getEffectiveParameters(parameters, model)
       }
 
       console.log('📤 Sending to Edge Function:', {
         model: payload.model,
-        messageCount: payload.messages.length,
         conversationId: payload.conversation_id,
-        lastMessagePreview: payload.messages[payload.messages.length - 1]?.content?.substring(0, 50) + '...'
+        messagePreview: turn.content.substring(0, 50) + '...'
       })
       
       const edgeFunctionUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-completion`
@@ -129,8 +198,11 @@ class StreamingService {
         return
       }
 
-      // Process streaming response
-      await this.processStreamingResponse(response, callbacks)
+      // Process streaming response, reconnecting if the connection drops mid-generation
+      const progress: StreamProgress = { generationId: null, content: '', thinking: '' }
+      if (!await this.processStreamingResponse(response, callbacks, progress)) {
+        await this.recoverStream(progress, callbacks)
+      }
 
     } catch (error) {
       if (error.name === 'AbortError') {
@@ -153,22 +225,149 @@ class StreamingService {
       }
     } finally {
       this.currentController = null
+      this.currentGenerationId = null
+    }
+  }
+
+  /**
+   * NEW: Attach to a generation still running in a conversation - started before a reload,
+   * on another device, or by a request whose connection dropped. Resolves false when there
+   * is nothing to resume.
+   */
+  async resumeStreamingMessage(
+    conversationId: string,
+    callbacks: StreamingCallbacks,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    this.currentController = new AbortController()
+
+    if (signal) {
+      signal.addEventListener('abort', () => {
+        if (this.currentController) {
+          this.currentController.abort()
+        }
+      })
+    }
+
+    try {
+      const response = await this.callEdgeFunction('/resume', {
+        conversation_id: conversationId,
+        offset: 0
+      }, this.currentController.signal)
+
+      if (response.status === 404) {
+        return false
+      }
+
+      if (!response.ok) {
+        await this.handleErrorResponse(response, callbacks, { displayName: 'AI' } as AIModel)
+        return true
+      }
+
+      console.log('🔁 Resuming generation for conversation:', conversationId)
+
+      const progress: StreamProgress = { generationId: null, content: '', thinking: '' }
+      if (!await this.processStreamingResponse(response, callbacks, progress)) {
+        await this.recoverStream(progress, callbacks)
+      }
+      return true
+
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        console.log('🚫 Resume request was aborted')
+        return true
+      }
+
+      console.error('💥 Resume error:', error)
+      return false
+    } finally {
+      this.currentController = null
+      this.currentGenerationId = null
+    }
+  }
+
+  /**
+   * Reconnect to the generation behind a dropped stream and continue from what was received
+   */
+  private async recoverStream(progress: StreamProgress, callbacks: StreamingCallbacks): Promise<void> {
+    if (!progress.generationId) {
+      callbacks.onError('Error reading response stream. Please try again.')
+      return
+    }
+
+    for (let attempt = 1; attempt <= MAX_RESUME_ATTEMPTS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, RESUME_RETRY_DELAY_MS * attempt))
+
+      const signal = this.currentController?.signal
+      if (!signal || signal.aborted) {
+        return
+      }
+
+      console.log(`🔁 Resuming generation (attempt ${attempt}/${MAX_RESUME_ATTEMPTS}):`, {
+        generationId: progress.generationId,
+        offset: progress.content.length
+      })
+
+      try {
+        const response = await this.callEdgeFunction('/resume', {
+          generation_id: progress.generationId,
+          offset: progress.content.length,
+          reasoning_offset: progress.thinking.length
+        }, signal)
+
+        if (response.status === 404) {
+          break
+        }
+
+        if (response.ok && await this.processStreamingResponse(response, callbacks, progress)) {
+          return
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === 'AbortError') {
+          return
+        }
+        console.warn('⚠️ Resume attempt failed:', error)
+      }
     }
+
+    callbacks.onError('Connection lost while generating. Reopen the conversation to pick up the response.')
   }
 
   /**
-   * Process streaming Server-Sent Events response
+   * POST to a chat-completion sub-route with the current session
    */
-  private async processStreamingResponse(response: Response, callbacks: StreamingCallbacks): Promise<void> {
+  private async callEdgeFunction(path: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    const { data: { session } } = await supabase.auth.getSession()
+    if (!session) {
+      throw new Error('Authentication required. Please sign in.')
+    }
+
+    return fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-completion${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'apikey': import.meta.env.VITE_SUPABASE_ANON_KEY,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+      signal,
+    })
+  }
+
+  /**
+   * Process streaming Server-Sent Events response.
+   * Resolves true once the stream reached a done or error event, false if the connection
+   * dropped first (the generation may still be running server-side).
+   */
+  private async processStreamingResponse(response: Response, callbacks: StreamingCallbacks, progress: StreamProgress): Promise<boolean> {
     const reader = response.body?.getReader()
     if (!reader) {
       callbacks.onError('Failed to get response reader')
-      return
+      return true
     }
 
     const decoder = new TextDecoder()
     let buffer = ''
-    let fullContent = ''
     let usage: TokenUsage | undefined
     let messageIds: { userMessage?: string; aiMessage?: string } | undefined
 
@@ -190,8 +389,8 @@ class StreamingService {
             
             if (data === '[DONE]') {
               console.log('✅ Streaming completed')
-              callbacks.onComplete(fullContent, usage)
-              return
+              callbacks.onComplete(progress.content, usage)
+              return true
             }
 
             try {
@@ -201,14 +400,45 @@ class StreamingService {
               if (event.error) {
                 console.error('❌ Stream error:', event)
                 this.handleUsageLimitError(event, callbacks, { displayName: 'AI' } as AIModel)
-                return
+                return true
               }
 
               // Handle different event types from Edge Function
               switch (event.type) {
+                case 'generation':
+                  // Server-side generation id, used to resume or cancel
+                  progress.generationId = event.generationId
+                  this.currentGenerationId = event.generationId
+                  callbacks.onGeneration?.(event.generationId, event.userMessageId)
+                  break
+
+                // NEW: Project file chunks the reply is generated with
+                case 'sources':
+                  progress.sources = event.sources
+                  break
+
+                // NEW: Reasoning text, streamed before (and kept apart from) the reply
+                case 'thinking':
+                  if (event.thinking) {
+                    progress.thinking += event.thinking
+                    callbacks.onThinking?.(event.thinking)
+                  }
+                  break
+
+                // NEW: A tool call, then its result; replayed in full on resume
+                case 'tool_call':
+                case 'tool_result':
+                  callbacks.onToolStep?.({
+                    id: event.id,
+                    name: event.name,
+                    arguments: event.arguments ?? null,
+                    ...(event.type === 'tool_result' && { result: event.result, is_error: !!event.isError })
+                  })
+                  break
+
                 case 'content':
                   if (event.content) {
-                    fullContent += event.content
+                    progress.content += event.content
                     callbacks.onToken(event.content)
                   }
                   break
@@ -219,7 +449,8 @@ class StreamingService {
                     usage = {
                       prompt_tokens: event.usage.prompt_tokens || 0,
                       completion_tokens: event.usage.completion_tokens || 0,
-                      total_tokens: event.usage.total_tokens || 0
+                      total_tokens: event.usage.total_tokens || 0,
+                      reasoning_tokens: event.usage.reasoning_tokens || 0
                     }
                   }
                   
@@ -229,19 +460,30 @@ class StreamingService {
                     console.log('📝 Message IDs received:', messageIds)
                   }
                   
-                  callbacks.onComplete(event.content || fullContent, usage)
+                  // Cost and timing recorded by the Edge Function
+                  callbacks.onComplete(event.content || progress.content, usage, {
+                    cost: event.cost,
+                    response_time: event.responseTime,
+                    messageIds,
+                    model: event.model,
+                    finish_reason: event.finishReason,
+                    parameters: event.parameters,
+                    sources: event.sources || progress.sources,
+                    reasoning: event.reasoning || progress.thinking || undefined,
+                    toolRounds: event.toolRounds
+                  })
                   
                   // Dispatch refresh event for usage stats
                   setTimeout(() => {
                     window.dispatchEvent(new CustomEvent('refreshUsageStats'))
                   }, 500)
                   
-                  return
+                  return true
 
                 case 'error':
                   console.error('❌ Stream error event:', event)
                   this.handleUsageLimitError(event, callbacks, { displayName: 'AI' } as AIModel)
-                  return
+                  return true
 
                 default:
                   console.warn('⚠️ Unknown event type:', event.type)
@@ -255,17 +497,17 @@ class StreamingService {
         }
       }
 
-      // If we reach here without explicit completion, still complete
+      // Ended without a completion event: the connection dropped, not the generation
       console.log('🏁 Stream ended without explicit completion marker')
-      callbacks.onComplete(fullContent, usage)
+      return false
 
     } catch (readError) {
       if (readError.name === 'AbortError') {
         console.log('🚫 Stream reading was aborted')
-        return
+        return true
       }
       console.error('❌ Error reading stream:', readError)
-      callbacks.onError('Error reading response stream. Please try again.')
+      return false
     } finally {
       reader.releaseLock()
     }
@@ -278,13 +520,17 @@ class StreamingService {
     try {
       const errorData = await response.json()
       console.log('📥 Error response from Edge Function:', errorData)
-      this.handleUsageLimitError(errorData, callbacks, model)
+      if ((errorData.type || errorData.error) === 'RATE_LIMITED') {
+        this.handleRateLimitError(errorData, response, callbacks)
+      } else {
+        this.handleUsageLimitError(errorData, callbacks, model)
+      }
     } catch (parseError) {
       // Handle non-JSON error responses
       if (response.status === 401) {
         callbacks.onError('Authentication expired. Please sign in again.')
       } else if (response.status === 429) {
-        callbacks.onError('Rate limit exceeded. Please try again in a moment.')
+        this.handleRateLimitError({}, response, callbacks)
       } else if (response.status === 403) {
         callbacks.onError(`${model.displayName} is not available on your current plan. Please upgrade or select a different model.`)
       } else {
@@ -293,6 +539,30 @@ class StreamingService {
     }
   }
 
+  /**
+   * Surface a rate limit with its retry time so the UI can count down
+   */
+  private handleRateLimitError(errorData: Partial<RateLimitError>, response: Response, callbacks: StreamingCallbacks): void {
+    const retryAfter = Number(response.headers.get('Retry-After')) || errorData.retryAfter || DEFAULT_RETRY_AFTER_SECONDS
+
+    const rateLimitError: RateLimitError = {
+      reason: errorData.reason || 'REQUESTS_PER_MINUTE',
+      message: errorData.message || 'Too many requests.',
+      retryAfter,
+      retryAt: new Date(Date.now() + retryAfter * 1000).toISOString(),
+      limit: errorData.limit,
+      userTier: errorData.userTier
+    }
+
+    console.log('🚦 Rate limited by Edge Function:', rateLimitError)
+
+    window.dispatchEvent(new CustomEvent('rateLimited', {
+      detail: rateLimitError
+    }))
+
+    callbacks.onError(`${rateLimitError.message} Try again in ${retryAfter}s.`)
+  }
+
   /**
    * UPDATED: Handle specific usage limit errors with better type checking
    */
@@ -304,6 +574,7 @@ class StreamingService {
       'DAILY_MESSAGE_LIMIT_EXCEEDED',
       'MONTHLY_LIMIT_EXCEEDED', 
       'MONTHLY_TOKEN_LIMIT_EXCEEDED',
+      'INSUFFICIENT_TOKEN_BUDGET',
       'MODEL_NOT_ALLOWED'
     ]
 
@@ -321,6 +592,7 @@ class StreamingService {
           percentage: errorData.usage?.percentage,
           resetTime: errorData.usage?.resetTime
         },
+        budget: errorData.budget,
         userTier: errorData.userTier,
         allowedModels: errorData.allowedModels
       }
@@ -355,6 +627,9 @@ class StreamingService {
         case 'INVALID_REQUEST':
           userFriendlyMessage = 'Invalid request format. Please refresh and try again.'
           break
+        case 'GENERATION_CANCELLED':
+          userFriendlyMessage = 'Stopped before a reply was generated.'
+          break
         default:
           // Use original message or fallback
           userFriendlyMessage = errorData.message || 'An unexpected error occurred. Please try again.'
@@ -376,6 +651,9 @@ class StreamingService {
       case 'MONTHLY_TOKEN_LIMIT_EXCEEDED':
         return `Monthly token limit exceeded. Upgrade for more tokens!`
       
+      case 'INSUFFICIENT_TOKEN_BUDGET':
+        return `Not enough tokens left this month for this request. Try a shorter conversation or upgrade for more tokens!`
+      
       case 'MODEL_NOT_ALLOWED':
         return `${model.displayName} requires a higher tier. Please upgrade to access this model.`
       
@@ -388,14 +666,57 @@ class StreamingService {
   }
 
   /**
-   * Cancel current streaming request
+   * NEW: Stop the current generation but keep reading: the Edge Function saves the partial
+   * reply as 'cancelled' and finishes the stream with its done event (or the generation had
+   * already finished and its done event is on the way). Stopped before it started, the
+   * stream ends with a GENERATION_CANCELLED error instead and nothing is billed. Resolves
+   * false when the Edge Function could not be reached, in which case the caller should cancel.
+   */
+  async stopGeneration(): Promise<boolean> {
+    const generationId = this.currentGenerationId
+    if (!generationId) {
+      return false
+    }
+
+    try {
+      const response = await this.callEdgeFunction('/cancel', { generation_id: generationId })
+      if (!response.ok) {
+        return false
+      }
+      const { cancelled } = await response.json()
+      console.log('🛑 Stop requested for generation:', { generationId, cancelled })
+      return true
+    } catch (error) {
+      console.error('❌ Failed to stop generation:', error)
+      return false
+    }
+  }
+
+  /**
+   * Cancel current streaming request and stop the generation server-side
    */
   cancelStreaming(): void {
+    const generationId = this.currentGenerationId
+    this.detachStreaming()
+
+    if (generationId) {
+      this.callEdgeFunction('/cancel', { generation_id: generationId }).catch(error => {
+        console.error('❌ Failed to cancel generation:', error)
+      })
+    }
+  }
+
+  /**
+   * NEW: Stop receiving the current stream but let the generation finish server-side,
+   * e.g. when switching conversations; it can be picked up again with resumeStreamingMessage
+   */
+  detachStreaming(): void {
     if (this.currentController) {
       console.log('🚫 Cancelling streaming request')
       this.currentController.abort()
       this.currentController = null
     }
+    this.currentGenerationId = null
   }
 
   /**
@@ -15,27 +15,208 @@ export interface Message {
   input_tokens?: number
   output_tokens?: number
   total_tokens?: number
+  cost_incurred?: number // USD, computed by the Edge Function from model pricing
+  response_time?: number // Milliseconds from provider call to last token
+  parent_message_id?: string | null // Previous message on its branch; siblings are alternative versions
+  finish_reason?: 'stop' | 'cancelled' | 'length' | null // 'cancelled' when the user stopped the reply, 'length' when it hit the output limit; both can be continued
+  model_parameters?: GenerationParameters // What the reply was generated with (assistant messages)
+  content_parts?: MessageContentPart[] | null // Text plus attachments; content keeps the plain text
+  sources?: MessageSource[] // Project file chunks the reply was generated with (assistant messages)
+  reasoning?: string | null // Model's reasoning ("thinking") text, kept apart from content
+  reasoning_tokens?: number // Part of output_tokens spent on reasoning
+  tool_rounds?: ToolRound[] | null // Model calls that ended in tool calls, before the final answer
   created_at: string
 }
 
+// NEW: A built-in tool the model called while answering (calculator, current_datetime,
+// convert_units, search_conversations)
+export interface ToolCallStep {
+  id: string
+  name: string
+  arguments: Record<string, unknown> | null // null when the model sent invalid JSON
+  result?: unknown // Set once the tool has run
+  is_error?: boolean
+}
+
+// One model call that ended in tool calls: the text it wrote first and the calls it made
+export interface ToolRound {
+  content: string
+  calls: ToolCallStep[]
+}
+
+// NEW: A retrieved chunk of a project file, cited in the reply as [index]
+export interface MessageSource {
+  index: number
+  document_id: string
+  filename: string
+  chunk_index: number
+  score: number // Cosine similarity to the user's message
+  excerpt: string
+}
+
+export interface TextContentPart {
+  type: 'text'
+  text: string
+}
+
+// An image uploaded to the attachments Storage bucket under the user's folder
+export interface ImageContentPart {
+  type: 'image'
+  path: string
+  mime_type: string
+  width: number
+  height: number
+  size: number // Bytes
+  name?: string
+}
+
+// A document attached with its extracted text, which is what the model reads
+export interface DocumentContentPart {
+  type: 'document'
+  name: string
+  mime_type: string
+  size: number // Bytes of the original file
+  text: string
+  path?: string // Original file in the attachments bucket (PDF and DOCX only)
+  truncated?: boolean // Text was cut to the extraction limit
+}
+
+export type AttachmentContentPart = ImageContentPart | DocumentContentPart
+
+export type MessageContentPart = TextContentPart | AttachmentContentPart
+
+export type GenerationParameterKey = 'temperature' | 'top_p' | 'max_tokens' | 'reasoning_effort' | 'thinking_budget'
+
+export type ReasoningEffort = 'low' | 'medium' | 'high'
+
+// Unset values fall back to the Edge Function's defaults
+export interface GenerationParameters {
+  temperature?: number
+  top_p?: number
+  max_tokens?: number // Output cap; the remaining token budget may lower it further
+  reasoning_effort?: ReasoningEffort // OpenAI o-series
+  thinking_budget?: number // Claude extended thinking; replaces temperature/top_p
+}
+
+// Stored in conversations.metadata
+export interface ConversationMetadata {
+  system_prompt?: string // Sent as the system prompt after the user's custom instructions
+  parameters?: GenerationParameters // Sent with every turn, adjusted to the selected model
+  context_strategy?: ContextStrategy // How history is shortened when it outgrows the model's context window
+}
+
+// NEW: truncate drops the oldest messages, summarize replaces them with a rolling summary
+export type ContextStrategy = 'truncate' | 'summarize'
+
+// Stored in projects.settings
+export interface ProjectSettings {
+  instructions?: string // Sent after the user's custom instructions in every project conversation
+  default_model?: string // Model selected for new chats in the project
+}
+
+// NEW: Groups conversations with shared instructions and files
+export interface Project {
+  id: string
+  name: string
+  description?: string | null
+  settings: ProjectSettings
+  created_at: string
+}
+
+// A file in a project, stored with its extracted text
+export interface ProjectDocument {
+  id: string
+  project_id: string
+  filename: string
+  mime_type: string
+  size_bytes: number
+  storage_path?: string | null // PDF and DOCX originals in the attachments bucket
+  content: string
+  created_at: string
+}
+
+// Stored in users.preferences
+export interface UserPreferences {
+  custom_instructions?: string // Sent as the system prompt in every conversation
+}
+
+// Matches the Edge Function's cap on each system prompt part
+export const MAX_SYSTEM_PROMPT_LENGTH = 4000
+
 export interface Conversation {
   id: string
   title: string
-  messages: Message[]
+  messages: Message[] // Every branch; see getActiveBranch in lib/messageTree
+  active_leaf_id?: string | null // Tip of the branch being viewed
+  metadata?: ConversationMetadata
+  project_id?: string | null // NEW: Project the conversation belongs to
+  is_archived?: boolean // Listed in the sidebar's Archived view only
+  is_pinned?: boolean // Listed at the top of the sidebar
+  tag_ids?: string[] // Ids of the user's tags on this conversation
   total_tokens?: number // Optional since it's computed by database
   created_at: string
   updated_at: string
 }
 
+// NEW: Palette for user-defined tags; matches the tags.color check in the database
+export const TAG_COLORS = ['gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink'] as const
+
+export type TagColor = typeof TAG_COLORS[number]
+
+export interface Tag {
+  id: string
+  name: string
+  color: TagColor
+  created_at: string
+}
+
+export const MAX_TAG_NAME_LENGTH = 40 // Matches the tags.name check in the database
+
+export const TAG_COLOR_CLASSES: Record<TagColor, { dot: string; chip: string }> = {
+  gray: { dot: 'bg-gray-400', chip: 'bg-gray-100 text-gray-700 border-gray-200' },
+  red: { dot: 'bg-red-500', chip: 'bg-red-50 text-red-700 border-red-200' },
+  orange: { dot: 'bg-orange-500', chip: 'bg-orange-50 text-orange-700 border-orange-200' },
+  yellow: { dot: 'bg-yellow-400', chip: 'bg-yellow-50 text-yellow-800 border-yellow-200' },
+  green: { dot: 'bg-green-500', chip: 'bg-green-50 text-green-700 border-green-200' },
+  blue: { dot: 'bg-blue-500', chip: 'bg-blue-50 text-blue-700 border-blue-200' },
+  purple: { dot: 'bg-purple-500', chip: 'bg-purple-50 text-purple-700 border-purple-200' },
+  pink: { dot: 'bg-pink-500', chip: 'bg-pink-50 text-pink-700 border-pink-200' }
+}
+
+// New tags take the next colour of the palette
+export const nextTagColor = (tags: Tag[]): TagColor => TAG_COLORS[tags.length % TAG_COLORS.length]
+
+// NEW: Full-text search over the user's conversations (search_conversations RPC)
+export interface ConversationSearchFilters {
+  model?: string // model_used of the matching message
+  from?: string // YYYY-MM-DD, inclusive
+  to?: string // YYYY-MM-DD, inclusive
+}
+
+export interface ConversationSearchResult {
+  conversation_id: string
+  conversation_title: string
+  message_id: string | null // null when only the title matched
+  role: 'user' | 'assistant' | null
+  model_used: string | null
+  snippet: string // Matches wrapped in <mark>...</mark>
+  created_at: string
+  rank: number
+}
+
 export interface AIModel {
   id: string
   name: string
   displayName: string
-  provider: 'openai' | 'anthropic' | 'google'
-  category: 'general' | 'reasoning' | 'coding' | 'simple'
+  provider: 'openai' | 'anthropic' | 'google' | 'openai-compatible'
+  category: keyof typeof MODEL_CATEGORIES
   tier: 'flagship' | 'efficient' | 'latest' | 'premium' | 'nano'
   color: string
   maxTokens: number
+  maxOutputTokens?: number // Longest single reply; from model_pricing.max_output_tokens
+  parameters?: GenerationParameterKey[] // Generation parameters the model accepts
+  supportsVision?: boolean // Accepts image attachments
+  supportsTools?: boolean // Is offered the built-in tools
   description: string
   pricing?: {
     input: number // per million tokens
@@ -44,6 +225,8 @@ export interface AIModel {
 }
 
 // Enhanced 2025 AI Models - Comprehensive List with Gemini Integration
+// Bundled fallback only: components read the server catalog (model_pricing table,
+// served by GET /chat-completion/models) through useModelCatalog once it has loaded.
 export const ALL_MODELS: AIModel[] = [
   // OpenAI GPT-4o Family (Most Popular)
   {
@@ -55,6 +238,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'flagship',
     color: '#3B82F6', // blue-500
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Most advanced multimodal model',
     pricing: { input: 2.5, output: 10 }
   },
@@ -67,6 +251,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'efficient',
     color: '#F59E0B', // amber-500
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Fast and cost-effective',
     pricing: { input: 0.15, output: 0.6 }
   },
@@ -81,6 +266,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'latest',
     color: '#10B981', // emerald-500
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Latest model with improved coding and reasoning',
     pricing: { input: 3, output: 12 }
   },
@@ -93,6 +279,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'efficient',
     color: '#059669', // emerald-600
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Efficient version of GPT-4.1',
     pricing: { input: 0.5, output: 2 }
   },
@@ -105,6 +292,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'nano',
     color: '#6B7280', // gray-500
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Ultra-fast micro model',
     pricing: { input: 0.05, output: 0.2 }
   },
@@ -119,6 +307,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'premium',
     color: '#7C3AED', // violet-600
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Advanced reasoning for complex problems',
     pricing: { input: 15, output: 60 }
   },
@@ -143,6 +332,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'efficient',
     color: '#A855F7', // violet-400
     maxTokens: 128000,
+    supportsVision: true,
     description: 'Latest mini reasoning model',
     pricing: { input: 1, output: 4 }
   },
@@ -157,6 +347,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'flagship',
     color: '#F97316', // orange-500
     maxTokens: 200000,
+    supportsVision: true,
     description: 'Excellent reasoning and analysis',
     pricing: { input: 3, output: 15 }
   },
@@ -181,6 +372,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'premium',
     color: '#DC2626', // red-600
     maxTokens: 200000,
+    supportsVision: true,
     description: 'Most capable for complex tasks',
     pricing: { input: 15, output: 75 }
   },
@@ -195,6 +387,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'latest',
     color: '#F97316', // orange-500
     maxTokens: 200000,
+    supportsVision: true,
     description: 'Enhanced reasoning and analysis',
     pricing: { input: 4, output: 20 }
   },
@@ -209,6 +402,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'flagship',
     color: '#EA580C', // orange-600
     maxTokens: 200000,
+    supportsVision: true,
     description: 'Latest generation Claude model',
     pricing: { input: 5, output: 25 }
   },
@@ -221,6 +415,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'premium',
     color: '#DC2626', // red-600
     maxTokens: 200000,
+    supportsVision: true,
     description: 'Most advanced Claude model for complex reasoning',
     pricing: { input: 20, output: 100 }
   },
@@ -235,6 +430,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'efficient',
     color: '#4285F4', // google-blue
     maxTokens: 1000000,
+    supportsVision: true,
     description: 'Fast and reliable for everyday tasks',
     pricing: { input: 0.075, output: 0.3 }
   },
@@ -247,6 +443,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'efficient',
     color: '#34A853', // google-green
     maxTokens: 1000000,
+    supportsVision: true,
     description: 'Efficient model for general use',
     pricing: { input: 0.075, output: 0.3 }
   },
@@ -259,6 +456,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'flagship',
     color: '#EA4335', // google-red
     maxTokens: 2000000,
+    supportsVision: true,
     description: 'Advanced capabilities with large context',
     pricing: { input: 1.25, output: 5 }
   },
@@ -271,6 +469,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'latest',
     color: '#FBBC04', // google-yellow
     maxTokens: 1000000,
+    supportsVision: true,
     description: 'Latest fast model with enhanced capabilities',
     pricing: { input: 0.1, output: 0.4 }
   },
@@ -283,6 +482,7 @@ export const ALL_MODELS: AIModel[] = [
     tier: 'premium',
     color: '#9C27B0', // purple for premium
     maxTokens: 2000000,
+    supportsVision: true,
     description: 'Most advanced Gemini model for complex tasks',
     pricing: { input: 2, output: 8 }
   }
@@ -320,8 +520,8 @@ export const MODEL_CATEGORIES = {
 } as const
 
 // Helper function to get models by category and provider
-export function getModelsByCategory(provider: 'openai' | 'anthropic' | 'google') {
-  const providerModels = ALL_MODELS.filter(model => model.provider === provider)
+export function getModelsByCategory(provider: AIModel['provider'], models: AIModel[] = ALL_MODELS) {
+  const providerModels = models.filter(model => model.provider === provider)
   
   const categories = Object.keys(MODEL_CATEGORIES).sort((a, b) => 
     MODEL_CATEGORIES[a].order - MODEL_CATEGORIES[b].order
@@ -335,8 +535,8 @@ export function getModelsByCategory(provider: 'openai' | 'anthropic' | 'google')
 }
 
 // Get the default model
-export const getDefaultModel = (): AIModel => {
-  return ALL_MODELS.find(model => model.id === DEFAULT_MODEL_ID) || ALL_MODELS[0]
+export const getDefaultModel = (models: AIModel[] = ALL_MODELS): AIModel => {
+  return models.find(model => model.id === DEFAULT_MODEL_ID) || models[0]
 }
 
 // Get recommended model based on task type
@@ -392,23 +592,81 @@ export const SUBSCRIPTION_TIERS: Record<string, SubscriptionTier> = {
   }
 }
 
+// Model catalog as served by the Edge Function (GET /chat-completion/models)
+export interface ModelCatalog {
+  models: AIModel[]
+  tiers: Record<string, UserTier & {
+    name: string
+    warnings: number[]
+  }>
+}
+
 export interface StreamingState {
   isStreaming: boolean
   currentMessage: string
+  currentThinking?: string // NEW: Reasoning text streamed so far
+  currentToolCalls?: ToolCallStep[] // NEW: Tool calls made so far, with results once they ran
   messageId: string | null
 }
 
+// NEW: Compare mode sends one prompt to this many models at once
+export const MIN_COMPARE_MODELS = 2
+export const MAX_COMPARE_MODELS = 4
+
+// One model's reply in compare mode
+export interface CompareColumn {
+  model: AIModel
+  content: string
+  thinking?: string // Reasoning text streamed so far
+  toolCalls?: ToolCallStep[] // Tool calls made so far, with results once they ran
+  isStreaming: boolean
+  messageId?: string // Saved assistant message, once the reply is complete
+  usage?: TokenUsage
+  cost?: number
+  response_time?: number
+  error?: string
+}
+
+// A user turn being answered by several models side by side, until one reply is picked
+export interface CompareState {
+  conversationId: string
+  userMessageId: string | null // Saved user message, once the first request has stored it
+  columns: CompareColumn[]
+}
+
 // Enhanced streaming callbacks with token usage
 export interface StreamingCallbacks {
   onToken: (token: string) => void
-  onComplete: (fullContent: string, usage?: TokenUsage) => void
+  onComplete: (fullContent: string, usage?: TokenUsage, details?: CompletionDetails) => void
   onError: (error: string) => void
+  onThinking?: (token: string) => void // NEW: Reasoning text, for models that stream it
+  onToolStep?: (step: ToolCallStep) => void // NEW: A tool call started, or finished with its result (same id)
+  onGeneration?: (generationId: string, userMessageId?: string) => void // The turn was saved and generation started
 }
 
 export interface TokenUsage {
   prompt_tokens: number
   completion_tokens: number
   total_tokens: number
+  reasoning_tokens?: number // Included in completion_tokens
+}
+
+// Replies the user stopped or that hit the output limit can be continued where they ended
+export function canContinueReply(message: Pick<Message, 'role' | 'finish_reason'>): boolean {
+  return message.role === 'assistant' && (message.finish_reason === 'cancelled' || message.finish_reason === 'length')
+}
+
+// Extra data reported with the Edge Function's completion event
+export interface CompletionDetails {
+  cost?: number
+  response_time?: number
+  messageIds?: { userMessage?: string; aiMessage?: string } // Database ids of the saved turn
+  model?: string // Model that produced the reply, for replies picked up by resuming
+  finish_reason?: 'stop' | 'cancelled' | 'length'
+  parameters?: GenerationParameters // Parameters the reply was generated with
+  sources?: MessageSource[] // Project file chunks injected as context
+  reasoning?: string // Reasoning text streamed as thinking events
+  toolRounds?: ToolRound[] // Tool calls the reply was generated with
 }
 
 // Normalized API response format from Edge Function
@@ -420,7 +678,7 @@ export interface NormalizedAPIResponse {
     total_tokens: number
   }
   model: string             // Model that was used
-  provider: 'openai' | 'anthropic' | 'google'
+  provider: AIModel['provider']
   raw_response?: object     // Original API response
 }
 
@@ -445,6 +703,54 @@ export interface UsageStats {
   billing_period_start?: string  // ISO timestamp of billing period start
 }
 
+// Usage analytics over the current billing period
+export interface DailyUsage {
+  date: string  // YYYY-MM-DD
+  tokens: number
+  messages: number
+  cost: number
+}
+
+export interface ModelUsageBreakdown {
+  model: string
+  messages: number
+  tokens: number
+  cost: number
+}
+
+// Totals for one usage_tracking category ('chat', 'compare', 'prompt_helper', 'summary')
+export interface CategoryUsage {
+  tokens: number
+  requests: number
+  cost: number
+}
+
+export interface ConversationUsage {
+  id: string
+  title: string
+  tokens: number  // used within the analytics period
+  updated_at: string
+}
+
+export interface UsageProjection {
+  tokensPerDay: number
+  projectedPeriodTokens: number
+  limitReachedAt: string | null  // ISO timestamp, null when the limit won't be hit this period
+}
+
+export interface UsageAnalytics {
+  periodStart: string
+  periodEnd: string
+  daily: DailyUsage[]
+  models: ModelUsageBreakdown[]
+  categories: Record<string, CategoryUsage>
+  topConversations: ConversationUsage[]
+  totalTokens: number
+  totalMessages: number
+  totalCost: number
+  projection: UsageProjection
+}
+
 export interface APIError {
   message: string
   type: 'network' | 'api' | 'auth' | 'quota' | 'unknown'
@@ -480,6 +786,16 @@ export const PRICING_TIERS: Record<string, UserTier> = {
   }
 }
 
+// The bundled tables in the catalog's shape, used until (or if) the server catalog loads
+export const BUNDLED_CATALOG: ModelCatalog = {
+  models: ALL_MODELS,
+  tiers: Object.fromEntries(Object.entries(PRICING_TIERS).map(([key, tier]) => [key, {
+    ...tier,
+    name: SUBSCRIPTION_TIERS[key]?.name || key,
+    warnings: SUBSCRIPTION_TIERS[key]?.warnings || [50, 80, 95]
+  }]))
+}
+
 // Token counting interface for Anthropic
 export interface AnthropicTokenCount {
   input_tokens: number
@@ -506,6 +822,7 @@ export function getProviderColor(provider: string): string {
     case 'openai': return 'text-blue-600'
     case 'anthropic': return 'text-orange-600'
     case 'google': return 'text-green-600'
+    case 'openai-compatible': return 'text-slate-600'
     default: return 'text-gray-600'
   }
 }
@@ -515,6 +832,7 @@ export function getProviderBadgeColor(provider: string): string {
     case 'openai': return 'bg-blue-100 text-blue-800'
     case 'anthropic': return 'bg-orange-100 text-orange-800'
     case 'google': return 'bg-green-100 text-green-800'
+    case 'openai-compatible': return 'bg-slate-100 text-slate-800'
     default: return 'bg-gray-100 text-gray-800'
   }
 }
@@ -544,6 +862,7 @@ export function getProviderIcon(provider: string): string {
   switch (provider) {
     case 'anthropic': return '🤖'
     case 'google': return '🟢'
+    case 'openai-compatible': return '🖥️'
     case 'openai': 
     default: return '🧠'
   }
@@ -0,0 +1,198 @@
+// Message attachments: validation of the parts a user turn carries, token estimates for
+// budgeting, and turning images and documents into the normalized provider history.
+// Images stay in Storage and are loaded per request; documents carry their extracted text.
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts';
+
+export const ATTACHMENTS_BUCKET = 'attachments';
+export const MAX_IMAGES_PER_MESSAGE = 4;
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+export const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+export const MAX_DOCUMENTS_PER_MESSAGE = 5;
+// Extracted text kept per document; longer documents are truncated at extraction
+export const MAX_DOCUMENT_CHARS = 100000;
+
+function isPositiveInteger(value) {
+  return Number.isInteger(value) && value > 0;
+}
+
+export function getImageParts(parts) {
+  return Array.isArray(parts) ? parts.filter((part) => part?.type === 'image') : [];
+}
+
+export function getDocumentParts(parts) {
+  return Array.isArray(parts) ? parts.filter((part) => part?.type === 'document') : [];
+}
+
+function isOwnPath(path, userId) {
+  return typeof path === 'string' && path.startsWith(`${userId}/`) && !path.includes('..');
+}
+
+/**
+ * Validate the parts of a new user turn; returns an error message or null.
+ * Images must already be uploaded to the user's own folder in the attachments bucket.
+ */
+export function validateContentParts(parts, userId) {
+  if (parts === undefined || parts === null) return null;
+  if (!Array.isArray(parts)) {
+    return 'Message parts must be an array';
+  }
+
+  const images = getImageParts(parts);
+  if (images.length > MAX_IMAGES_PER_MESSAGE) {
+    return `A message can carry at most ${MAX_IMAGES_PER_MESSAGE} images`;
+  }
+  if (getDocumentParts(parts).length > MAX_DOCUMENTS_PER_MESSAGE) {
+    return `A message can carry at most ${MAX_DOCUMENTS_PER_MESSAGE} documents`;
+  }
+
+  for (const part of parts) {
+    if (part?.type === 'text') {
+      if (typeof part.text !== 'string') return 'Text parts must have a text string';
+      continue;
+    }
+    if (part?.type === 'document') {
+      if (typeof part.name !== 'string' || !part.name.trim()) return 'Documents must have a file name';
+      if (typeof part.text !== 'string') return `Document ${part.name} has no extracted text`;
+      if (part.text.length > MAX_DOCUMENT_CHARS) {
+        return `Document ${part.name} is too long (${part.text.length} characters, maximum ${MAX_DOCUMENT_CHARS})`;
+      }
+      if (part.path !== undefined && !isOwnPath(part.path, userId)) {
+        return 'Document files must be uploaded to your own attachments folder';
+      }
+      continue;
+    }
+    if (part?.type !== 'image') {
+      return `Unsupported message part type "${part?.type}"`;
+    }
+    if (!isOwnPath(part.path, userId)) {
+      return 'Image attachments must be uploaded to your own attachments folder';
+    }
+    if (!IMAGE_MIME_TYPES.includes(part.mime_type)) {
+      return `Unsupported image type "${part.mime_type}"`;
+    }
+    if (!isPositiveInteger(part.width) || !isPositiveInteger(part.height)) {
+      return 'Image attachments must include their width and height';
+    }
+    if (!isPositiveInteger(part.size) || part.size > MAX_IMAGE_BYTES) {
+      return `Images must be at most ${MAX_IMAGE_BYTES / (1024 * 1024)} MB`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The content_parts stored for a user turn: its text followed by the attachments, keeping
+ * only known fields. Null for text-only turns, which are stored as plain content.
+ */
+export function buildContentParts(content, parts) {
+  const images = getImageParts(parts);
+  const documents = getDocumentParts(parts);
+  if (images.length === 0 && documents.length === 0) return null;
+
+  return [
+    { type: 'text', text: content },
+    ...documents.map(({ name, mime_type, size, text, path, truncated }) => ({
+      type: 'document',
+      name: name.slice(0, 255),
+      mime_type: typeof mime_type === 'string' ? mime_type : 'text/plain',
+      size: Number.isInteger(size) ? size : text.length,
+      text,
+      ...(path ? { path } : {}),
+      ...(truncated ? { truncated: true } : {})
+    })),
+    ...images.map(({ path, mime_type, width, height, size, name }) => ({
+      type: 'image',
+      path,
+      mime_type,
+      width,
+      height,
+      size,
+      ...(typeof name === 'string' ? { name: name.slice(0, 255) } : {})
+    }))
+  ];
+}
+
+/**
+ * Input tokens a provider charges for an image, following each provider's published
+ * sizing rules (OpenAI 512px tiles, Anthropic pixels / 750, Gemini 768px tiles).
+ * Mirrored by estimateImageTokens in src/lib/attachmentService.ts.
+ */
+export function estimateImageTokens(image, provider) {
+  let { width, height } = image;
+
+  if (provider === 'anthropic') {
+    const scale = Math.min(1, 1568 / Math.max(width, height));
+    return Math.ceil((width * scale) * (height * scale) / 750);
+  }
+
+  if (provider === 'google') {
+    if (width <= 384 && height <= 384) return 258;
+    return 258 * Math.ceil(width / 768) * Math.ceil(height / 768);
+  }
+
+  // OpenAI and OpenAI-compatible: fit in 2048x2048, shortest side to 768, 512px tiles
+  const fit = Math.min(1, 2048 / Math.max(width, height));
+  width *= fit;
+  height *= fit;
+  const shrink = Math.min(1, 768 / Math.min(width, height));
+  width *= shrink;
+  height *= shrink;
+  return 85 + 170 * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
+
+/**
+ * A message's text with its documents' extracted text in front, the way the model
+ * sees it; used when rebuilding history so later turns still include the documents.
+ */
+export function withDocumentText(content, parts) {
+  const documents = getDocumentParts(parts);
+  if (documents.length === 0) return content;
+
+  const blocks = documents.map((document) => {
+    const note = document.truncated ? ' truncated="true"' : '';
+    return `<document name="${document.name.replace(/"/g, "'")}"${note}>\n${document.text}\n</document>`;
+  });
+  return [...blocks, content].filter(Boolean).join('\n\n');
+}
+
+// Image tokens across a history of { parts } messages
+export function estimateHistoryImageTokens(messages, provider) {
+  return messages.reduce((sum, message) => {
+    return sum + getImageParts(message.parts).reduce((total, image) => total + estimateImageTokens(image, provider), 0);
+  }, 0);
+}
+
+/**
+ * Turn history messages with image parts into normalized provider messages
+ * ({ role, content, images: [{ mime_type, data, width, height }] }). Models without
+ * vision get a note in place of the images instead.
+ */
+export async function attachImages(supabase, messages, supportsVision) {
+  return await Promise.all(messages.map(async ({ parts, ...message }) => {
+    const imageParts = getImageParts(parts);
+    if (imageParts.length === 0) {
+      return message;
+    }
+
+    if (!supportsVision) {
+      const note = `[${imageParts.length} image${imageParts.length === 1 ? '' : 's'} not shown: this model cannot view images]`;
+      return { ...message, content: message.content ? `${message.content}\n\n${note}` : note };
+    }
+
+    const images = await Promise.all(imageParts.map(async (part) => {
+      const { data, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(part.path);
+      if (error || !data) {
+        throw new Error(`Failed to load attachment ${part.path}: ${error?.message || 'not found'}`);
+      }
+      return {
+        mime_type: part.mime_type,
+        data: encodeBase64(new Uint8Array(await data.arrayBuffer())),
+        width: part.width,
+        height: part.height
+      };
+    }));
+
+    return { ...message, images };
+  }));
+}
@@ -0,0 +1,129 @@
+// Model catalog and tier entitlements, loaded from the database.
+// model_pricing holds the models, subscription_tiers holds what each tier may use.
+// Both the GET /models endpoint and the chat request checks read from here.
+
+const CATALOG_TTL_MS = 60 * 1000;
+
+let cachedCatalog = null;
+let cachedAt = 0;
+
+function toCatalogModel(row) {
+  return {
+    id: row.model_name,
+    name: row.model_name,
+    displayName: row.display_name || row.model_name,
+    provider: row.provider,
+    category: row.category || 'smart-daily',
+    tier: row.model_tier || 'efficient',
+    color: row.color || '#6B7280',
+    maxTokens: row.max_tokens || 128000,
+    maxOutputTokens: row.max_output_tokens || 4096,
+    // Generation parameters the model accepts; see parameters.ts
+    parameters: row.supported_parameters || ['temperature', 'top_p', 'max_tokens'],
+    supportsVision: !!row.supports_vision,
+    supportsTools: !!row.supports_tools,
+    description: row.description || '',
+    // Stored per 1M tokens despite the legacy column names
+    pricing: {
+      input: Number(row.input_cost_per_1k_tokens) || 0,
+      output: Number(row.output_cost_per_1k_tokens) || 0
+    }
+  };
+}
+
+// allowed_models NULL means every active model, so a new model reaches such a tier without a data change
+function toCatalogTier(row, activeModelIds) {
+  return {
+    tier: row.tier_name,
+    name: row.display_name || row.tier_name,
+    monthly_tokens: row.monthly_token_limit,
+    daily_messages: row.daily_message_limit ?? -1,
+    allowed_models: row.allowed_models ?? activeModelIds,
+    warnings: row.warning_thresholds || [50, 80, 95],
+    features: row.features || [],
+    requests_per_minute: row.requests_per_minute ?? -1,
+    max_concurrent_streams: row.max_concurrent_streams ?? -1,
+    price: row.price_label || undefined
+  };
+}
+
+/**
+ * Load the active catalog, cached per function instance for a minute
+ */
+export async function loadCatalog(supabase) {
+  if (cachedCatalog && Date.now() - cachedAt < CATALOG_TTL_MS) {
+    return cachedCatalog;
+  }
+
+  const [{ data: modelRows, error: modelError }, { data: tierRows, error: tierError }] = await Promise.all([
+    supabase
+      .from('model_pricing')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true }),
+    supabase
+      .from('subscription_tiers')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true })
+  ]);
+
+  if (modelError) {
+    throw new Error(`Failed to load model catalog: ${modelError.message}`);
+  }
+  if (tierError) {
+    throw new Error(`Failed to load subscription tiers: ${tierError.message}`);
+  }
+
+  const models = (modelRows || []).filter((row) => row.provider).map(toCatalogModel);
+  const activeModelIds = models.map((model) => model.id);
+
+  const tiers = {};
+  for (const row of tierRows || []) {
+    tiers[row.tier_name] = toCatalogTier(row, activeModelIds);
+  }
+
+  cachedCatalog = {
+    models,
+    tiers
+  };
+  cachedAt = Date.now();
+
+  console.log('📚 Model catalog loaded:', {
+    models: cachedCatalog.models.length,
+    tiers: Object.keys(tiers)
+  });
+
+  return cachedCatalog;
+}
+
+export function findCatalogModel(catalog, modelId) {
+  return catalog.models.find((model) => model.id === modelId) || null;
+}
+
+/**
+ * Resolve a tier's limits, falling back to the free tier for unknown names
+ */
+export function getTierLimits(catalog, tierName) {
+  return catalog.tiers[tierName] || catalog.tiers.free;
+}
+
+/**
+ * Whether a tier includes a feature key from subscription_tiers.features (e.g. 'prompt_helper')
+ */
+export function tierHasFeature(tierLimits, feature) {
+  return (tierLimits?.features || []).includes(feature);
+}
+
+/**
+ * USD cost of a completion from the model's per-1M token prices
+ * (same formula as calculateCost in src/types/chat.ts)
+ */
+export function calculateCost(catalogModel, usage) {
+  if (!catalogModel?.pricing) return 0;
+
+  const inputCost = ((usage.prompt_tokens || 0) / 1000000) * catalogModel.pricing.input;
+  const outputCost = ((usage.completion_tokens || 0) / 1000000) * catalogModel.pricing.output;
+
+  return Math.round((inputCost + outputCost) * 1000000) / 1000000;
+}
@@ -0,0 +1,241 @@
+// Context-window management: the history rebuilt for a turn is measured against the target
+// model's window (model_pricing.max_tokens) and, when it does not fit, shortened with the
+// conversation's strategy (conversations.metadata.context_strategy):
+//   truncate  - drop the oldest messages
+//   summarize - replace the oldest messages with a rolling summary kept in
+//               conversations.context_summary, extended as the conversation grows.
+//               Summary calls are billed to the user through the caller's usage meter.
+import { estimateImageTokens, getImageParts } from './attachments.ts';
+
+export const CONTEXT_STRATEGIES = ['truncate', 'summarize'];
+export const DEFAULT_CONTEXT_STRATEGY = 'truncate';
+
+// Headroom for token estimates being approximate (characters / 4)
+const CONTEXT_SAFETY_MARGIN = 0.05;
+// Per-message overhead of role markers and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+export const SUMMARY_MODEL = 'gpt-4o-mini';
+const SUMMARY_MAX_TOKENS = 1000;
+// Most of the older history fed to one summary call; anything older is only in the previous summary
+const SUMMARY_INPUT_TOKENS = 60000;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant, so the conversation can continue after its oldest messages are removed.
+
+Write a concise summary in the third person ("The user asked...", "The assistant explained..."). Keep facts, decisions, names, numbers, code identifiers, open questions and the user's stated preferences. Leave out pleasantries and anything superseded later. If a previous summary is given, merge it with the new messages into one updated summary. Reply with the summary only.`;
+
+export function estimateTextTokens(text) {
+  return Math.ceil((text || '').length / 4);
+}
+
+export function estimateMessageTokens(message, provider, supportsVision) {
+  const imageTokens = supportsVision
+    ? getImageParts(message.parts).reduce((sum, image) => sum + estimateImageTokens(image, provider), 0)
+    : 0;
+  const toolCallTokens = message.tool_calls ? estimateTextTokens(JSON.stringify(message.tool_calls)) : 0;
+  return estimateTextTokens(message.content) + imageTokens + toolCallTokens + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Tokens available for the prompt: the model's window minus the output it may generate,
+ * less a safety margin
+ */
+export function getContextLimit(catalogModel, outputTokens) {
+  return Math.floor(catalogModel.maxTokens * (1 - CONTEXT_SAFETY_MARGIN)) - outputTokens;
+}
+
+// Section of the system prompt carrying the summary of dropped messages
+export function formatSummary(summary) {
+  return `Summary of the earlier part of this conversation (older messages are not shown):\n${summary}`;
+}
+
+function transcript(messages) {
+  return messages
+    .map((message) => `${message.role === 'user' ? 'User' : message.role === 'tool' ? `Tool result (${message.name})` : 'Assistant'}: ${message.content}`)
+    .join('\n\n');
+}
+
+// The summarizer's prompt for extending previousSummary with messages
+function buildSummaryMessages(previousSummary, messages) {
+  // Keep the newest of the messages when they alone exceed the summarizer's input
+  let recent = messages;
+  while (recent.length > 1 && estimateTextTokens(transcript(recent)) > SUMMARY_INPUT_TOKENS) {
+    recent = recent.slice(1);
+  }
+
+  return [
+    { role: 'system', content: SUMMARY_SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: [
+        previousSummary ? `Previous summary:\n${previousSummary}` : '',
+        `New messages:\n${transcript(recent)}`
+      ].filter(Boolean).join('\n\n')
+    }
+  ];
+}
+
+// Returns { summary, usage }
+async function summarize(summaryMessages, maxTokens) {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY not configured');
+  }
+
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: SUMMARY_MODEL,
+      messages: summaryMessages,
+      max_tokens: maxTokens,
+      temperature: 0.2
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Summary request failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const summary = data.choices?.[0]?.message?.content?.trim();
+  if (!summary) {
+    throw new Error('No summary generated');
+  }
+
+  console.log('📝 Conversation summary updated:', { usage: data.usage });
+  return { summary, usage: data.usage || {} };
+}
+
+// Index of the first message kept so that the rest fits in the limit, or -1 if even the
+// newest message alone does not fit. The kept part never starts with an assistant reply.
+function findCut(messageTokens, available) {
+  let total = messageTokens.reduce((sum, tokens) => sum + tokens, 0);
+  let cut = 0;
+  while (cut < messageTokens.length && total > available) {
+    total -= messageTokens[cut];
+    cut++;
+  }
+  if (total > available || cut >= messageTokens.length) return -1;
+  return cut;
+}
+
+/**
+ * Fit a turn's history ({ id?, role, content, parts? } messages, oldest first, ending with
+ * the turn being answered) into the target model's window.
+ *
+ * summaryMeter bills summary calls: reserve(promptTokens, outputTokens) resolves to
+ * { reservationId, outputTokens } or null when the user's quota does not allow the call,
+ * then either commit(reservationId, usage) or release(reservationId) settles it.
+ *
+ * Returns { messages, summary?, contextTokens, contextLimit, dropped, strategy } or
+ * { error } when even the newest message does not fit.
+ */
+export async function fitContext(supabase, { conversationId, messages, systemTokens, catalogModel, outputTokens, strategy, summaryMeter }) {
+  const contextLimit = getContextLimit(catalogModel, outputTokens);
+  const messageTokens = messages.map((message) => estimateMessageTokens(message, catalogModel.provider, catalogModel.supportsVision));
+  const historyTokens = messageTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+  if (systemTokens + historyTokens <= contextLimit) {
+    return { messages, contextTokens: systemTokens + historyTokens, contextLimit, dropped: 0, strategy };
+  }
+
+  if (strategy === 'summarize') {
+    const summarized = await fitWithSummary(supabase, { conversationId, messages, messageTokens, systemTokens, contextLimit, summaryMeter });
+    if (summarized) {
+      return { ...summarized, contextLimit, strategy };
+    }
+    console.log('⚠️ Summarizing unavailable; dropping oldest messages instead');
+  }
+
+  let cut = findCut(messageTokens, contextLimit - systemTokens);
+  while (cut > 0 && cut < messages.length - 1 && messages[cut].role !== 'user') cut++;
+  if (cut < 0) {
+    return { error: `This message is too long for ${catalogModel.displayName}'s context window of ${catalogModel.maxTokens.toLocaleString()} tokens` };
+  }
+
+  const kept = messages.slice(cut);
+  console.log('✂️ Dropped oldest messages to fit the context window:', { dropped: cut, kept: kept.length, contextLimit });
+  return {
+    messages: kept,
+    contextTokens: systemTokens + messageTokens.slice(cut).reduce((sum, tokens) => sum + tokens, 0),
+    contextLimit,
+    dropped: cut,
+    strategy: 'truncate'
+  };
+}
+
+async function fitWithSummary(supabase, { conversationId, messages, messageTokens, systemTokens, contextLimit, summaryMeter }) {
+  const { data: conversation } = await supabase
+    .from('conversations')
+    .select('context_summary')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  // A stored summary only applies if it covers a prefix of this branch
+  const stored = conversation?.context_summary;
+  const storedIndex = stored?.through_message_id
+    ? messages.findIndex((message) => message.id === stored.through_message_id)
+    : -1;
+  const previousSummary = storedIndex >= 0 ? stored.summary : '';
+  const summaryReserve = SUMMARY_MAX_TOKENS + MESSAGE_OVERHEAD_TOKENS * 10;
+
+  let cut = findCut(messageTokens, contextLimit - systemTokens - summaryReserve);
+  if (cut < 0) return null;
+  cut = Math.max(cut, storedIndex + 1);
+  while (cut < messages.length - 1 && messages[cut].role !== 'user') cut++;
+
+  let summary = previousSummary;
+  const unsummarized = messages.slice(storedIndex + 1, cut);
+  if (unsummarized.length > 0) {
+    const throughMessage = messages[cut - 1];
+    // Only saved messages can anchor the rolling summary
+    if (!throughMessage.id) return null;
+
+    // CRITICAL: The summary call is checked against the user's quota before it is made
+    const summaryMessages = buildSummaryMessages(previousSummary, unsummarized);
+    const reservation = await summaryMeter.reserve(estimateTextTokens(summaryMessages.map((message) => message.content).join('\n\n')), SUMMARY_MAX_TOKENS);
+    if (!reservation) {
+      console.log('⚠️ Not enough quota left to summarize older messages');
+      return null;
+    }
+
+    let result;
+    try {
+      result = await summarize(summaryMessages, reservation.outputTokens);
+    } catch (error) {
+      console.error('⚠️ Failed to summarize older messages:', error);
+      await summaryMeter.release(reservation.reservationId);
+      return null;
+    }
+    summary = result.summary;
+    await summaryMeter.commit(reservation.reservationId, result.usage);
+
+    const { error } = await supabase
+      .from('conversations')
+      .update({
+        context_summary: {
+          summary,
+          through_message_id: throughMessage.id,
+          updated_at: new Date().toISOString()
+        }
+      })
+      .eq('id', conversationId);
+
+    if (error) {
+      console.error('⚠️ Failed to store conversation summary:', error);
+    }
+  }
+
+  const summaryTokens = estimateTextTokens(formatSummary(summary));
+  console.log('🗜️ Older messages replaced by summary:', { summarized: cut, kept: messages.length - cut, contextLimit });
+  return {
+    messages: messages.slice(cut),
+    summary,
+    contextTokens: systemTokens + summaryTokens + messageTokens.slice(cut).reduce((sum, tokens) => sum + tokens, 0),
+    dropped: cut
+  };
+}
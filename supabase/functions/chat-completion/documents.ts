@@ -0,0 +1,67 @@
+// Text extraction for document attachments the browser cannot read itself (PDF, DOCX).
+// Plain text, Markdown, CSV and source files are read client-side and never come here.
+import { extractText as extractPdfText, getDocumentProxy } from 'https://esm.sh/unpdf@0.11.0';
+import mammoth from 'https://esm.sh/mammoth@1.8.0';
+import { ATTACHMENTS_BUCKET, MAX_DOCUMENT_CHARS } from './attachments.ts';
+
+export const PDF_MIME_TYPE = 'application/pdf';
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+export const EXTRACTABLE_MIME_TYPES = [PDF_MIME_TYPE, DOCX_MIME_TYPE];
+
+// Larger uploads are refused before downloading
+export const MAX_DOCUMENT_BYTES = 10 * 1024 * 1024;
+
+// Collapse the blank-line runs PDF and DOCX extraction tends to produce
+function normalizeText(text) {
+  return text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Download an uploaded document and extract its text, truncated to MAX_DOCUMENT_CHARS.
+ * Returns { text, characters, truncated, pages? }.
+ */
+export async function extractDocumentText(supabase, path, mimeType) {
+  if (!EXTRACTABLE_MIME_TYPES.includes(mimeType)) {
+    throw new Error(`Text extraction is not supported for ${mimeType}`);
+  }
+
+  const { data: file, error } = await supabase.storage.from(ATTACHMENTS_BUCKET).download(path);
+  if (error || !file) {
+    throw new Error(`Failed to load document: ${error?.message || 'not found'}`);
+  }
+  if (file.size > MAX_DOCUMENT_BYTES) {
+    throw new Error(`Documents must be at most ${MAX_DOCUMENT_BYTES / (1024 * 1024)} MB`);
+  }
+
+  const buffer = await file.arrayBuffer();
+  let text;
+  let pages;
+
+  if (mimeType === PDF_MIME_TYPE) {
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const result = await extractPdfText(pdf, { mergePages: true });
+    text = result.text;
+    pages = result.totalPages;
+  } else {
+    const result = await mammoth.extractRawText({ arrayBuffer: buffer });
+    text = result.value;
+  }
+
+  const normalized = normalizeText(text || '');
+  const truncated = normalized.length > MAX_DOCUMENT_CHARS;
+
+  console.log('📄 Document text extracted:', {
+    path,
+    mimeType,
+    characters: normalized.length,
+    truncated,
+    pages
+  });
+
+  return {
+    text: truncated ? normalized.slice(0, MAX_DOCUMENT_CHARS) : normalized,
+    characters: normalized.length,
+    truncated,
+    ...(pages ? { pages } : {})
+  };
+}
@@ -0,0 +1,122 @@
+// Embedder registry for retrieval over project documents.
+// Which embedder is used comes from EMBEDDING_PROVIDER; stored embeddings remember the
+// embedder that produced them, so switching embedders re-embeds documents on next use.
+
+/**
+ * An embedder turns texts into vectors of a fixed size. Vectors are compared with
+ * cosine similarity, so they need not be normalized.
+ *
+ * Adding an embedder (a different hosted model, a self-hosted endpoint...) means
+ * writing one object and registering it in EMBEDDERS below.
+ */
+export interface Embedder {
+  // Stored with the vectors; documents embedded by another embedder are re-embedded
+  id: string
+  dimensions: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+// Smaller vectors keep project_documents.vector_embeddings compact
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+const OPENAI_EMBEDDING_DIMENSIONS = 512;
+const OPENAI_BATCH_SIZE = 96;
+
+const openAIEmbedder: Embedder = {
+  id: `openai:${OPENAI_EMBEDDING_MODEL}:${OPENAI_EMBEDDING_DIMENSIONS}`,
+  dimensions: OPENAI_EMBEDDING_DIMENSIONS,
+  async embed(texts) {
+    const apiKey = Deno.env.get('OPENAI_API_KEY');
+    if (!apiKey) {
+      throw new Error('OPENAI_API_KEY not configured');
+    }
+
+    const vectors = [];
+    for (let start = 0; start < texts.length; start += OPENAI_BATCH_SIZE) {
+      const response = await fetch('https://api.openai.com/v1/embeddings', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          model: OPENAI_EMBEDDING_MODEL,
+          dimensions: OPENAI_EMBEDDING_DIMENSIONS,
+          input: texts.slice(start, start + OPENAI_BATCH_SIZE)
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error(`Embedding request failed (${response.status}): ${await response.text()}`);
+      }
+
+      const result = await response.json();
+      vectors.push(...result.data.sort((a, b) => a.index - b.index).map((item) => item.embedding));
+    }
+    return vectors;
+  }
+};
+
+const LOCAL_DIMENSIONS = 256;
+
+// FNV-1a, so the same word always lands in the same bucket
+function hashToken(token) {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Deterministic bag-of-words embedder (feature hashing of lowercased words and word pairs).
+ * No network and no key: used when OpenAI is not configured, and as a stand-in in tests.
+ */
+const localEmbedder: Embedder = {
+  id: `local:hash:${LOCAL_DIMENSIONS}`,
+  dimensions: LOCAL_DIMENSIONS,
+  async embed(texts) {
+    return texts.map((text) => {
+      const vector = new Array(LOCAL_DIMENSIONS).fill(0);
+      const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+      words.forEach((word, index) => {
+        const features = index > 0 ? [word, `${words[index - 1]} ${word}`] : [word];
+        for (const feature of features) {
+          const hash = hashToken(feature);
+          vector[hash % LOCAL_DIMENSIONS] += (hash & 0x80000000) ? -1 : 1;
+        }
+      });
+      return vector;
+    });
+  }
+};
+
+export const EMBEDDERS: Record<string, Embedder> = {
+  openai: openAIEmbedder,
+  local: localEmbedder
+};
+
+// EMBEDDING_PROVIDER picks the embedder; without it OpenAI is used when a key is configured
+export function getEmbedder(): Embedder {
+  const configured = Deno.env.get('EMBEDDING_PROVIDER');
+  if (configured) {
+    const embedder = EMBEDDERS[configured];
+    if (!embedder) {
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${configured}"`);
+    }
+    return embedder;
+  }
+  return Deno.env.get('OPENAI_API_KEY') ? openAIEmbedder : localEmbedder;
+}
+
+export function cosineSimilarity(a, b) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
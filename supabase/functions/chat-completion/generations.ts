@@ -0,0 +1,439 @@
+// Resumable generations: a streamed completion runs independently of the HTTP connection
+// that started it. Its text is persisted to the generations table as it grows, and clients
+// that lose the connection (or open the conversation on another device) replay it from an
+// offset through the /resume endpoint.
+
+// Persist accumulated content at most this often while tokens are arriving
+const FLUSH_INTERVAL_MS = 1000;
+
+// Touch the row while the provider is silent (reasoning models) so it is not taken for dead
+const HEARTBEAT_INTERVAL_MS = 5000;
+
+// A streaming row not updated for this long belongs to a function that died
+const STALE_GENERATION_MS = 60 * 1000;
+
+// How often a running generation looks for a stop request
+const CANCEL_POLL_INTERVAL_MS = 500;
+
+// How often a resuming client's stream polls for new content
+const RESUME_POLL_INTERVAL_MS = 500;
+
+// Finished generations are only needed for late resumes
+const GENERATION_RETENTION_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+function encodeEvent(event) {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+function isStale(generation) {
+  return Date.now() - new Date(generation.updated_at).getTime() > STALE_GENERATION_MS;
+}
+
+/**
+ * Starts a generation under the id the client chose (when it sent one). A stop
+ * the client sent before this point is waiting in generation_cancels; it is
+ * moved onto the new row, where the writer's first check finds it.
+ */
+export async function createGeneration(supabase, { generationId, userId, conversationId, userMessageId, model }) {
+  // Opportunistic cleanup of this user's old finished generations and unclaimed stops
+  const cutoff = new Date(Date.now() - GENERATION_RETENTION_MS).toISOString();
+  const { error: pruneError } = await supabase
+    .from('generations')
+    .delete()
+    .eq('user_id', userId)
+    .neq('status', 'streaming')
+    .lt('created_at', cutoff);
+
+  if (pruneError) {
+    console.error('⚠️ Failed to prune old generations:', pruneError);
+  }
+
+  const { error: pruneCancelsError } = await supabase
+    .from('generation_cancels')
+    .delete()
+    .eq('user_id', userId)
+    .lt('created_at', cutoff);
+
+  if (pruneCancelsError) {
+    console.error('⚠️ Failed to prune old stop requests:', pruneCancelsError);
+  }
+
+  const { data, error } = await supabase
+    .from('generations')
+    .insert({
+      ...(generationId && { id: generationId }),
+      user_id: userId,
+      conversation_id: conversationId,
+      user_message_id: userMessageId,
+      model
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save generation: ${error.message}`);
+  }
+
+  // CRITICAL: Checked after the insert - requestGenerationCancel writes its note before
+  // looking for the row again, so a stop racing this insert is seen by one side or the other
+  const { data: pendingCancels, error: claimError } = await supabase
+    .from('generation_cancels')
+    .delete()
+    .eq('generation_id', data.id)
+    .eq('user_id', userId)
+    .select('generation_id');
+
+  if (claimError) {
+    console.error('⚠️ Failed to check for an early stop request:', claimError);
+  } else if (pendingCancels.length > 0) {
+    const { error: cancelError } = await supabase
+      .from('generations')
+      .update({ cancel_requested: true })
+      .eq('id', data.id);
+
+    if (cancelError) {
+      console.error('❌ Failed to apply an early stop request:', cancelError);
+    }
+  }
+
+  console.log('🧵 Generation started:', data.id);
+  return data.id;
+}
+
+/**
+ * Persists a generation while it streams. Writes are serialised so the final
+ * status can never be overwritten by an earlier flush. `onCancelRequested`
+ * fires once when cancel_requested is seen set by the cancel endpoint - it is
+ * polled on its own timer, so a stop lands while the provider is still silent.
+ */
+export function createGenerationWriter(supabase, generationId, onCancelRequested) {
+  let content = '';
+  let reasoning = '';
+  let toolCalls = [];
+  let lastFlushAt = Date.now();
+  let pending = Promise.resolve();
+  let cancelled = false;
+
+  const markCancelled = () => {
+    if (!cancelled) {
+      cancelled = true;
+      console.log('🛑 Cancel requested for generation:', generationId);
+      onCancelRequested();
+    }
+  };
+
+  let cancelCheck = null;
+  const checkCancel = () => {
+    // One check in flight at a time; a slow database must not pile them up
+    if (!cancelCheck) {
+      cancelCheck = (async () => {
+        const { data, error } = await supabase
+          .from('generations')
+          .select('cancel_requested')
+          .eq('id', generationId)
+          .single();
+
+        if (error) {
+          console.error('⚠️ Failed to check for a stop request:', error);
+        } else if (data?.cancel_requested) {
+          markCancelled();
+        }
+      })().finally(() => {
+        cancelCheck = null;
+      });
+    }
+    return cancelCheck;
+  };
+
+  const write = (fields) => {
+    pending = pending.then(async () => {
+      const { data, error } = await supabase
+        .from('generations')
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq('id', generationId)
+        .select('cancel_requested')
+        .single();
+
+      if (error) {
+        // Resuming clients fall behind but the live stream is unaffected
+        console.error('❌ Failed to persist generation:', error);
+        return;
+      }
+
+      if (data?.cancel_requested) {
+        markCancelled();
+      }
+    });
+    return pending;
+  };
+
+  const heartbeat = setInterval(() => {
+    lastFlushAt = Date.now();
+    write({ content, reasoning });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const cancelPoll = setInterval(checkCancel, CANCEL_POLL_INTERVAL_MS);
+
+  const flushSoon = () => {
+    if (Date.now() - lastFlushAt >= FLUSH_INTERVAL_MS) {
+      lastFlushAt = Date.now();
+      write({ content, reasoning });
+    }
+  };
+
+  return {
+    get cancelled() {
+      return cancelled;
+    },
+    checkCancel,
+    append(delta) {
+      content += delta;
+      flushSoon();
+    },
+    // NEW: Reasoning ("thinking") text, kept apart from the reply
+    appendReasoning(delta) {
+      reasoning += delta;
+      flushSoon();
+    },
+    // NEW: A tool call when it starts and again with its result; written at once
+    recordToolStep(step) {
+      toolCalls = toolCalls.some((existing) => existing.id === step.id)
+        ? toolCalls.map((existing) => (existing.id === step.id ? step : existing))
+        : [...toolCalls, step];
+      lastFlushAt = Date.now();
+      write({ content, reasoning, tool_calls: toolCalls });
+    },
+    finish(status, finalEvent, aiMessageId = null) {
+      clearInterval(heartbeat);
+      clearInterval(cancelPoll);
+      return write({ content, reasoning, status, final_event: finalEvent, ai_message_id: aiMessageId });
+    }
+  };
+}
+
+/**
+ * The live connection to the client that started a generation. Sends are
+ * dropped once the client has gone; the generation keeps running regardless.
+ */
+export function createClientChannel() {
+  let controller = null;
+  let connected = false;
+
+  const detach = () => {
+    connected = false;
+    controller = null;
+  };
+
+  return {
+    attach(streamController) {
+      controller = streamController;
+      connected = true;
+    },
+    detach,
+    send(event) {
+      if (!connected) return;
+      try {
+        controller.enqueue(encodeEvent(event));
+      } catch {
+        console.log('🔌 Client disconnected; generation continues in the background');
+        detach();
+      }
+    },
+    close() {
+      if (!connected) return;
+      try {
+        controller.close();
+      } catch {
+        // Already closed by the runtime
+      }
+      detach();
+    }
+  };
+}
+
+// Find a generation by id, or the one still streaming in a conversation
+export async function findGeneration(supabase, userId, { generationId, conversationId }) {
+  let query = supabase
+    .from('generations')
+    .select('id, status, updated_at')
+    .eq('user_id', userId);
+
+  if (generationId) {
+    query = query.eq('id', generationId);
+  } else {
+    query = query
+      .eq('conversation_id', conversationId)
+      .eq('status', 'streaming')
+      .order('created_at', { ascending: false })
+      .limit(1);
+  }
+
+  const { data, error } = await query.maybeSingle();
+  if (error) {
+    throw new Error(`Failed to load generation: ${error.message}`);
+  }
+
+  // A conversation lookup should not attach to a generation whose function died
+  if (data && !generationId && isStale(data)) {
+    return null;
+  }
+  return data;
+}
+
+/**
+ * SSE stream that replays a generation from `offset` (characters already
+ * received) and `reasoningOffset` (reasoning characters already received)
+ * and follows it until it finishes. Tool steps are always replayed in full;
+ * clients match them by id.
+ */
+export function replayGeneration(supabase, generationId, offset = 0, reasoningOffset = 0) {
+  let closed = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      let sent = offset;
+      let reasoningSent = reasoningOffset;
+      const toolCallsSent = new Set();
+      const toolResultsSent = new Set();
+
+      try {
+        controller.enqueue(encodeEvent({ type: 'generation', generationId, offset }));
+
+        while (!closed) {
+          const { data: generation, error } = await supabase
+            .from('generations')
+            .select('status, content, reasoning, tool_calls, final_event, updated_at')
+            .eq('id', generationId)
+            .single();
+
+          if (error) {
+            throw new Error(`Failed to load generation: ${error.message}`);
+          }
+
+          if (generation.reasoning.length > reasoningSent) {
+            controller.enqueue(encodeEvent({ type: 'thinking', thinking: generation.reasoning.slice(reasoningSent) }));
+            reasoningSent = generation.reasoning.length;
+          }
+
+          for (const step of generation.tool_calls) {
+            if (!toolCallsSent.has(step.id)) {
+              controller.enqueue(encodeEvent({ type: 'tool_call', id: step.id, name: step.name, arguments: step.arguments }));
+              toolCallsSent.add(step.id);
+            }
+            if ('result' in step && !toolResultsSent.has(step.id)) {
+              controller.enqueue(encodeEvent({
+                type: 'tool_result',
+                id: step.id,
+                name: step.name,
+                arguments: step.arguments,
+                result: step.result,
+                isError: step.is_error
+              }));
+              toolResultsSent.add(step.id);
+            }
+          }
+
+          if (generation.content.length > sent) {
+            controller.enqueue(encodeEvent({ type: 'content', content: generation.content.slice(sent) }));
+            sent = generation.content.length;
+          }
+
+          if (generation.status !== 'streaming') {
+            controller.enqueue(encodeEvent(generation.final_event || {
+              type: 'error',
+              error: 'GENERATION_FAILED',
+              message: 'The response could not be completed. Please try again.'
+            }));
+            break;
+          }
+
+          if (isStale(generation)) {
+            controller.enqueue(encodeEvent({
+              type: 'error',
+              error: 'GENERATION_INTERRUPTED',
+              message: 'The response stopped before it finished. Please try again.'
+            }));
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, RESUME_POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        if (!closed) {
+          console.error('❌ Resume stream error:', error);
+          controller.enqueue(encodeEvent({
+            type: 'error',
+            error: 'DATABASE_OPERATION_FAILED',
+            message: error.message
+          }));
+        }
+      } finally {
+        if (!closed) controller.close();
+      }
+    },
+    cancel() {
+      closed = true;
+    }
+  });
+}
+
+// Ask the function running a generation to stop; true if it was still streaming or
+// has not started yet (the chat request is still on its way to createGeneration)
+export async function requestGenerationCancel(supabase, userId, generationId) {
+  const cancelStreaming = async () => {
+    const { data, error } = await supabase
+      .from('generations')
+      .update({ cancel_requested: true })
+      .eq('id', generationId)
+      .eq('user_id', userId)
+      .eq('status', 'streaming')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to cancel generation: ${error.message}`);
+    }
+    return (data || []).length > 0;
+  };
+
+  if (await cancelStreaming()) {
+    return true;
+  }
+
+  // Not streaming: leave a note for createGeneration, then look again in case it
+  // inserted the row meanwhile (it claims the note only after its insert)
+  const { error: noteError } = await supabase
+    .from('generation_cancels')
+    .upsert({ generation_id: generationId, user_id: userId }, { onConflict: 'generation_id,user_id', ignoreDuplicates: true });
+
+  if (noteError) {
+    throw new Error(`Failed to cancel generation: ${noteError.message}`);
+  }
+
+  if (await cancelStreaming()) {
+    return true;
+  }
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('generations')
+    .select('status')
+    .eq('id', generationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (lookupError) {
+    throw new Error(`Failed to cancel generation: ${lookupError.message}`);
+  }
+  if (!existing || existing.status === 'streaming') {
+    return true;
+  }
+
+  // Already finished; the note would never be claimed
+  await supabase
+    .from('generation_cancels')
+    .delete()
+    .eq('generation_id', generationId)
+    .eq('user_id', userId);
+  return false;
+}
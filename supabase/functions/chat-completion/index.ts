@@ -1,102 +1,59 @@
 // ENHANCED: Edge Function with example and prompt enhancement support
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { ProviderError, getAdapter, isReasoningModel } from './providers.ts';
+import { calculateCost, findCatalogModel, getTierLimits, loadCatalog, tierHasFeature } from './catalog.ts';
+import {
+  ENHANCEMENT_MAX_TOKENS,
+  ENHANCEMENT_MODEL,
+  EXAMPLE_MAX_TOKENS,
+  EXAMPLE_MODEL,
+  PROMPT_HELPER_PURPOSES,
+  buildEnhancementMessages,
+  buildExampleMessages,
+  enhancePrompt,
+  generateExample
+} from './promptHelper.ts';
+import {
+  createClientChannel,
+  createGeneration,
+  createGenerationWriter,
+  findGeneration,
+  replayGeneration,
+  requestGenerationCancel
+} from './generations.ts';
+import { MIN_THINKING_BUDGET, resolveGenerationParameters } from './parameters.ts';
+import {
+  attachImages,
+  buildContentParts,
+  estimateHistoryImageTokens,
+  getDocumentParts,
+  getImageParts,
+  validateContentParts,
+  withDocumentText
+} from './attachments.ts';
+import { EXTRACTABLE_MIME_TYPES, extractDocumentText } from './documents.ts';
+import { DEFAULT_CONTEXT_STRATEGY, SUMMARY_MODEL, estimateTextTokens, fitContext, formatSummary } from './context.ts';
+import { getEmbedder } from './embeddings.ts';
+import { expandToolRounds, getToolDefinitions, streamWithTools, withoutToolTurns } from './tools.ts';
+import {
+  embedProjectDocument,
+  formatRetrievedContext,
+  loadProjectDocument,
+  recordConversationContext,
+  retrieveProjectChunks,
+  toSources
+} from './retrieval.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Expose-Headers': 'Retry-After'
 };
 
-// COMPLETE: All supported models with reasoning model detection
-const VALID_OPENAI_MODELS = [
-  'gpt-3.5-turbo',
-  'gpt-4o-mini',
-  'gpt-4o',
-  'gpt-4.1',
-  'gpt-4.1-mini',
-  'gpt-4.1-nano',
-  'gpt-4-turbo',
-  'o3',
-  'o3-mini',
-  'o4-mini'
-];
-
-const VALID_CLAUDE_MODELS = [
-  // Latest Claude 4 Models (May 2025)
-  'claude-opus-4-20250514',
-  'claude-sonnet-4-20250514',
-  // Claude 3.7 Models
-  'claude-3-7-sonnet-20250219',
-  // Claude 3.5 Models
-  'claude-3-5-sonnet-20241022',
-  'claude-3-5-haiku-20241022',
-  // Claude 3 Models (Legacy)
-  'claude-3-opus-20240229'
-];
-
-// NEW: Valid Gemini models
-const VALID_GEMINI_MODELS = [
-  'gemini-2.0-flash',
-  'gemini-1.5-flash',
-  'gemini-1.5-pro',
-  'gemini-2.5-flash',
-  'gemini-2.5-pro'
-];
-
-// FIXED: Updated pricing tier definitions to match frontend exactly
-const PRICING_TIERS = {
-  free: {
-    monthly_tokens: 35000,
-    daily_messages: 25,
-    allowed_models: [
-      'gpt-4o-mini',
-      'claude-3-5-haiku-20241022',
-      'gemini-2.0-flash'
-    ]
-  },
-  basic: {
-    monthly_tokens: 1000000,
-    daily_messages: -1,
-    allowed_models: [
-      'gpt-4o-mini', 'claude-3-5-haiku-20241022', 'gemini-2.0-flash',
-      'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini', 'claude-3-5-sonnet-20241022',
-      'claude-3-7-sonnet-20250219', 'claude-sonnet-4-20250514',
-      'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.5-flash'
-    ]
-  },
-  pro: {
-    monthly_tokens: 1500000,
-    daily_messages: -1,
-    allowed_models: [
-      // OpenAI Models
-      'gpt-4o-mini', 'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano', 'gpt-4-turbo',
-      'o3', 'o3-mini', 'o4-mini',
-      // Claude Models  
-      'claude-3-5-haiku-20241022', 'claude-3-5-sonnet-20241022', 'claude-3-7-sonnet-20250219',
-      'claude-sonnet-4-20250514', 'claude-opus-4-20250514', 'claude-3-opus-20240229',
-      // FIXED: All Gemini Models for Pro tier
-      'gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.5-flash', 'gemini-2.5-pro'
-    ]
-  }
-};
-
-// NEW: Function to detect OpenAI reasoning models
-function isReasoningModel(modelId) {
-  return modelId && (modelId.includes('o1') || modelId.includes('o3') || modelId.includes('o4'));
-}
-
-function isClaudeModel(modelId) {
-  return modelId && VALID_CLAUDE_MODELS.includes(modelId);
-}
-
-// NEW: Function to detect Gemini models
-function isGeminiModel(modelId) {
-  return modelId && VALID_GEMINI_MODELS.includes(modelId);
-}
-
 // CRITICAL: Enhanced getUserTierAndUsage with anniversary-based reset logic
-async function getUserTierAndUsage(supabase, userId) {
+async function getUserTierAndUsage(supabase, userId, catalog) {
   console.log('🔍 Getting tier and usage for user:', userId);
 
   try {
@@ -126,7 +83,7 @@ async function getUserTierAndUsage(supabase, userId) {
 
     // STEP 2: Determine user's tier
     let tier = 'free'; // Default fallback
-    if (userData?.subscription_tiers?.tier_name && PRICING_TIERS[userData.subscription_tiers.tier_name]) {
+    if (userData?.subscription_tiers?.tier_name && catalog.tiers[userData.subscription_tiers.tier_name]) {
       tier = userData.subscription_tiers.tier_name;
       console.log('✅ Found user tier from database:', tier);
     } else {
@@ -174,32 +131,60 @@ async function getUserTierAndUsage(supabase, userId) {
     // STEP 4: Apply resets if needed
     if (needsUpdate) {
       console.log('💾 Applying usage resets:', updates);
-      const { error: updateError } = await supabase
+
+      // Compare-and-set on the reset dates read above, so two concurrent requests
+      // cannot both reset and wipe usage recorded in between
+      let resetQuery = supabase
         .from('users')
         .update(updates)
         .eq('id', userId);
+      resetQuery = userData.last_daily_reset
+        ? resetQuery.eq('last_daily_reset', userData.last_daily_reset)
+        : resetQuery.is('last_daily_reset', null);
+      resetQuery = userData.last_monthly_reset
+        ? resetQuery.eq('last_monthly_reset', userData.last_monthly_reset)
+        : resetQuery.is('last_monthly_reset', null);
+
+      const { data: resetRows, error: updateError } = await resetQuery.select('id');
 
       if (updateError) {
         console.error('❌ Error updating user resets:', updateError);
         throw new Error(`Failed to update user resets: ${updateError.message}`);
       }
 
-      // Update userData with new values
-      userData.daily_messages_sent = updates.daily_messages_sent ?? userData.daily_messages_sent;
-      userData.monthly_tokens_used = updates.monthly_tokens_used ?? userData.monthly_tokens_used;
-      userData.last_daily_reset = updates.last_daily_reset ?? userData.last_daily_reset;
-      userData.last_monthly_reset = updates.last_monthly_reset ?? userData.last_monthly_reset;
+      if (resetRows && resetRows.length > 0) {
+        // Update userData with new values
+        userData.daily_messages_sent = updates.daily_messages_sent ?? userData.daily_messages_sent;
+        userData.monthly_tokens_used = updates.monthly_tokens_used ?? userData.monthly_tokens_used;
+        userData.last_daily_reset = updates.last_daily_reset ?? userData.last_daily_reset;
+        userData.last_monthly_reset = updates.last_monthly_reset ?? userData.last_monthly_reset;
+      } else {
+        // Another request applied the reset first; use its result
+        console.log('ℹ️ Reset already applied by a concurrent request, reloading counters');
+        const { data: freshUser, error: reloadError } = await supabase
+          .from('users')
+          .select('daily_messages_sent, monthly_tokens_used, last_daily_reset, last_monthly_reset')
+          .eq('id', userId)
+          .single();
+
+        if (reloadError) {
+          throw new Error(`Failed to fetch user data: ${reloadError.message}`);
+        }
+
+        Object.assign(userData, freshUser);
+      }
     }
 
     // STEP 5: Return tier data and current usage
     const result = {
       tier,
-      tierLimits: PRICING_TIERS[tier],
+      tierLimits: getTierLimits(catalog, tier),
       messagesUsedToday: userData.daily_messages_sent || 0,
       tokensUsedThisMonth: userData.monthly_tokens_used || 0,
       billingPeriodStart: userData.billing_period_start,
       lastDailyReset: userData.last_daily_reset,
       lastMonthlyReset: userData.last_monthly_reset,
+      customInstructions: userData.preferences?.custom_instructions || '',
       userId: userData.id
     };
 
@@ -271,9 +256,9 @@ async function ensureConversationExists(supabase, conversationId, userId) {
 }
 
 // FIXED: Message persistence without explicit total_tokens (let DB calculate it)
-async function saveUserMessage(supabase, conversationId, userId, content, sequenceNumber) {
+async function saveUserMessage(supabase, conversationId, userId, content, sequenceNumber, parentMessageId = null, contentParts = null) {
   try {
-    console.log('💾 Saving user message:', { conversationId, userId, sequenceNumber });
+    console.log('💾 Saving user message:', { conversationId, userId, sequenceNumber, parentMessageId });
 
     const { data: message, error } = await supabase
       .from('messages')
@@ -285,7 +270,9 @@ async function saveUserMessage(supabase, conversationId, userId, content, sequen
         input_tokens: 0,
         output_tokens: 0,
         // REMOVED: total_tokens: 0 - Let database calculate this automatically
-        sequence_number: sequenceNumber
+        sequence_number: sequenceNumber,
+        parent_message_id: parentMessageId,
+        content_parts: contentParts
       })
       .select()
       .single();
@@ -304,15 +291,20 @@ async function saveUserMessage(supabase, conversationId, userId, content, sequen
 }
 
 // CRITICAL: AI response persistence with usage tracking
-async function saveAIMessage(supabase, conversationId, content, modelUsed, usage, sequenceNumber) {
+async function saveAIMessage(supabase, conversationId, content, modelUsed, usage, sequenceNumber, metrics = {}, parentMessageId = null) {
   try {
     console.log('💾 Saving AI message:', { 
       conversationId, 
       modelUsed, 
       sequenceNumber,
+      parentMessageId,
       inputTokens: usage.prompt_tokens,
       outputTokens: usage.completion_tokens,
-      totalTokens: usage.total_tokens
+      totalTokens: usage.total_tokens,
+      reasoningTokens: usage.reasoning_tokens,
+      cost: metrics.cost,
+      responseTime: metrics.responseTime,
+      finishReason: metrics.finishReason
     });
 
     const { data: message, error } = await supabase
@@ -325,7 +317,15 @@ async function saveAIMessage(supabase, conversationId, content, modelUsed, usage
         input_tokens: usage.prompt_tokens || 0,
         output_tokens: usage.completion_tokens || 0,
         // REMOVED: total_tokens - Let database calculate this automatically
-        sequence_number: sequenceNumber
+        cost_incurred: metrics.cost || 0,
+        response_time: metrics.responseTime ?? null,
+        sequence_number: sequenceNumber,
+        parent_message_id: parentMessageId,
+        finish_reason: metrics.finishReason ?? null,
+        model_parameters: metrics.parameters || {},
+        reasoning: metrics.reasoning || null,
+        reasoning_tokens: usage.reasoning_tokens || 0,
+        tool_rounds: metrics.toolRounds?.length ? metrics.toolRounds : null
       })
       .select()
       .single();
@@ -343,6 +343,268 @@ async function saveAIMessage(supabase, conversationId, content, modelUsed, usage
   }
 }
 
+// NEW: Append a continuation to a stopped reply; tokens, cost and time accumulate
+async function appendToAIMessage(supabase, messageId, addition, usage, metrics = {}) {
+  const { data: existing, error: fetchError } = await supabase
+    .from('messages')
+    .select('content, reasoning, input_tokens, output_tokens, reasoning_tokens, cost_incurred, response_time')
+    .eq('id', messageId)
+    .single();
+
+  if (fetchError) {
+    throw new Error(`Failed to save AI message: ${fetchError.message}`);
+  }
+
+  const { data: message, error } = await supabase
+    .from('messages')
+    .update({
+      content: existing.content + addition,
+      input_tokens: (existing.input_tokens || 0) + (usage.prompt_tokens || 0),
+      output_tokens: (existing.output_tokens || 0) + (usage.completion_tokens || 0),
+      reasoning: [existing.reasoning, metrics.reasoning].filter(Boolean).join('\n\n') || null,
+      reasoning_tokens: (existing.reasoning_tokens || 0) + (usage.reasoning_tokens || 0),
+      cost_incurred: Number(existing.cost_incurred || 0) + (metrics.cost || 0),
+      response_time: (existing.response_time || 0) + (metrics.responseTime || 0),
+      finish_reason: metrics.finishReason ?? null
+    })
+    .eq('id', messageId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save AI message: ${error.message}`);
+  }
+
+  console.log('✅ AI message continued:', { messageId, added: addition.length, finishReason: metrics.finishReason });
+  return message;
+}
+
+// CRITICAL: History is server-authoritative - the client sends only the new user turn.
+// Bounds on what a single request may carry (document attachments carry their extracted text)
+const MAX_REQUEST_BYTES = 1024 * 1024;
+const MAX_MESSAGE_CHARS = 32000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Matches the client's MIN_COMPARE_MODELS / MAX_COMPARE_MODELS
+const MIN_COMPARE_MODELS = 2;
+const MAX_COMPARE_MODELS = 4;
+
+// Validate the new user turn; returns an error message or null
+function validateNewTurn(requestBody, userId) {
+  // NEW: Chosen by the client so it can stop the generation before the generation event arrives
+  if (requestBody.generation_id !== undefined && (typeof requestBody.generation_id !== 'string' || !UUID_PATTERN.test(requestBody.generation_id))) {
+    return 'generation_id must be a UUID';
+  }
+  if (requestBody.compare && requestBody.continue) {
+    return 'A stopped reply cannot be continued as part of a comparison';
+  }
+  // NEW: The request that opens a comparison names its models; only those may join its stream slot
+  if (requestBody.compare && !requestBody.regenerate) {
+    const models = requestBody.compare_models;
+    if (!Array.isArray(models) ||
+        models.length < MIN_COMPARE_MODELS ||
+        models.length > MAX_COMPARE_MODELS ||
+        models.some((model) => typeof model !== 'string') ||
+        new Set(models).size !== models.length ||
+        !models.includes(requestBody.model)) {
+      return `compare_models must list ${MIN_COMPARE_MODELS} to ${MAX_COMPARE_MODELS} different models, including this request's model`;
+    }
+  }
+  if (requestBody.regenerate || requestBody.continue) {
+    return requestBody.message ? 'Regenerate and continue do not accept a new message' : null;
+  }
+
+  const turn = requestBody.message;
+  if (!turn || typeof turn !== 'object') {
+    return 'A new user message is required';
+  }
+  if (turn.role !== undefined && turn.role !== 'user') {
+    return `Only user messages can be sent, got role "${turn.role}"`;
+  }
+  // NEW: Attachments arrive as parts; a turn with attachments may have no text
+  const hasAttachments = getImageParts(turn.parts).length > 0 || getDocumentParts(turn.parts).length > 0;
+  if (typeof turn.content !== 'string' || (!turn.content.trim() && !hasAttachments)) {
+    return 'Message content must be a non-empty string';
+  }
+  if (turn.content.length > MAX_MESSAGE_CHARS) {
+    return `Message is too long (${turn.content.length} characters, maximum ${MAX_MESSAGE_CHARS})`;
+  }
+  return validateContentParts(turn.parts, userId);
+}
+
+// Sent after a stopped reply so the model picks up mid-answer
+const CONTINUE_INSTRUCTION = 'Continue your previous response exactly where it stopped. Do not repeat anything or add any preamble.';
+
+// NEW: Conversation branches - messages form a tree through parent_message_id.
+// Resolve where the new turn attaches and rebuild the provider history along that branch.
+// Without an explicit parent_message_id the turn continues the conversation's active branch.
+async function resolveBranch(supabase, conversationId, userId, requestBody) {
+  const { data: conversation, error: conversationError } = await supabase
+    .from('conversations')
+    .select('id, active_leaf_message_id, metadata, project_id')
+    .eq('id', conversationId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (conversationError) {
+    throw new Error(`Failed to load conversation: ${conversationError.message}`);
+  }
+
+  const parentId = 'parent_message_id' in requestBody
+    ? requestBody.parent_message_id || null
+    : conversation?.active_leaf_message_id || null;
+
+  let messages = [];
+  if (conversation) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, parent_message_id, role, content, content_parts, finish_reason, tool_rounds')
+      .eq('conversation_id', conversationId);
+
+    if (error) {
+      throw new Error(`Failed to load conversation history: ${error.message}`);
+    }
+    messages = data || [];
+  }
+
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  // Documents are inlined as text; images stay as parts until they are loaded from Storage.
+  // Replies that called tools expand back into their tool turns.
+  const toHistory = (message) => {
+    const entry = {
+      id: message.id,
+      role: message.role,
+      content: withDocumentText(message.content, message.content_parts),
+      parts: message.content_parts || undefined
+    };
+    return message.tool_rounds?.length ? expandToolRounds(entry, message.tool_rounds) : [entry];
+  };
+  const systemPrompt = conversation?.metadata?.system_prompt || '';
+  const contextStrategy = conversation?.metadata?.context_strategy || DEFAULT_CONTEXT_STRATEGY;
+  const projectId = conversation?.project_id || null;
+  const projectInstructions = projectId
+    ? await loadProjectInstructions(supabase, projectId, userId)
+    : '';
+
+  if (parentId && !byId.has(parentId)) {
+    return { error: 'Parent message not found in this conversation' };
+  }
+
+  // Walk up from the parent to the root, guarding against malformed cycles
+  const branch = [];
+  const seen = new Set();
+  let current = parentId ? byId.get(parentId) : null;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    branch.unshift(current);
+    current = current.parent_message_id ? byId.get(current.parent_message_id) : null;
+  }
+
+  if (requestBody.continue) {
+    // Continuing extends a stopped or cut-off reply in place; the instruction turn is not saved
+    const stoppedMessage = branch[branch.length - 1];
+    if (!stoppedMessage || stoppedMessage.role !== 'assistant' || !['cancelled', 'length'].includes(stoppedMessage.finish_reason)) {
+      return { error: 'Continue requires a stopped or cut-off assistant reply as parent_message_id' };
+    }
+
+    console.log('⏩ Continuing stopped reply:', { conversationId, messageId: stoppedMessage.id, depth: branch.length });
+    return {
+      parentId: stoppedMessage.parent_message_id,
+      continueMessageId: stoppedMessage.id,
+      systemPrompt,
+      contextStrategy,
+      projectId,
+      projectInstructions,
+      userContent: branch.filter((message) => message.role === 'user').pop()?.content || '',
+      history: [
+        ...branch.flatMap(toHistory),
+        { role: 'user', content: CONTINUE_INSTRUCTION }
+      ]
+    };
+  }
+
+  if (requestBody.regenerate) {
+    // Regenerating answers an existing user message; no new user turn is saved
+    const userMessage = branch[branch.length - 1];
+    if (!userMessage || userMessage.role !== 'user') {
+      return { error: 'Regenerate requires the user message being answered as parent_message_id' };
+    }
+
+    console.log('🔁 Regenerating reply on branch:', { conversationId, parentId, depth: branch.length });
+    return {
+      parentId,
+      systemPrompt,
+      contextStrategy,
+      projectId,
+      projectInstructions,
+      userContent: userMessage.content,
+      history: branch.flatMap(toHistory)
+    };
+  }
+
+  const newTurn = requestBody.message;
+  console.log('🌿 Continuing branch:', { conversationId, parentId, depth: branch.length });
+
+  return {
+    parentId,
+    systemPrompt,
+    contextStrategy,
+    projectId,
+    projectInstructions,
+    userContent: newTurn.content,
+    contentParts: buildContentParts(newTurn.content, newTurn.parts),
+    history: [
+      ...branch.flatMap(toHistory),
+      { role: 'user', content: withDocumentText(newTurn.content, newTurn.parts), parts: newTurn.parts }
+    ]
+  };
+}
+
+// NEW: Project-level instructions shared by every conversation in a project
+async function loadProjectInstructions(supabase, projectId, userId) {
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('settings')
+    .eq('id', projectId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('⚠️ Failed to load project instructions:', error.message);
+    return '';
+  }
+  return project?.settings?.instructions || '';
+}
+
+// Longest custom instructions / project instructions / conversation system prompt sent to a provider
+const MAX_SYSTEM_PROMPT_CHARS = 4000;
+
+// The user's custom instructions come first, then the project's, then the conversation's own system prompt
+function buildSystemPrompt(customInstructions, projectInstructions, conversationPrompt) {
+  return [customInstructions, projectInstructions, conversationPrompt]
+    .map((part) => (typeof part === 'string' ? part.trim().slice(0, MAX_SYSTEM_PROMPT_CHARS) : ''))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+// Point the conversation at the tip of the branch that was just extended
+async function setActiveLeaf(supabase, conversationId, messageId) {
+  try {
+    const { error } = await supabase
+      .from('conversations')
+      .update({ active_leaf_message_id: messageId })
+      .eq('id', conversationId);
+
+    if (error) {
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    // The client also tracks its active branch, so this is not fatal
+    console.error('❌ Failed to update active branch:', error);
+  }
+}
+
 // NEW: Update conversation title if it's still "New Chat"
 async function updateConversationTitle(supabase, conversationId, firstUserMessage) {
   try {
@@ -360,8 +622,8 @@ async function updateConversationTitle(supabase, conversationId, firstUserMessag
       return; // Don't throw, this is not critical
     }
 
-    // Only update if title is "New Chat"
-    if (conversation && conversation.title === 'New Chat') {
+    // Only update if title is "New Chat" (and the message has text; it may be images only)
+    if (conversation && conversation.title === 'New Chat' && firstUserMessage.trim()) {
       // Create title from first user message (first 50 characters)
       let newTitle = firstUserMessage.trim();
       if (newTitle.length > 50) {
@@ -443,114 +705,296 @@ async function updateModelHistory(supabase, conversationId, modelUsed) {
   }
 }
 
-// FIXED: Update user usage statistics with fetch-modify-update pattern
-async function updateUserUsage(supabase, userId, tokensUsed, messagesAdded = 1) {
-  try {
-    console.log('📈 Updating user usage:', { userId, tokensUsed, messagesAdded });
+// CRITICAL: Reserve a message and the token budget before calling the provider.
+// reserve_usage locks the user row, so concurrent requests cannot all pass the limits,
+// and caps the output to whatever is left of the monthly quota.
+// Prompt Helper calls pass countMessage = false: they use tokens but not the daily message allowance.
+async function reserveUsage(supabase, userId, budget, tierLimits, countMessage = true) {
+  console.log('🔒 Reserving usage:', { userId, ...budget, countMessage });
+
+  const { data, error } = await supabase.rpc('reserve_usage', {
+    p_user_id: userId,
+    p_prompt_tokens: budget.promptTokens,
+    p_requested_output_tokens: budget.requestedOutputTokens,
+    p_min_output_tokens: budget.minimumOutputTokens,
+    p_daily_limit: tierLimits.daily_messages,
+    p_monthly_limit: tierLimits.monthly_tokens,
+    p_count_message: countMessage
+  });
 
-    // First, fetch current user data
-    const { data: currentUser, error: fetchError } = await supabase
-      .from('users')
-      .select('monthly_tokens_used, daily_messages_sent')
-      .eq('id', userId)
-      .single();
+  if (error) {
+    throw new Error(`Failed to reserve usage: ${error.message}`);
+  }
 
-    if (fetchError) {
-      throw new Error(`Failed to fetch current user usage: ${fetchError.message}`);
-    }
+  console.log('✅ Usage reservation result:', data);
+  return data;
+}
 
-    // Calculate new values
-    const newMonthlyTokens = (currentUser.monthly_tokens_used || 0) + tokensUsed;
-    const newDailyMessages = (currentUser.daily_messages_sent || 0) + messagesAdded;
+// CRITICAL: Settle a reservation (reserve_usage's reservation_id) as recorded usage
+// (users counters + daily usage_tracking row).
+// The category ('chat', 'compare', 'prompt_helper' or 'summary') keys the per-category breakdown in usage_tracking.category_usage.
+async function commitUsage(supabase, userId, reservationId, tokensUsed, modelUsed, cost, category = 'chat') {
+  console.log('📈 Committing usage:', { userId, reservationId, tokensUsed, modelUsed, cost, category });
+
+  const { error } = await supabase.rpc('commit_usage', {
+    p_user_id: userId,
+    p_reservation_id: reservationId,
+    p_tokens_used: tokensUsed,
+    p_model: modelUsed,
+    p_cost: cost,
+    p_category: category
+  });
 
-    // Update with calculated values
-    const { error } = await supabase
-      .from('users')
-      .update({
-        monthly_tokens_used: newMonthlyTokens,
-        daily_messages_sent: newDailyMessages
-      })
-      .eq('id', userId);
+  if (error) {
+    throw new Error(`Failed to update user usage: ${error.message}`);
+  }
 
-    if (error) {
-      throw new Error(`Failed to update user usage: ${error.message}`);
-    }
+  console.log('✅ Usage committed successfully');
+}
+
+// NEW: Grow a reservation before another tool round; resolves to the tokens added, 0 when the
+// monthly quota cannot cover minimumTokens
+async function extendUsage(supabase, userId, reservationId, requestedTokens, minimumTokens, tierLimits) {
+  const { data, error } = await supabase.rpc('extend_usage', {
+    p_user_id: userId,
+    p_reservation_id: reservationId,
+    p_requested_tokens: requestedTokens,
+    p_min_tokens: minimumTokens,
+    p_monthly_limit: tierLimits.monthly_tokens
+  });
 
-    console.log('✅ User usage updated successfully:', {
-      newMonthlyTokens,
-      newDailyMessages
+  if (error) {
+    throw new Error(`Failed to extend usage reservation: ${error.message}`);
+  }
+
+  console.log('🔒 Usage reservation extended:', { reservationId, requestedTokens, ...data });
+  return data.allowed ? data.tokens : 0;
+}
+
+// Give a reservation back when the request fails before it completes; its daily message is
+// given back too if it counted one
+async function releaseUsage(supabase, userId, reservationId) {
+  try {
+    const { error } = await supabase.rpc('release_usage', {
+      p_user_id: userId,
+      p_reservation_id: reservationId
     });
 
+    if (error) {
+      throw new Error(error.message);
+    }
+
+    console.log('↩️ Usage reservation released:', { userId, reservationId });
   } catch (error) {
-    console.error('❌ Error updating user usage:', error);
-    throw error;
+    // The reservation expires on its own after 15 minutes, so this must never mask the original error
+    console.error('❌ Failed to release usage reservation:', error);
   }
 }
 
-// FIXED: Update daily usage tracking table with fetch-modify-update pattern
-async function updateUsageTracking(supabase, userId, tokensUsed, messagesAdded, modelUsed) {
-  try {
-    console.log('📊 Updating usage tracking:', { userId, tokensUsed, messagesAdded, modelUsed });
+// NEW: Bills the context summaries fitContext makes to the user, under the 'summary' category.
+// Like Prompt Helper calls they use tokens but not the daily message allowance; no summary is
+// made for a turn the daily message limit will reject anyway.
+function createSummaryMeter(supabase, userTierData, catalog) {
+  const { userId, tierLimits } = userTierData;
+  return {
+    async reserve(promptTokens, outputTokens) {
+      if (tierLimits.daily_messages !== -1 && userTierData.messagesUsedToday >= tierLimits.daily_messages) {
+        return null;
+      }
+      const budget = { promptTokens, requestedOutputTokens: outputTokens, minimumOutputTokens: MIN_OUTPUT_TOKENS };
+      const reservation = await reserveUsage(supabase, userId, budget, tierLimits, false);
+      return reservation.allowed
+        ? { reservationId: reservation.reservation_id, outputTokens: reservation.output_tokens }
+        : null;
+    },
+    async commit(reservationId, usage) {
+      try {
+        const cost = calculateCost(findCatalogModel(catalog, SUMMARY_MODEL), usage);
+        await commitUsage(supabase, userId, reservationId, usage.total_tokens || 0, SUMMARY_MODEL, cost, 'summary');
+      } catch (error) {
+        // The summary was generated; the reservation expires on its own
+        console.error('❌ Failed to commit summary usage:', error);
+      }
+    },
+    release(reservationId) {
+      return releaseUsage(supabase, userId, reservationId);
+    }
+  };
+}
 
-    const today = new Date().toISOString().split('T')[0];
+// CRITICAL: Per-user request rate (rolling minute), checked before any other work
+async function checkRequestRate(supabase, userId, tierLimits) {
+  const { data, error } = await supabase.rpc('check_request_rate', {
+    p_user_id: userId,
+    p_limit: tierLimits.requests_per_minute
+  });
 
-    // First, try to fetch existing record for today
-    const { data: existingRecord, error: fetchError } = await supabase
-      .from('usage_tracking')
-      .select('*')
-      .eq('user_id', userId)
-      .eq('date', today)
-      .single();
+  if (error) {
+    throw new Error(`Failed to check request rate: ${error.message}`);
+  }
 
-    let updateData;
+  return data;
+}
 
-    if (fetchError && fetchError.code === 'PGRST116') {
-      // No existing record, create new one
-      updateData = {
-        user_id: userId,
-        date: today,
-        tokens_used: tokensUsed,
-        messages_sent: messagesAdded,
-        models_used: { [modelUsed]: 1 },
-        cost_incurred: tokensUsed * 0.001 // Rough cost calculation
-      };
-    } else if (fetchError) {
-      throw new Error(`Failed to fetch existing usage tracking: ${fetchError.message}`);
-    } else {
-      // Existing record found, calculate new values
-      const currentModelsUsed = existingRecord.models_used || {};
-      const newModelsUsed = {
-        ...currentModelsUsed,
-        [modelUsed]: (currentModelsUsed[modelUsed] || 0) + 1
-      };
-
-      updateData = {
-        user_id: userId,
-        date: today,
-        tokens_used: (existingRecord.tokens_used || 0) + tokensUsed,
-        messages_sent: (existingRecord.messages_sent || 0) + messagesAdded,
-        models_used: newModelsUsed,
-        cost_incurred: (existingRecord.cost_incurred || 0) + (tokensUsed * 0.001)
-      };
-    }
+// CRITICAL: Claim a concurrent stream slot; the returned stream_id must be passed to closeStream.
+// Streams of one group (the columns of a comparison) share a single slot.
+async function openStream(supabase, userId, tierLimits, model, groupId = null) {
+  const { data, error } = await supabase.rpc('open_stream', {
+    p_user_id: userId,
+    p_limit: tierLimits.max_concurrent_streams,
+    p_model: model,
+    p_group_id: groupId
+  });
 
-    // Upsert the record
-    const { error } = await supabase
-      .from('usage_tracking')
-      .upsert(updateData, {
-        onConflict: 'user_id,date'
-      });
+  if (error) {
+    throw new Error(`Failed to open stream slot: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Lets the other models of a comparison join this stream's slot; without it they claim their own
+async function setStreamGroup(supabase, streamId, groupId, groupModels) {
+  const { error } = await supabase
+    .from('active_streams')
+    .update({ group_id: groupId, group_models: groupModels })
+    .eq('id', streamId);
+
+  if (error) {
+    console.error('❌ Failed to set stream group:', error);
+  }
+}
+
+// Free a stream slot; abandoned slots expire on their own, so failures are only logged
+async function closeStream(supabase, streamId) {
+  try {
+    const { error } = await supabase.rpc('close_stream', { p_stream_id: streamId });
 
     if (error) {
-      throw new Error(`Failed to update usage tracking: ${error.message}`);
+      throw new Error(error.message);
+    }
+  } catch (error) {
+    console.error('❌ Failed to close stream slot:', error);
+  }
+}
+
+// 429 with Retry-After for a rejected rate limit check
+function buildRateLimitedResponse(rateLimit, userTierData) {
+  const message = rateLimit.reason === 'CONCURRENT_STREAMS'
+    ? `You already have ${rateLimit.current} response${rateLimit.current === 1 ? '' : 's'} in progress (limit ${rateLimit.limit}). Wait for ${rateLimit.current === 1 ? 'it' : 'one'} to finish and try again.`
+    : `Too many requests. Your plan allows ${rateLimit.limit} requests per minute.`;
+
+  console.log('🚦 Rate limited:', { tier: userTierData.tier, ...rateLimit });
+
+  return new Response(JSON.stringify({
+    error: 'RATE_LIMITED',
+    type: 'RATE_LIMITED',
+    reason: rateLimit.reason,
+    message,
+    retryAfter: rateLimit.retry_after,
+    limit: rateLimit.limit,
+    userTier: userTierData.tier
+  }), {
+    status: 429,
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/json',
+      'Retry-After': String(rateLimit.retry_after)
     }
+  });
+}
 
-    console.log('✅ Usage tracking updated successfully:', updateData);
+// Output caps used when the client does not ask for one
+const DEFAULT_OUTPUT_TOKENS = 4000;
+const DEFAULT_REASONING_OUTPUT_TOKENS = 25000;
 
-  } catch (error) {
-    console.error('❌ Error updating usage tracking:', error);
-    throw error;
+// Smallest output worth calling the provider for; reasoning models spend part of it thinking
+const MIN_OUTPUT_TOKENS = 256;
+const MIN_REASONING_OUTPUT_TOKENS = 2048;
+
+// Rough prompt size used for budgeting (~4 characters per token)
+function estimateTokens(messages) {
+  const characters = messages.reduce((sum, message) => {
+    return sum + (typeof message.content === 'string' ? message.content.length : 0);
+  }, 0);
+  return Math.ceil(characters / 4);
+}
+
+// 429 response for a rejected reservation, or null when the request may proceed
+function buildLimitExceededResponse(reservation, budget, userTierData) {
+  if (reservation.allowed) {
+    return null;
+  }
+
+  // Daily message limit (for free tier)
+  if (reservation.reason === 'DAILY_MESSAGE_LIMIT_EXCEEDED') {
+    const messagesUsedToday = reservation.messages_used;
+    const resetTime = new Date();
+    resetTime.setDate(resetTime.getDate() + 1);
+    resetTime.setHours(0, 0, 0, 0);
+
+    return new Response(JSON.stringify({
+      error: 'DAILY_MESSAGE_LIMIT_EXCEEDED',
+      type: 'DAILY_MESSAGE_LIMIT_EXCEEDED',
+      message: `Daily message limit reached. You've used ${messagesUsedToday}/${userTierData.tierLimits.daily_messages} messages today. Upgrade to Basic for unlimited messages!`,
+      usage: {
+        current: messagesUsedToday,
+        limit: userTierData.tierLimits.daily_messages,
+        percentage: Math.round((messagesUsedToday / userTierData.tierLimits.daily_messages) * 100),
+        resetTime: resetTime.toISOString()
+      },
+      userTier: userTierData.tier
+    }), {
+      status: 429,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+
+  // Monthly token limit (in-flight reservations count towards the limit)
+  const tokensUsedThisMonth = reservation.tokens_used + reservation.tokens_reserved;
+  const monthlyResetTime = new Date();
+  monthlyResetTime.setMonth(monthlyResetTime.getMonth() + 1);
+  monthlyResetTime.setDate(new Date(userTierData.billingPeriodStart).getDate());
+
+  if (reservation.reason === 'INSUFFICIENT_TOKEN_BUDGET') {
+    return new Response(JSON.stringify({
+      error: 'INSUFFICIENT_TOKEN_BUDGET',
+      type: 'INSUFFICIENT_TOKEN_BUDGET',
+      message: `Not enough tokens left this month for this request. It needs about ${(budget.promptTokens + budget.minimumOutputTokens).toLocaleString()} tokens but only ${reservation.remaining_tokens.toLocaleString()} remain. Start a new conversation with a shorter history or upgrade for more tokens!`,
+      usage: {
+        current: tokensUsedThisMonth,
+        limit: userTierData.tierLimits.monthly_tokens,
+        percentage: Math.round((tokensUsedThisMonth / userTierData.tierLimits.monthly_tokens) * 100),
+        resetTime: monthlyResetTime.toISOString()
+      },
+      budget: {
+        remainingTokens: reservation.remaining_tokens,
+        estimatedPromptTokens: budget.promptTokens,
+        minimumOutputTokens: budget.minimumOutputTokens,
+        requestedOutputTokens: budget.requestedOutputTokens
+      },
+      userTier: userTierData.tier
+    }), {
+      status: 429,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
+
+  return new Response(JSON.stringify({
+    error: 'MONTHLY_TOKEN_LIMIT_EXCEEDED',
+    type: 'MONTHLY_LIMIT_EXCEEDED',
+    message: `Monthly token limit exceeded. You've used ${tokensUsedThisMonth.toLocaleString()}/${userTierData.tierLimits.monthly_tokens.toLocaleString()} tokens this month. Upgrade for more tokens!`,
+    usage: {
+      current: tokensUsedThisMonth,
+      limit: userTierData.tierLimits.monthly_tokens,
+      percentage: Math.round((tokensUsedThisMonth / userTierData.tierLimits.monthly_tokens) * 100),
+      resetTime: monthlyResetTime.toISOString()
+    },
+    userTier: userTierData.tier
+  }), {
+    status: 429,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  });
 }
 
 // CRITICAL: Get next sequence number for conversation
@@ -576,577 +1020,322 @@ async function getNextSequenceNumber(supabase, conversationId) {
   }
 }
 
-// ENHANCED: Generate example using GPT-4o for Prompt Helper with better prompts
-async function generateExample(userRequest, taskType, exampleNumber = 1) {
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openaiApiKey) {
-    throw new Error('OPENAI_API_KEY not configured');
-  }
-
-  console.log('🎯 Generating example with GPT-4o for:', { userRequest, taskType, exampleNumber });
+// Prompt Helper (Smart Prompt Mode) requests: Pro-only, budgeted and recorded like chat,
+// but under the 'prompt_helper' usage category and without using up a daily message.
+async function handlePromptHelperRequest(supabase, userId, catalog, userTierData, requestBody) {
+  const { purpose, userRequest, taskType, userRole, currentPrompt } = requestBody;
+  const isEnhancement = purpose === 'enhance_prompt';
 
-  // ENHANCED: Better example generation prompts based on task type
-  const taskPrompts = {
-    creative: `Generate a compelling creative writing example that demonstrates:
-- Rich, vivid imagery and sensory details
-- Engaging narrative voice and style
-- Emotional depth and resonance
-- Clear structure and pacing`,
-    
-    coding: `Generate a clean, professional code example that demonstrates:
-- Best practices and clear structure
-- Proper commenting and documentation
-- Efficient, readable implementation
-- Modern coding standards`,
-    
-    analysis: `Generate a structured analytical example that demonstrates:
-- Logical reasoning and clear methodology
-- Data-driven insights and evidence
-- Systematic problem-solving approach
-- Clear conclusions and recommendations`,
-    
-    general: `Generate a helpful, well-structured example that demonstrates:
-- Clear communication and organization
-- Comprehensive coverage of key points
-- Practical, actionable information
-- Professional presentation`
-  };
+  if (!tierHasFeature(userTierData.tierLimits, 'prompt_helper')) {
+    console.log('❌ Prompt Helper not available for user tier:', { tier: userTierData.tier, purpose });
 
-  const prompt = `${taskPrompts[taskType] || taskPrompts.general}
+    return new Response(JSON.stringify({
+      error: 'FEATURE_NOT_AVAILABLE',
+      type: 'FEATURE_NOT_AVAILABLE',
+      message: 'Prompt Helper is available on the Pro plan. Upgrade to use it!',
+      userTier: userTierData.tier
+    }), {
+      status: 403,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
 
-User's specific request: "${userRequest}"
+  const model = isEnhancement ? ENHANCEMENT_MODEL : EXAMPLE_MODEL;
+  const promptMessages = isEnhancement
+    ? buildEnhancementMessages(userRequest, taskType, userRole, currentPrompt)
+    : buildExampleMessages(userRequest, taskType, requestBody.exampleNumber || 1);
+  const budget = {
+    promptTokens: estimateTokens(promptMessages),
+    requestedOutputTokens: isEnhancement ? ENHANCEMENT_MAX_TOKENS : EXAMPLE_MAX_TOKENS,
+    minimumOutputTokens: MIN_OUTPUT_TOKENS
+  };
 
-Create Example ${exampleNumber} that directly relates to their request. Make it:
-- Concise but high-quality (under 300 words)
-- Immediately relevant and useful
-- Something they can learn from or build upon
-- Professional but accessible
+  const reservation = await reserveUsage(supabase, userId, budget, userTierData.tierLimits, false);
+  const limitResponse = buildLimitExceededResponse(reservation, budget, userTierData);
+  if (limitResponse) {
+    return limitResponse;
+  }
 
-Focus on showing the style, approach, and quality they should expect.`;
+  let result;
+  try {
+    result = isEnhancement
+      ? await enhancePrompt(userRequest, taskType, userRole, currentPrompt, reservation.output_tokens)
+      : await generateExample(userRequest, taskType, requestBody.exampleNumber || 1, reservation.output_tokens);
+  } catch (error) {
+    await releaseUsage(supabase, userId, reservation.reservation_id);
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${openaiApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o', // Use GPT-4o for fast, high-quality examples
-      messages: [
-        { role: 'user', content: prompt }
-      ],
-      max_tokens: 500,
-      temperature: 0.7
-    })
-  });
+    if (isEnhancement) {
+      console.error('❌ Prompt enhancement failed:', error);
+      return new Response(JSON.stringify({
+        error: 'PROMPT_ENHANCEMENT_FAILED',
+        message: `Failed to enhance prompt: ${error.message}`,
+        fallback: currentPrompt
+      }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
 
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('❌ GPT-4o example generation error:', response.status, errorData);
-    throw new Error(`Example generation failed: ${response.status}`);
+    console.error('❌ Example generation failed:', error);
+    return new Response(JSON.stringify({
+      error: 'EXAMPLE_GENERATION_FAILED',
+      message: error.message || 'Failed to generate example'
+    }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 
-  const data = await response.json();
-  const example = data.choices?.[0]?.message?.content;
-
-  if (!example) {
-    throw new Error('No example content generated');
+  // The provider call succeeded, so the result is returned even if recording its usage fails
+  try {
+    const usage = result.usage || {};
+    const cost = calculateCost(findCatalogModel(catalog, model), usage);
+    await commitUsage(supabase, userId, reservation.reservation_id, usage.total_tokens || 0, model, cost, 'prompt_helper');
+  } catch (error) {
+    console.error('❌ Failed to commit Prompt Helper usage:', error);
   }
 
-  console.log('✅ Example generated successfully:', {
-    contentLength: example.length,
-    model: 'gpt-4o',
-    taskType,
-    exampleNumber
+  return new Response(JSON.stringify(result), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   });
-
-  return {
-    example: example.trim(),
-    model: 'gpt-4o',
-    usage: data.usage
-  };
 }
 
-// ENHANCED: Enhance prompt using GPT-4o with Role-Task Format framework
-async function enhancePrompt(userRequest, taskType, userRole, currentPrompt) {
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openaiApiKey) {
-    throw new Error('OPENAI_API_KEY not configured');
-  }
-
-  console.log('🚀 Enhancing prompt with GPT-4o for:', { userRequest, taskType, userRole });
-
-  // ENHANCED: Use Role-Task Format framework for prompt enhancement
-  const enhancementPrompt = `You are a prompt engineering expert specializing in the Role-Task Format framework. 
-
-Enhance this basic prompt using the Role-Task Format framework to get significantly better AI results.
-
-CONTEXT:
-- Task Type: ${taskType}
-- User's Role Selection: ${userRole}
-User's Request: "${userRequest}"
-- Current Basic Prompt: "${currentPrompt}"
+// NEW: Reattach to a generation after a dropped connection or from another device.
+// Identified by generation_id, or by conversation_id for whatever is still streaming there;
+// offset is the number of characters the client already has, reasoning_offset the number of
+// reasoning characters.
+async function handleResumeRequest(supabase, userId, requestBody) {
+  const generationId = requestBody.generation_id;
+  const conversationId = requestBody.conversation_id;
 
-ENHANCEMENT FRAMEWORK:
-Use the Role-Task Format which includes:
-1. ROLE: Clear identity and expertise for the AI
-2. TASK: Specific, actionable instructions
-3. FORMAT: Expected output structure and style
-4. CONTEXT: Relevant background and constraints
-5. EXAMPLES: If helpful patterns (but don't add unless truly beneficial)
+  if (!generationId && !conversationId) {
+    return new Response(JSON.stringify({
+      error: 'INVALID_REQUEST',
+      type: 'INVALID_REQUEST',
+      message: 'generation_id or conversation_id required'
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
 
-REQUIREMENTS:
-- Make the role more specific and authoritative
-- Break down the task into clear, actionable steps
-- Specify the exact format and style of response needed
-- Add relevant context that improves output quality
-- Keep the user's original intent intact
-- Make it 2-3x more effective than the basic version
+  const generation = await findGeneration(supabase, userId, { generationId, conversationId });
+  if (!generation) {
+    return new Response(JSON.stringify({
+      error: 'GENERATION_NOT_FOUND',
+      type: 'GENERATION_NOT_FOUND',
+      message: 'No generation to resume'
+    }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
 
-RESPONSE:
-Return only the enhanced prompt using proper Role-Task Format. No explanations or meta-commentary.`;
+  const offset = Math.max(Number(requestBody.offset) || 0, 0);
+  const reasoningOffset = Math.max(Number(requestBody.reasoning_offset) || 0, 0);
+  console.log('🔁 Resuming generation:', { generationId: generation.id, status: generation.status, offset, reasoningOffset });
 
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
+  return new Response(replayGeneration(supabase, generation.id, offset, reasoningOffset), {
     headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${openaiApiKey}`
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      messages: [
-        { role: 'user', content: enhancementPrompt }
-      ],
-      max_tokens: 800,
-      temperature: 0.2 // Lower temperature for consistent, structured enhancement
-    })
+      ...corsHeaders,
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
   });
+}
 
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('❌ GPT-4o prompt enhancement error:', response.status, errorData);
-    throw new Error(`Prompt enhancement failed: ${response.status}`);
+// NEW: Stop a generation; closing the connection alone no longer does
+async function handleCancelRequest(supabase, userId, requestBody) {
+  if (typeof requestBody.generation_id !== 'string' || !UUID_PATTERN.test(requestBody.generation_id)) {
+    return new Response(JSON.stringify({
+      error: 'INVALID_REQUEST',
+      type: 'INVALID_REQUEST',
+      message: 'generation_id must be a UUID'
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 
-  const data = await response.json();
-  const enhancedPrompt = data.choices?.[0]?.message?.content;
-
-  if (!enhancedPrompt) {
-    throw new Error('No enhanced prompt generated');
-  }
+  const cancelled = await requestGenerationCancel(supabase, userId, requestBody.generation_id);
+  console.log('🛑 Cancel request:', { generationId: requestBody.generation_id, cancelled });
 
-  console.log('✅ Prompt enhanced successfully:', {
-    originalLength: currentPrompt?.length || 0,
-    enhancedLength: enhancedPrompt.length,
-    model: 'gpt-4o',
-    framework: 'Role-Task Format'
+  return new Response(JSON.stringify({ cancelled }), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
   });
-
-  return {
-    enhancedPrompt: enhancedPrompt.trim(),
-    model: 'gpt-4o',
-    usage: data.usage
-  };
 }
 
-// FIXED: OpenAI API with proper reasoning model support
-async function callOpenAIStreamingAPI(requestBody, controller) {
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openaiApiKey) {
-    throw new Error('OPENAI_API_KEY not configured');
+// NEW: Extract the text of an uploaded PDF or DOCX attachment for the client to attach
+async function handleExtractRequest(supabase, userId, requestBody) {
+  const { path, mime_type: mimeType } = requestBody;
+  if (typeof path !== 'string' || !path.startsWith(`${userId}/`) || path.includes('..')) {
+    return new Response(JSON.stringify({
+      error: 'INVALID_REQUEST',
+      type: 'INVALID_REQUEST',
+      message: 'path must point to a file in your attachments folder'
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
-
-  console.log('🌊 Streaming OpenAI API with model:', requestBody.model);
-
-  // CRITICAL FIX: Detect reasoning models and use different parameters
-  const isReasoning = isReasoningModel(requestBody.model);
-  
-  let openaiPayload;
-  
-  if (isReasoning) {
-    // FIXED: Reasoning models require different parameters
-    console.log('🧠 Using reasoning model parameters for:', requestBody.model);
-    openaiPayload = {
-      model: requestBody.model,
-      messages: requestBody.messages,
-      max_completion_tokens: requestBody.max_tokens || 25000, // Use max_completion_tokens for reasoning models
-      reasoning_effort: "medium", // Required for reasoning models
-      stream: true
-      // REMOVED: temperature, top_p, presence_penalty, frequency_penalty, logprobs (not supported)
-    };
-  } else {
-    // Standard models use normal parameters
-    console.log('📝 Using standard model parameters for:', requestBody.model);
-    openaiPayload = {
-      model: requestBody.model,
-      messages: requestBody.messages,
-      max_tokens: requestBody.max_tokens || 4000,
-      temperature: requestBody.temperature || 0.7,
-      stream: true
-    };
-  }
-
-  console.log('📤 OpenAI payload:', {
-    model: openaiPayload.model,
-    isReasoningModel: isReasoning,
-    hasReasoningEffort: !!openaiPayload.reasoning_effort,
-    hasMaxCompletionTokens: !!openaiPayload.max_completion_tokens,
-    hasMaxTokens: !!openaiPayload.max_tokens
-  });
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${openaiApiKey}`
-    },
-    body: JSON.stringify(openaiPayload)
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('❌ OpenAI API error:', response.status, errorData);
-    
-    // ENHANCED: Better error messages for reasoning model issues
-    if (response.status === 404 && isReasoning) {
-      throw new Error(`OpenAI reasoning model ${requestBody.model} not available. This might be a model access or API configuration issue.`);
-    } else if (response.status === 400 && isReasoning) {
-      throw new Error(`OpenAI reasoning model ${requestBody.model} parameter error. Check model availability and API access.`);
-    } else {
-      throw new Error(`OpenAI API error: ${response.status} - ${errorData}`);
-    }
-  }
-
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error('No response body reader available');
+  if (!EXTRACTABLE_MIME_TYPES.includes(mimeType)) {
+    return new Response(JSON.stringify({
+      error: 'INVALID_REQUEST',
+      type: 'INVALID_REQUEST',
+      message: `Text extraction is not supported for ${mimeType}`
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 
-  const decoder = new TextDecoder();
-  const encoder = new TextEncoder();
-  let buffer = '';
-  let totalContent = '';
-  let usage = {
-    prompt_tokens: 0,
-    completion_tokens: 0,
-    total_tokens: 0
-  };
-
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            const content = parsed.choices?.[0]?.delta?.content;
-            
-            if (content) {
-              totalContent += content;
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                type: 'content',
-                content: content
-              })}\n\n`));
-            }
-
-            // Capture usage from final message
-            if (parsed.usage) {
-              usage = parsed.usage;
-            }
-          } catch (e) {
-            // Skip malformed JSON
-          }
-        }
-      }
-    }
-
-    // Estimate usage if not provided by OpenAI
-    if (usage.total_tokens === 0) {
-      const estimatedPromptTokens = Math.ceil(JSON.stringify(requestBody.messages).length / 4);
-      const estimatedCompletionTokens = Math.ceil(totalContent.length / 4);
-      usage = {
-        prompt_tokens: estimatedPromptTokens,
-        completion_tokens: estimatedCompletionTokens,
-        total_tokens: estimatedPromptTokens + estimatedCompletionTokens
-      };
-    }
-
-    return {
-      content: totalContent,
-      usage,
-      model: requestBody.model
-    };
-  } finally {
-    reader.releaseLock();
+    const extracted = await extractDocumentText(supabase, path, mimeType);
+    return new Response(JSON.stringify(extracted), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('❌ Document extraction failed:', error);
+    return new Response(JSON.stringify({
+      error: 'EXTRACTION_FAILED',
+      type: 'EXTRACTION_FAILED',
+      message: `Could not read this document: ${error.message}`
+    }), {
+      status: 422,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 }
 
-// STREAMING: Anthropic API with usage tracking
-async function callAnthropicStreamingAPI(requestBody, controller) {
-  const anthropicApiKey = Deno.env.get('ANTHROPIC_API_KEY');
-  if (!anthropicApiKey) {
-    throw new Error('ANTHROPIC_API_KEY not configured');
-  }
-
-  console.log('🌊 Streaming Anthropic API with model:', requestBody.model);
-
-  const claudePayload = {
-    model: requestBody.model,
-    max_tokens: requestBody.max_tokens || 4000,
-    messages: requestBody.messages,
-    temperature: requestBody.temperature || 0.7,
-    stream: true
-  };
-
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': anthropicApiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify(claudePayload)
-  });
-
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('❌ Anthropic API error:', response.status, errorData);
-    
-    // ENHANCED: Better error messages for Claude 4 model issues
-    if (response.status === 404) {
-      throw new Error(`Claude model ${requestBody.model} not available. This might be a model access or API configuration issue.`);
-    } else if (response.status === 400) {
-      throw new Error(`Claude model ${requestBody.model} parameter error. Check model availability and API access.`);
-    } else {
-      throw new Error(`Anthropic API error: ${response.status} - ${errorData}`);
-    }
-  }
+// NEW: Chunk and embed a project document right after upload, so the first question about
+// it does not wait for embedding
+async function handleEmbedRequest(supabase, userId, requestBody) {
+  const document = typeof requestBody.document_id === 'string'
+    ? await loadProjectDocument(supabase, requestBody.document_id, userId)
+    : null;
 
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error('No response body reader available');
+  if (!document) {
+    return new Response(JSON.stringify({
+      error: 'NOT_FOUND',
+      type: 'NOT_FOUND',
+      message: 'Project document not found'
+    }), {
+      status: 404,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 
-  const decoder = new TextDecoder();
-  const encoder = new TextEncoder();
-  let buffer = '';
-  let totalContent = '';
-  let usage = {
-    input_tokens: 0,
-    output_tokens: 0
-  };
-
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            
-            if (parsed.type === 'content_block_delta' && parsed.delta?.text) {
-              const content = parsed.delta.text;
-              totalContent += content;
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                type: 'content',
-                content: content
-              })}\n\n`));
-            }
-
-            if (parsed.type === 'message_stop' && parsed.usage) {
-              usage = parsed.usage;
-            }
-          } catch (e) {
-            // Skip malformed JSON
-          }
-        }
-      }
-    }
-
-    // Convert Anthropic usage to OpenAI format
-    const normalizedUsage = {
-      prompt_tokens: usage.input_tokens || 0,
-      completion_tokens: usage.output_tokens || 0,
-      total_tokens: (usage.input_tokens || 0) + (usage.output_tokens || 0)
-    };
-
-    return {
-      content: totalContent,
-      usage: normalizedUsage,
-      model: requestBody.model
-    };
-  } finally {
-    reader.releaseLock();
+    const embedder = getEmbedder();
+    const embeddings = await embedProjectDocument(supabase, document, embedder);
+    return new Response(JSON.stringify({ chunks: embeddings.chunks.length, embedder: embedder.id }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  } catch (error) {
+    console.error('❌ Document embedding failed:', error);
+    return new Response(JSON.stringify({
+      error: 'EMBEDDING_FAILED',
+      type: 'EMBEDDING_FAILED',
+      message: `Could not index this document: ${error.message}`
+    }), {
+      status: 422,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
   }
 }
 
-// NEW: Gemini API with enhanced error handling and rate limit detection
-async function callGeminiStreamingAPI(requestBody, controller) {
-  const geminiApiKey = Deno.env.get('GEMINI_API_KEY');
-  if (!geminiApiKey) {
-    throw new Error('GEMINI_API_KEY not configured');
+// NEW: Top-k chunks of the project's files for the user turn. Retrieval is best effort:
+// if it fails the reply is generated without project context.
+async function retrieveContext(supabase, projectId, userId, query) {
+  try {
+    const chunks = await retrieveProjectChunks(supabase, projectId, userId, query, getEmbedder());
+    console.log('📚 Retrieved project context:', { projectId, chunks: chunks.length });
+    return chunks;
+  } catch (error) {
+    console.error('⚠️ Retrieval failed; continuing without project context:', error);
+    return [];
   }
+}
 
-  console.log('🌊 Streaming Gemini API with model:', requestBody.model);
-
-  // Convert messages to Gemini format
-  const geminiMessages = requestBody.messages.map((msg) => ({
-    role: msg.role === 'assistant' ? 'model' : 'user',
-    parts: [{ text: msg.content }]
-  }));
+interface EdgeRuntimeGlobal {
+  waitUntil(promise: Promise<unknown>): void
+}
 
-  const geminiPayload = {
-    contents: geminiMessages,
-    generationConfig: {
-      maxOutputTokens: requestBody.max_tokens || 4000,
-      temperature: requestBody.temperature || 0.7
-    }
-  };
+// The Supabase Edge Runtime global, missing from Deno's types and absent under plain Deno
+function getEdgeRuntime(): EdgeRuntimeGlobal | undefined {
+  return (globalThis as { EdgeRuntime?: EdgeRuntimeGlobal }).EdgeRuntime;
+}
 
-  // FIXED: Use alt=sse for proper Server-Sent Events format
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${requestBody.model}:streamGenerateContent?alt=sse&key=${geminiApiKey}`;
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
 
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify(geminiPayload)
-  });
+  // Model catalog and tier entitlements for the frontend
+  if (req.method === 'GET' && new URL(req.url).pathname.endsWith('/models')) {
+    try {
+      const supabase = createClient(Deno.env.get('SUPABASE_URL'), Deno.env.get('SUPABASE_SERVICE_ROLE_KEY'));
+      const catalog = await loadCatalog(supabase);
 
-  if (!response.ok) {
-    const errorData = await response.text();
-    console.error('❌ Gemini API error:', response.status, errorData);
-    
-    // ENHANCED: Detect rate limits and provide user-friendly messages
-    if (response.status === 429 || errorData.includes('quota') || errorData.includes('rate limit')) {
-      throw new Error("We've hit Gemini API rate limits! Please try again in a few minutes, or use a different model like GPT-4o-mini or Claude 3.5 Haiku.");
-    } else if (response.status === 403 && errorData.includes('quota exceeded')) {
-      throw new Error("Gemini API quota exceeded. We've hit the daily limits for this model. Let's try using OpenAI or Claude models instead!");
-    } else if (response.status === 400 && errorData.includes('quota')) {
-      throw new Error("Gemini model quota exceeded. Let's try again later or use a different model like GPT-4o or Claude 3.5.");
-    } else if (response.status === 404) {
-      throw new Error(`Gemini model ${requestBody.model} not available. This might be a model access or API configuration issue.`);
-    } else {
-      throw new Error(`Gemini API error: ${response.status} - ${errorData}`);
+      return new Response(JSON.stringify(catalog), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'Cache-Control': 'public, max-age=300'
+        }
+      });
+    } catch (error) {
+      console.error('❌ Failed to serve model catalog:', error);
+      return new Response(JSON.stringify({
+        error: 'CATALOG_UNAVAILABLE',
+        type: 'CATALOG_UNAVAILABLE',
+        message: error.message
+      }), {
+        status: 503,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     }
   }
 
-  const reader = response.body?.getReader();
-  if (!reader) {
-    throw new Error('No response body reader available');
-  }
-
-  const decoder = new TextDecoder();
-  const encoder = new TextEncoder();
-  let buffer = '';
-  let totalContent = '';
-  let usage = {
-    prompt_tokens: 0,
-    completion_tokens: 0,
-    total_tokens: 0
-  };
-
   try {
-    while (true) {
-      const { done, value } = await reader.read();
-      if (done) break;
-
-      buffer += decoder.decode(value, { stream: true });
-      const lines = buffer.split('\n');
-      buffer = lines.pop() || '';
-
-      for (const line of lines) {
-        if (line.startsWith('data: ')) {
-          const data = line.slice(6);
-          if (data === '[DONE]') continue;
-
-          try {
-            const parsed = JSON.parse(data);
-            
-            // Extract content from Gemini response format
-            if (parsed.candidates && parsed.candidates[0] && parsed.candidates[0].content) {
-              const parts = parsed.candidates[0].content.parts;
-              if (parts && parts[0] && parts[0].text) {
-                const content = parts[0].text;
-                totalContent += content;
-                controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-                  type: 'content',
-                  content: content
-                })}\n\n`));
-              }
-            }
-
-            // Capture usage if available
-            if (parsed.usageMetadata) {
-              usage = {
-                prompt_tokens: parsed.usageMetadata.promptTokenCount || 0,
-                completion_tokens: parsed.usageMetadata.candidatesTokenCount || 0,
-                total_tokens: parsed.usageMetadata.totalTokenCount || 0
-              };
-            }
-          } catch (e) {
-            // Skip malformed JSON
-          }
-        }
-      }
+    // Reject oversized bodies before parsing them
+    const rawBody = await req.text();
+    if (new TextEncoder().encode(rawBody).length > MAX_REQUEST_BYTES) {
+      return new Response(JSON.stringify({
+        error: 'REQUEST_TOO_LARGE',
+        type: 'INVALID_REQUEST',
+        message: `Request body exceeds ${MAX_REQUEST_BYTES / 1024}KB`
+      }), {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     }
 
-    // Estimate usage if not provided by Gemini
-    if (usage.total_tokens === 0) {
-      const estimatedPromptTokens = Math.ceil(JSON.stringify(requestBody.messages).length / 4);
-      const estimatedCompletionTokens = Math.ceil(totalContent.length / 4);
-      usage = {
-        prompt_tokens: estimatedPromptTokens,
-        completion_tokens: estimatedCompletionTokens,
-        total_tokens: estimatedPromptTokens + estimatedCompletionTokens
-      };
+    let requestBody;
+    try {
+      requestBody = JSON.parse(rawBody);
+    } catch {
+      return new Response(JSON.stringify({
+        error: 'INVALID_REQUEST',
+        type: 'INVALID_REQUEST',
+        message: 'Request body must be valid JSON'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     }
 
-    return {
-      content: totalContent,
-      usage,
-      model: requestBody.model
-    };
-  } finally {
-    reader.releaseLock();
-  }
-}
-
-serve(async (req) => {
-  // Handle CORS preflight
-  if (req.method === 'OPTIONS') {
-    return new Response('ok', { headers: corsHeaders });
-  }
-
-  try {
-    const requestBody = await req.json();
     console.log('📥 Received request:', {
       model: requestBody.model,
-      messageCount: requestBody.messages?.length,
+      messageLength: requestBody.message?.content?.length,
+      regenerate: !!requestBody.regenerate,
+      compare: !!requestBody.compare,
       conversationId: requestBody.conversation_id,
       hasStream: !!requestBody.stream,
-      isReasoningModel: requestBody.model ? isReasoningModel(requestBody.model) : false,
-      isGeminiModel: requestBody.model ? isGeminiModel(requestBody.model) : false,
-      purpose: requestBody.purpose // NEW: Check for example generation or prompt enhancement
+      isReasoningModel: isReasoningModel(requestBody.model),
+      purpose: requestBody.purpose // Prompt Helper: example generation or prompt enhancement
     });
 
     // Initialize Supabase client
@@ -1154,163 +1343,6 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Extract common variables for special purposes
-    const { purpose, userRequest, taskType, userRole, currentPrompt, exampleNumber } = requestBody;
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-
-    // ENHANCED: Intelligent prompt enhancement for Smart Prompt Mode
-    if (purpose === 'enhance_prompt') {
-      console.log('🎯 Enhancing prompt with advanced prompt engineering')
-      
-      const enhancementSystemPrompt = `You are an expert prompt engineer who specializes in creating highly effective prompts for AI systems. Your expertise includes understanding user intent, structuring clear instructions, and applying prompt engineering best practices.
-
-Your task is to transform a user's basic request into a comprehensive, well-structured prompt that will yield superior AI responses.
-
-ENHANCEMENT PRINCIPLES:
-1. **Intent Analysis**: Understand what the user really wants to achieve
-2. **Outcome Definition**: Clearly specify the expected deliverable 
-3. **Context Setting**: Provide relevant background and constraints
-4. **Structure**: Organize the prompt logically with clear sections
-5. **Specificity**: Be precise about format, tone, and requirements
-6. **Task-Specific Optimization**: Tailor approach based on domain (creative, technical, analytical)
-
-ENHANCEMENT PROCESS:
-1. Analyze the user's request to understand their true intent
-2. Identify the specific outcome they need
-3. Determine the best role/persona for the AI to adopt
-4. Structure the prompt with clear sections (context, task, requirements, output format)
-5. Add relevant constraints and quality criteria
-6. Include examples or templates when helpful
-
-TASK TYPE SPECIALIZATIONS:
-- **Creative**: Focus on inspiration, style, audience, mood, creative constraints
-- **Coding**: Specify language, best practices, error handling, documentation, testing
-- **Analysis**: Define methodology, data sources, depth of analysis, presentation format
-- **General**: Ensure clarity, completeness, actionability, and user-focused outcomes
-
-Transform the user's basic request into a prompt that will produce significantly better AI responses. Make it comprehensive but not overwhelming. Focus on clarity and actionability.`
-
-      const enhancementMessages = [
-        {
-          role: 'system',
-          content: enhancementSystemPrompt
-        },
-        {
-          role: 'user', 
-          content: `Please enhance this prompt for better AI results:
-
-TASK TYPE: ${taskType}
-USER ROLE PREFERENCE: ${userRole}
-ORIGINAL REQUEST: "${userRequest}"
-CURRENT BASIC PROMPT: "${currentPrompt}"
-
-Create an enhanced version that follows prompt engineering best practices and will produce significantly better results. Structure it clearly and make it comprehensive yet focused.`
-        }
-      ]
-
-      try {
-        const enhancementResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${openaiApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: 'gpt-4o-mini', // Use efficient model for enhancement
-            messages: enhancementMessages,
-            max_tokens: 1500,
-            temperature: 0.3, // Lower temperature for more consistent enhancement
-          }),
-        })
-
-        if (!enhancementResponse.ok) {
-          throw new Error(`Enhancement failed: ${enhancementResponse.status}`)
-        }
-
-        const enhancementData = await enhancementResponse.json()
-        const enhancedPrompt = enhancementData.choices?.[0]?.message?.content
-
-        if (!enhancedPrompt) {
-          throw new Error('No enhanced prompt received')
-        }
-
-        console.log('✅ Prompt enhanced successfully')
-        
-        return new Response(JSON.stringify({
-          enhancedPrompt: enhancedPrompt.trim(),
-          model: 'gpt-4o-mini',
-          usage: enhancementData.usage
-        }), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        })
-
-      } catch (error) {
-        console.error('❌ Prompt enhancement failed:', error)
-        
-        return new Response(JSON.stringify({
-          error: 'PROMPT_ENHANCEMENT_FAILED',
-          message: `Failed to enhance prompt: ${error.message}`,
-          fallback: currentPrompt
-        }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        })
-      }
-    }
-
-    // ENHANCED: Example generation for Smart Prompt Mode
-    if (purpose === 'generate_example') {
-      console.log('🎯 Handling example generation request');
-      
-      try {
-        const result = await generateExample(
-          requestBody.userRequest, 
-          requestBody.taskType,
-          requestBody.exampleNumber || 1
-        );
-        
-        return new Response(JSON.stringify(result), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      } catch (error) {
-        console.error('❌ Example generation failed:', error);
-        return new Response(JSON.stringify({
-          error: 'EXAMPLE_GENERATION_FAILED',
-          message: error.message || 'Failed to generate example'
-        }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-    }
-
-    // NEW: Handle prompt enhancement for Prompt Helper
-    if (requestBody.purpose === 'enhance_prompt') {
-      console.log('🚀 Handling prompt enhancement request');
-      
-      try {
-        const result = await enhancePrompt(
-          requestBody.userRequest, 
-          requestBody.taskType, 
-          requestBody.userRole,
-          requestBody.currentPrompt
-        );
-        
-        return new Response(JSON.stringify(result), {
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      } catch (error) {
-        console.error('❌ Prompt enhancement failed:', error);
-        return new Response(JSON.stringify({
-          error: 'PROMPT_ENHANCEMENT_FAILED',
-          message: error.message || 'Failed to enhance prompt'
-        }), {
-          status: 500,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-        });
-      }
-    }
-
     // CRITICAL: Authentication
     const authToken = req.headers.get('authorization')?.replace('Bearer ', '');
     if (!authToken) {
@@ -1336,8 +1368,51 @@ Create an enhanced version that follows prompt engineering best practices and wi
       });
     }
 
+    // Resume and cancel act on an existing generation: no new usage, no rate limit
+    const pathname = new URL(req.url).pathname;
+    if (pathname.endsWith('/resume')) {
+      return await handleResumeRequest(supabase, user.id, requestBody);
+    }
+    if (pathname.endsWith('/cancel')) {
+      return await handleCancelRequest(supabase, user.id, requestBody);
+    }
+
     // CRITICAL: Get user tier and usage with anniversary-based resets
-    const userTierData = await getUserTierAndUsage(supabase, user.id);
+    const catalog = await loadCatalog(supabase);
+    const userTierData = await getUserTierAndUsage(supabase, user.id, catalog);
+
+    // CRITICAL: Rate limit every authenticated request, including rejected and Prompt Helper ones
+    const requestRate = await checkRequestRate(supabase, user.id, userTierData.tierLimits);
+    if (!requestRate.allowed) {
+      return buildRateLimitedResponse(requestRate, userTierData);
+    }
+
+    // Document extraction is rate limited like any request but uses no tokens
+    if (pathname.endsWith('/extract')) {
+      return await handleExtractRequest(supabase, user.id, requestBody);
+    }
+
+    if (pathname.endsWith('/embed')) {
+      return await handleEmbedRequest(supabase, user.id, requestBody);
+    }
+
+    // Prompt Helper purposes share the auth and usage checks above but not the chat pipeline
+    if (PROMPT_HELPER_PURPOSES.includes(requestBody.purpose)) {
+      console.log('🎯 Handling Prompt Helper request:', requestBody.purpose);
+      return await handlePromptHelperRequest(supabase, user.id, catalog, userTierData, requestBody);
+    }
+
+    // Chat turns are streamed only; rejected before anything is reserved or saved
+    if (!requestBody.stream) {
+      return new Response(JSON.stringify({
+        error: 'STREAMING_ONLY',
+        type: 'STREAMING_ONLY',
+        message: 'This endpoint only supports streaming requests'
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
 
     // FIXED: Enhanced model validation with Gemini support
     console.log('🔍 Validating model:', {
@@ -1372,241 +1447,462 @@ Create an enhanced version that follows prompt engineering best practices and wi
       });
     }
 
-    // 2. Daily message limit check (for free tier)
-    if (userTierData.tierLimits.daily_messages !== -1 && 
-        userTierData.messagesUsedToday >= userTierData.tierLimits.daily_messages) {
-      
-      const resetTime = new Date();
-      resetTime.setDate(resetTime.getDate() + 1);
-      resetTime.setHours(0, 0, 0, 0);
+    // Resolve the catalog entry and the provider adapter serving it
+    const catalogModel = findCatalogModel(catalog, requestBody.model);
+    const adapter = catalogModel ? getAdapter(catalogModel.provider) : null;
 
+    if (!adapter) {
       return new Response(JSON.stringify({
-        error: 'DAILY_MESSAGE_LIMIT_EXCEEDED',
-        type: 'DAILY_MESSAGE_LIMIT_EXCEEDED',
-        message: `Daily message limit reached. You've used ${userTierData.messagesUsedToday}/${userTierData.tierLimits.daily_messages} messages today. Upgrade to Basic for unlimited messages!`,
-        usage: {
-          current: userTierData.messagesUsedToday,
-          limit: userTierData.tierLimits.daily_messages,
-          percentage: Math.round((userTierData.messagesUsedToday / userTierData.tierLimits.daily_messages) * 100),
-          resetTime: resetTime.toISOString()
-        },
-        userTier: userTierData.tier
+        error: 'INVALID_MODEL',
+        type: 'INVALID_MODEL',
+        message: `Model ${requestBody.model} is not supported`
       }), {
-        status: 429,
+        status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    // 3. Monthly token limit check
-    if (userTierData.tokensUsedThisMonth >= userTierData.tierLimits.monthly_tokens) {
-      const resetTime = new Date();
-      resetTime.setMonth(resetTime.getMonth() + 1);
-      resetTime.setDate(new Date(userTierData.billingPeriodStart).getDate());
+    // Extract conversation data; anything but the new turn (e.g. client-side history) is ignored
+    const conversationId = requestBody.conversation_id;
+    const turnError = conversationId ? validateNewTurn(requestBody, user.id) : 'Conversation ID required';
 
+    if (turnError) {
       return new Response(JSON.stringify({
-        error: 'MONTHLY_TOKEN_LIMIT_EXCEEDED',
-        type: 'MONTHLY_LIMIT_EXCEEDED',
-        message: `Monthly token limit exceeded. You've used ${userTierData.tokensUsedThisMonth.toLocaleString()}/${userTierData.tierLimits.monthly_tokens.toLocaleString()} tokens this month. Upgrade for more tokens!`,
-        usage: {
-          current: userTierData.tokensUsedThisMonth,
-          limit: userTierData.tierLimits.monthly_tokens,
-          percentage: Math.round((userTierData.tokensUsedThisMonth / userTierData.tierLimits.monthly_tokens) * 100),
-          resetTime: resetTime.toISOString()
-        },
-        userTier: userTierData.tier
+        error: 'INVALID_REQUEST',
+        type: 'INVALID_REQUEST',
+        message: turnError
       }), {
-        status: 429,
+        status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    // ENHANCED: Validate model with multi-provider support
-    const isAnthropic = isClaudeModel(requestBody.model);
-    const isGemini = isGeminiModel(requestBody.model);
-    const isOpenAI = !isAnthropic && !isGemini;
-
-    let validModels;
-    if (isAnthropic) {
-      validModels = VALID_CLAUDE_MODELS;
-    } else if (isGemini) {
-      validModels = VALID_GEMINI_MODELS;
-    } else {
-      validModels = VALID_OPENAI_MODELS;
+    // CRITICAL: Rebuild the provider history from the database along the branch this turn belongs to
+    const branch = await resolveBranch(supabase, conversationId, user.id, requestBody);
+    if (branch.error) {
+      return new Response(JSON.stringify({
+        error: 'INVALID_REQUEST',
+        type: 'INVALID_REQUEST',
+        message: branch.error
+      }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
     }
+    requestBody.messages = branch.history;
 
-    if (!validModels.includes(requestBody.model)) {
+    // NEW: Images can only be sent to models that accept them
+    if (getImageParts(branch.contentParts).length > 0 && !catalogModel.supportsVision) {
       return new Response(JSON.stringify({
-        error: 'INVALID_MODEL',
-        type: 'INVALID_MODEL',
-        message: `Model ${requestBody.model} is not supported`
+        error: 'VISION_NOT_SUPPORTED',
+        type: 'VISION_NOT_SUPPORTED',
+        message: `${catalogModel.displayName} cannot view images. Choose a vision-capable model or remove the attachments.`
       }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
 
-    // Extract conversation data
-    const conversationId = requestBody.conversation_id;
-    const userMessage = requestBody.messages[requestBody.messages.length - 1];
+    // NEW: Models with tool support may call the built-in tools. Earlier tool turns stay in the
+    // history, so a continuation keeps the tools defined but may not call them; other models
+    // get those turns as plain text.
+    if (catalogModel.supportsTools) {
+      requestBody.tools = getToolDefinitions();
+      requestBody.tool_choice = branch.continueMessageId ? 'none' : undefined;
+    } else {
+      requestBody.tools = undefined;
+      requestBody.tool_choice = undefined;
+      requestBody.messages = withoutToolTurns(requestBody.messages);
+    }
 
-    if (!conversationId || !userMessage || userMessage.role !== 'user') {
+    // NEW: System prompt is assembled server-side; the adapters map it per provider
+    requestBody.system = buildSystemPrompt(userTierData.customInstructions, branch.projectInstructions, branch.systemPrompt) || undefined;
+
+    // NEW: Project conversations get the most relevant chunks of the project's files as context
+    const retrievedChunks = branch.projectId && !branch.continueMessageId
+      ? await retrieveContext(supabase, branch.projectId, user.id, branch.userContent)
+      : [];
+    const sources = toSources(retrievedChunks);
+    const retrievedContext = retrievedChunks.length > 0 ? formatRetrievedContext(retrievedChunks) : '';
+
+    // NEW: Conversation generation parameters, checked against the model's capabilities.
+    // Only validated values reach the adapters; anything else on the body is overwritten.
+    const resolvedParameters = resolveGenerationParameters(catalogModel, requestBody.parameters);
+    if (resolvedParameters.error) {
       return new Response(JSON.stringify({
         error: 'INVALID_REQUEST',
         type: 'INVALID_REQUEST',
-        message: 'Conversation ID and user message required'
+        message: resolvedParameters.error
       }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' }
       });
     }
+    const parameters = resolvedParameters.parameters;
+    requestBody.temperature = parameters.temperature;
+    requestBody.top_p = parameters.top_p;
+    requestBody.reasoning_effort = parameters.reasoning_effort;
+    requestBody.thinking_budget = parameters.thinking_budget;
+
+    const reasoningModel = isReasoningModel(requestBody.model);
+    const defaultOutputTokens = (reasoningModel ? DEFAULT_REASONING_OUTPUT_TOKENS : DEFAULT_OUTPUT_TOKENS) + (parameters.thinking_budget || 0);
+    const requestedOutputTokens = parameters.max_tokens || Math.min(defaultOutputTokens, catalogModel.maxOutputTokens);
+
+    // CRITICAL: Fit the history into the model's context window with the conversation's strategy
+    const fitted = await fitContext(supabase, {
+      conversationId,
+      messages: requestBody.messages,
+      systemTokens: estimateTextTokens([requestBody.system, retrievedContext].filter(Boolean).join('\n\n'))
+        + (requestBody.tools ? estimateTextTokens(JSON.stringify(requestBody.tools)) : 0),
+      catalogModel,
+      outputTokens: requestedOutputTokens,
+      strategy: branch.contextStrategy,
+      summaryMeter: createSummaryMeter(supabase, userTierData, catalog)
+    });
+    if (fitted.error) {
+      return new Response(JSON.stringify({
+        error: 'CONTEXT_TOO_LARGE',
+        type: 'CONTEXT_TOO_LARGE',
+        message: fitted.error
+      }), {
+        status: 413,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+      });
+    }
+    requestBody.messages = fitted.messages;
+    requestBody.system = [
+      requestBody.system,
+      fitted.summary ? formatSummary(fitted.summary) : '',
+      retrievedContext
+    ].filter(Boolean).join('\n\n') || undefined;
+    const contextInfo = {
+      tokens: fitted.contextTokens,
+      window: catalogModel.maxTokens,
+      strategy: fitted.strategy,
+      dropped: fitted.dropped
+    };
 
-    // CRITICAL FIX: Ensure conversation exists before saving messages
-    await ensureConversationExists(supabase, conversationId, user.id);
+    // CRITICAL: Pre-flight budget - estimate the prompt and cap the output to the remaining quota
+    const budget = {
+      promptTokens: estimateTokens(requestBody.messages)
+        + Math.ceil((requestBody.system || '').length / 4)
+        + (catalogModel.supportsVision ? estimateHistoryImageTokens(requestBody.messages, catalogModel.provider) : 0),
+      requestedOutputTokens,
+      minimumOutputTokens: reasoningModel
+        ? MIN_REASONING_OUTPUT_TOKENS
+        : parameters.thinking_budget ? MIN_THINKING_BUDGET + MIN_OUTPUT_TOKENS : MIN_OUTPUT_TOKENS
+    };
+
+    // CRITICAL: Cap concurrent streams per user; the slot is held until the stream ends.
+    // The other columns of a comparison regenerate under its user message and share its slot,
+    // as long as their model is one the comparison was opened with.
+    const streamGroupId = requestBody.compare && requestBody.regenerate ? branch.parentId : null;
+    const streamSlot = await openStream(supabase, user.id, userTierData.tierLimits, requestBody.model, streamGroupId);
+    if (!streamSlot.allowed) {
+      return buildRateLimitedResponse(streamSlot, userTierData);
+    }
+    const streamId = streamSlot.stream_id;
+
+    // CRITICAL: Atomically check daily/monthly limits and reserve this request
+    let reservation;
+    try {
+      reservation = await reserveUsage(supabase, user.id, budget, userTierData.tierLimits);
+    } catch (error) {
+      await closeStream(supabase, streamId);
+      throw error;
+    }
 
-    // CRITICAL: Get next sequence numbers
-    const baseSequence = await getNextSequenceNumber(supabase, conversationId);
-    const userSequence = baseSequence;
-    const aiSequence = baseSequence + 1;
+    const limitResponse = buildLimitExceededResponse(reservation, budget, userTierData);
+    if (limitResponse) {
+      await closeStream(supabase, streamId);
+      return limitResponse;
+    }
 
-    // CRITICAL: Save user message BEFORE AI call
-    const savedUserMessage = await saveUserMessage(
-      supabase, 
-      conversationId, 
-      user.id, 
-      userMessage.content, 
-      userSequence
-    );
+    // Settled by commit_usage / release_usage
+    const reservationId = reservation.reservation_id;
 
-    console.log(`🔄 Routing to ${isGemini ? 'Gemini' : isAnthropic ? 'Anthropic' : 'OpenAI'} API:`, {
+    // Never let the provider generate more than the remaining budget allows
+    if (reservation.output_tokens < budget.requestedOutputTokens) {
+      console.log('✂️ Capping output to remaining budget:', {
+        requested: budget.requestedOutputTokens,
+        capped: reservation.output_tokens
+      });
+    }
+    requestBody.max_tokens = reservation.output_tokens;
+
+    // What this reply is generated with, recorded on the assistant message
+    const sentParameters = { ...parameters, max_tokens: requestBody.max_tokens };
+
+    let savedUserMessage;
+    let aiSequence;
+    // Only a new turn saves a user message and moves the branch tip to it before the reply
+    const savesUserMessage = !branch.continueMessageId && !requestBody.regenerate;
+    // The client drops a turn that fails, so the branch tip goes back to the turn's parent
+    const restoreActiveLeaf = () => savesUserMessage
+      ? setActiveLeaf(supabase, conversationId, branch.parentId)
+      : Promise.resolve();
+    try {
+      // CRITICAL FIX: Ensure conversation exists before saving messages
+      await ensureConversationExists(supabase, conversationId, user.id);
+
+      // NEW: Load image attachments from Storage into the provider history
+      requestBody.messages = await attachImages(supabase, requestBody.messages, catalogModel.supportsVision);
+
+      // CRITICAL: Get next sequence numbers
+      const baseSequence = await getNextSequenceNumber(supabase, conversationId);
+      const userSequence = baseSequence;
+      aiSequence = requestBody.regenerate ? baseSequence : baseSequence + 1;
+
+      if (branch.continueMessageId) {
+        // The continuation is appended to the stopped reply, which stays under its user message
+        savedUserMessage = { id: branch.parentId };
+      } else if (requestBody.regenerate) {
+        // The new reply becomes a sibling of the previous one under the same user message
+        savedUserMessage = { id: branch.parentId };
+      } else {
+        // CRITICAL: Save user message BEFORE AI call
+        savedUserMessage = await saveUserMessage(
+          supabase, 
+          conversationId, 
+          user.id, 
+          branch.userContent, 
+          userSequence,
+          branch.parentId,
+          branch.contentParts
+        );
+        await setActiveLeaf(supabase, conversationId, savedUserMessage.id);
+        if (requestBody.compare) {
+          await setStreamGroup(supabase, streamId, savedUserMessage.id, requestBody.compare_models);
+        }
+      }
+    } catch (error) {
+      await releaseUsage(supabase, user.id, reservationId);
+      await closeStream(supabase, streamId);
+      throw error;
+    }
+
+    console.log(`🔄 Routing to ${adapter.displayName} API:`, {
       model: requestBody.model,
       messageCount: requestBody.messages.length,
       userId: user.id,
       tier: userTierData.tier,
       conversationId,
-      isReasoningModel: isOpenAI && isReasoningModel(requestBody.model),
-      isGeminiModel: isGemini
+      isReasoningModel: isReasoningModel(requestBody.model)
     });
 
     // STREAMING: Process AI response
-    if (requestBody.stream) {
-      console.log('🌊 Starting streaming response...');
-      
-      const stream = new ReadableStream({
-        async start(controller) {
-          try {
-            // ENHANCED: Route to appropriate AI provider
-            let result;
-            if (isGemini) {
-              result = await callGeminiStreamingAPI(requestBody, controller);
-            } else if (isAnthropic) {
-              result = await callAnthropicStreamingAPI(requestBody, controller);
-            } else {
-              result = await callOpenAIStreamingAPI(requestBody, controller);
-            }
+    console.log('🌊 Starting streaming response...');
+
+    let generationId;
+    try {
+      generationId = await createGeneration(supabase, {
+        generationId: requestBody.generation_id,
+        userId: user.id,
+        conversationId,
+        userMessageId: savedUserMessage.id,
+        model: requestBody.model
+      });
+    } catch (error) {
+      await releaseUsage(supabase, user.id, reservationId);
+      await restoreActiveLeaf();
+      await closeStream(supabase, streamId);
+      throw error;
+    }
 
-            console.log('✅ AI response completed:', {
-              provider: isGemini ? 'Gemini' : isAnthropic ? 'Anthropic' : 'OpenAI',
-              contentLength: result.content.length,
-              tokensUsed: result.usage.total_tokens,
-              model: result.model
-            });
-
-            // CRITICAL: Save AI message with usage data
-            const savedAIMessage = await saveAIMessage(
-              supabase,
-              conversationId,
-              result.content,
-              result.model,
-              result.usage,
-              aiSequence
-            );
-
-            // CRITICAL: Update user usage statistics
-            await updateUserUsage(
-              supabase,
-              user.id,
-              result.usage.total_tokens,
-              1 // One message added (user message)
-            );
-
-            // CRITICAL: Update usage tracking
-            await updateUsageTracking(
-              supabase,
-              user.id,
-              result.usage.total_tokens,
-              1,
-              result.model
-            );
-
-            // NEW: Update conversation title if this is the first user message
-            await updateConversationTitle(supabase, conversationId, userMessage.content);
-
-            // NEW: Track model usage in conversation history
-            await updateModelHistory(supabase, conversationId, result.model);
-
-            // Send completion event with message IDs and usage
-            const encoder = new TextEncoder();
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-              type: 'done',
-              content: result.content,
-              usage: result.usage,
-              model: result.model,
-              messageIds: {
-                userMessage: savedUserMessage.id,
-                aiMessage: savedAIMessage.id
-              }
-            })}\n\n`));
-
-            console.log('✅ Streaming completed successfully with full conversation tracking');
-            controller.close();
-
-          } catch (error) {
-            console.error('❌ Streaming error:', error);
-            const encoder = new TextEncoder();
-            
-            // ENHANCED: Better error type classification with Gemini rate limit handling
-            let errorType = 'INTERNAL_ERROR';
-            let userMessage = error.message;
-
-            if (error.message.includes('API key') || error.message.includes('not configured')) {
-              errorType = 'API_CONFIGURATION_ERROR';
-            } else if (error.message.includes('Failed to save') || error.message.includes('Failed to create conversation')) {
-              errorType = 'DATABASE_OPERATION_FAILED';
-            } else if (error.message.includes('rate limit') || error.message.includes('quota') || error.message.includes('Gemini API')) {
-              errorType = 'RATE_LIMIT_EXCEEDED';
-              // Keep the user-friendly message from the Gemini API function
-            } else if (error.message.includes('OpenAI') || error.message.includes('Anthropic') || error.message.includes('reasoning model') || error.message.includes('Claude model')) {
-              errorType = 'AI_SERVICE_ERROR';
-            }
+    // CRITICAL: Generation is decoupled from this connection - if the client goes away the
+    // provider stream keeps running, is persisted, and can be resumed via /resume
+    const client = createClientChannel();
+    const providerAbort = new AbortController();
+    const writer = createGenerationWriter(supabase, generationId, () => providerAbort.abort());
+
+    const stream = new ReadableStream({
+      start(controller) {
+        client.attach(controller);
+        // The user message id lets compare mode answer the same turn with other models
+        client.send({ type: 'generation', generationId, userMessageId: savedUserMessage.id });
+        if (sources.length > 0) {
+          client.send({ type: 'sources', sources });
+        }
+      },
+      cancel() {
+        console.log('🔌 Client disconnected; generation continues in the background:', generationId);
+        client.detach();
+      }
+    });
+
+    const generation = (async () => {
+      let usageCommitted = false;
+      let replySaved = false;
+      try {
+        // A stop sent before the generation existed: give everything back without calling the provider
+        await writer.checkCancel();
+        if (writer.cancelled) {
+          throw new Error('Generation cancelled before it started');
+        }
 
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify({
-              type: 'error',
-              error: errorType,
-              message: userMessage
-            })}\n\n`));
-            controller.close();
+        const startedAt = Date.now();
+        const result = await streamWithTools(adapter, requestBody, {
+          onDelta: ({ content, thinking }) => {
+            // NEW: Reasoning is streamed as its own event and stored apart from the reply
+            if (thinking) {
+              client.send({ type: 'thinking', thinking });
+              writer.appendReasoning(thinking);
+            }
+            if (content) {
+              client.send({ type: 'content', content });
+              writer.append(content);
+            }
+          },
+          // NEW: Tool calls and their results are streamed as steps of the reply
+          onToolCall: (call) => {
+            client.send({ type: 'tool_call', id: call.id, name: call.name, arguments: call.arguments });
+            writer.recordToolStep(call);
+          },
+          onToolResult: (step) => {
+            client.send({ type: 'tool_result', id: step.id, name: step.name, arguments: step.arguments, result: step.result, isError: step.is_error });
+            writer.recordToolStep(step);
           }
+        }, { supabase, userId: user.id, conversationId }, {
+          promptTokens: budget.promptTokens,
+          minimumOutputTokens: budget.minimumOutputTokens,
+          extend: (requestedTokens, minimumTokens) =>
+            extendUsage(supabase, user.id, reservationId, requestedTokens, minimumTokens, userTierData.tierLimits)
+        }, providerAbort.signal);
+        const responseTime = Date.now() - startedAt;
+
+        // Priced from the requested catalog entry; providers may echo a dated model id
+        const cost = calculateCost(catalogModel, result.usage);
+
+        console.log('✅ AI response completed:', {
+          provider: adapter.displayName,
+          contentLength: result.content.length,
+          tokensUsed: result.usage.total_tokens,
+          reasoningTokens: result.usage.reasoning_tokens,
+          toolRounds: result.toolRounds.length,
+          model: result.model,
+          finishReason: result.finishReason,
+          cost,
+          responseTime
+        });
+
+        // CRITICAL: Save AI message with usage data - stopped replies keep their partial text
+        const metrics = {
+          cost,
+          responseTime,
+          finishReason: result.finishReason,
+          parameters: sentParameters,
+          reasoning: result.thinking,
+          toolRounds: result.toolRounds
+        };
+        const savedAIMessage = branch.continueMessageId
+          ? await appendToAIMessage(supabase, branch.continueMessageId, result.content, result.usage, metrics)
+          : await saveAIMessage(
+            supabase,
+            conversationId,
+            result.content,
+            result.model,
+            result.usage,
+            aiSequence,
+            metrics,
+            savedUserMessage.id
+          );
+        replySaved = true;
+        // NEW: Compared replies stay side by side until the user picks one as the branch tip
+        if (!requestBody.compare) {
+          await setActiveLeaf(supabase, conversationId, savedAIMessage.id);
         }
-      });
 
-      return new Response(stream, {
-        headers: {
-          ...corsHeaders,
-          'Content-Type': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive'
+        if (sources.length > 0) {
+          await recordConversationContext(supabase, conversationId, savedAIMessage.id, sources);
         }
-      });
-    }
 
-    // Non-streaming fallback
-    return new Response(JSON.stringify({
-      error: 'STREAMING_ONLY',
-      type: 'STREAMING_ONLY',
-      message: 'This endpoint only supports streaming requests'
-    }), {
-      status: 400,
-      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        // CRITICAL: Record actual usage against the reservation
+        await commitUsage(
+          supabase,
+          user.id,
+          reservationId,
+          result.usage.total_tokens,
+          result.model,
+          cost,
+          requestBody.compare ? 'compare' : 'chat'
+        );
+        usageCommitted = true;
+
+        // NEW: Update conversation title if this is the first user message
+        await updateConversationTitle(supabase, conversationId, branch.userContent);
+
+        // NEW: Track model usage in conversation history
+        await updateModelHistory(supabase, conversationId, result.model);
+
+        // Completion event with message IDs and usage, also replayed to resuming clients
+        const doneEvent = {
+          type: 'done',
+          content: savedAIMessage.content,
+          usage: result.usage,
+          model: result.model,
+          cost,
+          responseTime,
+          finishReason: result.finishReason,
+          parameters: sentParameters,
+          ...(savedAIMessage.reasoning && { reasoning: savedAIMessage.reasoning }),
+          ...(result.toolRounds.length > 0 && { toolRounds: result.toolRounds }),
+          ...(sources.length > 0 && { sources }),
+          context: contextInfo,
+          messageIds: {
+            userMessage: savedUserMessage.id,
+            aiMessage: savedAIMessage.id
+          }
+        };
+        await writer.finish(result.finishReason === 'cancelled' ? 'cancelled' : 'completed', doneEvent, savedAIMessage.id);
+        client.send(doneEvent);
+
+        console.log('✅ Streaming completed successfully with full conversation tracking');
+        client.close();
+
+      } catch (error) {
+        console.error('❌ Streaming error:', error);
+
+        if (!usageCommitted) {
+          await releaseUsage(supabase, user.id, reservationId);
+        }
+        // Compare mode keeps the turn once it is saved; the other columns still answer it
+        if (!replySaved && !requestBody.compare) {
+          await restoreActiveLeaf();
+        }
+        
+        // Provider errors are already classified by their adapter
+        let errorType = 'INTERNAL_ERROR';
+        if (writer.cancelled) {
+          errorType = 'GENERATION_CANCELLED';
+        } else if (error instanceof ProviderError) {
+          errorType = error.type;
+        } else if (error.message.includes('Failed to save') || error.message.includes('Failed to create conversation')) {
+          errorType = 'DATABASE_OPERATION_FAILED';
+        }
+
+        const errorEvent = {
+          type: 'error',
+          error: errorType,
+          message: writer.cancelled ? 'Generation cancelled' : error.message
+        };
+        await writer.finish(writer.cancelled ? 'cancelled' : 'failed', errorEvent);
+        client.send(errorEvent);
+        client.close();
+      } finally {
+        await closeStream(supabase, streamId);
+      }
+    })();
+
+    // Keep the function alive until the generation finishes, even after the response is gone
+    getEdgeRuntime()?.waitUntil(generation);
+
+    return new Response(stream, {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
     });
 
   } catch (error) {
@@ -0,0 +1,76 @@
+// Per-conversation generation parameters, validated against the model's catalog entry.
+// The client sends the conversation's settings with every turn; parameters the model
+// does not support are dropped, values outside its ranges reject the request.
+
+export const REASONING_EFFORTS = ['low', 'medium', 'high'];
+
+// Anthropic requires at least this much thinking budget when extended thinking is on
+export const MIN_THINKING_BUDGET = 1024;
+
+// Anthropic accepts temperature 0-1; OpenAI, Gemini and OpenAI-compatible servers 0-2
+function maxTemperature(catalogModel) {
+  return catalogModel.provider === 'anthropic' ? 1 : 2;
+}
+
+function isNumber(value) {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Normalize the requested parameters for a model. Returns { parameters } with only
+ * the supported keys that were set, or { error } describing the first invalid value.
+ */
+export function resolveGenerationParameters(catalogModel, requested) {
+  if (requested === undefined || requested === null) {
+    return { parameters: {} };
+  }
+  if (typeof requested !== 'object' || Array.isArray(requested)) {
+    return { error: 'parameters must be an object' };
+  }
+
+  const supported = new Set(catalogModel.parameters || []);
+  const parameters = {};
+
+  if (requested.max_tokens !== undefined && supported.has('max_tokens')) {
+    if (!Number.isInteger(requested.max_tokens) || requested.max_tokens < 1 || requested.max_tokens > catalogModel.maxOutputTokens) {
+      return { error: `max_tokens must be a whole number between 1 and ${catalogModel.maxOutputTokens} for ${catalogModel.id}` };
+    }
+    parameters.max_tokens = requested.max_tokens;
+  }
+
+  if (requested.reasoning_effort !== undefined && supported.has('reasoning_effort')) {
+    if (!REASONING_EFFORTS.includes(requested.reasoning_effort)) {
+      return { error: `reasoning_effort must be one of ${REASONING_EFFORTS.join(', ')}` };
+    }
+    parameters.reasoning_effort = requested.reasoning_effort;
+  }
+
+  if (requested.thinking_budget !== undefined && supported.has('thinking_budget')) {
+    const budget = requested.thinking_budget;
+    const ceiling = (parameters.max_tokens || catalogModel.maxOutputTokens) - 1;
+    if (!Number.isInteger(budget) || budget < MIN_THINKING_BUDGET || budget > ceiling) {
+      return { error: `thinking_budget must be a whole number between ${MIN_THINKING_BUDGET} and ${ceiling} (below max_tokens)` };
+    }
+    parameters.thinking_budget = budget;
+  }
+
+  // Extended thinking fixes the sampling parameters, so they are not sent with it
+  const samplingAllowed = parameters.thinking_budget === undefined;
+
+  if (requested.temperature !== undefined && supported.has('temperature') && samplingAllowed) {
+    const ceiling = maxTemperature(catalogModel);
+    if (!isNumber(requested.temperature) || requested.temperature < 0 || requested.temperature > ceiling) {
+      return { error: `temperature must be between 0 and ${ceiling} for ${catalogModel.id}` };
+    }
+    parameters.temperature = requested.temperature;
+  }
+
+  if (requested.top_p !== undefined && supported.has('top_p') && samplingAllowed) {
+    if (!isNumber(requested.top_p) || requested.top_p <= 0 || requested.top_p > 1) {
+      return { error: 'top_p must be greater than 0 and at most 1' };
+    }
+    parameters.top_p = requested.top_p;
+  }
+
+  return { parameters };
+}
@@ -0,0 +1,198 @@
+// Prompt Helper (Smart Prompt Mode) completions: example generation and prompt enhancement.
+// These run after the same authentication, tier and quota checks as chat (see index.ts);
+// the caller passes the output cap granted by the reservation.
+
+export const PROMPT_HELPER_PURPOSES = ['enhance_prompt', 'generate_example'];
+
+export const EXAMPLE_MODEL = 'gpt-4o';
+export const EXAMPLE_MAX_TOKENS = 500;
+
+export const ENHANCEMENT_MODEL = 'gpt-4o-mini';
+export const ENHANCEMENT_MAX_TOKENS = 1500;
+
+// ENHANCED: Advanced prompt engineering for Smart Prompt Mode
+const ENHANCEMENT_SYSTEM_PROMPT = `You are an expert prompt engineer who specializes in creating highly effective prompts for AI systems. Your expertise includes understanding user intent, structuring clear instructions, and applying prompt engineering best practices.
+
+Your task is to transform a user's basic request into a comprehensive, well-structured prompt that will yield superior AI responses.
+
+ENHANCEMENT PRINCIPLES:
+1. **Intent Analysis**: Understand what the user really wants to achieve
+2. **Outcome Definition**: Clearly specify the expected deliverable 
+3. **Context Setting**: Provide relevant background and constraints
+4. **Structure**: Organize the prompt logically with clear sections
+5. **Specificity**: Be precise about format, tone, and requirements
+6. **Task-Specific Optimization**: Tailor approach based on domain (creative, technical, analytical)
+
+ENHANCEMENT PROCESS:
+1. Analyze the user's request to understand their true intent
+2. Identify the specific outcome they need
+3. Determine the best role/persona for the AI to adopt
+4. Structure the prompt with clear sections (context, task, requirements, output format)
+5. Add relevant constraints and quality criteria
+6. Include examples or templates when helpful
+
+TASK TYPE SPECIALIZATIONS:
+- **Creative**: Focus on inspiration, style, audience, mood, creative constraints
+- **Coding**: Specify language, best practices, error handling, documentation, testing
+- **Analysis**: Define methodology, data sources, depth of analysis, presentation format
+- **General**: Ensure clarity, completeness, actionability, and user-focused outcomes
+
+Transform the user's basic request into a prompt that will produce significantly better AI responses. Make it comprehensive but not overwhelming. Focus on clarity and actionability.`;
+
+export function buildEnhancementMessages(userRequest, taskType, userRole, currentPrompt) {
+  return [
+    {
+      role: 'system',
+      content: ENHANCEMENT_SYSTEM_PROMPT
+    },
+    {
+      role: 'user',
+      content: `Please enhance this prompt for better AI results:
+
+TASK TYPE: ${taskType}
+USER ROLE PREFERENCE: ${userRole}
+ORIGINAL REQUEST: "${userRequest}"
+CURRENT BASIC PROMPT: "${currentPrompt}"
+
+Create an enhanced version that follows prompt engineering best practices and will produce significantly better results. Structure it clearly and make it comprehensive yet focused.`
+    }
+  ];
+}
+
+// ENHANCED: Better example generation prompts based on task type
+const EXAMPLE_TASK_PROMPTS = {
+  creative: `Generate a compelling creative writing example that demonstrates:
+- Rich, vivid imagery and sensory details
+- Engaging narrative voice and style
+- Emotional depth and resonance
+- Clear structure and pacing`,
+  
+  coding: `Generate a clean, professional code example that demonstrates:
+- Best practices and clear structure
+- Proper commenting and documentation
+- Efficient, readable implementation
+- Modern coding standards`,
+  
+  analysis: `Generate a structured analytical example that demonstrates:
+- Logical reasoning and clear methodology
+- Data-driven insights and evidence
+- Systematic problem-solving approach
+- Clear conclusions and recommendations`,
+  
+  general: `Generate a helpful, well-structured example that demonstrates:
+- Clear communication and organization
+- Comprehensive coverage of key points
+- Practical, actionable information
+- Professional presentation`
+};
+
+export function buildExampleMessages(userRequest, taskType, exampleNumber = 1) {
+  const prompt = `${EXAMPLE_TASK_PROMPTS[taskType] || EXAMPLE_TASK_PROMPTS.general}
+
+User's specific request: "${userRequest}"
+
+Create Example ${exampleNumber} that directly relates to their request. Make it:
+- Concise but high-quality (under 300 words)
+- Immediately relevant and useful
+- Something they can learn from or build upon
+- Professional but accessible
+
+Focus on showing the style, approach, and quality they should expect.`;
+
+  return [
+    { role: 'user', content: prompt }
+  ];
+}
+
+// ENHANCED: Generate example using GPT-4o for Prompt Helper with better prompts
+export async function generateExample(userRequest, taskType, exampleNumber = 1, maxTokens = EXAMPLE_MAX_TOKENS) {
+  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!openaiApiKey) {
+    throw new Error('OPENAI_API_KEY not configured');
+  }
+
+  console.log('🎯 Generating example with GPT-4o for:', { userRequest, taskType, exampleNumber });
+
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${openaiApiKey}`
+    },
+    body: JSON.stringify({
+      model: EXAMPLE_MODEL, // Use GPT-4o for fast, high-quality examples
+      messages: buildExampleMessages(userRequest, taskType, exampleNumber),
+      max_tokens: maxTokens,
+      temperature: 0.7
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error('❌ GPT-4o example generation error:', response.status, errorData);
+    throw new Error(`Example generation failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const example = data.choices?.[0]?.message?.content;
+
+  if (!example) {
+    throw new Error('No example content generated');
+  }
+
+  console.log('✅ Example generated successfully:', {
+    contentLength: example.length,
+    model: EXAMPLE_MODEL,
+    taskType,
+    exampleNumber
+  });
+
+  return {
+    example: example.trim(),
+    model: EXAMPLE_MODEL,
+    usage: data.usage
+  };
+}
+
+// ENHANCED: Intelligent prompt enhancement for Smart Prompt Mode
+export async function enhancePrompt(userRequest, taskType, userRole, currentPrompt, maxTokens = ENHANCEMENT_MAX_TOKENS) {
+  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!openaiApiKey) {
+    throw new Error('OPENAI_API_KEY not configured');
+  }
+
+  console.log('🎯 Enhancing prompt with advanced prompt engineering');
+
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${openaiApiKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      model: ENHANCEMENT_MODEL, // Use efficient model for enhancement
+      messages: buildEnhancementMessages(userRequest, taskType, userRole, currentPrompt),
+      max_tokens: maxTokens,
+      temperature: 0.3 // Lower temperature for more consistent enhancement
+    })
+  });
+
+  if (!response.ok) {
+    throw new Error(`Enhancement failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const enhancedPrompt = data.choices?.[0]?.message?.content;
+
+  if (!enhancedPrompt) {
+    throw new Error('No enhanced prompt received');
+  }
+
+  console.log('✅ Prompt enhanced successfully');
+
+  return {
+    enhancedPrompt: enhancedPrompt.trim(),
+    model: ENHANCEMENT_MODEL,
+    usage: data.usage
+  };
+}
@@ -0,0 +1,776 @@
+// Provider adapter registry for the chat-completion Edge Function.
+// Each AI provider is described by one adapter; the serve handler never
+// needs to know which provider it is talking to.
+import { estimateImageTokens } from './attachments.ts';
+
+/**
+ * A provider adapter turns our normalized chat request into a provider call
+ * and turns the provider's SSE stream back into our normalized events.
+ *
+ * Adding a provider (Mistral, Groq, a self-hosted endpoint...) means writing
+ * one adapter and registering it in PROVIDER_ADAPTERS below. Which models a
+ * provider serves is data: see model_pricing.provider and catalog.ts.
+ */
+export interface ProviderAdapter {
+  id: string
+  displayName: string
+  // Build the upstream fetch request for a normalized request body
+  // ({ model, messages, system?, max_tokens?, temperature?, top_p?, reasoning_effort?, thinking_budget?,
+  //    tools?, tool_choice? }); messages are { role, content, images? } with images as
+  // { mime_type, data (base64), width, height }. Tool turns are assistant messages with
+  // tool_calls: [{ id, name, arguments }] followed by { role: 'tool', tool_call_id, name, content, result }
+  // messages; tools are { name, description, parameters (JSON Schema) } and tool_choice 'none'
+  // keeps them from being called.
+  buildRequest(requestBody): { url: string; headers: Record<string, string>; body: unknown }
+  // Extract normalized deltas from one parsed SSE `data:` payload: reply text, reasoning
+  // ("thinking") text for models that expose it, and tool call fragments. Fragments with the
+  // same index belong to one call; their arguments (JSON text) are concatenated. truncated is
+  // set by the payload reporting that generation stopped at max_tokens.
+  parseStreamChunk(parsed): { content?: string; thinking?: string; toolCalls?: ToolCallDelta[]; truncated?: boolean }
+  // Merge usage information from one parsed payload into the running usage.
+  // reasoning_tokens is the part of completion_tokens spent on reasoning, when reported
+  extractUsage(parsed, usage): { prompt_tokens: number; completion_tokens: number; total_tokens: number; reasoning_tokens?: number }
+  // Map a failed upstream response to an error type and user-facing message
+  classifyError(status: number, errorText: string, model: string): { type: string; message: string }
+}
+
+// Part of a tool call as streamed; a fragment without index starts a new call
+export interface ToolCallDelta {
+  index?: number
+  id?: string
+  name?: string
+  arguments?: string
+}
+
+/**
+ * Error raised by provider calls. `type` is the error code forwarded to the
+ * client in the SSE `error` event.
+ */
+export class ProviderError extends Error {
+  type: string
+
+  constructor(type: string, message: string) {
+    super(message);
+    this.name = 'ProviderError';
+    this.type = type;
+  }
+}
+
+// Detect OpenAI reasoning models (o-series), which take different parameters
+export function isReasoningModel(modelId) {
+  return !!modelId && (modelId.includes('o1') || modelId.includes('o3') || modelId.includes('o4'));
+}
+
+function requireEnv(name) {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw new ProviderError('API_CONFIGURATION_ERROR', `${name} not configured`);
+  }
+  return value;
+}
+
+const emptyUsage = () => ({ prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, reasoning_tokens: 0 });
+
+// Shared by every adapter speaking the OpenAI chat completions SSE format. Self-hosted
+// servers stream reasoning as delta.reasoning_content (vLLM, DeepSeek) or delta.reasoning (Ollama).
+function parseOpenAIChunk(parsed) {
+  const delta = parsed.choices?.[0]?.delta;
+  return {
+    truncated: parsed.choices?.[0]?.finish_reason === 'length',
+    content: delta?.content,
+    thinking: delta?.reasoning_content || delta?.reasoning,
+    toolCalls: delta?.tool_calls?.map((call) => ({
+      index: call.index,
+      id: call.id,
+      name: call.function?.name,
+      arguments: call.function?.arguments
+    }))
+  };
+}
+
+function extractOpenAIUsage(parsed, usage) {
+  if (!parsed.usage) return usage;
+  return {
+    prompt_tokens: parsed.usage.prompt_tokens || 0,
+    completion_tokens: parsed.usage.completion_tokens || 0,
+    total_tokens: parsed.usage.total_tokens || 0,
+    reasoning_tokens: parsed.usage.completion_tokens_details?.reasoning_tokens || 0
+  };
+}
+
+// OpenAI Responses API events, used for reasoning models: the only OpenAI API that streams
+// summaries of their reasoning. Summary parts after the first are separated by a blank line.
+function parseOpenAIResponsesChunk(parsed) {
+  switch (parsed.type) {
+    case 'response.output_text.delta':
+      return { content: parsed.delta };
+    case 'response.reasoning_summary_text.delta':
+      return { thinking: parsed.delta };
+    case 'response.reasoning_summary_part.added':
+      return parsed.summary_index > 0 ? { thinking: '\n\n' } : {};
+    case 'response.output_item.added':
+      return parsed.item?.type === 'function_call'
+        ? { toolCalls: [{ index: parsed.output_index, id: parsed.item.call_id, name: parsed.item.name }] }
+        : {};
+    case 'response.function_call_arguments.delta':
+      return { toolCalls: [{ index: parsed.output_index, arguments: parsed.delta }] };
+    case 'response.incomplete':
+      return { truncated: parsed.response?.incomplete_details?.reason === 'max_output_tokens' };
+    default:
+      return {};
+  }
+}
+
+// Reported once, with response.completed (or response.incomplete when max tokens was hit)
+function extractOpenAIResponsesUsage(parsed, usage) {
+  const responseUsage = parsed.response?.usage;
+  if (!responseUsage) return usage;
+  return {
+    prompt_tokens: responseUsage.input_tokens || 0,
+    completion_tokens: responseUsage.output_tokens || 0,
+    total_tokens: responseUsage.total_tokens || 0,
+    reasoning_tokens: responseUsage.output_tokens_details?.reasoning_tokens || 0
+  };
+}
+
+// Defaults for parameters the conversation leaves unset
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_REASONING_EFFORT = 'medium';
+
+// Optional fields are left out of provider payloads rather than sent as null
+function definedOnly(fields) {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+// OpenAI-format messages: images become image_url parts with data URLs
+function toOpenAIMessage(message) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.tool_call_id, content: message.content };
+  }
+  if (message.tool_calls?.length) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.tool_calls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    };
+  }
+  if (!message.images?.length) {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: [
+      ...(message.content ? [{ type: 'text', text: message.content }] : []),
+      ...message.images.map((image) => ({
+        type: 'image_url',
+        image_url: { url: `data:${image.mime_type};base64,${image.data}` }
+      }))
+    ]
+  };
+}
+
+// OpenAI-format APIs take the system prompt as the first message
+function buildOpenAIMessages(requestBody) {
+  const messages = requestBody.messages.map(toOpenAIMessage);
+  return requestBody.system
+    ? [{ role: 'system', content: requestBody.system }, ...messages]
+    : messages;
+}
+
+// OpenAI-format tool definitions, and tool_choice when they may not be called
+function buildOpenAITools(requestBody) {
+  if (!requestBody.tools?.length) return {};
+  return {
+    tools: requestBody.tools.map((tool) => ({ type: 'function', function: tool })),
+    ...(requestBody.tool_choice ? { tool_choice: requestBody.tool_choice } : {})
+  };
+}
+
+// Responses API input items: user images become input_image parts with data URLs, tool
+// calls and results are items of their own
+function toResponsesInput(message) {
+  if (message.role === 'tool') {
+    return [{ type: 'function_call_output', call_id: message.tool_call_id, output: message.content }];
+  }
+  if (message.tool_calls?.length) {
+    return [
+      ...(message.content ? [{ role: 'assistant', content: message.content }] : []),
+      ...message.tool_calls.map((call) => ({
+        type: 'function_call',
+        call_id: call.id,
+        name: call.name,
+        arguments: JSON.stringify(call.arguments)
+      }))
+    ];
+  }
+  if (!message.images?.length) {
+    return [{ role: message.role, content: message.content }];
+  }
+  return [{
+    role: message.role,
+    content: [
+      ...(message.content ? [{ type: 'input_text', text: message.content }] : []),
+      ...message.images.map((image) => ({
+        type: 'input_image',
+        image_url: `data:${image.mime_type};base64,${image.data}`
+      }))
+    ]
+  }];
+}
+
+// Anthropic messages: base64 image blocks go before the text they accompany; tool calls are
+// tool_use blocks and their results tool_result blocks in the following user message
+function toAnthropicMessage(message) {
+  if (message.role === 'tool') {
+    return {
+      role: 'user',
+      content: [{
+        type: 'tool_result',
+        tool_use_id: message.tool_call_id,
+        content: message.content,
+        ...(message.is_error ? { is_error: true } : {})
+      }]
+    };
+  }
+  if (message.tool_calls?.length) {
+    return {
+      role: 'assistant',
+      content: [
+        ...(message.content ? [{ type: 'text', text: message.content }] : []),
+        ...message.tool_calls.map((call) => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+      ]
+    };
+  }
+  if (!message.images?.length) {
+    return { role: message.role, content: message.content };
+  }
+  return {
+    role: message.role,
+    content: [
+      ...message.images.map((image) => ({
+        type: 'image',
+        source: { type: 'base64', media_type: image.mime_type, data: image.data }
+      })),
+      ...(message.content ? [{ type: 'text', text: message.content }] : [])
+    ]
+  };
+}
+
+// All results of one round of tool calls go back in a single message, whose blocks are
+// under `key` (content for Anthropic, parts for Gemini)
+function mergeToolResults(messages, key, isToolResult) {
+  return messages.reduce((merged, message) => {
+    const previous = merged[merged.length - 1];
+    if (previous && isToolResult(previous) && isToolResult(message)) {
+      merged[merged.length - 1] = { ...previous, [key]: [...previous[key], ...message[key]] };
+    } else {
+      merged.push(message);
+    }
+    return merged;
+  }, []);
+}
+
+function buildAnthropicMessages(requestBody) {
+  return mergeToolResults(
+    requestBody.messages.map(toAnthropicMessage),
+    'content',
+    (message) => message.role === 'user' && Array.isArray(message.content) && message.content[0]?.type === 'tool_result'
+  );
+}
+
+// Gemini contents: images are inline_data parts, tool calls functionCall parts and their
+// results functionResponse parts (matched by name; Gemini has no call ids)
+function toGeminiContent(message) {
+  if (message.role === 'tool') {
+    const result = message.result && typeof message.result === 'object' ? message.result : { result: message.result };
+    return { role: 'user', parts: [{ functionResponse: { name: message.name, response: result } }] };
+  }
+  return {
+    role: message.role === 'assistant' ? 'model' : 'user',
+    parts: [
+      ...(message.images || []).map((image) => ({
+        inline_data: { mime_type: image.mime_type, data: image.data }
+      })),
+      ...(message.content || (!message.images?.length && !message.tool_calls?.length) ? [{ text: message.content }] : []),
+      ...(message.tool_calls || []).map((call) => ({ functionCall: { name: call.name, args: call.arguments } }))
+    ]
+  };
+}
+
+function buildGeminiContents(requestBody) {
+  return mergeToolResults(
+    requestBody.messages.map(toGeminiContent),
+    'parts',
+    (content) => content.role === 'user' && !!content.parts[0]?.functionResponse
+  );
+}
+
+const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  displayName: 'OpenAI',
+
+  buildRequest(requestBody) {
+    const apiKey = requireEnv('OPENAI_API_KEY');
+
+    const headers = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${apiKey}`
+    };
+
+    // NEW: Reasoning models go through the Responses API, which streams reasoning summaries;
+    // they take max_output_tokens and reject temperature & co.
+    if (isReasoningModel(requestBody.model)) {
+      return {
+        url: 'https://api.openai.com/v1/responses',
+        headers,
+        body: {
+          model: requestBody.model,
+          input: requestBody.messages.flatMap(toResponsesInput),
+          ...(requestBody.system ? { instructions: requestBody.system } : {}),
+          ...(requestBody.tools?.length ? {
+            tools: requestBody.tools.map((tool) => ({ type: 'function', ...tool })),
+            ...(requestBody.tool_choice ? { tool_choice: requestBody.tool_choice } : {})
+          } : {}),
+          max_output_tokens: requestBody.max_tokens || 25000,
+          reasoning: {
+            effort: requestBody.reasoning_effort || DEFAULT_REASONING_EFFORT,
+            summary: 'auto'
+          },
+          stream: true
+        }
+      };
+    }
+
+    return {
+      url: 'https://api.openai.com/v1/chat/completions',
+      headers,
+      body: {
+        model: requestBody.model,
+        messages: buildOpenAIMessages(requestBody),
+        max_tokens: requestBody.max_tokens || 4000,
+        temperature: requestBody.temperature ?? DEFAULT_TEMPERATURE,
+        ...definedOnly({ top_p: requestBody.top_p }),
+        ...buildOpenAITools(requestBody),
+        stream: true,
+        stream_options: { include_usage: true }
+      }
+    };
+  },
+
+  // Responses API events carry a type; chat completion chunks do not
+  parseStreamChunk(parsed) {
+    return parsed.type ? parseOpenAIResponsesChunk(parsed) : parseOpenAIChunk(parsed);
+  },
+
+  extractUsage(parsed, usage) {
+    return parsed.type ? extractOpenAIResponsesUsage(parsed, usage) : extractOpenAIUsage(parsed, usage);
+  },
+
+  classifyError(status, errorText, model) {
+    const isReasoning = isReasoningModel(model);
+    if (status === 429) {
+      return { type: 'RATE_LIMIT_EXCEEDED', message: 'OpenAI rate limit reached. Please try again in a moment.' };
+    } else if (status === 404 && isReasoning) {
+      return { type: 'AI_SERVICE_ERROR', message: `OpenAI reasoning model ${model} not available. This might be a model access or API configuration issue.` };
+    } else if (status === 400 && isReasoning) {
+      return { type: 'AI_SERVICE_ERROR', message: `OpenAI reasoning model ${model} parameter error. Check model availability and API access.` };
+    }
+    return { type: 'AI_SERVICE_ERROR', message: `OpenAI API error: ${status} - ${errorText}` };
+  }
+};
+
+const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  displayName: 'Anthropic',
+
+  buildRequest(requestBody) {
+    const apiKey = requireEnv('ANTHROPIC_API_KEY');
+    const maxTokens = requestBody.max_tokens || 4000;
+
+    // Extended thinking needs budget_tokens >= 1024 and below max_tokens, which the
+    // budget cap may have lowered; sampling parameters cannot be set alongside it.
+    // Calls answering tool results go without it: thinking would need the signed thinking
+    // blocks of the call that asked for the tools.
+    const answeringToolResults = requestBody.messages[requestBody.messages.length - 1]?.role === 'tool';
+    const thinkingBudget = requestBody.thinking_budget && !answeringToolResults ? Math.min(requestBody.thinking_budget, maxTokens - 1) : 0;
+    const sampling = thinkingBudget >= 1024
+      ? { thinking: { type: 'enabled', budget_tokens: thinkingBudget } }
+      : {
+          temperature: requestBody.temperature ?? DEFAULT_TEMPERATURE,
+          ...definedOnly({ top_p: requestBody.top_p })
+        };
+
+    return {
+      url: 'https://api.anthropic.com/v1/messages',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: {
+        model: requestBody.model,
+        max_tokens: maxTokens,
+        // Anthropic takes the system prompt as a top-level field, not a message
+        ...(requestBody.system ? { system: requestBody.system } : {}),
+        messages: buildAnthropicMessages(requestBody),
+        ...sampling,
+        ...(requestBody.tools?.length ? {
+          tools: requestBody.tools.map((tool) => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+          ...(requestBody.tool_choice ? { tool_choice: { type: requestBody.tool_choice } } : {})
+        } : {}),
+        stream: true
+      }
+    };
+  },
+
+  parseStreamChunk(parsed) {
+    if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+      return { content: parsed.delta.text };
+    }
+    // NEW: Extended thinking arrives as thinking blocks before the text
+    if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'thinking_delta') {
+      return { thinking: parsed.delta.thinking };
+    }
+    // NEW: Tool calls are tool_use blocks whose input streams as JSON fragments
+    if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+      return { toolCalls: [{ index: parsed.index, id: parsed.content_block.id, name: parsed.content_block.name }] };
+    }
+    if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
+      return { toolCalls: [{ index: parsed.index, arguments: parsed.delta.partial_json }] };
+    }
+    if (parsed.type === 'message_delta') {
+      return { truncated: parsed.delta?.stop_reason === 'max_tokens' };
+    }
+    return {};
+  },
+
+  extractUsage(parsed, usage) {
+    // Input tokens arrive with message_start, output tokens with message_delta
+    const inputTokens = parsed.type === 'message_start'
+      ? parsed.message?.usage?.input_tokens || 0
+      : usage.prompt_tokens;
+    const outputTokens = parsed.type === 'message_delta' && parsed.usage?.output_tokens !== undefined
+      ? parsed.usage.output_tokens
+      : usage.completion_tokens;
+
+    // Thinking is billed as output but not reported separately; streamFromProvider estimates it
+    return {
+      prompt_tokens: inputTokens,
+      completion_tokens: outputTokens,
+      total_tokens: inputTokens + outputTokens
+    };
+  },
+
+  classifyError(status, errorText, model) {
+    if (status === 429 || status === 529) {
+      return { type: 'RATE_LIMIT_EXCEEDED', message: 'Anthropic is rate limiting or overloaded. Please try again in a moment.' };
+    } else if (status === 404) {
+      return { type: 'AI_SERVICE_ERROR', message: `Claude model ${model} not available. This might be a model access or API configuration issue.` };
+    } else if (status === 400) {
+      return { type: 'AI_SERVICE_ERROR', message: `Claude model ${model} parameter error. Check model availability and API access.` };
+    }
+    return { type: 'AI_SERVICE_ERROR', message: `Anthropic API error: ${status} - ${errorText}` };
+  }
+};
+
+// Gemini 2.5 models think by default and only return thought summaries when asked
+function isGeminiThinkingModel(modelId) {
+  return !!modelId && modelId.includes('2.5');
+}
+
+const geminiAdapter: ProviderAdapter = {
+  id: 'google',
+  displayName: 'Gemini',
+
+  buildRequest(requestBody) {
+    const apiKey = requireEnv('GEMINI_API_KEY');
+
+    return {
+      // alt=sse switches Gemini to Server-Sent Events framing
+      url: `https://generativelanguage.googleapis.com/v1beta/models/${requestBody.model}:streamGenerateContent?alt=sse&key=${apiKey}`,
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: {
+        contents: buildGeminiContents(requestBody),
+        ...(requestBody.system ? { systemInstruction: { parts: [{ text: requestBody.system }] } } : {}),
+        ...(requestBody.tools?.length ? {
+          tools: [{ functionDeclarations: requestBody.tools }],
+          ...(requestBody.tool_choice === 'none' ? { toolConfig: { functionCallingConfig: { mode: 'NONE' } } } : {})
+        } : {}),
+        generationConfig: {
+          maxOutputTokens: requestBody.max_tokens || 4000,
+          temperature: requestBody.temperature ?? DEFAULT_TEMPERATURE,
+          ...definedOnly({ topP: requestBody.top_p }),
+          ...(isGeminiThinkingModel(requestBody.model) ? { thinkingConfig: { includeThoughts: true } } : {})
+        }
+      }
+    };
+  },
+
+  // Thought summaries are parts flagged with thought: true; function calls arrive whole
+  parseStreamChunk(parsed) {
+    const truncated = parsed.candidates?.[0]?.finishReason === 'MAX_TOKENS';
+    const parts = parsed.candidates?.[0]?.content?.parts || [];
+    const content = parts.filter((part) => !part.thought).map((part) => part.text || '').join('');
+    const thinking = parts.filter((part) => part.thought).map((part) => part.text || '').join('');
+    const toolCalls = parts
+      .filter((part) => part.functionCall)
+      .map((part) => ({ name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args || {}) }));
+    return { content, thinking, toolCalls, truncated };
+  },
+
+  // Thinking tokens are billed as output but reported apart from candidatesTokenCount
+  extractUsage(parsed, usage) {
+    if (!parsed.usageMetadata) return usage;
+    const thoughtsTokens = parsed.usageMetadata.thoughtsTokenCount || 0;
+    return {
+      prompt_tokens: parsed.usageMetadata.promptTokenCount || 0,
+      completion_tokens: (parsed.usageMetadata.candidatesTokenCount || 0) + thoughtsTokens,
+      total_tokens: parsed.usageMetadata.totalTokenCount || 0,
+      reasoning_tokens: thoughtsTokens
+    };
+  },
+
+  classifyError(status, errorText, model) {
+    if (status === 429 || errorText.includes('quota') || errorText.includes('rate limit')) {
+      return { type: 'RATE_LIMIT_EXCEEDED', message: "We've hit Gemini API rate limits! Please try again in a few minutes, or use a different model like GPT-4o-mini or Claude 3.5 Haiku." };
+    } else if (status === 404) {
+      return { type: 'AI_SERVICE_ERROR', message: `Gemini model ${model} not available. This might be a model access or API configuration issue.` };
+    }
+    return { type: 'AI_SERVICE_ERROR', message: `Gemini API error: ${status} - ${errorText}` };
+  }
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API (vLLM, Ollama,
+ * llama.cpp, LM Studio, internal gateways). Configured with:
+ *   OPENAI_COMPATIBLE_BASE_URL - e.g. http://localhost:11434/v1
+ *   OPENAI_COMPATIBLE_API_KEY  - optional bearer token
+ * Models are added as model_pricing rows with provider 'openai-compatible'.
+ */
+const openaiCompatibleAdapter: ProviderAdapter = {
+  id: 'openai-compatible',
+  displayName: 'OpenAI-compatible',
+
+  buildRequest(requestBody) {
+    const baseUrl = requireEnv('OPENAI_COMPATIBLE_BASE_URL').replace(/\/+$/, '');
+    const apiKey = Deno.env.get('OPENAI_COMPATIBLE_API_KEY');
+
+    return {
+      url: `${baseUrl}/chat/completions`,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      },
+      body: {
+        model: requestBody.model,
+        messages: buildOpenAIMessages(requestBody),
+        max_tokens: requestBody.max_tokens || 4000,
+        temperature: requestBody.temperature ?? DEFAULT_TEMPERATURE,
+        ...definedOnly({ top_p: requestBody.top_p }),
+        ...buildOpenAITools(requestBody),
+        stream: true,
+        stream_options: { include_usage: true }
+      }
+    };
+  },
+
+  parseStreamChunk: parseOpenAIChunk,
+  extractUsage: extractOpenAIUsage,
+
+  classifyError(status, errorText, model) {
+    if (status === 429) {
+      return { type: 'RATE_LIMIT_EXCEEDED', message: 'The self-hosted model server is busy. Please try again in a moment.' };
+    } else if (status === 404) {
+      return { type: 'AI_SERVICE_ERROR', message: `Model ${model} is not served by the configured OpenAI-compatible endpoint.` };
+    }
+    return { type: 'AI_SERVICE_ERROR', message: `OpenAI-compatible endpoint error: ${status} - ${errorText}` };
+  }
+};
+
+// Registry keyed by provider id (matches AIModel.provider on the frontend)
+export const PROVIDER_ADAPTERS: Record<string, ProviderAdapter> = {
+  [openaiAdapter.id]: openaiAdapter,
+  [anthropicAdapter.id]: anthropicAdapter,
+  [geminiAdapter.id]: geminiAdapter,
+  [openaiCompatibleAdapter.id]: openaiCompatibleAdapter
+};
+
+/**
+ * Find the adapter for a catalog provider id, or null if none is registered
+ */
+export function getAdapter(providerId) {
+  return PROVIDER_ADAPTERS[providerId] || null;
+}
+
+// Estimate usage the provider did not report (~4 characters per token, images by size)
+function estimateUsage(requestBody, content, thinking, providerId) {
+  const characters = requestBody.messages.reduce((sum, message) => sum + (message.content || '').length, (requestBody.system || '').length);
+  const imageTokens = requestBody.messages.reduce((sum, message) => {
+    return sum + (message.images || []).reduce((total, image) => total + estimateImageTokens(image, providerId), 0);
+  }, 0);
+  const estimatedPromptTokens = Math.ceil(characters / 4) + imageTokens;
+  const estimatedCompletionTokens = Math.ceil((content.length + thinking.length) / 4);
+  return {
+    prompt_tokens: estimatedPromptTokens,
+    completion_tokens: estimatedCompletionTokens,
+    total_tokens: estimatedPromptTokens + estimatedCompletionTokens,
+    reasoning_tokens: Math.ceil(thinking.length / 4)
+  };
+}
+
+// Tool call arguments are JSON text; anything but an object is reported to the model as invalid
+function parseToolArguments(text) {
+  if (!text.trim()) return {};
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Call a provider with streaming enabled, passing each normalized delta
+ * ({ content?, thinking? }) to `onDelta`. Returns the full content, the
+ * reasoning text, the tool calls the model made ({ id, name, arguments }),
+ * usage and finish reason ('tool_calls' when it stopped to call tools, 'length' when
+ * it was cut off at max_tokens).
+ * Aborting `signal` stops the upstream request; what was generated so far is
+ * returned with finishReason 'cancelled' (usage is estimated, since providers
+ * report it only at the end of a stream).
+ */
+export async function streamFromProvider(adapter: ProviderAdapter, requestBody, onDelta: (delta: { content?: string; thinking?: string }) => void, signal?: AbortSignal) {
+  console.log(`🌊 Streaming ${adapter.displayName} API with model:`, requestBody.model);
+
+  const cancelledResult = (content, thinking) => ({
+    content,
+    thinking,
+    toolCalls: [],
+    usage: estimateUsage(requestBody, content, thinking, adapter.id),
+    model: requestBody.model,
+    provider: adapter.id,
+    finishReason: 'cancelled'
+  });
+
+  const { url, headers, body } = adapter.buildRequest(requestBody);
+  let response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (signal?.aborted) {
+      return cancelledResult('', '');
+    }
+    throw error;
+  }
+
+  if (!response.ok) {
+    const errorData = await response.text();
+    console.error(`❌ ${adapter.displayName} API error:`, response.status, errorData);
+    const { type, message } = adapter.classifyError(response.status, errorData, requestBody.model);
+    throw new ProviderError(type, message);
+  }
+
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new ProviderError('AI_SERVICE_ERROR', 'No response body reader available');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let totalContent = '';
+  let totalThinking = '';
+  let usage = emptyUsage();
+  // Tool calls by stream index; fragments without one get their own entry
+  const toolCalls = new Map();
+  let truncated = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+        const data = line.slice(6);
+        if (data === '[DONE]') continue;
+
+        let parsed;
+        try {
+          parsed = JSON.parse(data);
+        } catch {
+          continue; // Skip malformed JSON
+        }
+
+        const { content, thinking, toolCalls: toolCallDeltas, truncated: chunkTruncated } = adapter.parseStreamChunk(parsed);
+        truncated = truncated || !!chunkTruncated;
+        if (thinking) {
+          totalThinking += thinking;
+          onDelta({ thinking });
+        }
+        if (content) {
+          totalContent += content;
+          onDelta({ content });
+        }
+        for (const delta of toolCallDeltas || []) {
+          const key = delta.index ?? `call-${toolCalls.size}`;
+          const call = toolCalls.get(key) || { id: '', name: '', arguments: '' };
+          call.id = delta.id || call.id;
+          call.name = delta.name || call.name;
+          call.arguments += delta.arguments || '';
+          toolCalls.set(key, call);
+        }
+
+        usage = adapter.extractUsage(parsed, usage);
+      }
+    }
+
+    // Estimate usage if the provider did not report it
+    if (usage.total_tokens === 0) {
+      usage = estimateUsage(requestBody, totalContent, totalThinking, adapter.id);
+    }
+
+    // Providers that count thinking as plain output: estimate its share from the text
+    if (!usage.reasoning_tokens && totalThinking) {
+      usage = { ...usage, reasoning_tokens: Math.min(Math.ceil(totalThinking.length / 4), usage.completion_tokens) };
+    }
+
+    const calls = [...toolCalls.values()].map((call) => ({
+      id: call.id || `call_${crypto.randomUUID()}`,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments)
+    }));
+
+    return {
+      content: totalContent,
+      thinking: totalThinking,
+      toolCalls: calls,
+      usage,
+      model: requestBody.model,
+      provider: adapter.id,
+      // A reply cut off at max_tokens may end in an incomplete tool call; it is not run
+      finishReason: truncated ? 'length' : calls.length > 0 ? 'tool_calls' : 'stop'
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      return cancelledResult(totalContent, totalThinking);
+    }
+    throw error;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,184 @@
+// Retrieval over project documents: documents are split into overlapping chunks, embedded
+// (see embeddings.ts) and stored in project_documents.vector_embeddings. At send time the
+// chunks closest to the user turn are injected as context and recorded in conversation_context.
+import { cosineSimilarity } from './embeddings.ts';
+
+// Chunks aim for this many characters, breaking on paragraphs, then lines, then sentences
+const CHUNK_CHARS = 1200;
+const CHUNK_OVERLAP_CHARS = 200;
+
+export const RETRIEVAL_TOP_K = 5;
+// Chunks less similar than this are not worth the tokens
+const MIN_SIMILARITY = 0.2;
+// Characters of each chunk kept in the sources shown to the user
+const EXCERPT_CHARS = 300;
+
+function findBreak(text, start, end) {
+  const window = text.slice(start, end);
+  for (const separator of ['\n\n', '\n', '. ']) {
+    const index = window.lastIndexOf(separator);
+    if (index > CHUNK_CHARS / 2) {
+      return start + index + separator.length;
+    }
+  }
+  return end;
+}
+
+/**
+ * Split text into chunks of about CHUNK_CHARS that overlap by CHUNK_OVERLAP_CHARS,
+ * preferring paragraph and sentence boundaries.
+ */
+export function chunkText(text) {
+  const chunks = [];
+  const normalized = (text || '').trim();
+  let start = 0;
+
+  while (start < normalized.length) {
+    const end = normalized.length - start <= CHUNK_CHARS
+      ? normalized.length
+      : findBreak(normalized, start, start + CHUNK_CHARS);
+    const chunk = normalized.slice(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - CHUNK_OVERLAP_CHARS, start + 1);
+  }
+  return chunks;
+}
+
+// Five decimals are plenty for ranking and keep the stored JSON small
+function roundVector(vector) {
+  return vector.map((value) => Math.round(value * 1e5) / 1e5);
+}
+
+/**
+ * Chunk and embed one project document, storing the result as
+ * { embedder, dimensions, chunks: [{ text, embedding }] }.
+ */
+export async function embedProjectDocument(supabase, document, embedder) {
+  const chunks = chunkText(document.content);
+  const embeddings = chunks.length > 0 ? await embedder.embed(chunks) : [];
+  const vectorEmbeddings = {
+    embedder: embedder.id,
+    dimensions: embedder.dimensions,
+    chunks: chunks.map((text, index) => ({ text, embedding: roundVector(embeddings[index]) }))
+  };
+
+  const { error } = await supabase
+    .from('project_documents')
+    .update({ vector_embeddings: vectorEmbeddings, processed_at: new Date().toISOString() })
+    .eq('id', document.id);
+
+  if (error) {
+    throw new Error(`Failed to save document embeddings: ${error.message}`);
+  }
+
+  console.log('🧮 Document embedded:', { documentId: document.id, chunks: chunks.length, embedder: embedder.id });
+  return vectorEmbeddings;
+}
+
+/**
+ * Load a project document the user owns, or null
+ */
+export async function loadProjectDocument(supabase, documentId, userId) {
+  const { data, error } = await supabase
+    .from('project_documents')
+    .select('id, project_id, filename, content, projects!inner(user_id)')
+    .eq('id', documentId)
+    .eq('projects.user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load project document: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * The RETRIEVAL_TOP_K chunks of a project's documents most similar to the query, as
+ * [{ document_id, filename, chunk_index, text, score }]. Only projects the user owns
+ * are searched. Documents not yet embedded with this embedder are embedded first.
+ */
+export async function retrieveProjectChunks(supabase, projectId, userId, query, embedder) {
+  if (!query?.trim()) return [];
+
+  const { data: documents, error } = await supabase
+    .from('project_documents')
+    .select('id, filename, content, vector_embeddings, projects!inner(user_id)')
+    .eq('project_id', projectId)
+    .eq('projects.user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load project documents: ${error.message}`);
+  }
+  if (!documents?.length) return [];
+
+  const [queryEmbedding] = await embedder.embed([query]);
+  const candidates = [];
+
+  for (const document of documents) {
+    let vectorEmbeddings = document.vector_embeddings;
+    if (vectorEmbeddings?.embedder !== embedder.id) {
+      vectorEmbeddings = await embedProjectDocument(supabase, document, embedder);
+    }
+
+    vectorEmbeddings.chunks.forEach((chunk, index) => {
+      candidates.push({
+        document_id: document.id,
+        filename: document.filename,
+        chunk_index: index,
+        text: chunk.text,
+        score: cosineSimilarity(queryEmbedding, chunk.embedding)
+      });
+    });
+  }
+
+  return candidates
+    .filter((candidate) => candidate.score >= MIN_SIMILARITY)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, RETRIEVAL_TOP_K);
+}
+
+/**
+ * Retrieved chunks as a system prompt section the model can cite as [n]
+ */
+export function formatRetrievedContext(chunks) {
+  const excerpts = chunks.map((chunk, index) => (
+    `[${index + 1}] ${chunk.filename} (part ${chunk.chunk_index + 1})\n${chunk.text}`
+  ));
+  return [
+    'Excerpts from the project\'s files that may help with the user\'s latest message. ' +
+    'Use them where relevant and cite them as [1], [2], ... after the statements they support. ' +
+    'If they do not answer the question, say so rather than guessing.',
+    ...excerpts
+  ].join('\n\n');
+}
+
+/**
+ * The sources sent to the client and stored in conversation_context.search_results
+ */
+export function toSources(chunks) {
+  return chunks.map((chunk, index) => ({
+    index: index + 1,
+    document_id: chunk.document_id,
+    filename: chunk.filename,
+    chunk_index: chunk.chunk_index,
+    score: Math.round(chunk.score * 1000) / 1000,
+    excerpt: chunk.text.length > EXCERPT_CHARS ? `${chunk.text.slice(0, EXCERPT_CHARS)}…` : chunk.text
+  }));
+}
+
+// Record which chunks a reply was generated with; a failure here never fails the reply
+export async function recordConversationContext(supabase, conversationId, messageId, sources) {
+  const { error } = await supabase
+    .from('conversation_context')
+    .insert({
+      conversation_id: conversationId,
+      message_id: messageId,
+      document_ids: [...new Set(sources.map((source) => source.document_id))],
+      search_results: sources
+    });
+
+  if (error) {
+    console.error('⚠️ Failed to record conversation context:', error);
+  }
+}
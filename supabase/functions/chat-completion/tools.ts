@@ -0,0 +1,548 @@
+// Tool calling: built-in tools the model may call while answering, and the loop that runs
+// them. Tools are described once in a normalized form ({ name, description, parameters as
+// JSON Schema }) that each provider adapter translates; they run here in the Edge Function,
+// only compute or read the calling user's own data, and never reach the network.
+//
+// A reply that used tools is stored as one assistant message whose tool_rounds hold each
+// model call that ended in tool calls: [{ content, calls: [{ id, name, arguments, result,
+// is_error }] }]. content is the text that call wrote, a prefix of the message content.
+import { streamFromProvider } from './providers.ts';
+import { estimateMessageTokens } from './context.ts';
+
+// Most model calls in one reply; the last one is not allowed to call tools
+export const MAX_TOOL_ROUNDS = 5;
+
+const MAX_EXPRESSION_CHARS = 500;
+const MAX_SEARCH_RESULTS = 10;
+const DEFAULT_SEARCH_RESULTS = 5;
+const SEARCH_EXCERPT_CHARS = 300;
+
+// ---------------------------------------------------------------------------
+// Calculator: a small recursive-descent parser, never eval
+
+const CALCULATOR_FUNCTIONS = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: Math.round,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  exp: Math.exp,
+  ln: Math.log,
+  log: Math.log10,
+  log2: Math.log2,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan
+};
+
+const CALCULATOR_CONSTANTS = { pi: Math.PI, e: Math.E };
+
+function tokenizeExpression(expression) {
+  const tokens = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),]))/giy;
+  let index = 0;
+  while (index < expression.length) {
+    if (!expression.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new Error(`Unexpected character "${expression.slice(index).trim()[0]}"`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: Number(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'operator', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+  return tokens;
+}
+
+// expression := term (('+' | '-') term)*
+// term       := unary (('*' | '/' | '%') unary)*
+// unary      := ('-' | '+') unary | power
+// power      := primary ('^' unary)?          (right associative)
+// primary    := number | constant | function '(' expression ')' | '(' expression ')'
+export function evaluateExpression(expression) {
+  const tokens = tokenizeExpression(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const accept = (value) => {
+    if (peek()?.type === 'operator' && peek().value === value) {
+      position++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (value) => {
+    if (!accept(value)) throw new Error(`Expected "${value}"`);
+  };
+
+  const parseExpression = () => {
+    let value = parseTerm();
+    while (true) {
+      if (accept('+')) value += parseTerm();
+      else if (accept('-')) value -= parseTerm();
+      else return value;
+    }
+  };
+
+  const parseTerm = () => {
+    let value = parseUnary();
+    while (true) {
+      if (accept('*')) value *= parseUnary();
+      else if (accept('/')) value /= parseUnary();
+      else if (accept('%')) value %= parseUnary();
+      else return value;
+    }
+  };
+
+  const parseUnary = () => {
+    if (accept('-')) return -parseUnary();
+    if (accept('+')) return parseUnary();
+    return parsePower();
+  };
+
+  const parsePower = () => {
+    const base = parsePrimary();
+    return accept('^') ? Math.pow(base, parseUnary()) : base;
+  };
+
+  const parsePrimary = () => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of expression');
+
+    if (token.type === 'number') {
+      position++;
+      return token.value;
+    }
+    if (token.type === 'name') {
+      position++;
+      if (token.value in CALCULATOR_CONSTANTS) return CALCULATOR_CONSTANTS[token.value];
+      const fn = CALCULATOR_FUNCTIONS[token.value];
+      if (!fn) throw new Error(`Unknown function or constant "${token.value}"`);
+      expect('(');
+      const argument = parseExpression();
+      expect(')');
+      return fn(argument);
+    }
+    if (accept('(')) {
+      const value = parseExpression();
+      expect(')');
+      return value;
+    }
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) {
+    throw new Error(`Unexpected "${tokens[position].value}"`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new Error('The result is not a finite number');
+  }
+  return value;
+}
+
+// ---------------------------------------------------------------------------
+// Unit conversion: factors to each category's base unit
+
+const UNIT_CATEGORIES = {
+  length: { m: 1, mm: 0.001, cm: 0.01, km: 1000, in: 0.0254, ft: 0.3048, yd: 0.9144, mi: 1609.344, nmi: 1852 },
+  mass: { kg: 1, mg: 0.000001, g: 0.001, t: 1000, oz: 0.028349523125, lb: 0.45359237, st: 6.35029318 },
+  volume: {
+    l: 1, ml: 0.001, m3: 1000, tsp: 0.00492892159375, tbsp: 0.01478676478125,
+    floz: 0.0295735295625, cup: 0.2365882365, pt: 0.473176473, qt: 0.946352946, gal: 3.785411784
+  },
+  area: { m2: 1, cm2: 0.0001, km2: 1000000, ha: 10000, acre: 4046.8564224, ft2: 0.09290304, in2: 0.00064516, mi2: 2589988.110336 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, knot: 1852 / 3600, 'ft/s': 0.3048 },
+  time: { s: 1, ms: 0.001, min: 60, h: 3600, d: 86400, wk: 604800, yr: 31557600 },
+  data: {
+    byte: 1, bit: 0.125, kb: 1000, mb: 1000000, gb: 1000000000, tb: 1000000000000,
+    kib: 1024, mib: 1048576, gib: 1073741824, tib: 1099511627776
+  }
+};
+
+const TEMPERATURE_UNITS = ['c', 'f', 'k'];
+
+const UNIT_ALIASES = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm', millimeter: 'mm', millimeters: 'mm',
+  centimeter: 'cm', centimeters: 'cm', kilometer: 'km', kilometers: 'km', inch: 'in', inches: 'in',
+  foot: 'ft', feet: 'ft', yard: 'yd', yards: 'yd', mile: 'mi', miles: 'mi', 'nautical mile': 'nmi',
+  kilogram: 'kg', kilograms: 'kg', milligram: 'mg', milligrams: 'mg', gram: 'g', grams: 'g',
+  tonne: 't', tonnes: 't', ounce: 'oz', ounces: 'oz', pound: 'lb', pounds: 'lb', lbs: 'lb', stone: 'st',
+  liter: 'l', liters: 'l', litre: 'l', litres: 'l', milliliter: 'ml', milliliters: 'ml',
+  'cubic meter': 'm3', teaspoon: 'tsp', tablespoon: 'tbsp', 'fl oz': 'floz', 'fluid ounce': 'floz',
+  cups: 'cup', pint: 'pt', pints: 'pt', quart: 'qt', quarts: 'qt', gallon: 'gal', gallons: 'gal',
+  'square meter': 'm2', 'square kilometer': 'km2', hectare: 'ha', hectares: 'ha', acres: 'acre',
+  'square foot': 'ft2', 'square feet': 'ft2', 'square inch': 'in2', 'square mile': 'mi2',
+  kph: 'km/h', kmh: 'km/h', knots: 'knot', kn: 'knot', fps: 'ft/s',
+  second: 's', seconds: 's', sec: 's', millisecond: 'ms', milliseconds: 'ms', minute: 'min', minutes: 'min',
+  hour: 'h', hours: 'h', hr: 'h', day: 'd', days: 'd', week: 'wk', weeks: 'wk', year: 'yr', years: 'yr',
+  bytes: 'byte', b: 'byte', bits: 'bit', kilobyte: 'kb', megabyte: 'mb', gigabyte: 'gb', terabyte: 'tb',
+  kibibyte: 'kib', mebibyte: 'mib', gibibyte: 'gib', tebibyte: 'tib',
+  celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f', kelvin: 'k'
+};
+
+function normalizeUnit(unit) {
+  const key = String(unit).trim().toLowerCase().replace(/\s+/g, ' ');
+  return UNIT_ALIASES[key] || UNIT_ALIASES[key.replace(/s$/, '')] || key;
+}
+
+function toCelsius(value, unit) {
+  if (unit === 'f') return (value - 32) * 5 / 9;
+  if (unit === 'k') return value - 273.15;
+  return value;
+}
+
+function fromCelsius(value, unit) {
+  if (unit === 'f') return value * 9 / 5 + 32;
+  if (unit === 'k') return value + 273.15;
+  return value;
+}
+
+export function convertUnits(value, from, to) {
+  const fromUnit = normalizeUnit(from);
+  const toUnit = normalizeUnit(to);
+
+  if (TEMPERATURE_UNITS.includes(fromUnit) || TEMPERATURE_UNITS.includes(toUnit)) {
+    if (!TEMPERATURE_UNITS.includes(fromUnit) || !TEMPERATURE_UNITS.includes(toUnit)) {
+      throw new Error(`Cannot convert ${from} to ${to}`);
+    }
+    return { value: fromCelsius(toCelsius(value, fromUnit), toUnit), category: 'temperature' };
+  }
+
+  for (const [category, units] of Object.entries(UNIT_CATEGORIES)) {
+    if (fromUnit in units && toUnit in units) {
+      return { value: value * units[fromUnit] / units[toUnit], category };
+    }
+  }
+
+  const known = (unit) => unit in UNIT_ALIASES || Object.values(UNIT_CATEGORIES).some((units) => unit in units);
+  if (!known(fromUnit)) throw new Error(`Unknown unit "${from}"`);
+  if (!known(toUnit)) throw new Error(`Unknown unit "${to}"`);
+  throw new Error(`Cannot convert ${from} to ${to}`);
+}
+
+// ---------------------------------------------------------------------------
+// Conversation search
+
+// Escape LIKE wildcards so the query matches literally
+function escapeLikePattern(text) {
+  return text.replace(/[\\%_]/g, (character) => `\\${character}`);
+}
+
+function excerptAround(content, query) {
+  const index = content.toLowerCase().indexOf(query.toLowerCase());
+  const start = Math.max(0, index - Math.floor(SEARCH_EXCERPT_CHARS / 3));
+  const excerpt = content.slice(start, start + SEARCH_EXCERPT_CHARS).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${excerpt}${start + SEARCH_EXCERPT_CHARS < content.length ? '…' : ''}`;
+}
+
+async function searchConversations(supabase, { userId, conversationId }, query, limit) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('content, role, created_at, conversation_id, conversations!inner(title, user_id)')
+    .eq('conversations.user_id', userId)
+    .neq('conversation_id', conversationId)
+    .ilike('content', `%${escapeLikePattern(query)}%`)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Search failed: ${error.message}`);
+  }
+
+  return (data || []).map((message) => ({
+    conversation: message.conversations?.title || 'Untitled',
+    role: message.role,
+    date: message.created_at.split('T')[0],
+    excerpt: excerptAround(message.content, query)
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+
+const BUILT_IN_TOOLS = [
+  {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, the constants pi and e, and the functions sqrt, cbrt, abs, round, floor, ceil, exp, ln, log (base 10), log2, sin, cos, tan, asin, acos, atan (radians). Use it for any calculation instead of computing in your head.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression, e.g. "(17.5 * 3) ^ 2 / sqrt(2)"' }
+      },
+      required: ['expression']
+    },
+    execute({ expression }) {
+      if (typeof expression !== 'string' || !expression.trim()) {
+        throw new Error('expression must be a non-empty string');
+      }
+      if (expression.length > MAX_EXPRESSION_CHARS) {
+        throw new Error(`expression is too long (maximum ${MAX_EXPRESSION_CHARS} characters)`);
+      }
+      return { expression, result: evaluateExpression(expression) };
+    }
+  },
+  {
+    name: 'current_datetime',
+    description: 'Get the current date and time, optionally in a given IANA time zone. Use it whenever the answer depends on today\'s date or the time.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA time zone such as "Europe/Paris" or "America/New_York"; defaults to UTC' }
+      }
+    },
+    execute({ timezone }) {
+      const timeZone = typeof timezone === 'string' && timezone.trim() ? timezone.trim() : 'UTC';
+      const now = new Date();
+      let local;
+      try {
+        local = new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+      } catch {
+        throw new Error(`Unknown time zone "${timeZone}"`);
+      }
+      return { timezone: timeZone, local, iso: now.toISOString(), unix: Math.floor(now.getTime() / 1000) };
+    }
+  },
+  {
+    name: 'convert_units',
+    description: 'Convert a value between units of length (mm, cm, m, km, in, ft, yd, mi, nmi), mass (mg, g, kg, t, oz, lb, st), volume (ml, l, m3, tsp, tbsp, floz, cup, pt, qt, gal; US measures), area (cm2, m2, km2, ha, acre, in2, ft2, mi2), speed (m/s, km/h, mph, knot, ft/s), time (ms, s, min, h, d, wk, yr), data (bit, byte, kb, mb, gb, tb, kib, mib, gib, tib) or temperature (c, f, k).',
+    parameters: {
+      type: 'object',
+      properties: {
+        value: { type: 'number', description: 'The amount to convert' },
+        from: { type: 'string', description: 'Unit of the value, e.g. "mi" or "fahrenheit"' },
+        to: { type: 'string', description: 'Unit to convert to, e.g. "km" or "celsius"' }
+      },
+      required: ['value', 'from', 'to']
+    },
+    execute({ value, from, to }) {
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error('value must be a number');
+      }
+      if (typeof from !== 'string' || typeof to !== 'string') {
+        throw new Error('from and to must be unit names');
+      }
+      const converted = convertUnits(value, from, to);
+      return { value, from, to, result: Number(converted.value.toPrecision(12)), category: converted.category };
+    }
+  },
+  {
+    name: 'search_conversations',
+    description: 'Search the user\'s other conversations in this app for messages containing a word or phrase. Use it when the user refers to something discussed in an earlier chat.',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Word or phrase to look for' },
+        limit: { type: 'integer', description: `How many matching messages to return (1-${MAX_SEARCH_RESULTS}, default ${DEFAULT_SEARCH_RESULTS})` }
+      },
+      required: ['query']
+    },
+    async execute({ query, limit }, context) {
+      if (typeof query !== 'string' || !query.trim()) {
+        throw new Error('query must be a non-empty string');
+      }
+      const count = Math.min(Math.max(Number.isInteger(limit) ? limit : DEFAULT_SEARCH_RESULTS, 1), MAX_SEARCH_RESULTS);
+      const results = await searchConversations(context.supabase, context, query.trim(), count);
+      return { query, results };
+    }
+  }
+];
+
+/**
+ * Normalized definitions of the built-in tools, as sent to the provider adapters
+ */
+export function getToolDefinitions() {
+  return BUILT_IN_TOOLS.map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
+
+/**
+ * Run one tool call ({ id, name, arguments }) with { supabase, userId, conversationId }.
+ * Failures are returned to the model as { error } results rather than thrown, so it can
+ * correct the call or answer without the tool.
+ */
+export async function executeToolCall(call, context) {
+  const tool = BUILT_IN_TOOLS.find((candidate) => candidate.name === call.name);
+  if (!tool) {
+    return { result: { error: `Unknown tool "${call.name}"` }, isError: true };
+  }
+  if (!call.arguments || typeof call.arguments !== 'object' || Array.isArray(call.arguments)) {
+    return { result: { error: 'Tool arguments must be a JSON object' }, isError: true };
+  }
+
+  try {
+    return { result: await tool.execute(call.arguments, context), isError: false };
+  } catch (error) {
+    return { result: { error: error.message }, isError: true };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// History
+
+// Normalized provider messages for one stored round: the assistant's tool calls, then one
+// tool message per result
+function toolRoundMessages(round) {
+  return [
+    {
+      role: 'assistant',
+      content: round.content.trim(),
+      tool_calls: round.calls.map(({ id, name, arguments: args }) => ({ id, name, arguments: args || {} }))
+    },
+    ...round.calls.map((call) => ({
+      role: 'tool',
+      tool_call_id: call.id,
+      name: call.name,
+      content: JSON.stringify(call.result),
+      result: call.result,
+      is_error: !!call.is_error
+    }))
+  ];
+}
+
+/**
+ * Expand a saved assistant message ({ id, role, content }) with tool rounds into the
+ * provider messages it was generated as. The message id goes on the last of them.
+ */
+export function expandToolRounds(message, rounds) {
+  const roundsLength = rounds.reduce((sum, round) => sum + round.content.length, 0);
+  const finalContent = message.content.slice(roundsLength).trim();
+  const expanded = rounds.flatMap(toolRoundMessages);
+  if (finalContent) {
+    return [...expanded, { ...message, content: finalContent }];
+  }
+  expanded[expanded.length - 1].id = message.id;
+  return expanded;
+}
+
+/**
+ * Flatten tool turns into plain assistant text for models without tool support: tool
+ * messages are dropped and an assistant's rounds are joined back into one message
+ */
+export function withoutToolTurns(messages) {
+  const flattened = [];
+  for (const entry of messages) {
+    if (entry.role === 'tool') continue;
+    const message = Object.fromEntries(Object.entries(entry).filter(([key]) => key !== 'tool_calls'));
+    const previous = flattened[flattened.length - 1];
+    if (message.role === 'assistant' && previous?.role === 'assistant') {
+      flattened[flattened.length - 1] = {
+        ...message,
+        content: [previous.content, message.content].filter(Boolean).join('\n\n')
+      };
+      continue;
+    }
+    flattened.push(message);
+  }
+  return flattened;
+}
+
+// ---------------------------------------------------------------------------
+// Loop
+
+function addUsage(total, usage) {
+  return {
+    prompt_tokens: total.prompt_tokens + (usage.prompt_tokens || 0),
+    completion_tokens: total.completion_tokens + (usage.completion_tokens || 0),
+    total_tokens: total.total_tokens + (usage.total_tokens || 0),
+    reasoning_tokens: (total.reasoning_tokens || 0) + (usage.reasoning_tokens || 0)
+  };
+}
+
+/**
+ * Stream a reply, running the tools the model calls and calling it again with their
+ * results until it answers in text (at most MAX_TOOL_ROUNDS calls). `requestBody.tools`
+ * holds the offered definitions. Callbacks:
+ *   onDelta({ content?, thinking? }) - as for streamFromProvider; later rounds' text is
+ *                                      separated from earlier text by a blank line
+ *   onToolCall(step)                 - a call is about to run ({ id, name, arguments })
+ *   onToolResult(step)               - it ran ({ ..., result, is_error })
+ * Returns streamFromProvider's result with content, thinking and usage summed over all
+ * rounds, plus toolRounds.
+ *
+ * The usage reservation covers the first round (its prompt and requestBody.max_tokens).
+ * Every further round re-sends the whole history, so before it runs the reservation is
+ * grown by budget.extend(requestedTokens, minimumTokens), which resolves to the tokens
+ * added (0 when the quota cannot cover minimumTokens). budget also carries promptTokens,
+ * the first round's prompt estimate, and minimumOutputTokens, the smallest useful output.
+ * When the quota runs out between rounds the reply ends with finishReason 'length'.
+ */
+export async function streamWithTools(adapter, requestBody, { onDelta, onToolCall, onToolResult }, context, budget, signal?: AbortSignal) {
+  const messages = [...requestBody.messages];
+  const toolRounds = [];
+  let content = '';
+  let thinking = '';
+  let usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, reasoning_tokens: 0 };
+  let promptTokens = budget.promptTokens;
+  let result;
+
+  for (let round = 1; ; round++) {
+    // The first round is already reserved; later rounds reserve their prompt and output first
+    let outputTokens = requestBody.max_tokens;
+    if (round > 1) {
+      const added = await budget.extend(promptTokens + requestBody.max_tokens, promptTokens + budget.minimumOutputTokens);
+      if (!added) {
+        console.log('✂️ Tool loop stopped, the quota does not cover another round:', { round, promptTokens });
+        return { ...result, content, thinking, usage, toolRounds, finishReason: 'length' };
+      }
+      outputTokens = Math.min(requestBody.max_tokens, added - promptTokens);
+    }
+
+    const offerTools = !!requestBody.tools && round < MAX_TOOL_ROUNDS;
+    let roundContent = '';
+    let roundThinking = '';
+
+    result = await streamFromProvider(adapter, {
+      ...requestBody,
+      messages,
+      max_tokens: outputTokens,
+      // Earlier tool calls stay in the history, so the tools stay defined but unusable
+      ...(requestBody.tools && !offerTools ? { tool_choice: 'none' } : {})
+    }, (delta) => {
+      if (delta.thinking) {
+        const separator = !roundThinking && thinking ? '\n\n' : '';
+        roundThinking += separator + delta.thinking;
+        onDelta({ thinking: separator + delta.thinking });
+      }
+      if (delta.content) {
+        const separator = !roundContent && content ? '\n\n' : '';
+        roundContent += separator + delta.content;
+        onDelta({ content: separator + delta.content });
+      }
+    }, signal);
+
+    content += roundContent;
+    thinking += roundThinking;
+    usage = addUsage(usage, result.usage);
+
+    if (result.finishReason !== 'tool_calls' || !offerTools || signal?.aborted) {
+      // Tool calls the loop will not run leave the reply as it is
+      const finishReason = result.finishReason !== 'tool_calls' ? result.finishReason : signal?.aborted ? 'cancelled' : 'stop';
+      return { ...result, content, thinking, usage, toolRounds, finishReason };
+    }
+
+    const calls = [];
+    for (const call of result.toolCalls) {
+      onToolCall(call);
+      const { result: output, isError } = await executeToolCall(call, context);
+      const step = { ...call, result: output, is_error: isError };
+      console.log('🛠️ Tool call:', { name: call.name, isError });
+      onToolResult(step);
+      calls.push(step);
+    }
+
+    const toolRound = { content: roundContent, calls };
+    const roundMessages = toolRoundMessages(toolRound);
+    toolRounds.push(toolRound);
+    messages.push(...roundMessages);
+
+    // The next prompt is this one (as the provider counted it) plus the round's messages
+    promptTokens = Math.max(promptTokens, result.usage.prompt_tokens || 0)
+      + roundMessages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+  }
+}
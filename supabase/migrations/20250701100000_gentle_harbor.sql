@@ -0,0 +1,140 @@
+/*
+  # Model Catalog as Single Source of Truth
+
+  1. model_pricing becomes the model catalog
+    - Add display columns: provider, display_name, category, model_tier, color,
+      max_tokens, description, sort_order
+    - Cost columns keep their legacy names but hold USD per 1M tokens
+      (same convention as the Gemini pricing migration)
+    - Seed every model currently offered in the app
+    - Deactivate gpt-4-turbo, which was only ever listed by the Edge Function
+
+  2. subscription_tiers becomes the entitlement source
+    - Add display_name, price_label, warning_thresholds, sort_order
+    - Reset allowed_models to the exact lists the app enforces
+
+  3. Read access
+    - The catalog is public product information; allow SELECT for
+      anon and authenticated roles on active rows
+*/
+
+-- Catalog display columns on model_pricing
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS provider text;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS display_name text;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS category text;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS model_tier text;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS color text;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS max_tokens integer;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS description text;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS sort_order integer DEFAULT 0;
+
+-- Seed the catalog (UPSERT keeps the migration re-runnable)
+INSERT INTO public.model_pricing (
+  model_name, provider, display_name, category, model_tier, color, max_tokens, description,
+  input_cost_per_1k_tokens, output_cost_per_1k_tokens, sort_order, is_active, updated_at
+)
+VALUES
+  -- OpenAI
+  ('gpt-4o',                     'openai',    'GPT-4o',            'smart-daily', 'flagship',  '#3B82F6', 128000,  'Most advanced multimodal model',                   2.50,  10.00, 10,  TRUE, now()),
+  ('gpt-4o-mini',                'openai',    'GPT-4o Mini',       'budget',      'efficient', '#F59E0B', 128000,  'Fast and cost-effective',                          0.15,   0.60, 20,  TRUE, now()),
+  ('gpt-4.1',                    'openai',    'GPT-4.1',           'smart-daily', 'latest',    '#10B981', 128000,  'Latest model with improved coding and reasoning',  3.00,  12.00, 30,  TRUE, now()),
+  ('gpt-4.1-mini',               'openai',    'GPT-4.1 Mini',      'budget',      'efficient', '#059669', 128000,  'Efficient version of GPT-4.1',                     0.50,   2.00, 40,  TRUE, now()),
+  ('gpt-4.1-nano',               'openai',    'GPT-4.1 Nano',      'budget',      'nano',      '#6B7280', 128000,  'Ultra-fast micro model',                           0.05,   0.20, 50,  TRUE, now()),
+  ('o3',                         'openai',    'OpenAI o3',         'reasoning',   'premium',   '#7C3AED', 128000,  'Advanced reasoning for complex problems',         15.00,  60.00, 60,  TRUE, now()),
+  ('o3-mini',                    'openai',    'OpenAI o3-mini',    'reasoning',   'efficient', '#8B5CF6', 128000,  'Cost-efficient reasoning model',                   1.10,   4.40, 70,  TRUE, now()),
+  ('o4-mini',                    'openai',    'OpenAI o4-mini',    'reasoning',   'efficient', '#A855F7', 128000,  'Latest mini reasoning model',                      1.00,   4.00, 80,  TRUE, now()),
+  -- Anthropic
+  ('claude-3-5-sonnet-20241022', 'anthropic', 'Claude 3.5 Sonnet', 'smart-daily', 'flagship',  '#F97316', 200000,  'Excellent reasoning and analysis',                 3.00,  15.00, 110, TRUE, now()),
+  ('claude-3-5-haiku-20241022',  'anthropic', 'Claude 3.5 Haiku',  'budget',      'efficient', '#EA580C', 200000,  'Fast and efficient',                               0.25,   1.25, 120, TRUE, now()),
+  ('claude-3-opus-20240229',     'anthropic', 'Claude 3 Opus',     'reasoning',   'premium',   '#DC2626', 200000,  'Most capable for complex tasks',                  15.00,  75.00, 130, TRUE, now()),
+  ('claude-3-7-sonnet-20250219', 'anthropic', 'Claude 3.7 Sonnet', 'smart-daily', 'latest',    '#F97316', 200000,  'Enhanced reasoning and analysis',                  4.00,  20.00, 140, TRUE, now()),
+  ('claude-sonnet-4-20250514',   'anthropic', 'Claude Sonnet 4',   'smart-daily', 'flagship',  '#EA580C', 200000,  'Latest generation Claude model',                   5.00,  25.00, 150, TRUE, now()),
+  ('claude-opus-4-20250514',     'anthropic', 'Claude Opus 4',     'reasoning',   'premium',   '#DC2626', 200000,  'Most advanced Claude model for complex reasoning', 20.00, 100.00, 160, TRUE, now()),
+  -- Google
+  ('gemini-2.0-flash',           'google',    'Gemini 2.0 Flash',  'budget',      'efficient', '#4285F4', 1000000, 'Fast and reliable for everyday tasks',             0.075,  0.30, 210, TRUE, now()),
+  ('gemini-1.5-flash',           'google',    'Gemini 1.5 Flash',  'budget',      'efficient', '#34A853', 1000000, 'Efficient model for general use',                  0.075,  0.30, 220, TRUE, now()),
+  ('gemini-1.5-pro',             'google',    'Gemini 1.5 Pro',    'smart-daily', 'flagship',  '#EA4335', 2000000, 'Advanced capabilities with large context',         1.25,   5.00, 230, TRUE, now()),
+  ('gemini-2.5-flash',           'google',    'Gemini 2.5 Flash',  'smart-daily', 'latest',    '#FBBC04', 1000000, 'Latest fast model with enhanced capabilities',     0.10,   0.40, 240, TRUE, now()),
+  ('gemini-2.5-pro',             'google',    'Gemini 2.5 Pro',    'reasoning',   'premium',   '#9C27B0', 2000000, 'Most advanced Gemini model for complex tasks',     2.00,   8.00, 250, TRUE, now())
+ON CONFLICT (model_name) DO UPDATE SET
+  provider = EXCLUDED.provider,
+  display_name = EXCLUDED.display_name,
+  category = EXCLUDED.category,
+  model_tier = EXCLUDED.model_tier,
+  color = EXCLUDED.color,
+  max_tokens = EXCLUDED.max_tokens,
+  description = EXCLUDED.description,
+  input_cost_per_1k_tokens = EXCLUDED.input_cost_per_1k_tokens,
+  output_cost_per_1k_tokens = EXCLUDED.output_cost_per_1k_tokens,
+  sort_order = EXCLUDED.sort_order,
+  is_active = EXCLUDED.is_active,
+  updated_at = now();
+
+-- Models that were never part of the app catalog
+UPDATE public.model_pricing
+SET is_active = FALSE, updated_at = now()
+WHERE model_name IN ('gpt-4-turbo', 'gpt-3.5-turbo');
+
+-- Tier display columns
+ALTER TABLE public.subscription_tiers ADD COLUMN IF NOT EXISTS display_name text;
+ALTER TABLE public.subscription_tiers ADD COLUMN IF NOT EXISTS price_label text;
+ALTER TABLE public.subscription_tiers ADD COLUMN IF NOT EXISTS warning_thresholds integer[] DEFAULT '{50,80,95}';
+ALTER TABLE public.subscription_tiers ADD COLUMN IF NOT EXISTS sort_order integer DEFAULT 0;
+
+UPDATE public.subscription_tiers
+SET display_name = 'Free',
+    price_label = NULL,
+    warning_thresholds = '{70,90}',
+    sort_order = 1,
+    monthly_token_limit = 35000,
+    daily_message_limit = 25,
+    allowed_models = ARRAY['gpt-4o-mini', 'claude-3-5-haiku-20241022', 'gemini-2.0-flash'],
+    updated_at = now()
+WHERE tier_name = 'free';
+
+UPDATE public.subscription_tiers
+SET display_name = 'Basic',
+    price_label = '$6/month',
+    warning_thresholds = '{50,80,95}',
+    sort_order = 2,
+    monthly_token_limit = 1000000,
+    daily_message_limit = -1,
+    allowed_models = ARRAY[
+      'gpt-4o-mini', 'claude-3-5-haiku-20241022', 'gemini-2.0-flash',
+      'gpt-4o', 'gpt-4.1', 'gpt-4.1-mini', 'claude-3-5-sonnet-20241022',
+      'claude-3-7-sonnet-20250219', 'claude-sonnet-4-20250514',
+      'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.5-flash'
+    ],
+    updated_at = now()
+WHERE tier_name = 'basic';
+
+UPDATE public.subscription_tiers
+SET display_name = 'Pro',
+    price_label = '$9/month',
+    warning_thresholds = '{50,80,95}',
+    sort_order = 3,
+    monthly_token_limit = 1500000,
+    daily_message_limit = -1,
+    allowed_models = ARRAY(
+      SELECT model_name FROM public.model_pricing WHERE is_active = TRUE ORDER BY sort_order
+    ),
+    updated_at = now()
+WHERE tier_name = 'pro';
+
+-- Public read access to the active catalog
+ALTER TABLE public.model_pricing ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.subscription_tiers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read active model pricing" ON public.model_pricing;
+CREATE POLICY "Anyone can read active model pricing"
+  ON public.model_pricing
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = TRUE);
+
+DROP POLICY IF EXISTS "Anyone can read active subscription tiers" ON public.subscription_tiers;
+CREATE POLICY "Anyone can read active subscription tiers"
+  ON public.subscription_tiers
+  FOR SELECT
+  TO anon, authenticated
+  USING (is_active = TRUE);
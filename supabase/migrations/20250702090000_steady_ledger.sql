@@ -0,0 +1,192 @@
+/*
+  # Atomic Usage Accounting
+
+  The Edge Function used to read users.monthly_tokens_used / daily_messages_sent,
+  add to them in JavaScript and write the result back. Two concurrent streams
+  for the same user lost increments and could both pass the limit checks.
+
+  1. Reservations
+    - users.monthly_tokens_reserved: tokens held by in-flight requests
+    - users.tokens_reserved_at: last reservation time, so reservations left
+      behind by a crashed function invocation expire instead of blocking the user
+
+  2. usage_tracking
+    - Merge duplicate (user_id, date) rows and add a unique index so the daily
+      row can be upserted in a single statement
+
+  3. Functions (service role only)
+    - reserve_usage: row-locked limit check that counts the message and holds
+      the estimated tokens
+    - commit_usage: converts a reservation into real usage and upserts the
+      daily usage_tracking row
+    - release_usage: gives a reservation back when the request fails
+*/
+
+-- 1. Reservation columns
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS monthly_tokens_reserved integer DEFAULT 0;
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS tokens_reserved_at timestamptz;
+
+UPDATE public.users SET monthly_tokens_reserved = 0 WHERE monthly_tokens_reserved IS NULL;
+
+-- 2. One usage_tracking row per user per day
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_indexes
+    WHERE tablename = 'usage_tracking' AND indexname = 'usage_tracking_user_date_key'
+  ) THEN
+    -- Fold duplicate rows into the oldest row of each (user_id, date) pair
+    WITH ranked AS (
+      SELECT id, user_id, date,
+             first_value(id) OVER (PARTITION BY user_id, date ORDER BY created_at, id) AS keep_id
+      FROM public.usage_tracking
+    ),
+    totals AS (
+      SELECT r.keep_id,
+             sum(u.tokens_used) AS tokens_used,
+             sum(u.messages_sent) AS messages_sent,
+             sum(u.cost_incurred) AS cost_incurred
+      FROM ranked r
+      JOIN public.usage_tracking u ON u.id = r.id
+      GROUP BY r.keep_id
+      HAVING count(*) > 1
+    )
+    UPDATE public.usage_tracking t
+    SET tokens_used = totals.tokens_used,
+        messages_sent = totals.messages_sent,
+        cost_incurred = totals.cost_incurred
+    FROM totals
+    WHERE t.id = totals.keep_id;
+
+    DELETE FROM public.usage_tracking t
+    USING (
+      SELECT id, first_value(id) OVER (PARTITION BY user_id, date ORDER BY created_at, id) AS keep_id
+      FROM public.usage_tracking
+    ) ranked
+    WHERE t.id = ranked.id AND ranked.id <> ranked.keep_id;
+
+    CREATE UNIQUE INDEX usage_tracking_user_date_key ON public.usage_tracking (user_id, date);
+  END IF;
+END $$;
+
+-- 3a. Reserve a message and estimated tokens before calling the provider
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user_id uuid,
+  p_estimated_tokens integer,
+  p_daily_limit integer,
+  p_monthly_limit integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_reserved integer;
+BEGIN
+  -- Row lock serialises concurrent requests for the same user
+  SELECT * INTO v_user FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  -- Reservations older than 15 minutes belong to invocations that never finished
+  v_reserved := COALESCE(v_user.monthly_tokens_reserved, 0);
+  IF v_user.tokens_reserved_at IS NULL OR v_user.tokens_reserved_at < now() - interval '15 minutes' THEN
+    v_reserved := 0;
+  END IF;
+
+  IF p_daily_limit <> -1 AND COALESCE(v_user.daily_messages_sent, 0) >= p_daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'DAILY_MESSAGE_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', COALESCE(v_user.monthly_tokens_used, 0),
+      'tokens_reserved', v_reserved
+    );
+  END IF;
+
+  IF COALESCE(v_user.monthly_tokens_used, 0) + v_reserved >= p_monthly_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'MONTHLY_TOKEN_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', COALESCE(v_user.monthly_tokens_used, 0),
+      'tokens_reserved', v_reserved
+    );
+  END IF;
+
+  UPDATE users
+  SET daily_messages_sent = COALESCE(daily_messages_sent, 0) + 1,
+      monthly_tokens_reserved = v_reserved + GREATEST(p_estimated_tokens, 0),
+      tokens_reserved_at = now()
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'messages_used', COALESCE(v_user.daily_messages_sent, 0) + 1,
+    'tokens_used', COALESCE(v_user.monthly_tokens_used, 0),
+    'tokens_reserved', v_reserved + GREATEST(p_estimated_tokens, 0)
+  );
+END;
+$$;
+
+-- 3b. Record actual usage and drop the matching reservation
+CREATE OR REPLACE FUNCTION public.commit_usage(
+  p_user_id uuid,
+  p_reserved_tokens integer,
+  p_tokens_used integer,
+  p_model text,
+  p_cost numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET monthly_tokens_used = COALESCE(monthly_tokens_used, 0) + p_tokens_used,
+      monthly_tokens_reserved = GREATEST(COALESCE(monthly_tokens_reserved, 0) - p_reserved_tokens, 0)
+  WHERE id = p_user_id;
+
+  INSERT INTO usage_tracking (user_id, date, tokens_used, messages_sent, models_used, cost_incurred)
+  VALUES (p_user_id, CURRENT_DATE, p_tokens_used, 1, jsonb_build_object(p_model, 1), p_cost)
+  ON CONFLICT (user_id, date) DO UPDATE SET
+    tokens_used = COALESCE(usage_tracking.tokens_used, 0) + EXCLUDED.tokens_used,
+    messages_sent = COALESCE(usage_tracking.messages_sent, 0) + EXCLUDED.messages_sent,
+    models_used = COALESCE(usage_tracking.models_used, '{}'::jsonb) || jsonb_build_object(
+      p_model, COALESCE((usage_tracking.models_used ->> p_model)::integer, 0) + 1
+    ),
+    cost_incurred = COALESCE(usage_tracking.cost_incurred, 0) + EXCLUDED.cost_incurred;
+END;
+$$;
+
+-- 3c. Hand back a reservation when the request fails before completing
+CREATE OR REPLACE FUNCTION public.release_usage(
+  p_user_id uuid,
+  p_reserved_tokens integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET daily_messages_sent = GREATEST(COALESCE(daily_messages_sent, 0) - 1, 0),
+      monthly_tokens_reserved = GREATEST(COALESCE(monthly_tokens_reserved, 0) - p_reserved_tokens, 0)
+  WHERE id = p_user_id;
+END;
+$$;
+
+-- Counters must only move through the Edge Function
+REVOKE ALL ON FUNCTION public.reserve_usage(uuid, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.commit_usage(uuid, integer, integer, text, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_usage(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.reserve_usage(uuid, integer, integer, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_usage(uuid, integer, integer, text, numeric) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_usage(uuid, integer) TO service_role;
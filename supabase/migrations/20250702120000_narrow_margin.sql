@@ -0,0 +1,116 @@
+/*
+  # Pre-flight Token Budgeting
+
+  A request used to be rejected only once monthly_tokens_used had already
+  reached the limit, so a single large completion could overshoot the quota
+  by tens of thousands of tokens.
+
+  1. reserve_usage now budgets the output
+    - Takes the estimated prompt size, the requested output cap and the
+      smallest useful output
+    - Under the row lock, computes the remaining monthly budget (limit minus
+      used minus in-flight reservations)
+    - Caps the output to what is left after the prompt, or rejects the request
+      with INSUFFICIENT_TOKEN_BUDGET when not even the minimum output fits
+    - Reserves prompt + capped output and returns the cap to the Edge Function
+
+  2. Return shape
+    - allowed, reason, output_tokens, reservation (tokens held by this request),
+      tokens_used, tokens_reserved (all in-flight), remaining_tokens,
+      messages_used
+*/
+
+DROP FUNCTION IF EXISTS public.reserve_usage(uuid, integer, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user_id uuid,
+  p_prompt_tokens integer,
+  p_requested_output_tokens integer,
+  p_min_output_tokens integer,
+  p_daily_limit integer,
+  p_monthly_limit integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_used integer;
+  v_reserved integer;
+  v_remaining integer;
+  v_output integer;
+BEGIN
+  -- Row lock serialises concurrent requests for the same user
+  SELECT * INTO v_user FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  v_used := COALESCE(v_user.monthly_tokens_used, 0);
+
+  -- Reservations older than 15 minutes belong to invocations that never finished
+  v_reserved := COALESCE(v_user.monthly_tokens_reserved, 0);
+  IF v_user.tokens_reserved_at IS NULL OR v_user.tokens_reserved_at < now() - interval '15 minutes' THEN
+    v_reserved := 0;
+  END IF;
+
+  v_remaining := GREATEST(p_monthly_limit - v_used - v_reserved, 0);
+
+  IF p_daily_limit <> -1 AND COALESCE(v_user.daily_messages_sent, 0) >= p_daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'DAILY_MESSAGE_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  IF v_remaining = 0 THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'MONTHLY_TOKEN_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  IF v_remaining < p_prompt_tokens + p_min_output_tokens THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'INSUFFICIENT_TOKEN_BUDGET',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  v_output := LEAST(p_requested_output_tokens, v_remaining - p_prompt_tokens);
+
+  UPDATE users
+  SET daily_messages_sent = COALESCE(daily_messages_sent, 0) + 1,
+      monthly_tokens_reserved = v_reserved + p_prompt_tokens + v_output,
+      tokens_reserved_at = now()
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'output_tokens', v_output,
+    'reservation', p_prompt_tokens + v_output,
+    'messages_used', COALESCE(v_user.daily_messages_sent, 0) + 1,
+    'tokens_used', v_used,
+    'tokens_reserved', v_reserved + p_prompt_tokens + v_output,
+    'remaining_tokens', v_remaining - p_prompt_tokens - v_output
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage(uuid, integer, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.reserve_usage(uuid, integer, integer, integer, integer, integer) TO service_role;
@@ -0,0 +1,46 @@
+/*
+  # Per-message Cost Tracking
+
+  usage_tracking.cost_incurred used to be tokens * 0.001 for every model, so
+  it could not be reconciled against provider invoices.
+
+  1. messages.cost_incurred
+    - USD cost of an assistant message, computed from model_pricing
+      (input and output priced separately, per 1M tokens)
+    - Backfilled for existing assistant messages from their token counts
+
+  2. usage_tracking.cost_incurred
+    - Rebuilt from the per-message costs for each user and day, so historical
+      rows use the same pricing as new ones
+
+  messages.response_time (milliseconds) already exists and is now written by
+  the Edge Function.
+*/
+
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS cost_incurred numeric(12, 6) DEFAULT 0;
+
+-- Backfill assistant message costs from the catalog prices
+UPDATE public.messages m
+SET cost_incurred = round(
+  (COALESCE(m.input_tokens, 0) * p.input_cost_per_1k_tokens
+    + COALESCE(m.output_tokens, 0) * p.output_cost_per_1k_tokens) / 1000000.0,
+  6
+)
+FROM public.model_pricing p
+WHERE m.role = 'assistant'
+  AND m.model_used = p.model_name;
+
+-- Rebuild daily cost roll-ups from the message costs
+UPDATE public.usage_tracking u
+SET cost_incurred = daily.cost
+FROM (
+  SELECT c.user_id,
+         m.created_at::date AS date,
+         sum(m.cost_incurred) AS cost
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE m.role = 'assistant'
+  GROUP BY c.user_id, m.created_at::date
+) daily
+WHERE u.user_id = daily.user_id
+  AND u.date = daily.date;
@@ -0,0 +1,25 @@
+/*
+  # Usage Analytics Read Access
+
+  The analytics page reads a user's own usage_tracking rows directly.
+
+  1. Security
+    - Enable RLS on usage_tracking (writes keep going through the
+      service-role Edge Function)
+    - Allow authenticated users to SELECT their own rows
+
+  2. Indexes
+    - conversations (user_id, total_tokens DESC) for "top conversations"
+*/
+
+ALTER TABLE public.usage_tracking ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own usage tracking" ON public.usage_tracking;
+CREATE POLICY "Users can read own usage tracking"
+  ON public.usage_tracking
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_conversations_user_total_tokens
+ON public.conversations (user_id, total_tokens DESC);
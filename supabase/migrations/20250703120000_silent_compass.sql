@@ -0,0 +1,201 @@
+/*
+  # Prompt Helper Quota and Usage Categories
+
+  The prompt-helper purposes (enhance_prompt, generate_example) now run behind
+  authentication and the Pro tier gate, and their tokens count toward the
+  monthly quota.
+
+  1. Tier feature flag
+    - Add the 'prompt_helper' feature key to the Pro tier
+
+  2. usage_tracking.category_usage
+    - Per-category breakdown of the daily row, e.g.
+      {"chat": {"tokens": 1200, "requests": 4, "cost": 0.01},
+       "prompt_helper": {"tokens": 900, "requests": 2, "cost": 0.02}}
+    - tokens_used / cost_incurred stay the totals across all categories;
+      messages_sent keeps counting chat messages only
+
+  3. Functions
+    - reserve_usage / release_usage: p_count_message (default true) so helper
+      calls are budgeted without using up the daily message allowance
+    - commit_usage: p_category (default 'chat')
+*/
+
+-- 1. Pro tier gets the prompt helper
+UPDATE public.subscription_tiers
+SET features = array_append(COALESCE(features, '{}'), 'prompt_helper'),
+    updated_at = now()
+WHERE tier_name = 'pro'
+  AND NOT ('prompt_helper' = ANY(COALESCE(features, '{}')));
+
+-- 2. Category breakdown on the daily row
+ALTER TABLE public.usage_tracking ADD COLUMN IF NOT EXISTS category_usage jsonb DEFAULT '{}'::jsonb;
+
+-- 3a. reserve_usage with optional message counting
+DROP FUNCTION IF EXISTS public.reserve_usage(uuid, integer, integer, integer, integer, integer);
+
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user_id uuid,
+  p_prompt_tokens integer,
+  p_requested_output_tokens integer,
+  p_min_output_tokens integer,
+  p_daily_limit integer,
+  p_monthly_limit integer,
+  p_count_message boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_used integer;
+  v_reserved integer;
+  v_remaining integer;
+  v_output integer;
+BEGIN
+  -- Row lock serialises concurrent requests for the same user
+  SELECT * INTO v_user FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  v_used := COALESCE(v_user.monthly_tokens_used, 0);
+
+  -- Reservations older than 15 minutes belong to invocations that never finished
+  v_reserved := COALESCE(v_user.monthly_tokens_reserved, 0);
+  IF v_user.tokens_reserved_at IS NULL OR v_user.tokens_reserved_at < now() - interval '15 minutes' THEN
+    v_reserved := 0;
+  END IF;
+
+  v_remaining := GREATEST(p_monthly_limit - v_used - v_reserved, 0);
+
+  IF p_count_message AND p_daily_limit <> -1 AND COALESCE(v_user.daily_messages_sent, 0) >= p_daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'DAILY_MESSAGE_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  IF v_remaining = 0 THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'MONTHLY_TOKEN_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  IF v_remaining < p_prompt_tokens + p_min_output_tokens THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'INSUFFICIENT_TOKEN_BUDGET',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  v_output := LEAST(p_requested_output_tokens, v_remaining - p_prompt_tokens);
+
+  UPDATE users
+  SET daily_messages_sent = COALESCE(daily_messages_sent, 0) + CASE WHEN p_count_message THEN 1 ELSE 0 END,
+      monthly_tokens_reserved = v_reserved + p_prompt_tokens + v_output,
+      tokens_reserved_at = now()
+  WHERE id = p_user_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'output_tokens', v_output,
+    'reservation', p_prompt_tokens + v_output,
+    'messages_used', COALESCE(v_user.daily_messages_sent, 0) + CASE WHEN p_count_message THEN 1 ELSE 0 END,
+    'tokens_used', v_used,
+    'tokens_reserved', v_reserved + p_prompt_tokens + v_output,
+    'remaining_tokens', v_remaining - p_prompt_tokens - v_output
+  );
+END;
+$$;
+
+-- 3b. commit_usage with a usage category
+DROP FUNCTION IF EXISTS public.commit_usage(uuid, integer, integer, text, numeric);
+
+CREATE OR REPLACE FUNCTION public.commit_usage(
+  p_user_id uuid,
+  p_reserved_tokens integer,
+  p_tokens_used integer,
+  p_model text,
+  p_cost numeric,
+  p_category text DEFAULT 'chat'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_messages integer := CASE WHEN p_category = 'chat' THEN 1 ELSE 0 END;
+BEGIN
+  UPDATE users
+  SET monthly_tokens_used = COALESCE(monthly_tokens_used, 0) + p_tokens_used,
+      monthly_tokens_reserved = GREATEST(COALESCE(monthly_tokens_reserved, 0) - p_reserved_tokens, 0)
+  WHERE id = p_user_id;
+
+  INSERT INTO usage_tracking (user_id, date, tokens_used, messages_sent, models_used, cost_incurred, category_usage)
+  VALUES (
+    p_user_id, CURRENT_DATE, p_tokens_used, v_messages, jsonb_build_object(p_model, 1), p_cost,
+    jsonb_build_object(p_category, jsonb_build_object('tokens', p_tokens_used, 'requests', 1, 'cost', p_cost))
+  )
+  ON CONFLICT (user_id, date) DO UPDATE SET
+    tokens_used = COALESCE(usage_tracking.tokens_used, 0) + EXCLUDED.tokens_used,
+    messages_sent = COALESCE(usage_tracking.messages_sent, 0) + EXCLUDED.messages_sent,
+    models_used = COALESCE(usage_tracking.models_used, '{}'::jsonb) || jsonb_build_object(
+      p_model, COALESCE((usage_tracking.models_used ->> p_model)::integer, 0) + 1
+    ),
+    cost_incurred = COALESCE(usage_tracking.cost_incurred, 0) + EXCLUDED.cost_incurred,
+    category_usage = COALESCE(usage_tracking.category_usage, '{}'::jsonb) || jsonb_build_object(
+      p_category, jsonb_build_object(
+        'tokens', COALESCE((usage_tracking.category_usage -> p_category ->> 'tokens')::integer, 0) + p_tokens_used,
+        'requests', COALESCE((usage_tracking.category_usage -> p_category ->> 'requests')::integer, 0) + 1,
+        'cost', COALESCE((usage_tracking.category_usage -> p_category ->> 'cost')::numeric, 0) + p_cost
+      )
+    );
+END;
+$$;
+
+-- 3c. release_usage with optional message counting
+DROP FUNCTION IF EXISTS public.release_usage(uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.release_usage(
+  p_user_id uuid,
+  p_reserved_tokens integer,
+  p_count_message boolean DEFAULT true
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE users
+  SET daily_messages_sent = GREATEST(COALESCE(daily_messages_sent, 0) - CASE WHEN p_count_message THEN 1 ELSE 0 END, 0),
+      monthly_tokens_reserved = GREATEST(COALESCE(monthly_tokens_reserved, 0) - p_reserved_tokens, 0)
+  WHERE id = p_user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage(uuid, integer, integer, integer, integer, integer, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.commit_usage(uuid, integer, integer, text, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_usage(uuid, integer, boolean) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.reserve_usage(uuid, integer, integer, integer, integer, integer, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_usage(uuid, integer, integer, text, numeric, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_usage(uuid, integer, boolean) TO service_role;
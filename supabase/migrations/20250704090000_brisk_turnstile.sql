@@ -0,0 +1,152 @@
+/*
+  # Per-user Rate Limiting
+
+  Caps how fast a single user (or a leaked token) can call the chat-completion
+  Edge Function, independent of the daily message and monthly token quotas.
+
+  1. subscription_tiers
+    - requests_per_minute: requests accepted per rolling minute (-1 = unlimited)
+    - max_concurrent_streams: streaming responses open at once (-1 = unlimited)
+
+  2. New tables (Edge Function only, RLS enabled without policies)
+    - rate_limit_requests: one row per accepted request, pruned after a minute
+    - active_streams: one row per open stream; rows older than 10 minutes are
+      treated as abandoned (function timeouts never reach close_stream)
+
+  3. Functions (service_role only)
+    - check_request_rate(p_user_id, p_limit): records the request or returns
+      the seconds until the oldest request leaves the window
+    - open_stream(p_user_id, p_limit): claims a stream slot, returns its id
+    - close_stream(p_stream_id): frees the slot
+*/
+
+-- 1. Tier configuration
+ALTER TABLE public.subscription_tiers ADD COLUMN IF NOT EXISTS requests_per_minute integer DEFAULT 20;
+ALTER TABLE public.subscription_tiers ADD COLUMN IF NOT EXISTS max_concurrent_streams integer DEFAULT 2;
+
+UPDATE public.subscription_tiers SET requests_per_minute = 10, max_concurrent_streams = 1 WHERE tier_name = 'free';
+UPDATE public.subscription_tiers SET requests_per_minute = 30, max_concurrent_streams = 2 WHERE tier_name = 'basic';
+UPDATE public.subscription_tiers SET requests_per_minute = 60, max_concurrent_streams = 4 WHERE tier_name = 'pro';
+
+-- 2. Tracking tables
+CREATE TABLE IF NOT EXISTS public.rate_limit_requests (
+  id bigserial PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  requested_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_requests_user_time_idx
+  ON public.rate_limit_requests (user_id, requested_at);
+
+CREATE TABLE IF NOT EXISTS public.active_streams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  started_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS active_streams_user_idx
+  ON public.active_streams (user_id, started_at);
+
+ALTER TABLE public.rate_limit_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.active_streams ENABLE ROW LEVEL SECURITY;
+
+-- 3a. Requests per rolling minute
+CREATE OR REPLACE FUNCTION public.check_request_rate(
+  p_user_id uuid,
+  p_limit integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_oldest timestamptz;
+BEGIN
+  -- Row lock serialises concurrent requests for the same user
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  DELETE FROM rate_limit_requests
+  WHERE user_id = p_user_id
+    AND requested_at < now() - interval '1 minute';
+
+  IF p_limit <> -1 THEN
+    SELECT count(*), min(requested_at) INTO v_count, v_oldest
+    FROM rate_limit_requests
+    WHERE user_id = p_user_id;
+
+    IF v_count >= p_limit THEN
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'reason', 'REQUESTS_PER_MINUTE',
+        'limit', p_limit,
+        'current', v_count,
+        'retry_after', GREATEST(ceil(extract(epoch FROM (v_oldest + interval '1 minute' - now())))::integer, 1)
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO rate_limit_requests (user_id) VALUES (p_user_id);
+
+  RETURN jsonb_build_object('allowed', true);
+END;
+$$;
+
+-- 3b. Concurrent streams
+CREATE OR REPLACE FUNCTION public.open_stream(
+  p_user_id uuid,
+  p_limit integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_stream_id uuid;
+BEGIN
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  DELETE FROM active_streams
+  WHERE user_id = p_user_id
+    AND started_at < now() - interval '10 minutes';
+
+  IF p_limit <> -1 THEN
+    SELECT count(*) INTO v_count FROM active_streams WHERE user_id = p_user_id;
+
+    IF v_count >= p_limit THEN
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'reason', 'CONCURRENT_STREAMS',
+        'limit', p_limit,
+        'current', v_count,
+        -- Open streams end at unknown times; suggest a short back-off
+        'retry_after', 10
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO active_streams (user_id) VALUES (p_user_id) RETURNING id INTO v_stream_id;
+
+  RETURN jsonb_build_object('allowed', true, 'stream_id', v_stream_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_stream(p_stream_id uuid)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  DELETE FROM active_streams WHERE id = p_stream_id;
+$$;
+
+REVOKE ALL ON FUNCTION public.check_request_rate(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.open_stream(uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.close_stream(uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.check_request_rate(uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.open_stream(uuid, integer) TO service_role;
+GRANT EXECUTE ON FUNCTION public.close_stream(uuid) TO service_role;
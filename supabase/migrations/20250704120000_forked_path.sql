@@ -0,0 +1,57 @@
+/*
+  # Conversation Branching
+
+  Messages form a tree instead of a single sequence, so a reply can be
+  regenerated and an earlier user message can be edited and resent without
+  losing the original turns.
+
+  1. messages.parent_message_id
+    - The message this one follows (NULL for a conversation's first message
+      and for edited versions of it)
+    - Siblings (same parent) are alternative versions: regenerated replies or
+      edited user messages
+    - Backfilled from sequence_number order, so existing conversations become
+      a single branch
+
+  2. conversations.active_leaf_message_id
+    - Tip of the branch the user is viewing; the Edge Function builds the
+      provider history by walking parent pointers up from here
+    - Backfilled with each conversation's last message
+
+  sequence_number keeps increasing per insert within a conversation; the tree
+  shape lives only in parent_message_id.
+*/
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS parent_message_id uuid REFERENCES public.messages(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS active_leaf_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS messages_parent_message_id_idx
+  ON public.messages (parent_message_id);
+
+CREATE INDEX IF NOT EXISTS messages_conversation_sequence_idx
+  ON public.messages (conversation_id, sequence_number);
+
+-- Existing conversations become one linear branch
+UPDATE public.messages m
+SET parent_message_id = ordered.previous_id
+FROM (
+  SELECT id,
+         lag(id) OVER (PARTITION BY conversation_id ORDER BY sequence_number, created_at) AS previous_id
+  FROM public.messages
+) ordered
+WHERE m.id = ordered.id
+  AND m.parent_message_id IS NULL
+  AND ordered.previous_id IS NOT NULL;
+
+UPDATE public.conversations c
+SET active_leaf_message_id = last_message.id
+FROM (
+  SELECT DISTINCT ON (conversation_id) conversation_id, id
+  FROM public.messages
+  ORDER BY conversation_id, sequence_number DESC, created_at DESC
+) last_message
+WHERE c.id = last_message.conversation_id
+  AND c.active_leaf_message_id IS NULL;
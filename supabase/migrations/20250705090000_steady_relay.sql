@@ -0,0 +1,53 @@
+/*
+  # Resumable Generations
+
+  Decouples AI generation from the HTTP connection that started it. The Edge
+  Function keeps streaming from the provider after the client disconnects and
+  persists the response as it grows, so a client on the same or another device
+  can pick it up again through the resume endpoint.
+
+  1. New table generations
+    - One row per streamed chat completion
+    - content: response text so far, flushed in chunks while streaming
+    - status: streaming, completed, failed or cancelled
+    - final_event: the done/error SSE event replayed to resuming clients
+    - cancel_requested: set by the cancel endpoint, checked on every flush
+    - updated_at doubles as a heartbeat; a streaming row that stops updating
+      belongs to a function that died and is reported as interrupted
+
+  2. Security
+    - Users can read their own generations (to find one to resume)
+    - Writes go through the Edge Function's service role only
+*/
+
+CREATE TABLE IF NOT EXISTS public.generations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  user_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  ai_message_id uuid REFERENCES public.messages(id) ON DELETE SET NULL,
+  model text NOT NULL,
+  status text NOT NULL DEFAULT 'streaming'
+    CHECK (status = ANY (ARRAY['streaming'::text, 'completed'::text, 'failed'::text, 'cancelled'::text])),
+  content text NOT NULL DEFAULT '',
+  final_event jsonb,
+  cancel_requested boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS generations_conversation_status_idx
+  ON public.generations (conversation_id, status);
+
+CREATE INDEX IF NOT EXISTS generations_user_created_idx
+  ON public.generations (user_id, created_at);
+
+ALTER TABLE public.generations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own generations" ON public.generations;
+
+CREATE POLICY "Users can view own generations"
+  ON public.generations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,15 @@
+/*
+  # Stopped Responses
+
+  Stopping a generation now keeps what was produced instead of discarding it.
+
+  1. messages.finish_reason
+    - Why an assistant reply ended: 'stop' (completed) or 'cancelled'
+      (stopped by the user; the partial text is saved and billed for the
+      tokens produced)
+    - A cancelled reply can be continued, which appends to the same message
+      and sets finish_reason back to 'stop'
+    - NULL for user messages and replies saved before this migration
+*/
+
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS finish_reason text;
@@ -0,0 +1,61 @@
+/*
+  # Generation Parameters
+
+  Lets each conversation choose its own sampling and output settings instead of
+  the hard-coded temperature 0.7 / 4000 tokens / medium reasoning effort.
+
+  1. model_pricing capability columns
+    - max_output_tokens: the most a single reply may generate
+    - supported_parameters: which generation parameters the model accepts
+      (temperature, top_p, max_tokens, reasoning_effort, thinking_budget)
+    - OpenAI o-series models take reasoning_effort instead of temperature/top_p
+    - Claude 3.7 Sonnet and the Claude 4 models support extended thinking
+
+  2. Where the values live
+    - conversations.metadata.parameters holds the conversation's settings
+    - messages.model_parameters (existing, previously unused) records the
+      parameters actually sent for each assistant reply
+*/
+
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS max_output_tokens integer NOT NULL DEFAULT 4096;
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS supported_parameters text[] NOT NULL
+  DEFAULT ARRAY['temperature', 'top_p', 'max_tokens'];
+
+-- OpenAI
+UPDATE public.model_pricing SET max_output_tokens = 16384, updated_at = now()
+WHERE model_name IN ('gpt-4o', 'gpt-4o-mini');
+
+UPDATE public.model_pricing SET max_output_tokens = 32768, updated_at = now()
+WHERE model_name IN ('gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano');
+
+UPDATE public.model_pricing
+SET max_output_tokens = 100000,
+    supported_parameters = ARRAY['max_tokens', 'reasoning_effort'],
+    updated_at = now()
+WHERE model_name IN ('o3', 'o3-mini', 'o4-mini');
+
+-- Anthropic
+UPDATE public.model_pricing SET max_output_tokens = 8192, updated_at = now()
+WHERE model_name IN ('claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022');
+
+UPDATE public.model_pricing SET max_output_tokens = 4096, updated_at = now()
+WHERE model_name = 'claude-3-opus-20240229';
+
+UPDATE public.model_pricing
+SET max_output_tokens = 64000,
+    supported_parameters = ARRAY['temperature', 'top_p', 'max_tokens', 'thinking_budget'],
+    updated_at = now()
+WHERE model_name IN ('claude-3-7-sonnet-20250219', 'claude-sonnet-4-20250514');
+
+UPDATE public.model_pricing
+SET max_output_tokens = 32000,
+    supported_parameters = ARRAY['temperature', 'top_p', 'max_tokens', 'thinking_budget'],
+    updated_at = now()
+WHERE model_name = 'claude-opus-4-20250514';
+
+-- Google
+UPDATE public.model_pricing SET max_output_tokens = 8192, updated_at = now()
+WHERE model_name IN ('gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro');
+
+UPDATE public.model_pricing SET max_output_tokens = 65536, updated_at = now()
+WHERE model_name IN ('gemini-2.5-flash', 'gemini-2.5-pro');
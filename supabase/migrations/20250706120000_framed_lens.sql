@@ -0,0 +1,72 @@
+/*
+  # Image Attachments
+
+  Lets users attach images to their messages for models that can see them.
+
+  1. Storage bucket attachments
+    - Private bucket, 5 MB per file, PNG / JPEG / WebP / GIF only
+    - Objects live under <user id>/..., so the first path segment is the owner
+    - The Edge Function reads them with the service role when building history
+
+  2. messages.content_parts
+    - Structured content for messages with attachments:
+      [{ "type": "text", "text": ... }, { "type": "image", "path": ..., "mime_type": ...,
+         "width": ..., "height": ..., "size": ... }]
+    - content keeps the plain text, so titles, previews and exports are unchanged
+    - NULL for text-only messages
+
+  3. model_pricing.supports_vision
+    - Whether the model accepts image input; requests with images for other
+      models are rejected, and images already in the history are left out
+
+  4. Security
+    - Users can upload, view and delete only objects in their own folder
+*/
+
+-- Private bucket for message attachments
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'attachments',
+  'attachments',
+  false,
+  5242880,
+  ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload own attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can view own attachments" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete own attachments" ON storage.objects;
+
+CREATE POLICY "Users can upload own attachments"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can view own attachments"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own attachments"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'attachments' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+-- Structured content for messages with attachments
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS content_parts jsonb;
+
+-- Vision capability
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS supports_vision boolean NOT NULL DEFAULT false;
+
+UPDATE public.model_pricing
+SET supports_vision = TRUE, updated_at = now()
+WHERE model_name IN (
+  'gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano', 'o3', 'o4-mini',
+  'claude-3-5-sonnet-20241022', 'claude-3-opus-20240229', 'claude-3-7-sonnet-20250219',
+  'claude-sonnet-4-20250514', 'claude-opus-4-20250514',
+  'gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.5-flash', 'gemini-2.5-pro'
+);
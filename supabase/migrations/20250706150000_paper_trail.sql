@@ -0,0 +1,28 @@
+/*
+  # Document Attachments
+
+  Lets users attach documents to a message instead of pasting them in.
+
+  1. Extraction
+    - Plain text, Markdown, CSV and source files are read in the browser
+    - PDF and DOCX files are uploaded to the attachments bucket and their text
+      is extracted by the Edge Function (POST /chat-completion/extract)
+
+  2. Storage
+    - The attachments bucket also accepts PDF and DOCX, up to 10 MB
+      (images keep their 5 MB limit, enforced by the app and Edge Function)
+
+  3. messages.content_parts
+    - Gains { "type": "document", "name", "mime_type", "size", "text",
+      "path"?, "truncated"? } parts; the extracted text is stored so history
+      rebuilt for later turns still includes the document
+*/
+
+UPDATE storage.buckets
+SET file_size_limit = 10485760,
+    allowed_mime_types = ARRAY[
+      'image/png', 'image/jpeg', 'image/webp', 'image/gif',
+      'application/pdf',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    ]
+WHERE id = 'attachments';
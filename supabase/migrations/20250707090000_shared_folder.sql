@@ -0,0 +1,93 @@
+/*
+  # Projects
+
+  Groups conversations into projects with shared instructions, a default model
+  and a file list.
+
+  1. projects.settings
+    - { "instructions": text, "default_model": model id }
+    - Instructions are sent with every request in the project, after the user's
+      custom instructions and before the conversation's own system prompt
+
+  2. conversations.project_id
+    - The project a conversation belongs to; NULL for conversations outside projects
+    - Deleting a project keeps its conversations (they move out of the project)
+
+  3. project_documents
+    - Gains storage_path, mime_type, size_bytes and content (the extracted text)
+    - PDF and DOCX originals stay in the attachments bucket under the owner's folder
+
+  4. Security
+    - Users can manage only their own projects and the documents in them
+*/
+
+-- Conversations can belong to a project
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS project_id uuid REFERENCES public.projects(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_conversations_project_id ON public.conversations(project_id);
+
+-- Project files keep their extracted text
+ALTER TABLE public.project_documents ADD COLUMN IF NOT EXISTS storage_path text;
+ALTER TABLE public.project_documents ADD COLUMN IF NOT EXISTS mime_type text;
+ALTER TABLE public.project_documents ADD COLUMN IF NOT EXISTS size_bytes integer;
+ALTER TABLE public.project_documents ADD COLUMN IF NOT EXISTS content text;
+
+CREATE INDEX IF NOT EXISTS idx_projects_user_id ON public.projects(user_id);
+CREATE INDEX IF NOT EXISTS idx_project_documents_project_id ON public.project_documents(project_id);
+
+-- Security
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_documents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can create own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can update own projects" ON public.projects;
+DROP POLICY IF EXISTS "Users can delete own projects" ON public.projects;
+
+CREATE POLICY "Users can view own projects"
+  ON public.projects
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own projects"
+  ON public.projects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own projects"
+  ON public.projects
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own projects"
+  ON public.projects
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view own project documents" ON public.project_documents;
+DROP POLICY IF EXISTS "Users can add own project documents" ON public.project_documents;
+DROP POLICY IF EXISTS "Users can delete own project documents" ON public.project_documents;
+
+CREATE POLICY "Users can view own project documents"
+  ON public.project_documents
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can add own project documents"
+  ON public.project_documents
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete own project documents"
+  ON public.project_documents
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
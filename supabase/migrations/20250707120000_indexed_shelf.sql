@@ -0,0 +1,39 @@
+/*
+  # Retrieval over Project Documents
+
+  Project files are chunked and embedded, and replies in project conversations
+  are generated with the chunks most relevant to the user's message.
+
+  1. project_documents.vector_embeddings
+    - { "embedder": id, "dimensions": n, "chunks": [{ "text", "embedding" }] }
+    - Written by the Edge Function (POST /chat-completion/embed after upload, or on
+      first retrieval); processed_at is set when it was written
+    - Documents embedded by a different embedder are re-embedded on next use
+
+  2. conversation_context
+    - One row per reply generated with retrieved context
+    - message_id: the assistant message the context was used for
+    - document_ids: documents the chunks came from
+    - search_results: [{ "index", "document_id", "filename", "chunk_index",
+      "score", "excerpt" }], shown as the reply's sources
+
+  3. Security
+    - Users can view the context of their own conversations; only the Edge
+      Function (service role) writes it
+*/
+
+ALTER TABLE public.conversation_context
+  ADD COLUMN IF NOT EXISTS message_id uuid REFERENCES public.messages(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_conversation_context_conversation_id ON public.conversation_context(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_context_message_id ON public.conversation_context(message_id);
+
+ALTER TABLE public.conversation_context ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own conversation context" ON public.conversation_context;
+
+CREATE POLICY "Users can view own conversation context"
+  ON public.conversation_context
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid()));
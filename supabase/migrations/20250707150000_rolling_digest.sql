@@ -0,0 +1,20 @@
+/*
+  # Context Window Management
+
+  Histories longer than the target model's context window are shortened by the
+  Edge Function before they are sent, with a strategy chosen per conversation.
+
+  1. conversations.metadata.context_strategy
+    - "truncate" (default): the oldest messages are left out
+    - "summarize": the oldest messages are replaced by a rolling summary
+
+  2. conversations.context_summary
+    - { "summary", "through_message_id", "updated_at" }
+    - Summary of the branch up to and including through_message_id; extended with
+      newer messages as they fall out of the window, rewritten when the turn is on
+      a branch that does not contain through_message_id
+    - Written by the Edge Function (service role) only
+*/
+
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS context_summary jsonb;
@@ -0,0 +1,23 @@
+/*
+  # Model Reasoning ("Thinking") Output
+
+  Reasoning models can stream their thinking (OpenAI o-series reasoning
+  summaries, Claude extended thinking, Gemini 2.5 thought summaries). It is
+  streamed as `thinking` events and stored apart from the reply.
+
+  1. messages
+    - reasoning: the reasoning text shown with the reply, null when there was none
+    - reasoning_tokens: the part of output_tokens spent on reasoning; reported by
+      OpenAI and Gemini, estimated from the text for Claude
+
+  2. generations.reasoning
+    - Reasoning text so far, persisted next to content so resuming clients can
+      replay it (from the reasoning_offset they already have)
+*/
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS reasoning text,
+  ADD COLUMN IF NOT EXISTS reasoning_tokens integer DEFAULT 0;
+
+ALTER TABLE public.generations
+  ADD COLUMN IF NOT EXISTS reasoning text NOT NULL DEFAULT '';
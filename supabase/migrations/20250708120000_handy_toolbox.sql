@@ -0,0 +1,40 @@
+/*
+  # Tool Calling
+
+  Models can call built-in tools while answering (calculator, current date and
+  time, unit converter, search over the user's own conversations). The Edge
+  Function runs the calls and calls the model again with their results; the
+  steps are streamed as `tool_call` / `tool_result` events.
+
+  1. messages.tool_rounds
+    - The model calls of a reply that ended in tool calls, in order:
+      [{ "content": ..., "calls": [{ "id": ..., "name": ..., "arguments": {...},
+         "result": ..., "is_error": false }] }]
+    - content is the text written before the calls, a prefix of messages.content;
+      later turns replay the rounds as the provider's tool messages
+    - NULL for replies that did not call tools
+
+  2. generations.tool_calls
+    - Tool steps of a streaming generation so far, so resuming clients can
+      replay them
+
+  3. model_pricing.supports_tools
+    - Whether the model is offered the tools; for other models earlier tool
+      turns are sent as plain text
+*/
+
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS tool_rounds jsonb;
+
+ALTER TABLE public.generations
+  ADD COLUMN IF NOT EXISTS tool_calls jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.model_pricing ADD COLUMN IF NOT EXISTS supports_tools boolean NOT NULL DEFAULT false;
+
+UPDATE public.model_pricing
+SET supports_tools = TRUE, updated_at = now()
+WHERE model_name IN (
+  'gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4.1-nano', 'o3', 'o3-mini', 'o4-mini',
+  'claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229',
+  'claude-3-7-sonnet-20250219', 'claude-sonnet-4-20250514', 'claude-opus-4-20250514',
+  'gemini-2.0-flash', 'gemini-1.5-flash', 'gemini-1.5-pro', 'gemini-2.5-flash', 'gemini-2.5-pro'
+);
@@ -0,0 +1,101 @@
+/*
+  # Conversation Search
+
+  The sidebar searches message content and conversation titles server-side with
+  Postgres full-text search.
+
+  1. Indexes
+    - GIN indexes on to_tsvector('english', ...) of messages.content and
+      conversations.title; the search function uses the same expressions
+
+  2. search_conversations(p_query, p_model, p_from, p_to, p_limit)
+    - p_query is parsed with websearch_to_tsquery ("quoted phrases", OR, -word)
+    - One row per matching message, plus one per conversation whose title
+      matches (message_id NULL), best matches first
+    - snippet: ts_headline excerpt, matches wrapped in <mark>...</mark>
+    - p_model filters messages by model_used (title matches are kept when the
+      conversation has a reply from that model); p_from / p_to bound
+      created_at (conversations.updated_at for title matches)
+
+  3. Security
+    - SECURITY INVOKER: row level security applies, so archived conversations
+      stay hidden, and rows are also filtered to auth.uid()
+*/
+
+CREATE INDEX IF NOT EXISTS idx_messages_content_fts
+  ON public.messages USING gin (to_tsvector('english', content));
+
+CREATE INDEX IF NOT EXISTS idx_conversations_title_fts
+  ON public.conversations USING gin (to_tsvector('english', title));
+
+CREATE OR REPLACE FUNCTION public.search_conversations(
+  p_query text,
+  p_model text DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_limit integer DEFAULT 30
+)
+RETURNS TABLE (
+  conversation_id uuid,
+  conversation_title text,
+  message_id uuid,
+  role text,
+  model_used text,
+  snippet text,
+  created_at timestamptz,
+  rank real
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH q AS (
+    SELECT websearch_to_tsquery('english', p_query) AS query
+  )
+  SELECT *
+  FROM (
+    SELECT
+      c.id,
+      c.title,
+      m.id,
+      m.role,
+      m.model_used,
+      ts_headline('english', m.content, q.query,
+        'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "'),
+      m.created_at,
+      ts_rank(to_tsvector('english', m.content), q.query)
+    FROM q, public.messages m
+    JOIN public.conversations c ON c.id = m.conversation_id
+    WHERE c.user_id = auth.uid()
+      AND to_tsvector('english', m.content) @@ q.query
+      AND (p_model IS NULL OR m.model_used = p_model)
+      AND (p_from IS NULL OR m.created_at >= p_from)
+      AND (p_to IS NULL OR m.created_at < p_to)
+
+    UNION ALL
+
+    SELECT
+      c.id,
+      c.title,
+      NULL::uuid,
+      NULL::text,
+      NULL::text,
+      ts_headline('english', c.title, q.query, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true'),
+      c.updated_at,
+      -- Title matches rank above message matches of similar weight
+      ts_rank(to_tsvector('english', c.title), q.query) * 2
+    FROM q, public.conversations c
+    WHERE c.user_id = auth.uid()
+      AND to_tsvector('english', c.title) @@ q.query
+      AND (p_model IS NULL OR EXISTS (
+        SELECT 1 FROM public.messages m WHERE m.conversation_id = c.id AND m.model_used = p_model
+      ))
+      AND (p_from IS NULL OR c.updated_at >= p_from)
+      AND (p_to IS NULL OR c.updated_at < p_to)
+  ) results (conversation_id, conversation_title, message_id, role, model_used, snippet, created_at, rank)
+  ORDER BY rank DESC, created_at DESC
+  LIMIT least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_conversations(text, text, timestamptz, timestamptz, integer) TO authenticated;
@@ -0,0 +1,115 @@
+/*
+  # Archive, Pin and Tag Conversations
+
+  1. conversations SELECT policy
+    - Archived conversations were hidden by the SELECT policy, which also kept
+      them from being updated (so they could never be unarchived). Users can now
+      read all of their own conversations; the sidebar shows archived ones in a
+      separate "Archived" view, and search_conversations finds them too
+
+  2. conversations.is_pinned
+    - Pinned conversations are listed at the top of the sidebar
+
+  3. tags
+    - User-defined tags: name (unique per user) and a colour from the app's
+      palette (gray, red, orange, yellow, green, blue, purple, pink)
+
+  4. conversation_tags
+    - Which tags a conversation has; removed with the conversation or the tag
+
+  5. Security
+    - Users can manage only their own tags, and tag only their own conversations
+      with them
+*/
+
+-- 1. Archived conversations stay readable by their owner
+DROP POLICY IF EXISTS "Users can view own conversations" ON public.conversations;
+
+CREATE POLICY "Users can view own conversations"
+  ON public.conversations
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- 2. Pinning
+ALTER TABLE public.conversations ADD COLUMN IF NOT EXISTS is_pinned boolean NOT NULL DEFAULT false;
+
+-- 3. Tags
+CREATE TABLE IF NOT EXISTS public.tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  color text NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+-- 4. Tag assignments
+CREATE TABLE IF NOT EXISTS public.conversation_tags (
+  conversation_id uuid NOT NULL REFERENCES public.conversations(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_conversation_tags_tag_id ON public.conversation_tags(tag_id);
+
+-- 5. Security
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own tags" ON public.tags;
+DROP POLICY IF EXISTS "Users can create own tags" ON public.tags;
+DROP POLICY IF EXISTS "Users can update own tags" ON public.tags;
+DROP POLICY IF EXISTS "Users can delete own tags" ON public.tags;
+
+CREATE POLICY "Users can view own tags"
+  ON public.tags
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create own tags"
+  ON public.tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own tags"
+  ON public.tags
+  FOR UPDATE
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete own tags"
+  ON public.tags
+  FOR DELETE
+  TO authenticated
+  USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Users can view own conversation tags" ON public.conversation_tags;
+DROP POLICY IF EXISTS "Users can tag own conversations" ON public.conversation_tags;
+DROP POLICY IF EXISTS "Users can untag own conversations" ON public.conversation_tags;
+
+CREATE POLICY "Users can view own conversation tags"
+  ON public.conversation_tags
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid()));
+
+CREATE POLICY "Users can tag own conversations"
+  ON public.conversation_tags
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can untag own conversations"
+  ON public.conversation_tags
+  FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.conversations c WHERE c.id = conversation_id AND c.user_id = auth.uid()));
@@ -0,0 +1,83 @@
+/*
+  # Compare Fan-out Shares One Stream Slot
+
+  A comparison streams one reply per selected model (up to 4) for the same user
+  message. Each column is its own request, so on tiers with few concurrent
+  streams (free: 1, basic: 2) every column after the first was rejected with
+  CONCURRENT_STREAMS.
+
+  1. active_streams.group_id
+    - The user message a comparison answers. The first column sets it once the
+      user message is saved; later columns pass it to open_stream
+
+  2. open_stream(p_user_id, p_limit, p_group_id)
+    - Streams of one group count as a single slot towards p_limit
+    - A stream joining a group that still has an open stream is always
+      allowed, up to 4 streams per group
+*/
+
+-- 1. Stream groups
+ALTER TABLE public.active_streams ADD COLUMN IF NOT EXISTS group_id uuid;
+
+CREATE INDEX IF NOT EXISTS active_streams_group_idx
+  ON public.active_streams (user_id, group_id)
+  WHERE group_id IS NOT NULL;
+
+-- 2. open_stream with groups
+DROP FUNCTION IF EXISTS public.open_stream(uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.open_stream(
+  p_user_id uuid,
+  p_limit integer,
+  p_group_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_group_count integer := 0;
+  v_stream_id uuid;
+BEGIN
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  DELETE FROM active_streams
+  WHERE user_id = p_user_id
+    AND started_at < now() - interval '10 minutes';
+
+  IF p_group_id IS NOT NULL THEN
+    SELECT count(*) INTO v_group_count
+    FROM active_streams
+    WHERE user_id = p_user_id AND group_id = p_group_id;
+  END IF;
+
+  -- Joining a running comparison (at most 4 models) needs no slot of its own
+  IF p_limit <> -1 AND NOT (v_group_count > 0 AND v_group_count < 4) THEN
+    SELECT count(DISTINCT coalesce(group_id, id)) INTO v_count
+    FROM active_streams
+    WHERE user_id = p_user_id;
+
+    IF v_count >= p_limit THEN
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'reason', 'CONCURRENT_STREAMS',
+        'limit', p_limit,
+        'current', v_count,
+        -- Open streams end at unknown times; suggest a short back-off
+        'retry_after', 10
+      );
+    END IF;
+  END IF;
+
+  INSERT INTO active_streams (user_id, group_id)
+  VALUES (p_user_id, p_group_id)
+  RETURNING id INTO v_stream_id;
+
+  RETURN jsonb_build_object('allowed', true, 'stream_id', v_stream_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.open_stream(uuid, integer, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_stream(uuid, integer, uuid) TO service_role;
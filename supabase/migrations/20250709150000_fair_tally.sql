@@ -0,0 +1,56 @@
+/*
+  # Count Compare Replies as Messages in usage_tracking
+
+  reserve_usage counts each reply of a comparison against the daily message
+  allowance, but commit_usage only added chat replies to
+  usage_tracking.messages_sent, so compare messages were missing from the
+  usage history.
+
+  1. commit_usage
+    - 'compare' usage adds to messages_sent like 'chat'; 'prompt_helper' and
+      'summary' still only count tokens
+*/
+
+CREATE OR REPLACE FUNCTION public.commit_usage(
+  p_user_id uuid,
+  p_reserved_tokens integer,
+  p_tokens_used integer,
+  p_model text,
+  p_cost numeric,
+  p_category text DEFAULT 'chat'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  -- Every compare column is reserved as a message, like a chat turn
+  v_messages integer := CASE WHEN p_category IN ('chat', 'compare') THEN 1 ELSE 0 END;
+BEGIN
+  UPDATE users
+  SET monthly_tokens_used = COALESCE(monthly_tokens_used, 0) + p_tokens_used,
+      monthly_tokens_reserved = GREATEST(COALESCE(monthly_tokens_reserved, 0) - p_reserved_tokens, 0)
+  WHERE id = p_user_id;
+
+  INSERT INTO usage_tracking (user_id, date, tokens_used, messages_sent, models_used, cost_incurred, category_usage)
+  VALUES (
+    p_user_id, CURRENT_DATE, p_tokens_used, v_messages, jsonb_build_object(p_model, 1), p_cost,
+    jsonb_build_object(p_category, jsonb_build_object('tokens', p_tokens_used, 'requests', 1, 'cost', p_cost))
+  )
+  ON CONFLICT (user_id, date) DO UPDATE SET
+    tokens_used = COALESCE(usage_tracking.tokens_used, 0) + EXCLUDED.tokens_used,
+    messages_sent = COALESCE(usage_tracking.messages_sent, 0) + EXCLUDED.messages_sent,
+    models_used = COALESCE(usage_tracking.models_used, '{}'::jsonb) || jsonb_build_object(
+      p_model, COALESCE((usage_tracking.models_used ->> p_model)::integer, 0) + 1
+    ),
+    cost_incurred = COALESCE(usage_tracking.cost_incurred, 0) + EXCLUDED.cost_incurred,
+    category_usage = COALESCE(usage_tracking.category_usage, '{}'::jsonb) || jsonb_build_object(
+      p_category, jsonb_build_object(
+        'tokens', COALESCE((usage_tracking.category_usage -> p_category ->> 'tokens')::integer, 0) + p_tokens_used,
+        'requests', COALESCE((usage_tracking.category_usage -> p_category ->> 'requests')::integer, 0) + 1,
+        'cost', COALESCE((usage_tracking.category_usage -> p_category ->> 'cost')::numeric, 0) + p_cost
+      )
+    );
+END;
+$$;
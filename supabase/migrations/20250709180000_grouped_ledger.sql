@@ -0,0 +1,81 @@
+/*
+  # Usage Analytics Aggregates
+
+  The analytics page summed per-model usage in the browser from every assistant
+  message of the period, which the API's row limit cut short for busy users, and
+  ranked conversations by their lifetime token totals. Both are now aggregated
+  in SQL over the requested period.
+
+  1. get_model_usage(p_from, p_to)
+    - One row per model_used: assistant messages, tokens and cost of replies
+      created in [p_from, p_to)
+
+  2. get_conversation_usage(p_from, p_to, p_limit)
+    - The conversations with the most tokens used in [p_from, p_to), with the
+      tokens of that period only
+
+  3. Security
+    - SECURITY INVOKER: row level security applies, and rows are also filtered
+      to auth.uid()
+*/
+
+CREATE OR REPLACE FUNCTION public.get_model_usage(
+  p_from timestamptz,
+  p_to timestamptz
+)
+RETURNS TABLE (
+  model text,
+  messages integer,
+  tokens bigint,
+  cost numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    coalesce(m.model_used, 'unknown'),
+    count(*)::integer,
+    coalesce(sum(m.total_tokens), 0)::bigint,
+    coalesce(sum(m.cost_incurred), 0)
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE c.user_id = auth.uid()
+    AND m.role = 'assistant'
+    AND m.created_at >= p_from
+    AND m.created_at < p_to
+  GROUP BY 1
+  ORDER BY 3 DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_usage(
+  p_from timestamptz,
+  p_to timestamptz,
+  p_limit integer DEFAULT 5
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  tokens bigint,
+  updated_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT c.id, c.title, sum(m.total_tokens)::bigint, c.updated_at
+  FROM public.messages m
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE c.user_id = auth.uid()
+    AND m.created_at >= p_from
+    AND m.created_at < p_to
+  GROUP BY c.id, c.title, c.updated_at
+  HAVING coalesce(sum(m.total_tokens), 0) > 0
+  ORDER BY 3 DESC
+  LIMIT least(greatest(coalesce(p_limit, 5), 1), 50);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_model_usage(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_conversation_usage(timestamptz, timestamptz, integer) TO authenticated;
@@ -0,0 +1,240 @@
+/*
+  # Per-request Usage Reservations
+
+  Reservations were a single counter, users.monthly_tokens_reserved, that
+  expired as a whole 15 minutes after users.tokens_reserved_at. Every new
+  reservation refreshed that timestamp, so a reservation leaked by a crashed
+  invocation (or a failed release_usage) never expired while the user stayed
+  active, and after 15 quiet minutes the holds of generations still running
+  were dropped along with it.
+
+  1. usage_reservations
+    - One row per reservation: the tokens it holds, whether it counted a daily
+      message, and when it was made
+    - Rows older than 15 minutes are expired one by one; an expired row gives
+      its tokens back but keeps its daily message counted
+    - Edge Function only: RLS enabled without policies
+
+  2. Functions (service_role only)
+    - reserve_usage: unchanged parameters; the limit check sums the user's
+      live reservations and the result carries the new reservation_id
+    - commit_usage(p_user_id, p_reservation_id, ...): settles that row;
+      messages_sent counts it when the reservation counted a message
+    - release_usage(p_user_id, p_reservation_id): deletes the row and gives
+      its daily message back
+
+  3. users.monthly_tokens_reserved / users.tokens_reserved_at
+    - Dropped; the reservations table replaces them
+*/
+
+-- 1. Reservations
+CREATE TABLE IF NOT EXISTS public.usage_reservations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  tokens integer NOT NULL CHECK (tokens >= 0),
+  counts_message boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS usage_reservations_user_idx
+  ON public.usage_reservations (user_id, created_at);
+
+ALTER TABLE public.usage_reservations ENABLE ROW LEVEL SECURITY;
+
+-- 2a. reserve_usage
+DROP FUNCTION IF EXISTS public.reserve_usage(uuid, integer, integer, integer, integer, integer, boolean);
+
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user_id uuid,
+  p_prompt_tokens integer,
+  p_requested_output_tokens integer,
+  p_min_output_tokens integer,
+  p_daily_limit integer,
+  p_monthly_limit integer,
+  p_count_message boolean DEFAULT true
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_used integer;
+  v_reserved integer;
+  v_remaining integer;
+  v_output integer;
+  v_reservation_id uuid;
+BEGIN
+  -- Row lock serialises concurrent requests for the same user
+  SELECT * INTO v_user FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  v_used := COALESCE(v_user.monthly_tokens_used, 0);
+
+  -- Reservations older than 15 minutes belong to invocations that never finished
+  DELETE FROM usage_reservations
+  WHERE user_id = p_user_id
+    AND created_at < now() - interval '15 minutes';
+
+  SELECT COALESCE(sum(tokens), 0) INTO v_reserved
+  FROM usage_reservations
+  WHERE user_id = p_user_id;
+
+  v_remaining := GREATEST(p_monthly_limit - v_used - v_reserved, 0);
+
+  IF p_count_message AND p_daily_limit <> -1 AND COALESCE(v_user.daily_messages_sent, 0) >= p_daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'DAILY_MESSAGE_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  IF v_remaining = 0 THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'MONTHLY_TOKEN_LIMIT_EXCEEDED',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  IF v_remaining < p_prompt_tokens + p_min_output_tokens THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'INSUFFICIENT_TOKEN_BUDGET',
+      'messages_used', COALESCE(v_user.daily_messages_sent, 0),
+      'tokens_used', v_used,
+      'tokens_reserved', v_reserved,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  v_output := LEAST(p_requested_output_tokens, v_remaining - p_prompt_tokens);
+
+  IF p_count_message THEN
+    UPDATE users
+    SET daily_messages_sent = COALESCE(daily_messages_sent, 0) + 1
+    WHERE id = p_user_id;
+  END IF;
+
+  INSERT INTO usage_reservations (user_id, tokens, counts_message)
+  VALUES (p_user_id, p_prompt_tokens + v_output, p_count_message)
+  RETURNING id INTO v_reservation_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'reservation_id', v_reservation_id,
+    'output_tokens', v_output,
+    'reservation', p_prompt_tokens + v_output,
+    'messages_used', COALESCE(v_user.daily_messages_sent, 0) + CASE WHEN p_count_message THEN 1 ELSE 0 END,
+    'tokens_used', v_used,
+    'tokens_reserved', v_reserved + p_prompt_tokens + v_output,
+    'remaining_tokens', v_remaining - p_prompt_tokens - v_output
+  );
+END;
+$$;
+
+-- 2b. commit_usage settles one reservation
+DROP FUNCTION IF EXISTS public.commit_usage(uuid, integer, integer, text, numeric, text);
+
+CREATE OR REPLACE FUNCTION public.commit_usage(
+  p_user_id uuid,
+  p_reservation_id uuid,
+  p_tokens_used integer,
+  p_model text,
+  p_cost numeric,
+  p_category text DEFAULT 'chat'
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_counts_message boolean;
+  v_messages integer;
+BEGIN
+  DELETE FROM usage_reservations
+  WHERE id = p_reservation_id AND user_id = p_user_id
+  RETURNING counts_message INTO v_counts_message;
+
+  -- An expired reservation is gone; fall back to what its category reserves
+  v_messages := CASE
+    WHEN COALESCE(v_counts_message, p_category IN ('chat', 'compare')) THEN 1
+    ELSE 0
+  END;
+
+  UPDATE users
+  SET monthly_tokens_used = COALESCE(monthly_tokens_used, 0) + p_tokens_used
+  WHERE id = p_user_id;
+
+  INSERT INTO usage_tracking (user_id, date, tokens_used, messages_sent, models_used, cost_incurred, category_usage)
+  VALUES (
+    p_user_id, CURRENT_DATE, p_tokens_used, v_messages, jsonb_build_object(p_model, 1), p_cost,
+    jsonb_build_object(p_category, jsonb_build_object('tokens', p_tokens_used, 'requests', 1, 'cost', p_cost))
+  )
+  ON CONFLICT (user_id, date) DO UPDATE SET
+    tokens_used = COALESCE(usage_tracking.tokens_used, 0) + EXCLUDED.tokens_used,
+    messages_sent = COALESCE(usage_tracking.messages_sent, 0) + EXCLUDED.messages_sent,
+    models_used = COALESCE(usage_tracking.models_used, '{}'::jsonb) || jsonb_build_object(
+      p_model, COALESCE((usage_tracking.models_used ->> p_model)::integer, 0) + 1
+    ),
+    cost_incurred = COALESCE(usage_tracking.cost_incurred, 0) + EXCLUDED.cost_incurred,
+    category_usage = COALESCE(usage_tracking.category_usage, '{}'::jsonb) || jsonb_build_object(
+      p_category, jsonb_build_object(
+        'tokens', COALESCE((usage_tracking.category_usage -> p_category ->> 'tokens')::integer, 0) + p_tokens_used,
+        'requests', COALESCE((usage_tracking.category_usage -> p_category ->> 'requests')::integer, 0) + 1,
+        'cost', COALESCE((usage_tracking.category_usage -> p_category ->> 'cost')::numeric, 0) + p_cost
+      )
+    );
+END;
+$$;
+
+-- 2c. release_usage gives one reservation back
+DROP FUNCTION IF EXISTS public.release_usage(uuid, integer, boolean);
+
+CREATE OR REPLACE FUNCTION public.release_usage(
+  p_user_id uuid,
+  p_reservation_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_counts_message boolean;
+BEGIN
+  DELETE FROM usage_reservations
+  WHERE id = p_reservation_id AND user_id = p_user_id
+  RETURNING counts_message INTO v_counts_message;
+
+  IF v_counts_message THEN
+    UPDATE users
+    SET daily_messages_sent = GREATEST(COALESCE(daily_messages_sent, 0) - 1, 0)
+    WHERE id = p_user_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage(uuid, integer, integer, integer, integer, integer, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.commit_usage(uuid, uuid, integer, text, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_usage(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.reserve_usage(uuid, integer, integer, integer, integer, integer, boolean) TO service_role;
+GRANT EXECUTE ON FUNCTION public.commit_usage(uuid, uuid, integer, text, numeric, text) TO service_role;
+GRANT EXECUTE ON FUNCTION public.release_usage(uuid, uuid) TO service_role;
+
+-- 3. Old reservation counter
+ALTER TABLE public.users DROP COLUMN IF EXISTS monthly_tokens_reserved;
+ALTER TABLE public.users DROP COLUMN IF EXISTS tokens_reserved_at;
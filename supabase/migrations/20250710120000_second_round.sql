@@ -0,0 +1,80 @@
+/*
+  # Extend a Reservation for Tool Rounds
+
+  A reply that calls tools is generated in several rounds, each re-sending the
+  history. reserve_usage holds the first round (prompt + requested output);
+  every further round now grows that reservation before it runs, instead of
+  squeezing all rounds into the first round's hold.
+
+  1. extend_usage(p_user_id, p_reservation_id, p_requested_tokens, p_min_tokens, p_monthly_limit)
+    - Adds up to p_requested_tokens to the reservation, as much as the monthly
+      quota leaves; nothing when less than p_min_tokens is left or the
+      reservation has expired
+    - Returns { allowed, tokens (added), remaining_tokens }
+    - service_role only
+*/
+
+CREATE OR REPLACE FUNCTION public.extend_usage(
+  p_user_id uuid,
+  p_reservation_id uuid,
+  p_requested_tokens integer,
+  p_min_tokens integer,
+  p_monthly_limit integer
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_used integer;
+  v_reserved integer;
+  v_remaining integer;
+  v_tokens integer;
+BEGIN
+  -- Same row lock as reserve_usage
+  SELECT COALESCE(monthly_tokens_used, 0) INTO v_used FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found: %', p_user_id;
+  END IF;
+
+  PERFORM 1 FROM usage_reservations
+  WHERE id = p_reservation_id
+    AND user_id = p_user_id
+    AND created_at >= now() - interval '15 minutes';
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'RESERVATION_EXPIRED', 'tokens', 0);
+  END IF;
+
+  SELECT COALESCE(sum(tokens), 0) INTO v_reserved
+  FROM usage_reservations
+  WHERE user_id = p_user_id
+    AND created_at >= now() - interval '15 minutes';
+
+  v_remaining := GREATEST(p_monthly_limit - v_used - v_reserved, 0);
+
+  IF v_remaining < p_min_tokens THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'INSUFFICIENT_TOKEN_BUDGET',
+      'tokens', 0,
+      'remaining_tokens', v_remaining
+    );
+  END IF;
+
+  v_tokens := LEAST(p_requested_tokens, v_remaining);
+
+  UPDATE usage_reservations SET tokens = tokens + v_tokens WHERE id = p_reservation_id;
+
+  RETURN jsonb_build_object(
+    'allowed', true,
+    'tokens', v_tokens,
+    'remaining_tokens', v_remaining - v_tokens
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.extend_usage(uuid, uuid, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.extend_usage(uuid, uuid, integer, integer, integer) TO service_role;
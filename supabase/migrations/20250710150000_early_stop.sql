@@ -0,0 +1,31 @@
+/*
+  # Stop a Generation Before It Starts
+
+  The client only learned a generation's id from the stream's first event, so a
+  stop pressed before it arrived could only drop the connection: the Edge
+  Function went on to generate (and bill) the whole reply in the background.
+  The client now chooses the generation id and sends it with the chat request.
+
+  1. New table generation_cancels
+    - A stop request for a generation id that has no streaming row yet; the chat
+      request claims it right after inserting its generations row and stops
+      before calling the provider
+    - Unclaimed rows are pruned with the user's old generations
+    - Edge Function only: RLS enabled without policies
+
+  2. generations.cancel_requested
+    - Now polled every 500 ms while the generation runs, instead of only when
+      content is flushed (or on the 5 second heartbeat)
+*/
+
+CREATE TABLE IF NOT EXISTS public.generation_cancels (
+  generation_id uuid NOT NULL,
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (generation_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS generation_cancels_user_created_idx
+  ON public.generation_cancels (user_id, created_at);
+
+ALTER TABLE public.generation_cancels ENABLE ROW LEVEL SECURITY;
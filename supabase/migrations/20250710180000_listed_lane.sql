@@ -0,0 +1,98 @@
+/*
+  # Only a Comparison's Own Models Share Its Stream Slot
+
+  open_stream let any compare+regenerate request join a group that still had an
+  open stream, so repeating regenerates under one user message ran up to 4
+  streams on a free tier's single slot.
+
+  1. active_streams.model / active_streams.group_models
+    - model: the model the stream is generating with
+    - group_models: the models the comparison was opened with; the opening
+      stream records them with its group_id, joining streams copy them
+
+  2. open_stream(p_user_id, p_limit, p_model, p_group_id)
+    - A stream joins a group without a slot of its own only when its model is
+      one of the group's models and is not streaming in the group already
+    - Anything else (including a regenerate under a message that is not being
+      compared) counts towards p_limit as before
+*/
+
+-- 1. Stream models
+ALTER TABLE public.active_streams ADD COLUMN IF NOT EXISTS model text;
+ALTER TABLE public.active_streams ADD COLUMN IF NOT EXISTS group_models text[];
+
+-- 2. open_stream joins only listed models
+DROP FUNCTION IF EXISTS public.open_stream(uuid, integer, uuid);
+
+CREATE OR REPLACE FUNCTION public.open_stream(
+  p_user_id uuid,
+  p_limit integer,
+  p_model text,
+  p_group_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+  v_group_count integer := 0;
+  v_group_models text[];
+  v_joins boolean := false;
+  v_stream_id uuid;
+BEGIN
+  PERFORM 1 FROM users WHERE id = p_user_id FOR UPDATE;
+
+  DELETE FROM active_streams
+  WHERE user_id = p_user_id
+    AND started_at < now() - interval '10 minutes';
+
+  IF p_group_id IS NOT NULL THEN
+    SELECT count(*), max(group_models) INTO v_group_count, v_group_models
+    FROM active_streams
+    WHERE user_id = p_user_id AND group_id = p_group_id;
+
+    -- Joining a running comparison needs no slot of its own, once per listed model
+    v_joins := v_group_count > 0
+      AND v_group_count < 4
+      AND p_model = ANY (COALESCE(v_group_models, '{}'))
+      AND NOT EXISTS (
+        SELECT 1 FROM active_streams
+        WHERE user_id = p_user_id AND group_id = p_group_id AND model = p_model
+      );
+  END IF;
+
+  IF p_limit <> -1 AND NOT v_joins THEN
+    SELECT count(DISTINCT coalesce(group_id, id)) INTO v_count
+    FROM active_streams
+    WHERE user_id = p_user_id;
+
+    IF v_count >= p_limit THEN
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'reason', 'CONCURRENT_STREAMS',
+        'limit', p_limit,
+        'current', v_count,
+        -- Open streams end at unknown times; suggest a short back-off
+        'retry_after', 10
+      );
+    END IF;
+  END IF;
+
+  -- A stream that does not join gets no group, and so a slot of its own
+  INSERT INTO active_streams (user_id, model, group_id, group_models)
+  VALUES (
+    p_user_id,
+    p_model,
+    CASE WHEN v_joins THEN p_group_id END,
+    CASE WHEN v_joins THEN v_group_models END
+  )
+  RETURNING id INTO v_stream_id;
+
+  RETURN jsonb_build_object('allowed', true, 'stream_id', v_stream_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.open_stream(uuid, integer, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.open_stream(uuid, integer, text, uuid) TO service_role;
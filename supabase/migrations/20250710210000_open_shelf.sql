@@ -0,0 +1,21 @@
+/*
+  # Pro Includes Every Active Model
+
+  Pro's allowed_models was filled from model_pricing when the catalog migration
+  ran, so a model added to the catalog later was not offered to Pro until its
+  list was edited by hand as well.
+
+  1. subscription_tiers.allowed_models
+    - NULL now means "every active model in model_pricing"; the Edge Function's
+      catalog resolves it when loading, so GET /models and the chat checks see
+      the full list
+    - An empty array still means no models
+
+  2. Pro
+    - allowed_models set to NULL
+*/
+
+UPDATE public.subscription_tiers
+SET allowed_models = NULL,
+    updated_at = now()
+WHERE tier_name = 'pro';